@@ -0,0 +1,359 @@
+#!/usr/bin/env bun
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { GraphqlRequest, GraphqlTransport } from '../src/data/adapters/graphql';
+import { loadShopifyContextInput } from '../src/data/adapters/shopify.adapter';
+import { buildWpGraphqlQuery, loadWpGraphqlContextInput } from '../src/data/adapters/wpgraphql.adapter';
+import type { PlatformMap } from '../src/data/adapters/platform-map';
+import wpgraphqlMap from '../schemas/platform-map/wpgraphql.json';
+
+type AdapterTest = {
+  name: string;
+  run: () => Promise<void>;
+};
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, '..');
+const RECORDED_DIR = join(ROOT, 'fixtures', 'recorded');
+
+function readRecorded(relPath: string): unknown {
+  return JSON.parse(readFileSync(join(RECORDED_DIR, relPath), 'utf-8'));
+}
+
+/** Transport replaying one recorded response and capturing the requests sent. */
+function recordedTransport(response: unknown, requests: GraphqlRequest[] = []): GraphqlTransport {
+  return async <T>(request: GraphqlRequest) => {
+    requests.push(request);
+    return response as { data?: T };
+  };
+}
+
+const tests: AdapterTest[] = [
+  {
+    name: 'shopify: maps products and collections into the menu fixture',
+    async run() {
+      const requests: GraphqlRequest[] = [];
+      const input = await loadShopifyContextInput({
+        transport: recordedTransport(readRecorded('shopify/catalog.json'), requests),
+        first: 50,
+      });
+      const [salmon, tartare] = input.fixtures.menu.items;
+
+      assert.equal(requests.length, 1);
+      assert.deepEqual(requests[0]!.variables, {
+        first: 50,
+        promotionType: 'promotion',
+        collectionsAfter: null,
+        productsAfter: null,
+        promotionsAfter: null,
+      });
+      assert.deepEqual(input.fixtures.menu.categories, [
+        { id: 'grill', title: 'Grill' },
+        { id: 'cold-starters', title: 'Cold Starters' },
+      ]);
+
+      assert.equal(salmon!.id, 'grill-salmon-steak');
+      assert.deepEqual(salmon!.price, { amount: 890, currency: 'RUB', display: '₽890' });
+      assert.equal(salmon!.compareAtPrice?.amount, 990);
+      assert.deepEqual(salmon!.category, { id: 'grill', title: 'Grill' });
+      assert.equal(salmon!.image.alt, 'Salmon Steak on the Grill');
+      assert.equal(salmon!.availability, 'limited');
+      assert.deepEqual(
+        salmon!.variants.map((variant) => [variant.title, variant.priceModifier.amount]),
+        [['200g', 0], ['300g', 200]]
+      );
+      assert.equal(salmon!.modifiers[0]?.price.display, '+₽50');
+      assert.deepEqual(salmon!.promotionIds, ['happy-hour-grill']);
+
+      assert.equal(tartare!.availability, 'unavailable');
+      assert.equal(tartare!.compareAtPrice, undefined);
+      assert.deepEqual(tartare!.category, { id: 'Cold Starters', title: 'Cold Starters' });
+      assert.deepEqual(tartare!.variants, []);
+      assert.equal(tartare!.details, 'Hand-cut beef, capers, quail egg.');
+    },
+  },
+  {
+    name: 'shopify: maps promotion metaobjects and keeps non-catalog fixtures',
+    async run() {
+      const input = await loadShopifyContextInput({
+        transport: recordedTransport(readRecorded('shopify/catalog.json')),
+      });
+      const [promotion] = input.fixtures.promotions.items;
+
+      assert.equal(promotion!.slug, 'happy-hour-grill');
+      assert.equal(promotion!.badge, '-15%');
+      assert.deepEqual(promotion!.discount, {
+        type: 'percentage',
+        value: 15,
+        appliesTo: { categoryIds: ['grill'], productIds: [] },
+        couponCode: '',
+      });
+      assert.equal(promotion!.image.src, 'https://cdn.shopify.com/s/files/1/0001/happy-hour.jpg');
+      assert.equal(input.fixtures.promotions.title, 'Promotions');
+      assert.equal(input.fixtures.blog.posts.length > 0, true);
+    },
+  },
+  {
+    name: 'shopify: skips and reports promotions missing required fields',
+    async run() {
+      const response = readRecorded('shopify/catalog.json') as {
+        data: { metaobjects: { nodes: Array<{ handle: string; fields: Array<{ key: string }> }> } };
+      };
+      const [metaobject] = response.data.metaobjects.nodes;
+      metaobject!.fields = metaobject!.fields.filter((field) => field.key !== 'discount_type');
+      const skipped: string[] = [];
+      const input = await loadShopifyContextInput({
+        transport: recordedTransport(response),
+        onSkip: (message) => skipped.push(message),
+      });
+
+      assert.deepEqual(input.fixtures.promotions.items, []);
+      assert.deepEqual(skipped, ['Shopify promotion "happy-hour-grill" skipped: missing discount_type']);
+    },
+  },
+  {
+    name: 'shopify: follows pageInfo cursors until every connection is exhausted',
+    async run() {
+      type Connection = { nodes: Array<{ handle: string }>; pageInfo: { hasNextPage: boolean; endCursor: string | null } };
+      type CatalogResponse = { data: { collections: Connection; products: Connection; metaobjects: Connection } };
+      const recorded = readRecorded('shopify/catalog.json') as CatalogResponse;
+      const [salmon, tartare] = recorded.data.products.nodes;
+      const firstPage = structuredClone(recorded);
+      firstPage.data.products = { nodes: [salmon!], pageInfo: { hasNextPage: true, endCursor: 'cursor-products-1' } };
+      const secondPage = structuredClone(recorded);
+      secondPage.data.collections = { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } };
+      secondPage.data.products = { nodes: [tartare!], pageInfo: { hasNextPage: false, endCursor: 'cursor-products-2' } };
+      secondPage.data.metaobjects = { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } };
+
+      const pages = [firstPage, secondPage];
+      const requests: GraphqlRequest[] = [];
+      const transport: GraphqlTransport = async <T>(request: GraphqlRequest) => {
+        requests.push(request);
+        return pages[requests.length - 1] as { data?: T };
+      };
+      const input = await loadShopifyContextInput({ transport, first: 1 });
+
+      assert.equal(requests.length, 2);
+      assert.deepEqual(requests[1]!.variables, {
+        first: 1,
+        promotionType: 'promotion',
+        collectionsAfter: 'cursor-collections-2',
+        productsAfter: 'cursor-products-1',
+        promotionsAfter: 'cursor-promotions-1',
+      });
+      assert.deepEqual(input.fixtures.menu.items.map((item) => item.id), ['grill-salmon-steak', 'beef-tartare']);
+      assert.equal(input.fixtures.menu.categories.length, 2);
+      assert.equal(input.fixtures.promotions.items.length, 1);
+    },
+  },
+  {
+    name: 'shopify: skips and reports products without a collection or product type',
+    async run() {
+      const response = readRecorded('shopify/catalog.json') as {
+        data: { products: { nodes: Array<{ handle: string; productType: string }> } };
+      };
+      const tartare = response.data.products.nodes.find((product) => product.handle === 'beef-tartare');
+      tartare!.productType = '';
+      const skipped: string[] = [];
+      const input = await loadShopifyContextInput({
+        transport: recordedTransport(response),
+        onSkip: (message) => skipped.push(message),
+      });
+
+      assert.deepEqual(input.fixtures.menu.items.map((item) => item.id), ['grill-salmon-steak']);
+      assert.deepEqual(skipped, [
+        'Shopify product "beef-tartare" skipped: missing category (no collection or productType)',
+      ]);
+    },
+  },
+  {
+    name: 'shopify: surfaces GraphQL errors',
+    async run() {
+      const transport = recordedTransport({ errors: [{ message: 'Access denied for metaobjects field.' }] });
+      await assert.rejects(
+        loadShopifyContextInput({ transport }),
+        /Shopify Storefront query failed: Access denied for metaobjects field\./
+      );
+    },
+  },
+  {
+    name: 'shopify: posts to the Storefront endpoint with the access token',
+    async run() {
+      const calls: Array<{ url: string; init: RequestInit }> = [];
+      const fetchStub = (async (url: string, init: RequestInit) => {
+        calls.push({ url, init });
+        return new Response(JSON.stringify(readRecorded('shopify/catalog.json')), { status: 200 });
+      }) as unknown as typeof fetch;
+
+      await loadShopifyContextInput({ storeDomain: 'resta.myshopify.com', accessToken: 'token', fetch: fetchStub });
+
+      assert.equal(calls[0]!.url, 'https://resta.myshopify.com/api/2024-01/graphql.json');
+      assert.equal((calls[0]!.init.headers as Record<string, string>)['X-Shopify-Storefront-Access-Token'], 'token');
+      await assert.rejects(loadShopifyContextInput({}), /requires storeDomain and accessToken/);
+    },
+  },
+  {
+    name: 'wpgraphql: maps menu_item posts into the menu fixture via the platform map',
+    async run() {
+      const requests: GraphqlRequest[] = [];
+      const input = await loadWpGraphqlContextInput({
+        transport: recordedTransport(readRecorded('wpgraphql/content.json'), requests),
+        currency: 'RUB',
+      });
+      const [salmon, tartare, ribeye] = input.fixtures.menu.items;
+
+      assert.equal(requests.length, 1);
+      assert.deepEqual(requests[0]!.variables, { first: 100 });
+      assert.deepEqual(input.fixtures.menu.categories, [
+        { id: 'grill', title: 'Grill' },
+        { id: 'cold-starters', title: 'Cold Starters' },
+      ]);
+
+      assert.equal(salmon!.id, 'grill-salmon-steak');
+      assert.equal(salmon!.description, 'Atlantic salmon with lemon & herbs.');
+      assert.deepEqual(salmon!.price, { amount: 890, currency: 'RUB', display: '₽890' });
+      assert.equal(salmon!.compareAtPrice?.display, '₽990');
+      assert.deepEqual(salmon!.image, {
+        src: 'https://cms.example.com/wp-content/uploads/salmon.jpg',
+        alt: '',
+        width: 1200,
+        height: 800,
+      });
+      assert.equal(salmon!.availability, 'limited');
+      assert.equal(salmon!.variants[0]?.title, '200g');
+      assert.deepEqual(salmon!.promotionIds, ['happy-hour-grill']);
+
+      assert.equal(tartare!.price.display, '650 ₽');
+      assert.equal(tartare!.availability, 'available');
+      assert.equal(tartare!.image.alt, 'Beef Tartare');
+      assert.deepEqual(tartare!.promotionIds, []);
+      assert.equal(ribeye!.modifiers[0]?.price.display, '+₽90');
+    },
+  },
+  {
+    name: 'wpgraphql: maps pages to guide items and posts to blog posts',
+    async run() {
+      const input = await loadWpGraphqlContextInput({
+        transport: recordedTransport(readRecorded('wpgraphql/content.json')),
+      });
+      const [guide] = input.fixtures.recipes.items;
+      const [post] = input.fixtures.blog.posts;
+
+      assert.equal(guide!.slug, 'grilled-salmon-at-home');
+      assert.equal(guide!.excerpt, 'Our chef’s salmon, step by step.');
+      assert.equal(guide!.linkedMenuItemId, 'grill-salmon-steak');
+      assert.deepEqual(guide!.cookTime, { prep: 10, cook: 15, total: 25 });
+      assert.equal(guide!.servings, 2);
+      assert.equal(guide!.ingredients?.[0]?.name, 'Salmon fillet');
+      assert.equal(guide!.steps?.[0]?.body, 'Heat the grill.');
+
+      assert.equal(post!.body, 'Book a table outside all summer.');
+      assert.equal(post!.author, 'Anna');
+      assert.equal(post!.date, '2026-05-28T09:30:00Z');
+      assert.equal(post!.image.alt, 'Terrace at sunset');
+      assert.equal(input.fixtures.blog.title.length > 0, true);
+      assert.equal(input.fixtures.promotions.items.length > 0, true);
+    },
+  },
+  {
+    name: 'wpgraphql: skips and reports guide and blog records missing required fields',
+    async run() {
+      const response = readRecorded('wpgraphql/content.json') as {
+        data: { pages: { nodes: Array<Record<string, unknown>> }; posts: { nodes: Array<Record<string, unknown>> } };
+      };
+      delete response.data.pages.nodes[0]!.dateGmt;
+      delete response.data.posts.nodes[0]!.author;
+      const skipped: string[] = [];
+      const input = await loadWpGraphqlContextInput({
+        transport: recordedTransport(response),
+        onSkip: (message) => skipped.push(message),
+      });
+
+      assert.deepEqual(input.fixtures.recipes.items, []);
+      assert.deepEqual(input.fixtures.blog.posts, []);
+      assert.deepEqual(skipped, [
+        'WPGraphQL guide record "grilled-salmon-at-home" skipped: missing date',
+        'WPGraphQL blog record "summer-terrace-opening" skipped: missing author',
+      ]);
+    },
+  },
+  {
+    name: 'wpgraphql: skips and reports catalog items without a price or category',
+    async run() {
+      const response = readRecorded('wpgraphql/content.json') as {
+        data: { catalogItems: { nodes: Array<Record<string, any>> } };
+      };
+      const [first, second] = response.data.catalogItems.nodes;
+      delete first!.catalogFields.price;
+      second!.menuCategories.nodes = [];
+      const skipped: string[] = [];
+      const input = await loadWpGraphqlContextInput({
+        transport: recordedTransport(response),
+        onSkip: (message) => skipped.push(message),
+      });
+
+      assert.equal(input.fixtures.menu.items.length, response.data.catalogItems.nodes.length - 2);
+      assert.equal(input.fixtures.menu.items.some((item) => item.price.amount === 0 || item.category.id === ''), false);
+      assert.deepEqual(skipped, [
+        `WPGraphQL catalog record "${first!.slug}" skipped: missing price.amount`,
+        `WPGraphQL catalog record "${second!.slug}" skipped: missing category.id`,
+      ]);
+    },
+  },
+  {
+    name: 'wpgraphql: builds the query from the wpgraphql adapter map',
+    async run() {
+      const query = buildWpGraphqlQuery(wpgraphqlMap as PlatformMap, { guideParent: 'cG9zdDo0Mg==' });
+
+      assert.match(query, /query CanonicalContent\(\$first: Int!, \$guideParent: ID\)/);
+      assert.match(query, /catalogItems\(first: \$first\) \{\n\s+nodes \{/);
+      assert.match(query, /pages\(first: \$first, where: \{ parent: \$guideParent \}\)/);
+      assert.match(query, /menuCategories \{\n\s+nodes \{\n\s+slug\n\s+name/);
+      assert.match(query, /promotions \{\n\s+nodes \{\n\s+slug/);
+      assert.match(query, /author \{\n\s+node \{\n\s+name/);
+    },
+  },
+  {
+    name: 'wpgraphql: posts to the endpoint and surfaces GraphQL errors',
+    async run() {
+      const calls: Array<{ url: string; init: RequestInit }> = [];
+      const fetchStub = (async (url: string, init: RequestInit) => {
+        calls.push({ url, init });
+        return new Response(JSON.stringify(readRecorded('wpgraphql/content.json')), { status: 200 });
+      }) as unknown as typeof fetch;
+
+      await loadWpGraphqlContextInput({ endpoint: 'https://cms.example.com/graphql', authToken: 'secret', fetch: fetchStub });
+
+      assert.equal(calls[0]!.url, 'https://cms.example.com/graphql');
+      assert.equal((calls[0]!.init.headers as Record<string, string>).Authorization, 'Bearer secret');
+      await assert.rejects(loadWpGraphqlContextInput({}), /requires an endpoint/);
+      await assert.rejects(
+        loadWpGraphqlContextInput({
+          transport: recordedTransport({ errors: [{ message: 'Cannot query field "catalogItems" on type "RootQuery".' }] }),
+        }),
+        /WPGraphQL query failed: Cannot query field "catalogItems"/
+      );
+    },
+  },
+];
+
+async function run(): Promise<void> {
+  let failed = 0;
+  for (const test of tests) {
+    try {
+      await test.run();
+      console.log(`✓ ${test.name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${test.name}`);
+      console.error(`  ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`\nAdapter tests: ${tests.length - failed}/${tests.length} passed`);
+  if (failed > 0) process.exit(1);
+}
+
+await run();
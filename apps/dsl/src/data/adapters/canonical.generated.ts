@@ -0,0 +1,199 @@
+/**
+ * Generated from schemas/canonical/*.schema.json by `ui8kit-generate types:canonical`.
+ * Do not edit: change the schema and regenerate.
+ */
+
+/** From blog-post.schema.json */
+export type BlogPost = {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string;
+  body: string;
+  image: Image;
+  date: string;
+  author: string;
+};
+
+/** From catalog-item.schema.json */
+export type CatalogItem = {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  price: Price;
+  compareAtPrice?: Price;
+  category: Category;
+  image: Image;
+  details?: string;
+  availability: 'available' | 'unavailable' | 'limited';
+  variants: {
+    id: string;
+    title: string;
+    priceModifier: Price;
+  }[];
+  modifiers: {
+    id: string;
+    title: string;
+    price: Price;
+    type: 'checkbox' | 'radio';
+  }[];
+  promotionIds: string[];
+};
+
+/** From guide-item.schema.json */
+export type GuideItem = {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string;
+  body: string;
+  image: Image;
+  date: string;
+  category?: Category;
+  linkedMenuItemId?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  cookTime?: CookTime;
+  servings?: number;
+  ingredients?: Ingredient[];
+  steps?: RecipeStep[];
+  tags?: string[];
+  nutrition?: Nutrition;
+};
+
+/** From guide-item.schema.json#/$defs/Ingredient */
+export type Ingredient = {
+  id: string;
+  amount: number;
+  unit: string;
+  name: string;
+  note?: string;
+};
+
+/** From guide-item.schema.json#/$defs/RecipeStep */
+export type RecipeStep = {
+  id: string;
+  step: number;
+  title?: string;
+  body: string;
+};
+
+/** From guide-item.schema.json#/$defs/CookTime */
+export type CookTime = {
+  prep: number;
+  cook: number;
+  total: number;
+};
+
+/** From guide-item.schema.json#/$defs/Nutrition */
+export type Nutrition = {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+};
+
+/** From landing.schema.json */
+export type Landing = {
+  title: string;
+  subtitle: string;
+  ctaText: string;
+  ctaUrl: string;
+  secondaryCtaText: string;
+  secondaryCtaUrl: string;
+};
+
+/** From navigation.schema.json */
+export type Navigation = {
+  navItems: {
+    id: string;
+    title: string;
+    url: string;
+  }[];
+  sidebarLinks: {
+    label: string;
+    href: string;
+  }[];
+  adminSidebarLinks: {
+    label: string;
+    href: string;
+    active: boolean;
+  }[];
+  labels: {
+    adminSidebarLabel: string;
+  };
+};
+
+/** From page.schema.json */
+export type PageRegistry = {
+  seo?: Seo;
+  page: {
+    website: PageEntry[];
+    admin: PageEntry[];
+  };
+};
+
+/** From page.schema.json#/$defs/PageEntry */
+export type PageEntry = {
+  id: string;
+  domain: string;
+  title: string;
+  path: string;
+  component: string;
+};
+
+/** From promo-item.schema.json */
+export type PromotionItem = {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  validUntil: string;
+  discount: {
+    type: 'percentage' | 'fixed' | 'combo';
+    value: number;
+    appliesTo: {
+      categoryIds: string[];
+      productIds: string[];
+    };
+    couponCode: string;
+  };
+  badge: string;
+  image: Image;
+  details?: string;
+};
+
+/** From shared-types.schema.json#/$defs/Price */
+export type Price = {
+  amount: number;
+  currency: string;
+  display: string;
+};
+
+/** From shared-types.schema.json#/$defs/Image */
+export type Image = {
+  src: string;
+  alt: string;
+  width?: number;
+  height?: number;
+};
+
+/** From shared-types.schema.json#/$defs/Category */
+export type Category = {
+  id: string;
+  title: string;
+};
+
+/** From shared-types.schema.json#/$defs/Seo */
+export type Seo = {
+  title: string;
+  description: string;
+  ogImage?: string;
+};
+
+/** From site.schema.json */
+export type Site = {
+  title: string;
+  subtitle: string;
+  description: string;
+};
@@ -0,0 +1,57 @@
+/**
+ * GraphQL transport shared by the remote adapters.
+ * Adapters accept any `GraphqlTransport`, so tests replay recorded responses
+ * instead of calling the API.
+ */
+
+export type GraphqlRequest = {
+  query: string;
+  variables: Record<string, unknown>;
+};
+
+export type GraphqlResponse<T> = {
+  data?: T;
+  errors?: Array<{ message: string }>;
+};
+
+export type GraphqlTransport = <T>(request: GraphqlRequest) => Promise<GraphqlResponse<T>>;
+
+export type GraphqlFetchTransportOptions = {
+  endpoint: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+  /** Source name used in error messages, e.g. `Shopify Storefront` */
+  label: string;
+};
+
+/**
+ * Transport posting JSON requests to a GraphQL endpoint.
+ */
+export function createGraphqlFetchTransport(options: GraphqlFetchTransportOptions): GraphqlTransport {
+  const fetchImpl = options.fetch ?? fetch;
+
+  return async <T>(request: GraphqlRequest): Promise<GraphqlResponse<T>> => {
+    const response = await fetchImpl(options.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error(`${options.label} request failed: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as GraphqlResponse<T>;
+  };
+}
+
+/**
+ * Return `data` or throw with every GraphQL error message.
+ */
+export function unwrapGraphqlResponse<T>(response: GraphqlResponse<T>, label: string): T {
+  if (response.errors?.length) {
+    throw new Error(`${label} query failed: ${response.errors.map((error) => error.message).join('; ')}`);
+  }
+  if (!response.data) {
+    throw new Error(`${label} query returned no data.`);
+  }
+  return response.data;
+}
@@ -0,0 +1,13 @@
+/**
+ * Price display strings for adapters whose source has no formatted price.
+ * `sign` prefixes modifiers, e.g. `+₽50`.
+ */
+export function formatMoney(amount: number, currency: string, locale: string, sign = ''): string {
+  const formatted = new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'narrowSymbol',
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+  }).format(amount);
+  return `${sign}${formatted}`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Platform map runtime for data adapters.
+ * Reads `schemas/platform-map/*.json` field mappings in the opposite direction
+ * of the template plugins: platform node -> canonical object.
+ *
+ * Target paths support dots (`featuredImage.node.sourceUrl`), indexes
+ * (`menuCategories.nodes[0].slug`) and lists (`promotions.nodes[].slug`).
+ */
+
+export type PlatformFieldMapping = {
+  to: string;
+  filter?: string;
+  transform?: string;
+  skip?: boolean;
+};
+
+export type PlatformDomainMapping = {
+  resource: string;
+  collection?: string;
+  itemVariable?: string;
+  collectionVariable?: string;
+  fields: Record<string, PlatformFieldMapping>;
+};
+
+export type PlatformMap = {
+  platform: string;
+  version: string;
+  domains: Record<string, PlatformDomainMapping>;
+};
+
+const TRANSFORMS: Record<string, (value: unknown) => unknown> = {
+  to_float: (value) => (value === null || value === '' ? undefined : Number.parseFloat(String(value))),
+  to_int: (value) => (value === null || value === '' ? undefined : Number.parseInt(String(value), 10)),
+  to_cents: (value) => (value === null || value === '' ? undefined : Math.round(Number(value) * 100)),
+  /** WPGraphQL `dateGmt` has no offset: `2026-05-28T09:30:00` -> `2026-05-28T09:30:00Z` */
+  to_datetime: (value) =>
+    typeof value === 'string' && value !== '' && !/(Z|[+-]\d{2}:\d{2})$/.test(value) ? `${value}Z` : value,
+  json: (value) => (typeof value === 'string' && value !== '' ? JSON.parse(value) : value),
+  strip_html: (value) =>
+    typeof value === 'string'
+      ? value
+          .replace(/<[^>]*>/g, '')
+          .replace(/&nbsp;/g, ' ')
+          .replace(/&amp;/g, '&')
+          .replace(/&#8217;/g, '’')
+          .replace(/\s+/g, ' ')
+          .trim()
+      : value,
+};
+
+type PathSegment = { key: string; index?: number; list?: boolean };
+
+function parsePath(path: string): PathSegment[] {
+  return path.split('.').map((part) => {
+    const match = part.match(/^([^[]+)(?:\[(\d*)\])?$/);
+    if (!match) throw new Error(`Unsupported platform map path: ${path}`);
+    const [, key, index] = match;
+    if (index === undefined) return { key: key! };
+    return index === '' ? { key: key!, list: true } : { key: key!, index: Number(index) };
+  });
+}
+
+function readSegments(value: unknown, segments: PathSegment[]): unknown {
+  if (segments.length === 0) return value;
+  if (value === null || value === undefined || typeof value !== 'object') return undefined;
+
+  const [segment, ...rest] = segments;
+  const next = (value as Record<string, unknown>)[segment!.key];
+  if (segment!.list) {
+    return Array.isArray(next) ? next.map((entry) => readSegments(entry, rest)) : undefined;
+  }
+  if (segment!.index !== undefined) {
+    return Array.isArray(next) ? readSegments(next[segment!.index], rest) : undefined;
+  }
+  return readSegments(next, rest);
+}
+
+/**
+ * Read a platform map target path from a node
+ */
+export function readPlatformPath(node: unknown, path: string): unknown {
+  return readSegments(node, parsePath(path));
+}
+
+function setCanonicalPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let cursor = target;
+  for (const key of keys.slice(0, -1)) {
+    const next = cursor[key];
+    if (!next || typeof next !== 'object') cursor[key] = {};
+    cursor = cursor[key] as Record<string, unknown>;
+  }
+  cursor[keys[keys.length - 1]!] = value;
+}
+
+/**
+ * Map a platform node into a canonical object using a domain's field map.
+ * Skipped fields and missing values are left out; unknown transforms are ignored.
+ */
+export function mapPlatformNode(node: unknown, domain: PlatformDomainMapping): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [canonicalPath, field] of Object.entries(domain.fields)) {
+    if (field.skip) continue;
+    let value = readPlatformPath(node, field.to);
+    const transform = field.transform ? TRANSFORMS[field.transform] : undefined;
+    if (transform && value !== undefined) value = transform(value);
+    if (value === undefined || value === null) continue;
+    setCanonicalPath(result, canonicalPath, value);
+  }
+  return result;
+}
+
+type SelectionTree = Map<string, SelectionTree>;
+
+function printSelection(tree: SelectionTree, indent: string): string {
+  return [...tree.entries()]
+    .map(([key, children]) =>
+      children.size === 0 ? `${indent}${key}` : `${indent}${key} {\n${printSelection(children, `${indent}  `)}\n${indent}}`
+    )
+    .join('\n');
+}
+
+/**
+ * GraphQL selection set covering every mapped field of a domain
+ */
+export function buildPlatformSelection(domain: PlatformDomainMapping, indent = ''): string {
+  const tree: SelectionTree = new Map();
+  for (const field of Object.values(domain.fields)) {
+    if (field.skip) continue;
+    let cursor = tree;
+    for (const segment of parsePath(field.to)) {
+      if (!cursor.has(segment.key)) cursor.set(segment.key, new Map());
+      cursor = cursor.get(segment.key)!;
+    }
+  }
+  return printSelection(tree, indent);
+}
@@ -1,10 +1,432 @@
 import { loadFixturesContextInput } from './fixtures.adapter';
-import type { CanonicalContextInput } from './types';
+import {
+  createGraphqlFetchTransport,
+  unwrapGraphqlResponse,
+  type GraphqlRequest,
+  type GraphqlResponse,
+  type GraphqlTransport,
+} from './graphql';
+import { formatMoney } from './money';
+import type {
+  CanonicalContextInput,
+  CatalogItem,
+  CatalogModifier,
+  CatalogVariant,
+  Category,
+  Image,
+  Price,
+  PromotionDiscount,
+  PromotionItem,
+} from './types';
 
 /**
- * Shopify adapter stub.
- * Returns fixture-backed canonical data until Storefront API integration is implemented.
+ * Shopify Storefront adapter.
+ * Loads products, collections and promotion metaobjects from the Storefront
+ * GraphQL API and maps them into the canonical catalog and promo fixtures.
+ * Everything Shopify does not own (site, navigation, landing, recipes, blog,
+ * admin) stays fixture-backed.
  */
-export function loadShopifyContextInput(): CanonicalContextInput {
-  return loadFixturesContextInput();
+
+export type ShopifyGraphqlRequest = GraphqlRequest;
+export type ShopifyGraphqlResponse<T> = GraphqlResponse<T>;
+
+/** Executes a Storefront GraphQL request; swap it for recorded responses in tests. */
+export type ShopifyTransport = GraphqlTransport;
+
+export type ShopifyStorefrontOptions = {
+  /** Store domain, e.g. `resta.myshopify.com` */
+  storeDomain: string;
+  /** Storefront API public access token */
+  accessToken: string;
+  /** Storefront API version (default matches `schemas/platform-map/shopify.json`) */
+  apiVersion?: string;
+  fetch?: typeof fetch;
+};
+
+export type ShopifyAdapterOptions = Partial<ShopifyStorefrontOptions> & {
+  /** Injected transport; built from storeDomain/accessToken when omitted */
+  transport?: ShopifyTransport;
+  /** Page size for products, collections and promotions (Storefront max: 250); every page is fetched */
+  first?: number;
+  /** Metaobject type holding promotions */
+  promotionType?: string;
+  /** Locale for price display strings */
+  locale?: string;
+  /** Called for each product or promotion skipped for missing required fields (default: console.warn) */
+  onSkip?: (message: string) => void;
+};
+
+const DEFAULT_API_VERSION = '2024-01';
+const DEFAULT_PAGE_SIZE = 100;
+
+type MoneyV2 = { amount: string; currencyCode: string };
+type ShopifyImage = { url: string; altText: string | null; width: number | null; height: number | null };
+type ShopifyMetafield = { value: string } | null;
+
+type ShopifyPageInfo = { hasNextPage: boolean; endCursor: string | null };
+type ShopifyConnection<T> = { nodes: T[]; pageInfo: ShopifyPageInfo };
+
+type ShopifyCollectionNode = { id: string; handle: string; title: string };
+
+type ShopifyProductNode = {
+  id: string;
+  handle: string;
+  title: string;
+  description: string;
+  productType: string;
+  availableForSale: boolean;
+  featuredImage: ShopifyImage | null;
+  priceRange: { minVariantPrice: MoneyV2 };
+  compareAtPriceRange: { minVariantPrice: MoneyV2 };
+  collections: { nodes: ShopifyCollectionNode[] };
+  variants: {
+    nodes: Array<{ id: string; title: string; availableForSale: boolean; price: MoneyV2 }>;
+  };
+  details: ShopifyMetafield;
+  modifiers: ShopifyMetafield;
+  promotionIds: ShopifyMetafield;
+};
+
+type ShopifyMetaobjectNode = {
+  id: string;
+  handle: string;
+  fields: Array<{
+    key: string;
+    value: string | null;
+    reference?: { image?: ShopifyImage | null } | null;
+  }>;
+};
+
+export type ShopifyCatalogQueryData = {
+  collections: ShopifyConnection<ShopifyCollectionNode>;
+  products: ShopifyConnection<ShopifyProductNode>;
+  metaobjects: ShopifyConnection<ShopifyMetaobjectNode>;
+};
+
+/** Cursor variable of each paginated connection in `SHOPIFY_CATALOG_QUERY` */
+const CURSOR_VARIABLES = {
+  collections: 'collectionsAfter',
+  products: 'productsAfter',
+  metaobjects: 'promotionsAfter',
+} as const satisfies Record<keyof ShopifyCatalogQueryData, string>;
+
+export const SHOPIFY_CATALOG_QUERY = /* GraphQL */ `
+  query CanonicalCatalog(
+    $first: Int!
+    $promotionType: String!
+    $collectionsAfter: String
+    $productsAfter: String
+    $promotionsAfter: String
+  ) {
+    collections(first: $first, after: $collectionsAfter) {
+      nodes { id handle title }
+      pageInfo { hasNextPage endCursor }
+    }
+    products(first: $first, after: $productsAfter) {
+      nodes {
+        id
+        handle
+        title
+        description
+        productType
+        availableForSale
+        featuredImage { url altText width height }
+        priceRange { minVariantPrice { amount currencyCode } }
+        compareAtPriceRange { minVariantPrice { amount currencyCode } }
+        collections(first: 1) { nodes { id handle title } }
+        variants(first: 20) {
+          nodes { id title availableForSale price { amount currencyCode } }
+        }
+        details: metafield(namespace: "custom", key: "details") { value }
+        modifiers: metafield(namespace: "custom", key: "modifiers") { value }
+        promotionIds: metafield(namespace: "custom", key: "promotion_ids") { value }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+    metaobjects(type: $promotionType, first: $first, after: $promotionsAfter) {
+      nodes {
+        id
+        handle
+        fields {
+          key
+          value
+          reference { ... on MediaImage { image { url altText width height } } }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+/**
+ * Transport posting to `https://<store>/api/<version>/graphql.json`.
+ */
+export function createShopifyFetchTransport(options: ShopifyStorefrontOptions): ShopifyTransport {
+  return createGraphqlFetchTransport({
+    endpoint: `https://${options.storeDomain}/api/${options.apiVersion ?? DEFAULT_API_VERSION}/graphql.json`,
+    headers: { 'X-Shopify-Storefront-Access-Token': options.accessToken },
+    fetch: options.fetch,
+    label: 'Shopify Storefront',
+  });
+}
+
+function resolveTransport(options: ShopifyAdapterOptions): ShopifyTransport {
+  if (options.transport) return options.transport;
+  if (!options.storeDomain || !options.accessToken) {
+    throw new Error('Shopify adapter requires storeDomain and accessToken (or a transport).');
+  }
+  return createShopifyFetchTransport({
+    storeDomain: options.storeDomain,
+    accessToken: options.accessToken,
+    apiVersion: options.apiVersion,
+    fetch: options.fetch,
+  });
+}
+
+function toPrice(money: MoneyV2, locale: string): Price {
+  const amount = Number(money.amount);
+  return { amount, currency: money.currencyCode, display: formatMoney(amount, money.currencyCode, locale) };
+}
+
+function toPriceModifier(amount: number, currency: string, locale: string): Price {
+  return {
+    amount,
+    currency,
+    display: amount === 0 ? '' : formatMoney(Math.abs(amount), currency, locale, amount > 0 ? '+' : '-'),
+  };
+}
+
+function toImage(image: ShopifyImage | null | undefined, fallbackAlt: string): Image {
+  return {
+    src: image?.url ?? '',
+    alt: image?.altText ?? fallbackAlt,
+    width: image?.width ?? 0,
+    height: image?.height ?? 0,
+  };
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Storefront references are GIDs; canonical ids are handles. */
+function toHandles(gids: string[], handleByGid: Map<string, string>): string[] {
+  return gids.map((gid) => handleByGid.get(gid) ?? gid);
+}
+
+/** First collection, else the product type; undefined when the product has neither */
+function toCategory(product: ShopifyProductNode): Category | undefined {
+  const collection = product.collections.nodes[0];
+  if (collection) return { id: collection.handle, title: collection.title };
+  const productType = product.productType.trim();
+  return productType ? { id: productType, title: productType } : undefined;
+}
+
+function toCatalogItem(
+  product: ShopifyProductNode,
+  promotionHandles: Map<string, string>,
+  locale: string,
+  onSkip: (message: string) => void
+): CatalogItem | undefined {
+  // The canonical schema requires a category; products outside any collection and without a type are skipped
+  const category = toCategory(product);
+  if (!category) {
+    onSkip(`Shopify product "${product.handle}" skipped: missing category (no collection or productType)`);
+    return undefined;
+  }
+
+  const price = toPrice(product.priceRange.minVariantPrice, locale);
+  const compareAt = toPrice(product.compareAtPriceRange.minVariantPrice, locale);
+  const variantNodes = product.variants.nodes;
+
+  // A single variant is Shopify's implicit "Default Title", not a choice
+  const variants: CatalogVariant[] =
+    variantNodes.length > 1
+      ? variantNodes.map((variant) => ({
+          id: variant.id,
+          title: variant.title,
+          priceModifier: toPriceModifier(Number(variant.price.amount) - price.amount, price.currency, locale),
+        }))
+      : [];
+
+  const modifiers = parseJson<Array<{ id: string; title: string; price: number; type?: CatalogModifier['type'] }>>(
+    product.modifiers?.value,
+    []
+  ).map((modifier) => ({
+    id: modifier.id,
+    title: modifier.title,
+    price: toPriceModifier(modifier.price, price.currency, locale),
+    type: modifier.type ?? 'checkbox',
+  }));
+
+  let availability: CatalogItem['availability'] = 'available';
+  if (!product.availableForSale) availability = 'unavailable';
+  else if (variantNodes.some((variant) => !variant.availableForSale)) availability = 'limited';
+
+  return {
+    id: product.handle,
+    slug: product.handle,
+    title: product.title,
+    description: product.description,
+    price,
+    ...(compareAt.amount > price.amount ? { compareAtPrice: compareAt } : {}),
+    category,
+    image: toImage(product.featuredImage, product.title),
+    details: product.details?.value ?? product.description,
+    availability,
+    variants,
+    modifiers,
+    promotionIds: toHandles(parseJson<string[]>(product.promotionIds?.value, []), promotionHandles),
+  };
+}
+
+function toPromotionItem(
+  metaobject: ShopifyMetaobjectNode,
+  productHandles: Map<string, string>,
+  collectionHandles: Map<string, string>,
+  onSkip: (message: string) => void
+): PromotionItem | undefined {
+  const fields = new Map(metaobject.fields.map((field) => [field.key, field]));
+  const value = (key: string): string | undefined => fields.get(key)?.value ?? undefined;
+  const title = value('title') ?? metaobject.handle;
+
+  // The canonical schema requires both; promotions without them are skipped, not filled in
+  const validUntil = value('valid_until');
+  const discountType = value('discount_type') as PromotionDiscount['type'] | undefined;
+  if (!validUntil || !discountType) {
+    const missing = [!validUntil && 'valid_until', !discountType && 'discount_type'].filter(Boolean);
+    onSkip(`Shopify promotion "${metaobject.handle}" skipped: missing ${missing.join(', ')}`);
+    return undefined;
+  }
+
+  const discount: PromotionDiscount = {
+    type: discountType,
+    value: Number(value('discount_value') ?? 0),
+    appliesTo: {
+      categoryIds: toHandles(parseJson<string[]>(value('applies_to_collections'), []), collectionHandles),
+      productIds: toHandles(parseJson<string[]>(value('applies_to_products'), []), productHandles),
+    },
+    couponCode: value('coupon_code') ?? '',
+  };
+
+  return {
+    id: metaobject.handle,
+    slug: metaobject.handle,
+    title,
+    description: value('description') ?? '',
+    validUntil,
+    discount,
+    badge: value('badge') ?? '',
+    image: toImage(fields.get('image')?.reference?.image, ''),
+    ...(value('details') ? { details: value('details') } : {}),
+  };
+}
+
+/**
+ * Map a Storefront catalog response into the canonical menu and promotions fixtures.
+ * Products and promotions missing required fields are skipped and reported through `onSkip`.
+ */
+export function mapShopifyCatalog(
+  data: ShopifyCatalogQueryData,
+  base: CanonicalContextInput['fixtures'],
+  locale = 'en-US',
+  onSkip: (message: string) => void = console.warn
+): Pick<CanonicalContextInput['fixtures'], 'menu' | 'promotions'> {
+  const handlesOf = (nodes: Array<{ id: string; handle: string }>) =>
+    new Map(nodes.map((node) => [node.id, node.handle]));
+  const productHandles = handlesOf(data.products.nodes);
+  const collectionHandles = handlesOf(data.collections.nodes);
+  const promotionHandles = handlesOf(data.metaobjects.nodes);
+
+  return {
+    menu: {
+      title: base.menu.title,
+      subtitle: base.menu.subtitle,
+      categories: data.collections.nodes.map((collection) => ({ id: collection.handle, title: collection.title })),
+      items: data.products.nodes
+        .map((product) => toCatalogItem(product, promotionHandles, locale, onSkip))
+        .filter((item): item is CatalogItem => item !== undefined),
+    },
+    promotions: {
+      title: base.promotions.title,
+      subtitle: base.promotions.subtitle,
+      items: data.metaobjects.nodes
+        .map((metaobject) => toPromotionItem(metaobject, productHandles, collectionHandles, onSkip))
+        .filter((item): item is PromotionItem => item !== undefined),
+    },
+  };
+}
+
+function appendPage<T>(target: ShopifyConnection<T>, page: ShopifyConnection<T>): ShopifyPageInfo {
+  target.nodes.push(...page.nodes);
+  return page.pageInfo;
+}
+
+/**
+ * Run `SHOPIFY_CATALOG_QUERY` until every connection is exhausted.
+ * Connections page independently: each request advances the cursors of the
+ * connections that still have pages; finished ones stay on their last cursor
+ * and their (empty) pages are ignored.
+ */
+async function fetchShopifyCatalog(
+  transport: ShopifyTransport,
+  variables: { first: number; promotionType: string }
+): Promise<ShopifyCatalogQueryData> {
+  const emptyConnection = <T>(): ShopifyConnection<T> => ({
+    nodes: [],
+    pageInfo: { hasNextPage: false, endCursor: null },
+  });
+  const data: ShopifyCatalogQueryData = {
+    collections: emptyConnection(),
+    products: emptyConnection(),
+    metaobjects: emptyConnection(),
+  };
+  const cursors: Record<string, string | null> = {
+    collectionsAfter: null,
+    productsAfter: null,
+    promotionsAfter: null,
+  };
+  const append: Record<keyof ShopifyCatalogQueryData, (page: ShopifyCatalogQueryData) => ShopifyPageInfo> = {
+    collections: (page) => appendPage(data.collections, page.collections),
+    products: (page) => appendPage(data.products, page.products),
+    metaobjects: (page) => appendPage(data.metaobjects, page.metaobjects),
+  };
+  const pending = new Set(Object.keys(CURSOR_VARIABLES) as Array<keyof ShopifyCatalogQueryData>);
+
+  while (pending.size > 0) {
+    const response = await transport<ShopifyCatalogQueryData>({
+      query: SHOPIFY_CATALOG_QUERY,
+      variables: { ...variables, ...cursors },
+    });
+    const page = unwrapGraphqlResponse(response, 'Shopify Storefront');
+
+    for (const key of [...pending]) {
+      const { hasNextPage, endCursor } = append[key](page);
+      if (endCursor) cursors[CURSOR_VARIABLES[key]] = endCursor;
+      if (!hasNextPage || !endCursor) pending.delete(key);
+    }
+  }
+
+  return data;
+}
+
+export async function loadShopifyContextInput(options: ShopifyAdapterOptions = {}): Promise<CanonicalContextInput> {
+  const data = await fetchShopifyCatalog(resolveTransport(options), {
+    first: options.first ?? DEFAULT_PAGE_SIZE,
+    promotionType: options.promotionType ?? 'promotion',
+  });
+
+  const base = loadFixturesContextInput();
+  return {
+    ...base,
+    fixtures: {
+      ...base.fixtures,
+      ...mapShopifyCatalog(data, base.fixtures, options.locale, options.onSkip),
+    },
+  };
 }
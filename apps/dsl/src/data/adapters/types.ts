@@ -62,9 +62,9 @@ export type PromotionItem = {
   slug: string;
   title: string;
   description: string;
-  validUntil?: string;
-  discount?: PromotionDiscount;
-  badge?: string;
+  validUntil: string;
+  discount: PromotionDiscount;
+  badge: string;
   image: Image;
   details?: string;
 };
@@ -104,7 +104,7 @@ export type GuideItem = {
   excerpt: string;
   body: string;
   image: Image;
-  date?: string;
+  date: string;
   category?: Category;
   linkedMenuItemId?: string;
   difficulty?: 'easy' | 'medium' | 'hard';
@@ -123,8 +123,8 @@ export type BlogPost = {
   excerpt: string;
   body: string;
   image: Image;
-  date?: string;
-  author?: string;
+  date: string;
+  author: string;
 };
 
 export type LandingFixture = {
@@ -169,8 +169,8 @@ export type NavigationFixture = {
   navItems: NavItem[];
   sidebarLinks: SidebarLink[];
   adminSidebarLinks: DashboardSidebarLink[];
-  labels?: {
-    adminSidebarLabel?: string;
+  labels: {
+    adminSidebarLabel: string;
   };
 };
 
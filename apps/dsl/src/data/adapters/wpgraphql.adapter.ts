@@ -1,10 +1,281 @@
 import { loadFixturesContextInput } from './fixtures.adapter';
-import type { CanonicalContextInput } from './types';
+import {
+  createGraphqlFetchTransport,
+  unwrapGraphqlResponse,
+  type GraphqlTransport,
+} from './graphql';
+import { formatMoney } from './money';
+import {
+  buildPlatformSelection,
+  mapPlatformNode,
+  readPlatformPath,
+  type PlatformDomainMapping,
+  type PlatformMap,
+} from './platform-map';
+import type {
+  BlogPost,
+  CanonicalContextInput,
+  CatalogItem,
+  Category,
+  GuideItem,
+  Image,
+  Price,
+} from './types';
+import wpgraphqlMap from '../../../schemas/platform-map/wpgraphql.json';
 
 /**
- * WPGraphQL adapter stub.
- * Returns fixture-backed canonical data until endpoint integration is implemented.
+ * WPGraphQL adapter.
+ * Queries posts, pages and the `menu_item` post type and normalizes them into
+ * BlogPost, GuideItem and CatalogItem. Field paths come from the adapter map
+ * `schemas/platform-map/wpgraphql.json` (`blog`, `guide` and `catalog`
+ * domains), so the query and the mapping change together; the template map
+ * `wordpress.json` keeps describing WooGraphQL products.
+ * Everything else (site, navigation, landing, promotions, admin) stays fixture-backed.
  */
-export function loadWpGraphqlContextInput(): CanonicalContextInput {
-  return loadFixturesContextInput();
+
+/** Executes a WPGraphQL request; swap it for recorded responses in tests. */
+export type WpGraphqlTransport = GraphqlTransport;
+
+export type WpGraphqlAdapterOptions = {
+  /** GraphQL endpoint, e.g. `https://cms.example.com/graphql` */
+  endpoint?: string;
+  /** Sent as `Authorization: Bearer <token>` (e.g. for draft content) */
+  authToken?: string;
+  fetch?: typeof fetch;
+  /** Injected transport; built from endpoint when omitted */
+  transport?: WpGraphqlTransport;
+  /** Field mapping source (default: `schemas/platform-map/wpgraphql.json`) */
+  platformMap?: PlatformMap;
+  /** Page size per collection (WPGraphQL default max: 100) */
+  first?: number;
+  /** Only load child pages of this page as guide items (global ID or database ID) */
+  guideParent?: string;
+  /** Currency and locale for prices without a formatted display value */
+  currency?: string;
+  locale?: string;
+  /** Called for each record skipped for missing required fields (default: console.warn) */
+  onSkip?: (message: string) => void;
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+const DOMAINS = ['catalog', 'guide', 'blog'] as const;
+
+type WpDomain = (typeof DOMAINS)[number];
+type CanonicalRecord = Record<string, unknown>;
+
+function resolveTransport(options: WpGraphqlAdapterOptions): WpGraphqlTransport {
+  if (options.transport) return options.transport;
+  if (!options.endpoint) {
+    throw new Error('WPGraphQL adapter requires an endpoint (or a transport).');
+  }
+  return createGraphqlFetchTransport({
+    endpoint: options.endpoint,
+    headers: options.authToken ? { Authorization: `Bearer ${options.authToken}` } : undefined,
+    fetch: options.fetch,
+    label: 'WPGraphQL',
+  });
+}
+
+function getDomain(platformMap: PlatformMap, domain: WpDomain): PlatformDomainMapping {
+  const mapping = platformMap.domains[domain];
+  if (!mapping?.collection) {
+    throw new Error(`Platform map "${platformMap.platform}" has no "${domain}" domain with a collection.`);
+  }
+  return mapping;
+}
+
+/**
+ * `posts.nodes` -> `posts(first: $first) { nodes { ...mapped fields } }`
+ */
+function buildCollectionQuery(domain: PlatformDomainMapping, args: string): string {
+  const [root, ...path] = domain.collection!.split('.');
+  const depth = path.length + 1;
+  const selection = buildPlatformSelection(domain, '  '.repeat(depth + 1));
+  const open = [`  ${root}(${args}) {`, ...path.map((key, index) => `${'  '.repeat(index + 2)}${key} {`)];
+  const close = Array.from({ length: depth }, (_, index) => `${'  '.repeat(depth - index)}}`);
+  return [...open, selection, ...close].join('\n');
+}
+
+/**
+ * Query for every mapped field of the catalog, guide and blog domains.
+ */
+export function buildWpGraphqlQuery(platformMap: PlatformMap, options: { guideParent?: string } = {}): string {
+  const guideArgs = options.guideParent ? 'first: $first, where: { parent: $guideParent }' : 'first: $first';
+  const variables = options.guideParent ? '$first: Int!, $guideParent: ID' : '$first: Int!';
+  return [
+    `query CanonicalContent(${variables}) {`,
+    buildCollectionQuery(getDomain(platformMap, 'catalog'), 'first: $first'),
+    buildCollectionQuery(getDomain(platformMap, 'guide'), guideArgs),
+    buildCollectionQuery(getDomain(platformMap, 'blog'), 'first: $first'),
+    '}',
+  ].join('\n');
+}
+
+function text(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function toImage(value: unknown, fallbackAlt: string): Image {
+  const image = (value ?? {}) as Partial<Image>;
+  return {
+    src: text(image.src),
+    alt: text(image.alt, fallbackAlt),
+    width: typeof image.width === 'number' ? image.width : 0,
+    height: typeof image.height === 'number' ? image.height : 0,
+  };
+}
+
+function toPrice(value: unknown, currency: string, locale: string): Price | undefined {
+  const price = (value ?? {}) as Partial<Price>;
+  if (typeof price.amount !== 'number' || Number.isNaN(price.amount)) return undefined;
+  const priceCurrency = text(price.currency, currency);
+  return {
+    amount: price.amount,
+    currency: priceCurrency,
+    display: text(price.display) || formatMoney(price.amount, priceCurrency, locale),
+  };
+}
+
+/** Report and drop records missing fields the canonical schema requires */
+function hasRequiredFields(
+  raw: CanonicalRecord,
+  domain: WpDomain,
+  required: string[],
+  onSkip: (message: string) => void
+): boolean {
+  const missing = required.filter((key) => {
+    const value = readPlatformPath(raw, key);
+    return typeof value === 'number' ? Number.isNaN(value) : typeof value !== 'string' || value === '';
+  });
+  if (missing.length > 0) {
+    onSkip(`WPGraphQL ${domain} record "${text(raw.slug, text(raw.id))}" skipped: missing ${missing.join(', ')}`);
+  }
+  return missing.length === 0;
+}
+
+function toBlogPost(raw: CanonicalRecord): BlogPost {
+  const title = text(raw.title);
+  return {
+    id: text(raw.id),
+    slug: text(raw.slug),
+    title,
+    excerpt: text(raw.excerpt),
+    body: text(raw.body),
+    image: toImage(raw.image, title),
+    date: raw.date as string,
+    author: raw.author as string,
+  };
+}
+
+function toGuideItem(raw: CanonicalRecord): GuideItem {
+  // Optional guide fields (cookTime, ingredients, steps, ...) pass through as mapped
+  const { id, slug, title, excerpt, body, image, date, ...optional } = raw;
+  return {
+    ...(optional as Partial<GuideItem>),
+    id: text(id),
+    slug: text(slug),
+    title: text(title),
+    excerpt: text(excerpt),
+    body: text(body),
+    image: toImage(image, text(title)),
+    date: date as string,
+  };
+}
+
+const AVAILABILITY = new Set<CatalogItem['availability']>(['available', 'unavailable', 'limited']);
+
+/** Fields without which a catalog item cannot be listed or priced */
+const CATALOG_REQUIRED = ['id', 'slug', 'title', 'price.amount', 'category.id'];
+
+/** `raw.price` is already resolved by `toPrice` */
+function toCatalogItem(raw: CanonicalRecord, locale: string): CatalogItem {
+  const title = text(raw.title);
+  const price = raw.price as Price;
+  const compareAtPrice = toPrice(raw.compareAtPrice, price.currency, locale);
+  const category = (raw.category ?? {}) as Partial<Category>;
+  const availability = raw.availability as CatalogItem['availability'];
+
+  return {
+    id: text(raw.id),
+    slug: text(raw.slug),
+    title,
+    description: text(raw.description),
+    price,
+    ...(compareAtPrice && compareAtPrice.amount > price.amount ? { compareAtPrice } : {}),
+    category: { id: text(category.id), title: text(category.title, text(category.id)) },
+    image: toImage(raw.image, title),
+    ...(typeof raw.details === 'string' ? { details: raw.details } : {}),
+    availability: AVAILABILITY.has(availability) ? availability : 'available',
+    variants: Array.isArray(raw.variants) ? (raw.variants as CatalogItem['variants']) : [],
+    modifiers: Array.isArray(raw.modifiers) ? (raw.modifiers as CatalogItem['modifiers']) : [],
+    promotionIds: Array.isArray(raw.promotionIds)
+      ? raw.promotionIds.filter((id): id is string => typeof id === 'string')
+      : [],
+  };
+}
+
+function uniqueCategories(items: CatalogItem[]): Category[] {
+  const categories = new Map<string, Category>();
+  for (const item of items) {
+    if (item.category.id && !categories.has(item.category.id)) {
+      categories.set(item.category.id, item.category);
+    }
+  }
+  return [...categories.values()];
+}
+
+/**
+ * Map a WPGraphQL response into the canonical menu, recipes and blog fixtures.
+ * Catalog items without an id, slug, title, price or category, guide and blog
+ * records without a date and posts without an author are skipped and reported
+ * through `onSkip`.
+ */
+export function mapWpGraphqlContent(
+  data: unknown,
+  platformMap: PlatformMap,
+  base: CanonicalContextInput['fixtures'],
+  options: Pick<WpGraphqlAdapterOptions, 'currency' | 'locale' | 'onSkip'> = {}
+): Pick<CanonicalContextInput['fixtures'], 'menu' | 'recipes' | 'blog'> {
+  const nodesOf = (domain: WpDomain): CanonicalRecord[] => {
+    const mapping = getDomain(platformMap, domain);
+    const nodes = readPlatformPath(data, mapping.collection!);
+    return Array.isArray(nodes) ? nodes.map((node) => mapPlatformNode(node, mapping)) : [];
+  };
+  const currency = options.currency ?? 'USD';
+  const locale = options.locale ?? 'en-US';
+  const onSkip = options.onSkip ?? console.warn;
+  const items = nodesOf('catalog')
+    .map((raw) => ({ ...raw, price: toPrice(raw.price, currency, locale) }))
+    .filter((raw) => hasRequiredFields(raw, 'catalog', CATALOG_REQUIRED, onSkip))
+    .map((raw) => toCatalogItem(raw, locale));
+  const guides = nodesOf('guide').filter((raw) => hasRequiredFields(raw, 'guide', ['date'], onSkip));
+  const posts = nodesOf('blog').filter((raw) => hasRequiredFields(raw, 'blog', ['date', 'author'], onSkip));
+
+  return {
+    menu: { title: base.menu.title, subtitle: base.menu.subtitle, categories: uniqueCategories(items), items },
+    recipes: { title: base.recipes.title, subtitle: base.recipes.subtitle, items: guides.map(toGuideItem) },
+    blog: { title: base.blog.title, subtitle: base.blog.subtitle, posts: posts.map(toBlogPost) },
+  };
+}
+
+export async function loadWpGraphqlContextInput(options: WpGraphqlAdapterOptions = {}): Promise<CanonicalContextInput> {
+  const transport = resolveTransport(options);
+  const platformMap = options.platformMap ?? (wpgraphqlMap as PlatformMap);
+  const response = await transport<unknown>({
+    query: buildWpGraphqlQuery(platformMap, { guideParent: options.guideParent }),
+    variables: {
+      first: options.first ?? DEFAULT_PAGE_SIZE,
+      ...(options.guideParent ? { guideParent: options.guideParent } : {}),
+    },
+  });
+  const data = unwrapGraphqlResponse(response, 'WPGraphQL');
+
+  const base = loadFixturesContextInput();
+  return {
+    ...base,
+    fixtures: {
+      ...base.fixtures,
+      ...mapWpGraphqlContent(data, platformMap, base.fixtures, options),
+    },
+  };
 }
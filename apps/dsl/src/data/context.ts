@@ -5,83 +5,140 @@ import type {
   SidebarLink,
 } from '@ui8kit/sdk/source/data';
 import { loadFixturesContextInput } from './adapters/fixtures.adapter';
-import { loadWpGraphqlContextInput } from './adapters/wpgraphql.adapter';
-import { loadShopifyContextInput } from './adapters/shopify.adapter';
 import type { CanonicalContextInput } from './adapters/types';
 
-function resolveContextInput(): CanonicalContextInput {
-  const source = (import.meta.env.VITE_DATA_SOURCE ?? 'fixtures') as 'fixtures' | 'wpgraphql' | 'shopify';
+export type DataSource = 'fixtures' | 'wpgraphql' | 'shopify';
+
+export function getDataSource(): DataSource {
+  return (import.meta.env.VITE_DATA_SOURCE ?? 'fixtures') as DataSource;
+}
+
+/**
+ * Server-side environment (static render, `generate data:snapshot`). Secrets
+ * are read here without the `VITE_` prefix, so Vite never inlines them into
+ * the client bundle; in the browser this is always undefined.
+ */
+function readServerEnv(name: string): string | undefined {
+  const runtime = globalThis as { process?: { env: Record<string, string | undefined> } };
+  return runtime.process?.env[name];
+}
+
+/**
+ * Canonical input from a data source. Remote adapters are imported on demand,
+ * so the fixtures build never loads them; `generate data:snapshot` calls this too.
+ */
+export async function loadContextInput(source: DataSource): Promise<CanonicalContextInput> {
+  const env = import.meta.env;
   if (source === 'wpgraphql') {
-    return loadWpGraphqlContextInput();
+    const { loadWpGraphqlContextInput } = await import('./adapters/wpgraphql.adapter');
+    return loadWpGraphqlContextInput({
+      endpoint: env.VITE_WPGRAPHQL_ENDPOINT,
+      authToken: readServerEnv('WPGRAPHQL_AUTH_TOKEN'),
+    });
   }
   if (source === 'shopify') {
-    return loadShopifyContextInput();
+    const { loadShopifyContextInput } = await import('./adapters/shopify.adapter');
+    return loadShopifyContextInput({
+      storeDomain: env.VITE_SHOPIFY_STORE_DOMAIN,
+      // Storefront tokens are public by design
+      accessToken: env.VITE_SHOPIFY_STOREFRONT_TOKEN,
+    });
   }
   return loadFixturesContextInput();
 }
 
-const input = resolveContextInput();
-const page = input.page;
-const navItems = input.navigation.navItems as NavItem[];
-const sidebarLinks = (input.navigation.sidebarLinks ?? EMPTY_ARRAY) as SidebarLink[];
-const adminSidebarLinks = (input.navigation.adminSidebarLinks ?? EMPTY_ARRAY) as DashboardSidebarLink[];
-const adminSidebarLabel = input.navigation.labels?.adminSidebarLabel ?? 'Admin';
+function buildContext(input: CanonicalContextInput) {
+  const page = input.page;
+  const navItems = input.navigation.navItems as NavItem[];
+  const sidebarLinks = (input.navigation.sidebarLinks ?? EMPTY_ARRAY) as SidebarLink[];
+  const adminSidebarLinks = (input.navigation.adminSidebarLinks ?? EMPTY_ARRAY) as DashboardSidebarLink[];
+  const adminSidebarLabel = input.navigation.labels?.adminSidebarLabel ?? 'Admin';
+
+  const baseContext = createContext<{
+    landing: CanonicalContextInput['fixtures']['landing'];
+    menu: CanonicalContextInput['fixtures']['menu'];
+    recipes: CanonicalContextInput['fixtures']['recipes'];
+    blog: CanonicalContextInput['fixtures']['blog'];
+    promotions: CanonicalContextInput['fixtures']['promotions'];
+    admin: CanonicalContextInput['fixtures']['admin'];
+  }>({
+    site: input.site,
+    page: input.page,
+    navItems,
+    sidebarLinks,
+    adminSidebarLinks,
+    adminSidebarLabel,
+    dynamicRoutePatterns: ['/menu/:slug', '/recipes/:slug', '/blog/:slug', '/promotions/:slug'],
+    fixtures: {
+      landing: input.fixtures.landing,
+      menu: input.fixtures.menu,
+      recipes: input.fixtures.recipes,
+      blog: input.fixtures.blog,
+      promotions: input.fixtures.promotions,
+      admin: input.fixtures.admin,
+    },
+  });
 
-const baseContext = createContext<{
-  landing: CanonicalContextInput['fixtures']['landing'];
-  menu: CanonicalContextInput['fixtures']['menu'];
-  recipes: CanonicalContextInput['fixtures']['recipes'];
-  blog: CanonicalContextInput['fixtures']['blog'];
-  promotions: CanonicalContextInput['fixtures']['promotions'];
-  admin: CanonicalContextInput['fixtures']['admin'];
-}>({
-  site: input.site,
-  page: input.page,
-  navItems,
-  sidebarLinks,
-  adminSidebarLinks,
-  adminSidebarLabel,
-  dynamicRoutePatterns: ['/menu/:slug', '/recipes/:slug', '/blog/:slug', '/promotions/:slug'],
-  fixtures: {
-    landing: input.fixtures.landing,
-    menu: input.fixtures.menu,
-    recipes: input.fixtures.recipes,
-    blog: input.fixtures.blog,
-    promotions: input.fixtures.promotions,
-    admin: input.fixtures.admin,
-  },
-});
+  const websiteDomain = Object.freeze({
+    page: page.website ?? [],
+    landing: baseContext.fixtures.landing,
+    menu: baseContext.fixtures.menu,
+    recipes: baseContext.fixtures.recipes,
+    blog: baseContext.fixtures.blog,
+    promotions: baseContext.fixtures.promotions,
+    site: baseContext.site,
+    navItems: baseContext.navItems,
+    sidebarLinks: baseContext.sidebarLinks,
+  });
 
-const websiteDomain = Object.freeze({
-  page: page.website ?? [],
-  landing: baseContext.fixtures.landing,
-  menu: baseContext.fixtures.menu,
-  recipes: baseContext.fixtures.recipes,
-  blog: baseContext.fixtures.blog,
-  promotions: baseContext.fixtures.promotions,
-  site: baseContext.site,
-  navItems: baseContext.navItems,
-  sidebarLinks: baseContext.sidebarLinks,
-});
+  const adminDomain = Object.freeze({
+    page: page.admin ?? [],
+    admin: baseContext.fixtures.admin,
+    adminSidebarLinks: baseContext.adminSidebarLinks,
+    adminSidebarLabel: baseContext.adminSidebarLabel,
+    getAdminSidebarLinks: baseContext.getAdminSidebarLinks,
+  });
 
-const adminDomain = Object.freeze({
-  page: page.admin ?? [],
-  admin: baseContext.fixtures.admin,
-  adminSidebarLinks: baseContext.adminSidebarLinks,
-  adminSidebarLabel: baseContext.adminSidebarLabel,
-  getAdminSidebarLinks: baseContext.getAdminSidebarLinks,
-});
+  return Object.freeze({
+    ...baseContext,
+    landing: baseContext.fixtures.landing,
+    menu: baseContext.fixtures.menu,
+    recipes: baseContext.fixtures.recipes,
+    blog: baseContext.fixtures.blog,
+    promotions: baseContext.fixtures.promotions,
+    admin: baseContext.fixtures.admin,
+    domains: Object.freeze({
+      website: websiteDomain,
+      admin: adminDomain,
+    }),
+  });
+}
 
-export const context = Object.freeze({
-  ...baseContext,
-  landing: baseContext.fixtures.landing,
-  menu: baseContext.fixtures.menu,
-  recipes: baseContext.fixtures.recipes,
-  blog: baseContext.fixtures.blog,
-  promotions: baseContext.fixtures.promotions,
-  admin: baseContext.fixtures.admin,
-  domains: Object.freeze({
-    website: websiteDomain,
-    admin: adminDomain,
-  }),
-});
+export type AppContext = ReturnType<typeof buildContext>;
+
+/**
+ * Starts on fixtures (the zero-config default). `loadContext()` replaces it
+ * with the configured data source; module bindings are live, so
+ * `import { context }` reads the loaded data on the next render.
+ */
+export let context: AppContext = buildContext(loadFixturesContextInput());
+
+let contextReady = getDataSource() === 'fixtures';
+let pendingContext: Promise<AppContext> | undefined;
+
+export function isContextReady(): boolean {
+  return contextReady;
+}
+
+/**
+ * Load the configured data source once; repeated calls share the promise.
+ * Await it before rendering (static render, SPA boundary).
+ */
+export function loadContext(): Promise<AppContext> {
+  pendingContext ??= loadContextInput(getDataSource()).then((input) => {
+    context = buildContext(input);
+    contextReady = true;
+    return context;
+  });
+  return pendingContext;
+}
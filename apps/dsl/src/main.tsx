@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { ThemeProvider } from '@/providers/theme';
 import { AdminAuthProvider } from '@/providers/AdminAuthContext';
+import { ContextBoundary } from '@/providers/ContextBoundary';
 import { App } from './App';
 import '@/assets/css/index.css';
 
@@ -11,7 +12,9 @@ createRoot(document.getElementById('root')!).render(
     <ThemeProvider>
       <BrowserRouter>
         <AdminAuthProvider>
-          <App />
+          <ContextBoundary>
+            <App />
+          </ContextBoundary>
         </AdminAuthProvider>
       </BrowserRouter>
     </ThemeProvider>
@@ -0,0 +1,48 @@
+import type { ReactNode } from 'react';
+import { useEffect, useState } from 'react';
+import { Block, Text } from '@ui8kit/core';
+import { isContextReady, loadContext } from '@/data/context';
+
+/**
+ * Renders children once the data source is loaded (`VITE_DATA_SOURCE`).
+ * With fixtures the context is ready at import time and children render immediately.
+ */
+export function ContextBoundary({ children, fallback }: { children: ReactNode; fallback?: ReactNode }) {
+  const [ready, setReady] = useState(isContextReady);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (ready) return;
+    let active = true;
+    loadContext().then(
+      () => active && setReady(true),
+      (reason: unknown) => active && setError(reason instanceof Error ? reason.message : String(reason))
+    );
+    return () => {
+      active = false;
+    };
+  }, [ready]);
+
+  if (error) {
+    return (
+      <Block component="main" py="16" px="4" data-class="context-boundary-error">
+        <Text fontSize="sm" textColor="destructive" textAlign="center">
+          Could not load content: {error}
+        </Text>
+      </Block>
+    );
+  }
+
+  if (!ready) {
+    if (fallback) return <>{fallback}</>;
+    return (
+      <Block component="main" py="16" px="4" aria-busy="true" data-class="context-boundary-loading">
+        <Text fontSize="sm" textColor="muted-foreground" textAlign="center">
+          Loading…
+        </Text>
+      </Block>
+    );
+  }
+
+  return <>{children}</>;
+}
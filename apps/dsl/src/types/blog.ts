@@ -5,8 +5,8 @@ export type BlogPost = {
   slug: string;
   title: string;
   excerpt: string;
-  body?: string;
-  image?: Image;
-  date?: string;
-  author?: string;
+  body: string;
+  image: Image;
+  date: string;
+  author: string;
 };
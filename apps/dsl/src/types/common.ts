@@ -6,7 +6,7 @@ export type Price = {
 
 export type Image = {
   src: string;
-  alt?: string;
+  alt: string;
   width?: number;
   height?: number;
 };
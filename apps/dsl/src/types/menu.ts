@@ -1,4 +1,4 @@
-import type { Category, Price } from './common';
+import type { Category, Image, Price } from './common';
 
 export type MenuPrice = Price;
 export type MenuCategory = Category;
@@ -37,12 +37,12 @@ export type MenuItem = {
   price: MenuPrice;
   compareAtPrice?: MenuPrice;
   category: MenuCategory;
-  image?: { src: string; alt?: string };
+  image: Image;
   details?: string;
-  availability?: 'available' | 'unavailable' | 'limited';
-  variants?: MenuVariant[];
-  modifiers?: MenuModifier[];
-  promotionIds?: string[];
+  availability: 'available' | 'unavailable' | 'limited';
+  variants: MenuVariant[];
+  modifiers: MenuModifier[];
+  promotionIds: string[];
 };
 
 export type CartEntry = {
@@ -1,3 +1,5 @@
+import type { Image } from './common';
+
 export type RecipeIngredient = {
   id: string;
   amountWithUnit?: string;
@@ -19,12 +21,16 @@ export type RecipeItem = {
   slug: string;
   title: string;
   excerpt: string;
-  body?: string;
-  image?: { src: string; alt?: string };
-  date?: string;
+  body: string;
+  image: Image;
+  date: string;
   category?: { id: string; title: string };
+  linkedMenuItemId?: string;
   difficulty?: 'easy' | 'medium' | 'hard';
   cookTime?: { prep: number; cook: number; total: number };
   servings?: number;
+  ingredients?: RecipeIngredient[];
+  steps?: RecipeStep[];
   tags?: string[];
+  nutrition?: { calories: number; protein: number; fat: number; carbs: number };
 };
@@ -383,6 +383,12 @@ export async function buildProject(rawConfig: AppConfig, cwd = process.cwd()): P
       await copyDirectory(fixturesDir, fixturesOutDir);
     }
 
+    // Remote data adapters read their field mappings from the platform maps
+    const platformMapDir = resolve(cwd, 'schemas', 'platform-map');
+    if (await pathExists(platformMapDir)) {
+      await copyDirectory(platformMapDir, resolve(outputDir, 'schemas', 'platform-map'));
+    }
+
     await generateRegistry({
       sourceDirs: sourceDefs.filter((def) => Boolean(def.registryType)).map((def) => ({
         path: def.sourceDir,
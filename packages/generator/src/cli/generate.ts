@@ -14,6 +14,15 @@ import { scanBlueprint } from '../scripts/scan-blueprint';
 import { validateBlueprint } from '../scripts/validate-blueprint';
 import { buildDependencyGraph } from '../scripts/build-dependency-graph';
 import { scaffoldEntity } from '../scripts/scaffold-entity';
+import { createTemplateRegistry, generateTemplates } from '../scripts/generate-templates';
+import { generateVueApp } from '../scripts/generate-vue-app';
+import { generateWebComponents } from '../scripts/generate-web-components';
+import { checkRenderParity, PARITY_ENGINES, type ParityEngine } from '../scripts/render-parity';
+import { checkPlatformCoverage } from '../scripts/platform-coverage';
+import { snapshotData, SNAPSHOT_SOURCES, type SnapshotSource } from '../scripts/data-snapshot';
+import { generateCanonicalTypes } from '../scripts/generate-canonical-types';
+import { locateTemplateSource } from '../scripts/locate-template-source';
+import { writeJsonFile } from '../scripts/blueprint-shared';
 
 interface DistConfig {
   app: { name: string; lang?: string };
@@ -170,6 +179,68 @@ program
     await runReactBuild(opts);
   });
 
+program
+  .command('vue')
+  .description('Build DSL source to a standalone Vue 3 app: SFCs, routes, project config')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .option('--out-dir <dir>', 'Output directory (default: dist/vue)')
+  .action(async (opts) => {
+    const cwd = resolve(opts.cwd);
+    try {
+      const result = await generateVueApp({ cwd, outDir: opts.outDir, silent: true });
+      console.log(chalk.green(`\n  Vue app generated: ${result.outputDir}`));
+      console.log(`  Components: ${result.components.length}, routes: ${result.routes.length}`);
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n  Warnings:'));
+        for (const warning of result.warnings) {
+          console.log(`    - ${warning}`);
+        }
+      }
+      console.log(`\n  To run:\n    cd ${result.outputDir}\n    bun install\n    bun run dev\n`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('web-components')
+  .description('Build DSL source to custom elements with lit-html templates and a bundle entry')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .option('--out-dir <dir>', 'Output directory (default: dist/web-components)')
+  .option('--dom <mode>', 'Render root: shadow | light', 'shadow')
+  .option('--tag-prefix <prefix>', 'Custom element tag prefix', 'ui8')
+  .action(async (opts) => {
+    const cwd = resolve(opts.cwd);
+    if (opts.dom !== 'shadow' && opts.dom !== 'light') {
+      console.error(chalk.red(`\n  Error: --dom must be "shadow" or "light", got "${opts.dom}"\n`));
+      process.exit(1);
+    }
+    try {
+      const result = await generateWebComponents({
+        cwd,
+        outDir: opts.outDir,
+        dom: opts.dom,
+        tagPrefix: opts.tagPrefix,
+        silent: true,
+      });
+      console.log(chalk.green(`\n  Web components generated: ${result.outputDir}`));
+      console.log(`  Elements: ${result.elements.length} (${result.dom} DOM)`);
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n  Warnings:'));
+        for (const warning of result.warnings) {
+          console.log(`    - ${warning}`);
+        }
+      }
+      console.log(`\n  To build:\n    cd ${result.outputDir}\n    bun install\n    bun run build\n`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
 program
   .command('static', { isDefault: true })
   .description('Full pipeline: Render -> CSS -> HTML -> PostCSS')
@@ -277,6 +348,278 @@ program
     }
   });
 
+program
+  .command('blueprint:platform-coverage')
+  .description('Report unmapped, unused and skipped platform map fields per domain')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .option('--blueprint <path>', 'Blueprint file path (default: blueprint.json)')
+  .option('--platform-map <path>', 'Platform map override (default: platformMapPath from ui8kit.config.json)')
+  .option('--domain <name...>', 'Only check these domains, e.g. catalog promo')
+  .option('--output <path>', 'Write the report as JSON')
+  .option('--strict', 'Exit with an error when a view uses an unmapped field')
+  .action(async (opts) => {
+    const cwd = resolve(opts.cwd);
+    try {
+      const result = checkPlatformCoverage({
+        cwd,
+        blueprintFile: opts.blueprint,
+        platformMapPath: opts.platformMap,
+        domains: opts.domain,
+      });
+
+      console.log(chalk.bold(`\n  Platform coverage: ${result.platform}\n`));
+      for (const domain of result.domains) {
+        const status = domain.unmapped.length === 0 ? chalk.green('✓') : chalk.yellow('!');
+        console.log(
+          `  ${status} ${domain.domain} ${chalk.gray(`(${domain.resource} <- ${domain.entities.join(', ')})`)}`
+        );
+        console.log(`      mapped: ${domain.used.length}, views: ${domain.views.length}`);
+        for (const usage of domain.unmapped) {
+          console.log(chalk.yellow(`      unmapped: ${usage.field} ${chalk.gray(`(${usage.files.join(', ')})`)}`));
+        }
+        if (domain.unused.length > 0) {
+          console.log(chalk.gray(`      unused: ${domain.unused.join(', ')}`));
+        }
+        if (domain.skipped.length > 0) {
+          console.log(chalk.gray(`      skipped: ${domain.skipped.join(', ')}`));
+        }
+      }
+
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n  Warnings:'));
+        for (const warning of result.warnings) {
+          console.log(`    - ${warning}`);
+        }
+      }
+      if (opts.output) {
+        const outputPath = resolve(cwd, opts.output);
+        writeJsonFile(outputPath, result);
+        console.log(`\n  Report: ${outputPath}`);
+      }
+      console.log();
+      if (opts.strict && !result.ok) process.exit(1);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('data:snapshot')
+  .description('Load fixtures from a live data adapter, validate them against the canonical schemas and write them')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .requiredOption('--source <name>', `Data source: ${SNAPSHOT_SOURCES.join(' | ')}`)
+  .option('--blueprint <path>', 'Blueprint file path (default: blueprint.json)')
+  .option('--schemas <dir>', 'Canonical JSON Schemas directory (default: schemas/canonical)')
+  .option('--dry-run', 'Validate and report without writing fixtures')
+  .action(async (opts) => {
+    const cwd = resolve(opts.cwd);
+    if (!SNAPSHOT_SOURCES.includes(opts.source)) {
+      console.error(chalk.red(`\n  Error: --source must be one of ${SNAPSHOT_SOURCES.join(', ')}, got "${opts.source}"\n`));
+      process.exit(1);
+    }
+    try {
+      const result = await snapshotData({
+        cwd,
+        source: opts.source as SnapshotSource,
+        blueprintFile: opts.blueprint,
+        schemasDir: opts.schemas,
+        dryRun: opts.dryRun,
+      });
+
+      console.log(chalk.bold(`\n  Data snapshot: ${result.source}${opts.dryRun ? ' (dry run)' : ''}\n`));
+      for (const fixture of result.fixtures) {
+        const schema = fixture.schema ? chalk.gray(` (${fixture.schema})`) : '';
+        if (fixture.status === 'invalid') {
+          console.log(`  ${chalk.red('✗')} ${fixture.file}${schema}`);
+          for (const error of fixture.errors) {
+            console.log(chalk.red(`      ${error}`));
+          }
+          continue;
+        }
+        const status = fixture.status === 'unchanged' ? chalk.gray('unchanged') : opts.dryRun ? 'changed' : 'written';
+        console.log(`  ${chalk.green('✓')} ${fixture.file} ${status}${schema}`);
+      }
+
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n  Warnings:'));
+        for (const warning of result.warnings) {
+          console.log(`    - ${warning}`);
+        }
+      }
+      if (!result.ok) {
+        console.error(chalk.red('\n  Validation failed: no fixtures written.\n'));
+        process.exit(1);
+      }
+      console.log();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('types:canonical')
+  .description('Generate TypeScript types from the canonical JSON Schemas')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .option('--schemas <dir>', 'Canonical JSON Schemas directory (default: schemas/canonical)')
+  .option('--out <path>', 'Output module (default: src/data/adapters/canonical.generated.ts)')
+  .option('--check', 'Fail when the generated module is out of date instead of writing it')
+  .action((opts) => {
+    const cwd = resolve(opts.cwd);
+    try {
+      const result = generateCanonicalTypes({
+        cwd,
+        schemasDir: opts.schemas,
+        outFile: opts.out,
+        check: opts.check,
+      });
+
+      if (result.status === 'stale') {
+        console.error(chalk.red(`\n  ${result.outFile} is out of date. Run without --check to regenerate.\n`));
+        process.exit(1);
+      }
+      const status = result.status === 'unchanged' ? chalk.gray('unchanged') : 'written';
+      console.log(`\n  ${chalk.green('✓')} ${result.outFile} ${status} (${result.types.length} types)\n`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('templates')
+  .description('Transform DSL blocks, layouts and partials into template-engine files')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .option('--engine <name>', 'Template engine plugin (see --list)', 'liquid')
+  .option('--out-dir <dir>', 'Output directory (default: dist/templates/<engine>)')
+  .option('--platform-map <path>', 'Platform map override (default: platformMapPath from ui8kit.config.json)')
+  .option('--platform-domain <name>', 'Platform domain override, e.g. catalog')
+  .option('--platform <name>', 'Target platform override, e.g. shopify (default: platform from ui8kit.config.json)')
+  .option('--source-maps', 'Write a <template>.map source map next to each template (see locate)')
+  .option('--list', 'List available template engines and exit')
+  .action(async (opts) => {
+    const cwd = resolve(opts.cwd);
+    try {
+      if (opts.list) {
+        console.log(chalk.bold('\n  Template engines:\n'));
+        for (const meta of createTemplateRegistry().getAllMetadata()) {
+          console.log(`    ${meta.name.padEnd(12)} ${meta.fileExtension.padEnd(8)} ${meta.runtime.padEnd(7)} ${meta.description ?? ''}`);
+        }
+        console.log();
+        return;
+      }
+      const result = await generateTemplates({
+        cwd,
+        engine: opts.engine,
+        outDir: opts.outDir,
+        platformMapPath: opts.platformMap,
+        platformDomain: opts.platformDomain,
+        platform: opts.platform,
+        sourceMaps: opts.sourceMaps,
+        silent: true,
+      });
+      console.log(chalk.green(`\n  Templates generated (${result.engine}): ${result.outputDir}`));
+      console.log(`  Files: ${result.files.length}`);
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n  Warnings:'));
+        for (const warning of result.warnings) {
+          console.log(`    - ${warning}`);
+        }
+      }
+      console.log();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('locate <target>')
+  .description('Resolve <template>:<line>[:<column>] to the originating TSX line via the template source map')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .action((target: string, opts) => {
+    try {
+      const result = locateTemplateSource({ cwd: resolve(opts.cwd), target });
+      const position = result.column === undefined ? `${result.line}` : `${result.line}:${result.column}`;
+      console.log(
+        `\n  ${result.template}:${position} -> ${chalk.bold(`${result.source.file}:${result.source.line}:${result.source.column}`)}\n`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('parity')
+  .description('Render each route with React and with the generated templates, and report DOM diffs')
+  .option('--cwd <dir>', 'Working directory', '.')
+  .option('--engine <name>', `Template engine: ${PARITY_ENGINES.join(' | ')}`, 'liquid')
+  .option('--route <path...>', 'Only check these routes, e.g. /menu /menu/grill-salmon-steak')
+  .option('--out-dir <dir>', 'Output directory (default: dist/parity/<engine>)')
+  .option('--max-diff-lines <n>', 'Diff lines printed per route', '40')
+  .action(async (opts) => {
+    const cwd = resolve(opts.cwd);
+    if (!PARITY_ENGINES.includes(opts.engine)) {
+      console.error(chalk.red(`\n  Error: --engine must be one of ${PARITY_ENGINES.join(', ')}, got "${opts.engine}"\n`));
+      process.exit(1);
+    }
+    try {
+      const result = await checkRenderParity({
+        cwd,
+        engine: opts.engine as ParityEngine,
+        routes: opts.route,
+        outDir: opts.outDir,
+        silent: true,
+      });
+      const maxLines = Number(opts.maxDiffLines);
+
+      console.log(chalk.bold(`\n  Render parity: React vs ${result.engine}\n`));
+      for (const route of result.routes) {
+        const target = route.template ? chalk.gray(` (${route.view} -> ${route.template})`) : '';
+        if (route.status === 'match') {
+          console.log(`  ${chalk.green('✓')} ${route.route}${target}`);
+          continue;
+        }
+        if (route.status === 'error') {
+          console.log(`  ${chalk.red('✗')} ${route.route}${target}`);
+          console.log(chalk.red(`      ${route.error}`));
+          continue;
+        }
+        console.log(`  ${chalk.yellow('≠')} ${route.route}${target}`);
+        for (const line of route.diff.slice(0, maxLines)) {
+          const color = line.startsWith('-') ? chalk.red : line.startsWith('+') ? chalk.green : chalk.gray;
+          console.log(`      ${color(line)}`);
+        }
+        if (route.diff.length > maxLines) {
+          console.log(chalk.gray(`      ... ${route.diff.length - maxLines} more line(s)`));
+        }
+      }
+
+      const matched = result.routes.filter((route) => route.status === 'match').length;
+      console.log(`\n  Routes: ${matched}/${result.routes.length} match (- React, + ${result.engine})`);
+      console.log(`  Output: ${result.outputDir}`);
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\n  Warnings:'));
+        for (const warning of result.warnings) {
+          console.log(`    - ${warning}`);
+        }
+      }
+      console.log();
+      if (!result.ok) process.exit(1);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n  Error: ${message}\n`));
+      process.exit(1);
+    }
+  });
+
 const scaffoldCommand = program
   .command('scaffold')
   .description('Scaffold helpers for DSL applications');
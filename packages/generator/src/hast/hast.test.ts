@@ -31,6 +31,7 @@ import {
   getDepth,
   collectVariables,
   collectDependencies,
+  collectFilters,
   // Builders
   text,
   element,
@@ -504,6 +505,22 @@ describe('Variable Collection', () => {
       expect(deps).toEqual([]);
     });
   });
+
+  describe('collectFilters', () => {
+    it('collects variable filters and defaults', () => {
+      const tree = root([
+        annotate(element('span'), { variable: { name: 'price', filter: 'currency' } }),
+        annotate(element('span'), { variable: { name: 'title', default: 'Untitled', filter: 'uppercase' } }),
+        annotate(element('span'), { variable: { name: 'total', filter: 'currency' } }),
+      ]);
+
+      expect(collectFilters(tree)).toEqual(['currency', 'default', 'uppercase']);
+    });
+
+    it('returns empty array when no filters', () => {
+      expect(collectFilters(createSimpleTree())).toEqual([]);
+    });
+  });
 });
 
 // =============================================================================
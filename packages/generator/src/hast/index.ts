@@ -39,10 +39,13 @@ export type {
   GenAnnotations,
   GenLoop,
   GenCondition,
+  GenSwitch,
+  GenCase,
   GenVariable,
   GenSlot,
   GenInclude,
   GenBlock,
+  GenSourceLocation,
   // Property types
   GenProperties,
   GenElementProperties,
@@ -56,6 +59,7 @@ export type {
   GenNodePredicate,
   // Output types
   TemplateOutput,
+  TemplateSourceMap,
 } from './types';
 
 // Type guards
@@ -74,10 +78,13 @@ export {
   // Individual schemas
   GenLoopSchema,
   GenConditionSchema,
+  GenSwitchSchema,
+  GenCaseSchema,
   GenVariableSchema,
   GenSlotSchema,
   GenIncludeSchema,
   GenBlockSchema,
+  GenSourceLocationSchema,
   GenAnnotationsSchema,
   GenTextSchema,
   GenCommentSchema,
@@ -100,6 +107,8 @@ export {
 export type {
   GenLoopInput,
   GenConditionInput,
+  GenSwitchInput,
+  GenCaseInput,
   GenVariableInput,
   GenSlotInput,
   GenIncludeInput,
@@ -134,6 +143,7 @@ export {
   // Variable collection
   collectVariables,
   collectDependencies,
+  collectFilters,
   // Building
   text,
   element,
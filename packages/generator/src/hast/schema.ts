@@ -19,6 +19,9 @@ export const GenLoopSchema = z.object({
   collection: z.string().min(1, 'Collection name is required'),
   key: z.string().optional(),
   index: z.string().optional(),
+  first: z.string().optional(),
+  last: z.string().optional(),
+  length: z.string().optional(),
 });
 
 /**
@@ -30,6 +33,25 @@ export const GenConditionSchema = z.object({
   isElseIf: z.boolean().optional(),
 });
 
+/**
+ * Switch annotation schema
+ */
+export const GenSwitchSchema = z.object({
+  on: z.string().min(1, 'Switch subject is required'),
+});
+
+/**
+ * Case annotation schema
+ */
+export const GenCaseSchema = z
+  .object({
+    value: z.union([z.string(), z.number()]).optional(),
+    isDefault: z.boolean().optional(),
+  })
+  .refine((value) => value.isDefault === true || value.value !== undefined, {
+    message: 'Case value is required unless isDefault is set',
+  });
+
 /**
  * Variable annotation schema
  */
@@ -81,6 +103,9 @@ export const GenSourceLocationSchema = z.object({
 export const GenAnnotationsSchema = z.object({
   loop: GenLoopSchema.optional(),
   condition: GenConditionSchema.optional(),
+  switch: GenSwitchSchema.optional(),
+  case: GenCaseSchema.optional(),
+  empty: z.boolean().optional(),
   variable: GenVariableSchema.optional(),
   slot: GenSlotSchema.optional(),
   include: GenIncludeSchema.optional(),
@@ -204,6 +229,15 @@ export const TemplateOutputSchema = z.object({
   variables: z.array(z.string()),
   dependencies: z.array(z.string()),
   warnings: z.array(z.string()).optional(),
+  sourceMap: z
+    .object({
+      version: z.literal(3),
+      file: z.string(),
+      sources: z.array(z.string()),
+      names: z.array(z.string()),
+      mappings: z.string(),
+    })
+    .optional(),
 });
 
 // =============================================================================
@@ -244,6 +278,8 @@ export function validateTemplateOutput(data: unknown): z.SafeParseReturnType<unk
 
 export type GenLoopInput = z.input<typeof GenLoopSchema>;
 export type GenConditionInput = z.input<typeof GenConditionSchema>;
+export type GenSwitchInput = z.input<typeof GenSwitchSchema>;
+export type GenCaseInput = z.input<typeof GenCaseSchema>;
 export type GenVariableInput = z.input<typeof GenVariableSchema>;
 export type GenSlotInput = z.input<typeof GenSlotSchema>;
 export type GenIncludeInput = z.input<typeof GenIncludeSchema>;
@@ -67,6 +67,12 @@ export interface GenLoop {
   key?: string;
   /** Index variable name (optional): "index", "i" */
   index?: string;
+  /** Name bound to "first iteration" (optional): "isFirst" */
+  first?: string;
+  /** Name bound to "last iteration" (optional): "isLast" */
+  last?: string;
+  /** Name bound to the collection size (optional): "total" */
+  length?: string;
 }
 
 /**
@@ -86,6 +92,29 @@ export interface GenCondition {
   isElseIf?: boolean;
 }
 
+/**
+ * Switch annotation - selects one of its Case children by value
+ *
+ * @example
+ * React: <Switch on="item.availability"><Case value="available">...</Case><Default>...</Default></Switch>
+ * Liquid: {% case item.availability %}{% when 'available' %}...{% else %}...{% endcase %}
+ * Blade: @switch($item->availability) @case('available') ... @break @default ... @endswitch
+ */
+export interface GenSwitch {
+  /** Expression whose value selects the case: "item.availability", "promotion.discount.type" */
+  on: string;
+}
+
+/**
+ * Case annotation - one branch of the enclosing Switch
+ */
+export interface GenCase {
+  /** Value compared with the Switch subject (absent on the default branch) */
+  value?: string | number;
+  /** Is this the Default branch? */
+  isDefault?: boolean;
+}
+
 /**
  * Variable annotation - represents dynamic value insertion
  *
@@ -101,7 +130,7 @@ export interface GenVariable {
   default?: string;
   /** Filter/pipe to apply: "uppercase", "currency", "date" */
   filter?: string;
-  /** Filter arguments */
+  /** Filter arguments (`<Var format>` props such as `pattern`, `currency`, `length`) */
   filterArgs?: string[];
 }
 
@@ -155,6 +184,18 @@ export interface GenBlock {
   extends?: string;
 }
 
+/**
+ * Location of the JSX node an element was built from
+ */
+export interface GenSourceLocation {
+  /** Source file path */
+  file: string;
+  /** 1-based line */
+  line: number;
+  /** 0-based column */
+  column: number;
+}
+
 /**
  * Complete generator annotations object
  */
@@ -163,6 +204,12 @@ export interface GenAnnotations {
   loop?: GenLoop;
   /** Conditional annotation */
   condition?: GenCondition;
+  /** Switch annotation */
+  switch?: GenSwitch;
+  /** Case annotation (child of a switch) */
+  case?: GenCase;
+  /** Empty branch of a loop, rendered when the collection has no items */
+  empty?: boolean;
   /** Variable annotation */
   variable?: GenVariable;
   /** Slot annotation */
@@ -177,12 +224,8 @@ export interface GenAnnotations {
   raw?: boolean;
   /** Original React component name */
   component?: string;
-  /** Source file location */
-  source?: {
-    file: string;
-    line: number;
-    column: number;
-  };
+  /** Source file location (set with `includeSourceLocations`) */
+  source?: GenSourceLocation;
 }
 
 // =============================================================================
@@ -350,6 +393,20 @@ export interface TemplateOutput {
   dependencies: string[];
   /** Warnings during generation */
   warnings?: string[];
+  /** Source map back to the JSX sources (plugin config `sourceMaps`) */
+  sourceMap?: TemplateSourceMap;
+}
+
+/**
+ * Source map v3 (https://sourcemaps.info/spec.html) for a generated template
+ */
+export interface TemplateSourceMap {
+  version: 3;
+  /** Generated template file name */
+  file: string;
+  sources: string[];
+  names: string[];
+  mappings: string;
 }
 
 // =============================================================================
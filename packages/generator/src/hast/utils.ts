@@ -434,6 +434,11 @@ export function collectVariables(tree: GenRoot | GenElement): string[] {
       }
     }
 
+    // From switch subject
+    if (annotations.switch) {
+      variables.add(annotations.switch.on.split('.')[0]);
+    }
+
     // From include props
     if (annotations.include?.props) {
       Object.values(annotations.include.props).forEach(value => {
@@ -466,6 +471,30 @@ export function collectDependencies(tree: GenRoot | GenElement): string[] {
   return Array.from(deps).sort();
 }
 
+/**
+ * Collect all filters applied by variable annotations in the tree.
+ * A variable default counts as the `default` filter.
+ */
+export function collectFilters(tree: GenRoot | GenElement): string[] {
+  const filters = new Set<string>();
+
+  visit(tree, (node) => {
+    if (!isElement(node)) return;
+
+    const variable = getAnnotations(node)?.variable;
+    if (!variable) return;
+
+    if (variable.filter) {
+      filters.add(variable.filter);
+    }
+    if (variable.default !== undefined) {
+      filters.add('default');
+    }
+  });
+
+  return Array.from(filters).sort();
+}
+
 // =============================================================================
 // Tree Building Helpers
 // =============================================================================
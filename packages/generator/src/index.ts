@@ -22,6 +22,10 @@ export {
   loadFixtureRoutes,
   type LoadFixtureRoutesOptions,
   type FixtureCollection,
+  normalizeHtml,
+  diffHtml,
+  type HtmlDiff,
+  type DiffHtmlOptions,
 } from './utils';
 
 export {
@@ -133,6 +137,11 @@ export {
   registerTemplatePlugin,
   getTemplatePlugin,
   ReactPlugin,
+  STANDARD_FILTERS,
+  isStandardFilter,
+  PlatformMapSchema,
+  validatePlatformMap,
+  loadPlatformMap,
 } from './plugins';
 
 export type {
@@ -141,10 +150,17 @@ export type {
   TemplatePluginContext,
   TemplatePluginConfig,
   TransformResult as TemplateTransformResult,
+  GeneratedTemplate,
+  SwitchBranch,
+  LoopMeta,
   FilterDefinition,
   StandardFilter,
+  PlatformFieldMapping,
+  PlatformDomainMapping,
+  PlatformMap,
   TemplatePluginFactory,
   TemplatePluginMetadata,
+  TemplateRuntime,
 } from './plugins';
 
 // =============================================================================
@@ -178,12 +194,15 @@ export {
   getDepth,
   collectVariables,
   collectDependencies,
+  collectFilters,
   text,
   element,
   root,
   annotate,
   GenLoopSchema,
   GenConditionSchema,
+  GenSwitchSchema,
+  GenCaseSchema,
   GenVariableSchema,
   GenSlotSchema,
   GenIncludeSchema,
@@ -210,10 +229,13 @@ export type {
   GenAnnotations,
   GenLoop,
   GenCondition,
+  GenSwitch,
+  GenCase,
   GenVariable,
   GenSlot,
   GenInclude,
   GenBlock,
+  GenSourceLocation,
   GenProperties,
   GenElementProperties,
   GenComponentMeta,
@@ -222,6 +244,7 @@ export type {
   GenVisitorObject,
   GenNodePredicate,
   TemplateOutput,
+  TemplateSourceMap,
 } from './hast';
 
 // =============================================================================
@@ -246,6 +269,7 @@ export type {
   ComponentPatterns,
   ExpressionType,
   AnalyzedExpression,
+  UnsupportedExpression,
   AnalyzedComponent,
   AnalyzedProp,
   AnalyzedImport,
@@ -265,6 +289,9 @@ export {
 
 export type { ComponentTagMap, ComponentTagConfig } from './lib';
 
+/** Canonical item schema per platform domain (data:snapshot, maintain fixtures checker) */
+export { CANONICAL_ITEM_SCHEMAS } from './lib';
+
 // =============================================================================
 // Registry Generator
 // =============================================================================
@@ -276,6 +303,17 @@ export {
   validateBlueprint,
   buildDependencyGraph,
   scaffoldEntity,
+  generateTemplates,
+  createTemplateRegistry,
+  generateVueApp,
+  checkRenderParity,
+  PARITY_ENGINES,
+  checkPlatformCoverage,
+  snapshotData,
+  SNAPSHOT_SOURCES,
+  generateCanonicalTypes,
+  DEFAULT_CANONICAL_TYPES_FILE,
+  locateTemplateSource,
   type Registry,
   type RegistryItem,
   type RegistryItemType,
@@ -290,4 +328,28 @@ export {
   type BuildDependencyGraphResult,
   type ScaffoldEntityOptions,
   type ScaffoldEntityResult,
+  type GenerateTemplatesOptions,
+  type GenerateTemplatesResult,
+  type GenerateVueAppOptions,
+  type GenerateVueAppResult,
+  type VueRouteRecord,
+  type CheckRenderParityOptions,
+  type CheckRenderParityResult,
+  type ParityEngine,
+  type RouteParityResult,
+  type RouteParityStatus,
+  type CheckPlatformCoverageOptions,
+  type CheckPlatformCoverageResult,
+  type PlatformDomainCoverage,
+  type PlatformFieldUsage,
+  type SnapshotDataOptions,
+  type SnapshotDataResult,
+  type SnapshotFixtureResult,
+  type SnapshotFixtureStatus,
+  type SnapshotSource,
+  type GenerateCanonicalTypesOptions,
+  type GenerateCanonicalTypesResult,
+  type CanonicalTypesStatus,
+  type LocateTemplateSourceOptions,
+  type LocateTemplateSourceResult,
 } from './scripts';
@@ -0,0 +1,123 @@
+/**
+ * Tests for canonical JSON Schema -> TypeScript type generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCanonicalTypes,
+  canonicalTypeName,
+  findCanonicalProperties,
+  renderCanonicalTypes,
+  type CanonicalSchemaFile,
+} from './canonical-types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const SHARED: CanonicalSchemaFile = {
+  file: 'shared-types.schema.json',
+  schema: {
+    title: 'Canonical Shared Types',
+    type: 'object',
+    $defs: {
+      Price: {
+        type: 'object',
+        required: ['amount', 'display'],
+        properties: {
+          amount: { type: 'number' },
+          display: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const CATALOG: CanonicalSchemaFile = {
+  file: 'catalog-item.schema.json',
+  schema: {
+    title: 'Canonical Catalog Item',
+    type: 'object',
+    required: ['id', 'price', 'availability', 'variants'],
+    properties: {
+      id: { type: 'string' },
+      price: { $ref: './shared-types.schema.json#/$defs/Price' },
+      availability: { type: 'string', enum: ['available', 'limited'] },
+      servings: { type: 'integer', minimum: 1 },
+      variants: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string' },
+            priceModifier: { $ref: './shared-types.schema.json#/$defs/Price' },
+          },
+        },
+      },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+  },
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('canonicalTypeName', () => {
+  it('drops the "Canonical" prefix and joins words in PascalCase', () => {
+    expect(canonicalTypeName({ title: 'Canonical Promotion Item' }, 'promo-item.schema.json')).toBe('PromotionItem');
+    expect(canonicalTypeName({}, 'blog-post.schema.json')).toBe('BlogPost');
+  });
+});
+
+describe('buildCanonicalTypes', () => {
+  it('creates root and $defs types, skipping roots without properties', () => {
+    const types = buildCanonicalTypes([CATALOG, SHARED]);
+    expect(types.map((type) => [type.name, type.source])).toEqual([
+      ['CatalogItem', 'catalog-item.schema.json'],
+      ['Price', 'shared-types.schema.json#/$defs/Price'],
+    ]);
+  });
+
+  it('maps optionality, kinds and type expressions', () => {
+    const [catalog] = buildCanonicalTypes([CATALOG, SHARED]);
+    const byName = Object.fromEntries(catalog.properties.map((property) => [property.name, property]));
+
+    expect(byName.price).toMatchObject({ optional: false, kind: 'object', type: 'Price' });
+    expect(byName.availability).toMatchObject({ kind: 'string', type: "'available' | 'limited'" });
+    expect(byName.servings).toMatchObject({ optional: true, kind: 'number', type: 'number' });
+    expect(byName.tags).toMatchObject({ kind: 'array', type: 'string[]' });
+    expect(byName.variants.properties?.map((property) => property.name)).toEqual(['id', 'priceModifier']);
+  });
+
+  it('rejects duplicate type names across schemas', () => {
+    const duplicate: CanonicalSchemaFile = { file: 'price.schema.json', schema: { title: 'Price', properties: {} } };
+    expect(() => buildCanonicalTypes([SHARED, duplicate])).toThrow('Duplicate canonical type "Price"');
+  });
+});
+
+describe('findCanonicalProperties', () => {
+  it('resolves nested inline objects and array items by dotted path', () => {
+    const types = buildCanonicalTypes([CATALOG, SHARED]);
+    expect(findCanonicalProperties(types, 'CatalogItem.variants')?.map((property) => property.name)).toEqual([
+      'id',
+      'priceModifier',
+    ]);
+    expect(findCanonicalProperties(types, 'CatalogItem.price')).toBeUndefined();
+    expect(findCanonicalProperties(types, 'Missing')).toBeUndefined();
+  });
+});
+
+describe('renderCanonicalTypes', () => {
+  it('renders exported type aliases with inline array items', () => {
+    const output = renderCanonicalTypes(buildCanonicalTypes([CATALOG, SHARED]));
+
+    expect(output).toContain('Do not edit');
+    expect(output).toContain('/** From catalog-item.schema.json */\nexport type CatalogItem = {');
+    expect(output).toContain('  servings?: number;');
+    expect(output).toContain('  variants: {\n    id: string;\n    priceModifier?: Price;\n  }[];');
+    expect(output).toContain('export type Price = {\n  amount: number;\n  display: string;\n};');
+    expect(output.endsWith('};\n')).toBe(true);
+  });
+});
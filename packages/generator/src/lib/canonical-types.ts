@@ -0,0 +1,284 @@
+/**
+ * Canonical JSON Schema -> TypeScript types.
+ * Used by `ui8kit-generate types:canonical` and the maintain canonical-types checker.
+ *
+ * @module @ui8kit/generator/lib
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Canonical item schema per platform domain (`schemas/canonical/`).
+ * Used by `ui8kit-generate data:snapshot` and the maintain fixtures checker.
+ */
+export const CANONICAL_ITEM_SCHEMAS: Record<string, string> = {
+  catalog: 'catalog-item.schema.json',
+  promo: 'promo-item.schema.json',
+  guide: 'guide-item.schema.json',
+  blog: 'blog-post.schema.json',
+};
+
+export type CanonicalJsonSchema = {
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, CanonicalJsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, CanonicalJsonSchema>;
+  required?: string[];
+  items?: CanonicalJsonSchema;
+  additionalProperties?: boolean | CanonicalJsonSchema;
+  anyOf?: CanonicalJsonSchema[];
+  oneOf?: CanonicalJsonSchema[];
+  /** Validation keywords (format, minimum, ...) do not affect the generated types */
+  [keyword: string]: unknown;
+};
+
+export interface CanonicalSchemaFile {
+  /** File name, e.g. catalog-item.schema.json */
+  file: string;
+  schema: CanonicalJsonSchema;
+}
+
+/** Coarse value kind used to compare hand-written property types. */
+export type CanonicalValueKind = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'unknown';
+
+export interface CanonicalProperty {
+  name: string;
+  optional: boolean;
+  kind: CanonicalValueKind;
+  /** TypeScript type expression; inline objects render from `properties` instead */
+  type: string;
+  /** Members of an inline object, or of inline array items when `kind` is array */
+  properties?: CanonicalProperty[];
+}
+
+export interface CanonicalTypeDefinition {
+  /** Exported type name: schema title without "Canonical " or the `$defs` key */
+  name: string;
+  /** Schema location, e.g. guide-item.schema.json#/$defs/Ingredient */
+  source: string;
+  description?: string;
+  properties: CanonicalProperty[];
+}
+
+const DEFS_REF = /^(?:\.\/([^#]+))?#\/\$defs\/([A-Za-z0-9_]+)$/;
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Read every `*.schema.json` in a directory, sorted by file name.
+ */
+export function loadCanonicalSchemas(schemasDir: string): CanonicalSchemaFile[] {
+  return readdirSync(schemasDir)
+    .filter((file) => file.endsWith('.schema.json'))
+    .sort()
+    .map((file) => ({
+      file,
+      schema: JSON.parse(readFileSync(join(schemasDir, file), 'utf-8')) as CanonicalJsonSchema,
+    }));
+}
+
+/**
+ * Type name for a schema root: "Canonical Promotion Item" -> PromotionItem.
+ */
+export function canonicalTypeName(schema: CanonicalJsonSchema, file: string): string {
+  const label = (schema.title ?? file.replace(/\.schema\.json$/, '')).replace(/^Canonical\s+/, '');
+  return label
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Build type definitions from canonical schemas: one per schema root with
+ * properties and one per `$defs` entry. `$ref`s become named type references.
+ */
+export function buildCanonicalTypes(schemas: CanonicalSchemaFile[]): CanonicalTypeDefinition[] {
+  const defKinds = new Map<string, CanonicalValueKind>();
+  for (const { schema } of schemas) {
+    for (const [name, def] of Object.entries(schema.$defs ?? {})) {
+      defKinds.set(name, valueKind(def, defKinds));
+    }
+  }
+
+  const types: CanonicalTypeDefinition[] = [];
+  const sources = new Map<string, string>();
+  const add = (name: string, source: string, schema: CanonicalJsonSchema) => {
+    const existing = sources.get(name);
+    if (existing) {
+      throw new Error(`Duplicate canonical type "${name}" (${existing}, ${source})`);
+    }
+    sources.set(name, source);
+    types.push({
+      name,
+      source,
+      ...(schema.description ? { description: schema.description } : {}),
+      properties: objectProperties(schema, defKinds),
+    });
+  };
+
+  for (const { file, schema } of schemas) {
+    if (schema.properties) add(canonicalTypeName(schema, file), file, schema);
+    for (const [name, def] of Object.entries(schema.$defs ?? {})) {
+      add(name, `${file}#/$defs/${name}`, def);
+    }
+  }
+  return types;
+}
+
+/**
+ * Properties at a dotted path: `CatalogItem` or `CatalogItem.variants`
+ * (array properties resolve to their inline item members).
+ */
+export function findCanonicalProperties(
+  types: CanonicalTypeDefinition[],
+  path: string
+): CanonicalProperty[] | undefined {
+  const [typeName, ...segments] = path.split('.');
+  let properties = types.find((type) => type.name === typeName)?.properties;
+  for (const segment of segments) {
+    properties = properties?.find((property) => property.name === segment)?.properties;
+  }
+  return properties;
+}
+
+export interface RenderCanonicalTypesOptions {
+  /** Schemas directory shown in the header, relative to the app */
+  schemasDir?: string;
+}
+
+/**
+ * Render definitions as a TypeScript module of `export type` aliases.
+ */
+export function renderCanonicalTypes(
+  types: CanonicalTypeDefinition[],
+  options: RenderCanonicalTypesOptions = {}
+): string {
+  const header = [
+    '/**',
+    ` * Generated from ${options.schemasDir ?? 'schemas/canonical'}/*.schema.json by \`ui8kit-generate types:canonical\`.`,
+    ' * Do not edit: change the schema and regenerate.',
+    ' */',
+  ].join('\n');
+
+  const blocks = types.map((type) => {
+    const doc = type.description ? `${type.description} (${type.source})` : `From ${type.source}`;
+    return `/** ${doc} */\nexport type ${type.name} = ${renderObject(type.properties, '')};`;
+  });
+  return `${header}\n\n${blocks.join('\n\n')}\n`;
+}
+
+function objectProperties(
+  schema: CanonicalJsonSchema,
+  defKinds: Map<string, CanonicalValueKind>
+): CanonicalProperty[] {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([name, propertySchema]) => ({
+    name,
+    optional: !required.has(name),
+    ...propertyShape(propertySchema, defKinds),
+  }));
+}
+
+function propertyShape(
+  schema: CanonicalJsonSchema,
+  defKinds: Map<string, CanonicalValueKind>
+): Omit<CanonicalProperty, 'name' | 'optional'> {
+  if (schema.properties) {
+    return { kind: 'object', type: 'object', properties: objectProperties(schema, defKinds) };
+  }
+  if (schema.items?.properties) {
+    return { kind: 'array', type: 'object[]', properties: objectProperties(schema.items, defKinds) };
+  }
+  return { kind: valueKind(schema, defKinds), type: typeExpression(schema) };
+}
+
+function valueKind(schema: CanonicalJsonSchema, defKinds: Map<string, CanonicalValueKind>): CanonicalValueKind {
+  if (schema.$ref) {
+    const match = DEFS_REF.exec(schema.$ref);
+    return (match && defKinds.get(match[2])) ?? 'object';
+  }
+  const literals = schema.enum ?? (schema.const !== undefined ? [schema.const] : undefined);
+  const types = literals
+    ? [...new Set(literals.map((literal) => typeof literal))]
+    : Array.isArray(schema.type)
+      ? schema.type.filter((type) => type !== 'null')
+      : schema.type
+        ? [schema.type]
+        : [];
+  if (types.length !== 1) return 'unknown';
+  switch (types[0]) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return 'array';
+    case 'object':
+      return 'object';
+    default:
+      return 'unknown';
+  }
+}
+
+function typeExpression(schema: CanonicalJsonSchema): string {
+  if (schema.$ref) {
+    const match = DEFS_REF.exec(schema.$ref);
+    if (!match) throw new Error(`Unsupported canonical $ref: ${schema.$ref}`);
+    return match[2];
+  }
+  if (schema.enum) return schema.enum.map(literalType).join(' | ');
+  if (schema.const !== undefined) return literalType(schema.const);
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) return variants.map(typeExpression).join(' | ');
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => typeExpression({ ...schema, type })).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? typeExpression(schema.items) : 'unknown';
+      return item.includes(' ') ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+      return typeof schema.additionalProperties === 'object'
+        ? `Record<string, ${typeExpression(schema.additionalProperties)}>`
+        : 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function literalType(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+}
+
+function renderObject(properties: CanonicalProperty[], indent: string): string {
+  if (properties.length === 0) return 'Record<string, never>';
+  const inner = `${indent}  `;
+  const lines = properties.map((property) => {
+    const key = IDENTIFIER.test(property.name) ? property.name : `'${property.name}'`;
+    const value = property.properties
+      ? `${renderObject(property.properties, inner)}${property.kind === 'array' ? '[]' : ''}`
+      : property.type;
+    return `${inner}${key}${property.optional ? '?' : ''}: ${value};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
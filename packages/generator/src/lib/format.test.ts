@@ -0,0 +1,62 @@
+/**
+ * Tests for the runtime formatters behind `<Var format>`
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatCurrency, formatDate, formatNumber, parseDatePattern, truncate } from './format';
+
+describe('parseDatePattern', () => {
+  it('splits tokens from literal and quoted text', () => {
+    expect(parseDatePattern("MMM d, yyyy 'at' h")).toEqual([
+      { token: 'MMM' },
+      { literal: ' ' },
+      { token: 'd' },
+      { literal: ', ' },
+      { token: 'yyyy' },
+      { literal: ' at ' },
+      { token: 'h' },
+    ]);
+  });
+});
+
+describe('formatDate', () => {
+  it('formats date-only strings as calendar dates', () => {
+    expect(formatDate('2024-03-05')).toBe('2024-03-05');
+    expect(formatDate('2024-03-05', 'MMM d, yyyy')).toBe('Mar 5, 2024');
+    expect(formatDate('2024-03-05', 'EEEE, MMMM dd')).toBe('Tuesday, March 05');
+  });
+
+  it('formats times with 12 and 24 hour clocks', () => {
+    const date = new Date(2024, 2, 5, 14, 7, 9);
+    expect(formatDate(date, 'HH:mm:ss')).toBe('14:07:09');
+    expect(formatDate(date, "h:mm a 'o''clock'")).toBe("2:07 PM o'clock");
+  });
+
+  it('returns values that are not dates as text', () => {
+    expect(formatDate('soon')).toBe('soon');
+    expect(formatDate(undefined)).toBe('');
+  });
+});
+
+describe('formatCurrency', () => {
+  it('formats amounts in the given currency', () => {
+    expect(formatCurrency(12.5)).toBe('$12.50');
+    expect(formatCurrency('1200', 'EUR')).toBe('€1,200.00');
+    expect(formatCurrency(null)).toBe('');
+  });
+});
+
+describe('formatNumber', () => {
+  it('groups digits and fixes decimals when given', () => {
+    expect(formatNumber(1234.567)).toBe('1,234.567');
+    expect(formatNumber(4.25, 1)).toBe('4.3');
+  });
+});
+
+describe('truncate', () => {
+  it('cuts long text and appends the suffix', () => {
+    expect(truncate('Tomato soup with basil', 6)).toBe('Tomato...');
+    expect(truncate('Soup', 6)).toBe('Soup');
+    expect(truncate('Tomato soup', 6, '…')).toBe('Tomato…');
+  });
+});
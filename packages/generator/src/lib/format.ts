@@ -0,0 +1,148 @@
+/**
+ * @ui8kit/generator/format
+ *
+ * Runtime formatters behind `<Var format="...">` in generated React, Vue,
+ * Svelte, Astro and Web Component output. Template engines map the same
+ * formats onto their native filters (see the plugin filter mappings).
+ *
+ * Date patterns use Unicode tokens: `yyyy yy MMMM MMM MM M dd d EEEE EEE
+ * HH H hh h mm ss a`; anything else is literal, as is text quoted with `'...'`
+ * (`''` is a single quote).
+ *
+ * @example
+ * formatDate('2024-03-15', 'MMM d, yyyy')   // "Mar 15, 2024"
+ * formatCurrency(12.5, 'EUR')               // "€12.50"
+ * truncate('A long description', 6)         // "A long..."
+ */
+
+export type DateToken =
+  | 'yyyy'
+  | 'yy'
+  | 'MMMM'
+  | 'MMM'
+  | 'MM'
+  | 'M'
+  | 'dd'
+  | 'd'
+  | 'EEEE'
+  | 'EEE'
+  | 'HH'
+  | 'H'
+  | 'hh'
+  | 'h'
+  | 'mm'
+  | 'ss'
+  | 'a';
+
+export type DatePatternPart = { token: DateToken } | { literal: string };
+
+export const DEFAULT_DATE_PATTERN = 'yyyy-MM-dd';
+
+const DATE_TOKEN = /'((?:[^']|'')*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g;
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Split a date pattern into tokens and literal text
+ */
+export function parseDatePattern(pattern: string): DatePatternPart[] {
+  const parts: DatePatternPart[] = [];
+  const pushLiteral = (text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && 'literal' in last) last.literal += text;
+    else parts.push({ literal: text });
+  };
+
+  let lastIndex = 0;
+  for (const match of pattern.matchAll(DATE_TOKEN)) {
+    pushLiteral(pattern.slice(lastIndex, match.index));
+    if (match[1] !== undefined) pushLiteral(match[1] ? match[1].replace(/''/g, "'") : "'");
+    else parts.push({ token: match[0] as DateToken });
+    lastIndex = match.index! + match[0].length;
+  }
+  pushLiteral(pattern.slice(lastIndex));
+  return parts;
+}
+
+/** Date-only ISO strings are calendar dates, not UTC midnight */
+function toDate(value: unknown): Date | null {
+  if (value == null || value === '') return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  const dateOnly = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function toText(value: unknown): string {
+  return value == null ? '' : String(value);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function formatToken(date: Date, token: DateToken): string {
+  const hours12 = date.getHours() % 12 || 12;
+  switch (token) {
+    case 'yyyy': return String(date.getFullYear());
+    case 'yy': return pad(date.getFullYear() % 100);
+    case 'MMMM': return MONTHS[date.getMonth()];
+    case 'MMM': return MONTHS[date.getMonth()].slice(0, 3);
+    case 'MM': return pad(date.getMonth() + 1);
+    case 'M': return String(date.getMonth() + 1);
+    case 'dd': return pad(date.getDate());
+    case 'd': return String(date.getDate());
+    case 'EEEE': return WEEKDAYS[date.getDay()];
+    case 'EEE': return WEEKDAYS[date.getDay()].slice(0, 3);
+    case 'HH': return pad(date.getHours());
+    case 'H': return String(date.getHours());
+    case 'hh': return pad(hours12);
+    case 'h': return String(hours12);
+    case 'mm': return pad(date.getMinutes());
+    case 'ss': return pad(date.getSeconds());
+    case 'a': return date.getHours() < 12 ? 'AM' : 'PM';
+  }
+}
+
+/**
+ * Format a date, timestamp or date string; unparseable values are returned as text
+ */
+export function formatDate(value: unknown, pattern: string = DEFAULT_DATE_PATTERN): string {
+  const date = toDate(value);
+  if (!date) return toText(value);
+  return parseDatePattern(pattern)
+    .map((part) => ('token' in part ? formatToken(date, part.token) : part.literal))
+    .join('');
+}
+
+/**
+ * Format an amount in the given ISO 4217 currency
+ */
+export function formatCurrency(value: unknown, currency = 'USD', locale = 'en-US'): string {
+  if (value == null || value === '') return '';
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(Number(value));
+}
+
+/**
+ * Format a number with grouping and, when given, a fixed number of decimals
+ */
+export function formatNumber(value: unknown, decimals?: number, locale = 'en-US'): string {
+  if (value == null || value === '') return '';
+  const digits =
+    decimals === undefined ? {} : { minimumFractionDigits: decimals, maximumFractionDigits: decimals };
+  return new Intl.NumberFormat(locale, digits).format(Number(value));
+}
+
+/**
+ * Cut text to `length` characters and append `suffix` when it was longer
+ */
+export function truncate(value: unknown, length = 50, suffix = '...'): string {
+  const text = toText(value);
+  return text.length > length ? text.slice(0, length) + suffix : text;
+}
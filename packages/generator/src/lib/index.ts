@@ -5,6 +5,7 @@
  * - HtmlConverterService (validation during HTML→CSS conversion)
  * - Maintain checker (DSL validation)
  * - ui8kit-validate (props + DSL rules, type-level)
+ * - Canonical schema types (types:canonical, maintain canonical-types checker)
  */
 
 export {
@@ -19,3 +20,21 @@ export type {
   ComponentTagMap,
   ComponentTagConfig,
 } from './component-tag-map';
+
+export {
+  CANONICAL_ITEM_SCHEMAS,
+  loadCanonicalSchemas,
+  canonicalTypeName,
+  buildCanonicalTypes,
+  findCanonicalProperties,
+  renderCanonicalTypes,
+} from './canonical-types';
+
+export type {
+  CanonicalJsonSchema,
+  CanonicalSchemaFile,
+  CanonicalValueKind,
+  CanonicalProperty,
+  CanonicalTypeDefinition,
+  RenderCanonicalTypesOptions,
+} from './canonical-types';
@@ -12,6 +12,13 @@ export {
   getTemplatePlugin,
   // Built-in Plugins
   ReactPlugin,
+  // Filters
+  STANDARD_FILTERS,
+  isStandardFilter,
+  // Platform maps
+  PlatformMapSchema,
+  validatePlatformMap,
+  loadPlatformMap,
 } from './template';
 
 export type {
@@ -20,8 +27,15 @@ export type {
   TemplatePluginContext,
   TemplatePluginConfig,
   TransformResult,
+  GeneratedTemplate,
+  SwitchBranch,
+  LoopMeta,
   FilterDefinition,
   StandardFilter,
+  PlatformFieldMapping,
+  PlatformDomainMapping,
+  PlatformMap,
   TemplatePluginFactory,
   TemplatePluginMetadata,
+  TemplateRuntime,
 } from './template';
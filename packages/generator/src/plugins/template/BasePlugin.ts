@@ -11,8 +11,11 @@ import type {
   TemplatePluginContext,
   TemplatePluginConfig,
   TransformResult,
+  SwitchBranch,
+  LoopMeta,
   FilterDefinition,
   StandardFilter,
+  TemplateRuntime,
 } from './ITemplatePlugin';
 
 import type {
@@ -22,10 +25,13 @@ import type {
   TemplateOutput,
   GenLoop,
   GenCondition,
+  GenSwitch,
+  GenCase,
   GenVariable,
   GenSlot,
   GenInclude,
   GenBlock,
+  GenSourceLocation,
 } from '../../hast';
 
 import {
@@ -35,8 +41,13 @@ import {
   getAnnotations,
   collectVariables,
   collectDependencies,
+  element,
+  annotate,
 } from '../../hast';
 
+import { encodeSourceMap, extractSourceMarks, sourceMark } from './source-map';
+import { replaceIdentifier } from './built-in/component-script';
+
 // =============================================================================
 // Self-Closing Tags
 // =============================================================================
@@ -60,7 +71,7 @@ export abstract class BasePlugin implements ITemplatePlugin {
 
   abstract readonly name: string;
   abstract readonly version: string;
-  abstract readonly runtime: 'js' | 'php';
+  abstract readonly runtime: TemplateRuntime;
   abstract readonly fileExtension: string;
   abstract readonly description?: string;
   abstract readonly features: TemplatePluginFeatures;
@@ -75,6 +86,13 @@ export abstract class BasePlugin implements ITemplatePlugin {
   protected currentDepth: number = 0;
   protected warnings: string[] = [];
 
+  /** Locations referenced by source marks; set while `transform` builds a source map */
+  protected sourceLocations?: GenSourceLocation[];
+  private sourceStack: number[] = [];
+
+  /** Loops enclosing the element being processed, innermost last */
+  protected loopStack: GenLoop[] = [];
+
   /** Filter mappings for this engine */
   protected filterMappings: Map<StandardFilter, FilterDefinition> = new Map();
 
@@ -108,17 +126,27 @@ export abstract class BasePlugin implements ITemplatePlugin {
   async transform(tree: GenRoot): Promise<TemplateOutput> {
     this.warnings = [];
     this.currentDepth = 0;
+    this.sourceLocations = this.config.sourceMaps ? [] : undefined;
+    this.sourceStack = [];
 
     // Transform children
-    const content = await this.transformChildren(tree.children);
+    const content = this.formatOutput(await this.transformChildren(tree.children));
+    const filename = this.getOutputFilename(tree);
 
-    return {
-      filename: this.getOutputFilename(tree),
-      content: this.formatOutput(content),
+    const output: TemplateOutput = {
+      filename,
+      content,
       variables: collectVariables(tree),
       dependencies: collectDependencies(tree),
       warnings: this.warnings.length > 0 ? this.warnings : undefined,
     };
+    if (this.sourceLocations) {
+      const marked = extractSourceMarks(content, this.sourceLocations);
+      output.content = marked.content;
+      output.sourceMap = encodeSourceMap(filename, marked.mappings);
+      this.sourceLocations = undefined;
+    }
+    return output;
   }
 
   async transformElement(element: GenElement): Promise<TransformResult> {
@@ -154,17 +182,20 @@ export abstract class BasePlugin implements ITemplatePlugin {
           }
 
           if (branchSiblings.length > 0) {
+            // Group the if-branch's own children so a nested If at its end
+            // does not claim the outer Else/ElseIf siblings
+            const ifBody: GenElement = annotate(element('div', {}, child.children), { unwrap: true });
             const merged: GenElement = {
               ...child,
-              children: [...child.children, ...branchSiblings],
+              children: [ifBody, ...branchSiblings],
             };
-            results.push(await this.processElement(merged));
+            results.push(await this.processMappedElement(merged));
             i = j - 1;
             continue;
           }
         }
 
-        results.push(await this.processElement(child));
+        results.push(await this.processMappedElement(child));
       } else if (isText(child)) {
         results.push(child.value);
       } else if (isComment(child)) {
@@ -175,6 +206,26 @@ export abstract class BasePlugin implements ITemplatePlugin {
     return results.join('');
   }
 
+  /**
+   * Process an element; while building a source map, its output is marked with
+   * its source location and the parent location resumes after it.
+   */
+  protected async processMappedElement(element: GenElement): Promise<string> {
+    const source = getAnnotations(element)?.source;
+    if (!this.sourceLocations || !source) return this.processElement(element);
+
+    const parent = this.sourceStack.at(-1);
+    const index = this.sourceLocations.push(source) - 1;
+    this.sourceStack.push(index);
+    try {
+      const content = await this.processElement(element);
+      if (content === '') return content;
+      return `${sourceMark(index)}${content}${parent === undefined ? '' : sourceMark(parent)}`;
+    } finally {
+      this.sourceStack.pop();
+    }
+  }
+
   /**
    * Process a single element with its annotations
    */
@@ -188,9 +239,20 @@ export abstract class BasePlugin implements ITemplatePlugin {
       // Variable and include annotations don't need children content
       if (annotations.variable || annotations.include) {
         content = '';
+      } else if (annotations.switch) {
+        content = this.renderSwitch(annotations.switch, await this.transformSwitchBranches(element.children));
+      } else if (annotations.loop) {
+        content = await this.transformLoopBody(annotations.loop, element.children);
       } else {
         content = await this.transformChildren(element.children);
       }
+    } else if (annotations?.loop) {
+      this.loopStack.push(annotations.loop);
+      try {
+        content = await this.renderElementContent(element);
+      } finally {
+        this.loopStack.pop();
+      }
     } else {
       content = await this.renderElementContent(element);
     }
@@ -199,17 +261,19 @@ export abstract class BasePlugin implements ITemplatePlugin {
     if (annotations) {
       // Condition wrapping
       if (annotations.condition) {
-        content = this.renderCondition(annotations.condition, content);
+        const condition = { ...annotations.condition, expression: this.resolveLoopMeta(annotations.condition.expression) };
+        content = this.renderCondition(condition, content);
       }
 
       // Loop wrapping
       if (annotations.loop) {
-        content = this.renderLoop(annotations.loop, content);
+        content = this.renderLoop(annotations.loop, content, await this.transformLoopEmpty(element.children));
       }
 
-      // Variable replacement
+      // Variable replacement (raw output skips escaping where the engine escapes by default)
       if (annotations.variable) {
-        content = this.renderVariable(annotations.variable);
+        const variable = { ...annotations.variable, name: this.resolveLoopMeta(annotations.variable.name) };
+        content = annotations.raw ? this.renderRawVariable(variable) : this.renderVariable(variable);
       }
 
       // Include replacement (pass transformed children when present for React <Comp>{children}</Comp>)
@@ -238,6 +302,47 @@ export abstract class BasePlugin implements ITemplatePlugin {
     return content;
   }
 
+  /**
+   * Transform the Case/Default children of a switch; the default branch goes last
+   */
+  protected async transformSwitchBranches(children: GenChild[]): Promise<SwitchBranch[]> {
+    const branches: SwitchBranch[] = [];
+    let fallback: SwitchBranch | undefined;
+
+    for (const child of children) {
+      const branchCase = isElement(child) ? getAnnotations(child)?.case : undefined;
+      if (!branchCase || !isElement(child)) continue;
+      const branch = { case: branchCase, content: await this.transformChildren(child.children) };
+      if (!branchCase.isDefault) {
+        branches.push(branch);
+      } else if (!fallback) {
+        fallback = branch;
+      }
+    }
+
+    return fallback ? [...branches, fallback] : branches;
+  }
+
+  /**
+   * Transform a loop's children other than `<Loop.Empty>`, with the loop in scope
+   */
+  protected async transformLoopBody(loop: GenLoop, children: GenChild[]): Promise<string> {
+    this.loopStack.push(loop);
+    try {
+      return await this.transformChildren(children.filter((child) => !isElement(child) || !getAnnotations(child)?.empty));
+    } finally {
+      this.loopStack.pop();
+    }
+  }
+
+  /**
+   * Transform the first `<Loop.Empty>` child of a loop, if any
+   */
+  protected async transformLoopEmpty(children: GenChild[]): Promise<string | undefined> {
+    const empty = children.find((child): child is GenElement => isElement(child) && !!getAnnotations(child)?.empty);
+    return empty ? this.transformChildren(empty.children) : undefined;
+  }
+
   /**
    * Render element content (tag + children)
    */
@@ -270,7 +375,7 @@ export abstract class BasePlugin implements ITemplatePlugin {
   // Abstract Methods (must be implemented by subclasses)
   // ===========================================================================
 
-  abstract renderLoop(loop: GenLoop, content: string): string;
+  abstract renderLoop(loop: GenLoop, content: string, emptyContent?: string): string;
   abstract renderCondition(condition: GenCondition, content: string): string;
   abstract renderElse(condition?: string): string;
   abstract renderVariable(variable: GenVariable): string;
@@ -280,6 +385,87 @@ export abstract class BasePlugin implements ITemplatePlugin {
   abstract renderExtends(parent: string): string;
   abstract renderComment(comment: string): string;
 
+  /**
+   * Render switch; engines with a native switch construct override this
+   */
+  renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    return this.renderSwitchAsConditions(switchAnnotation, branches);
+  }
+
+  /**
+   * Render a switch as an if/elseif/else chain on `on === value`
+   */
+  protected renderSwitchAsConditions(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    const cases = branches.filter((branch) => !branch.case.isDefault);
+    const fallback = branches.find((branch) => branch.case.isDefault);
+    if (cases.length === 0) {
+      return fallback?.content ?? '';
+    }
+
+    const [first, ...rest] = cases;
+    let content = first.content;
+    for (const branch of rest) {
+      content += this.renderCondition(
+        { expression: this.formatCaseCondition(switchAnnotation, branch.case), isElseIf: true },
+        branch.content
+      );
+    }
+    if (fallback) {
+      content += this.renderCondition({ expression: '', isElse: true }, fallback.content);
+    }
+    return this.renderCondition({ expression: this.formatCaseCondition(switchAnnotation, first.case) }, content);
+  }
+
+  /**
+   * Native reference to loop metadata, for engines that cannot bind the names
+   * given to `<Loop first last length>` inside the loop. `depth` counts the loops
+   * nested between the reference and its own loop. Returning `undefined` keeps
+   * the bound name, which `renderLoop` then has to declare.
+   */
+  protected formatLoopMeta(_loop: GenLoop, _meta: LoopMeta, _depth: number): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Names a loop binds to its metadata, e.g. `[['isFirst', 'first']]`
+   */
+  protected getLoopMetaNames(loop: GenLoop): Array<[string, LoopMeta]> {
+    const metas: LoopMeta[] = ['first', 'last', 'length'];
+    return metas.filter((meta) => loop[meta]).map((meta) => [loop[meta]!, meta]);
+  }
+
+  /**
+   * Replace loop metadata names in an expression with `formatLoopMeta` references;
+   * the innermost loop wins when nested loops bind the same name
+   */
+  protected resolveLoopMeta(expression: string): string {
+    const resolved = new Set<string>();
+    let result = expression;
+
+    for (let i = this.loopStack.length - 1; i >= 0; i--) {
+      const loop = this.loopStack[i];
+      for (const [name, meta] of this.getLoopMetaNames(loop)) {
+        if (resolved.has(name)) continue;
+        resolved.add(name);
+        const reference = this.formatLoopMeta(loop, meta, this.loopStack.length - 1 - i);
+        if (reference === undefined) continue;
+        // Comparisons need parentheses inside a larger expression (`!isLast`)
+        const standalone = result.trim() === name || /^[\w$@.\/]+$/.test(reference);
+        result = replaceIdentifier(result, name, standalone ? reference : `(${reference})`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Render unescaped variable output (Raw handler / `<Var raw>`).
+   * Defaults to regular output; override in engines with distinct raw syntax.
+   */
+  renderRawVariable(variable: GenVariable): string {
+    return this.renderVariable(variable);
+  }
+
   // ===========================================================================
   // HTML Rendering (default implementation)
   // ===========================================================================
@@ -314,6 +500,16 @@ export abstract class BasePlugin implements ITemplatePlugin {
     return `${expression} | ${filter}`;
   }
 
+  /**
+   * Filter arguments of a variable, translated from DSL conventions
+   * (`pattern="MMM d, yyyy"`) by the filter mapping when it defines one.
+   */
+  protected getVariableFilterArgs(variable: GenVariable): string[] | undefined {
+    const { filter, filterArgs } = variable;
+    const translateArgs = filter ? this.filterMappings.get(filter as StandardFilter)?.translateArgs : undefined;
+    return translateArgs && filterArgs ? translateArgs(filterArgs) : filterArgs;
+  }
+
   // ===========================================================================
   // Validation
   // ===========================================================================
@@ -376,10 +572,10 @@ export abstract class BasePlugin implements ITemplatePlugin {
       if (value === true) {
         parts.push(key);
       } else if (value !== false && value !== undefined && value !== null) {
-        // Dynamic expression: use engine-specific expression syntax
+        // Dynamic expression: engine output syntax inside the quoted value
         if (typeof value === 'object' && value !== null && '__expression' in (value as object)) {
           const expr = (value as { __expression: string }).__expression;
-          parts.push(`${key}="${this.formatExpression(expr)}"`);
+          parts.push(`${key}="${this.renderAttributeExpression(expr)}"`);
         } else {
           const escaped = this.escapeAttributeValue(String(value));
           parts.push(`${key}="${escaped}"`);
@@ -390,6 +586,33 @@ export abstract class BasePlugin implements ITemplatePlugin {
     return parts.join(' ');
   }
 
+  /**
+   * Dynamic attribute value, e.g. `href={user.url}`. Template engines only
+   * interpolate inside their output tags, so the expression is rendered like a
+   * variable (`{{ user.url }}`, `{{.user.url}}`, `{{ $user->url }}`).
+   */
+  protected renderAttributeExpression(expr: string): string {
+    return this.renderVariable({ name: this.resolveLoopMeta(expr) });
+  }
+
+  /**
+   * Comparison of the switch subject with a case value (before formatExpression)
+   */
+  protected formatCaseCondition(switchAnnotation: GenSwitch, branchCase: GenCase): string {
+    return `${switchAnnotation.on} === ${this.formatCaseValue(branchCase.value)}`;
+  }
+
+  /**
+   * Case value as a template literal: numbers as-is, strings quoted
+   */
+  protected formatCaseValue(value: GenCase['value']): string {
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    const text = String(value ?? '');
+    return text.includes("'") && !text.includes('"') ? `"${text}"` : `'${text.replace(/'/g, "\\'")}'`;
+  }
+
   /**
    * Format style object to CSS string
    */
@@ -497,6 +720,15 @@ export abstract class BasePlugin implements ITemplatePlugin {
     };
   }
 
+  /**
+   * Apply a platform map filter (`money`, `img_url: '600x'`) with the
+   * engine's filter syntax.
+   */
+  protected applyPlatformFilter(expression: string, filter: string): string {
+    const [name, ...args] = filter.split(':').map((part) => part.trim());
+    return this.applyFilter(expression, name, args.length > 0 ? args : undefined);
+  }
+
   /**
    * Resolve loop aliases/collection for target platform.
    */
@@ -511,6 +743,51 @@ export abstract class BasePlugin implements ITemplatePlugin {
     };
   }
 
+  /**
+   * Split preamble statements into portable ones and those that call hooks,
+   * build JSX, or depend on bindings declared by such statements.
+   */
+  protected splitPreamble(preamble: string[]): { ported: string[]; skipped: string[] } {
+    const ported: string[] = [];
+    const skipped: string[] = [];
+    const unavailable = new Set<string>();
+
+    for (const statement of preamble) {
+      const usesReact = /\buse[A-Z]\w*\s*\(/.test(statement) || /<[A-Za-z>]/.test(statement);
+      const dependsOnSkipped = [...unavailable].some((name) =>
+        new RegExp(`(^|[^\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(statement)
+      );
+
+      if (usesReact || dependsOnSkipped) {
+        skipped.push(statement);
+        for (const name of this.getDeclaredNames(statement)) unavailable.add(name);
+      } else {
+        ported.push(statement);
+      }
+    }
+
+    return { ported, skipped };
+  }
+
+  /**
+   * Names bound by a `const`/`let`/`var` statement, including simple
+   * object and array destructuring patterns.
+   */
+  protected getDeclaredNames(statement: string): string[] {
+    const match = statement.match(/^\s*(?:const|let|var)\s+(\{[^=]*\}|\[[^=]*\]|[\w$]+)/);
+    if (!match) return [];
+
+    const pattern = match[1];
+    if (!/^[{[]/.test(pattern)) return [pattern];
+
+    return pattern
+      .slice(1, -1)
+      .split(',')
+      .map((part) => part.split('=')[0])
+      .map((part) => (part.includes(':') ? part.split(':')[1] : part).replace('...', '').trim())
+      .filter((name) => /^[\w$]+$/.test(name));
+  }
+
   /**
    * Format expression for template engine
    */
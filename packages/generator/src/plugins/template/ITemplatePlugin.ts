@@ -6,13 +6,18 @@
  */
 
 import type { z } from 'zod';
-import type { GenRoot, GenElement, TemplateOutput, GenLoop, GenCondition, GenVariable, GenSlot, GenInclude, GenBlock } from '../../hast';
+import type { GenRoot, GenElement, TemplateOutput, GenLoop, GenCondition, GenSwitch, GenCase, GenVariable, GenSlot, GenInclude, GenBlock } from '../../hast';
 import type { ILogger } from '../../core/interfaces';
 
 // =============================================================================
 // Plugin Features
 // =============================================================================
 
+/**
+ * Runtime that renders the generated templates
+ */
+export type TemplateRuntime = 'js' | 'php' | 'python' | 'go';
+
 /**
  * Features supported by the template engine
  */
@@ -69,6 +74,12 @@ export interface TemplatePluginConfig {
   platformMap?: PlatformMap;
   /** Active domain in platformMap (e.g. catalog, promo) */
   platformDomain?: string;
+  /** Target platform from ui8kit.config.json (e.g. shopify); defaults to platformMap.platform */
+  platform?: string;
+  /** Fixture data keyed by file name (e.g. landing), used for generated defaults */
+  fixtures?: Record<string, unknown>;
+  /** Return a source map with each output (needs trees built with `includeSourceLocations`) */
+  sourceMaps?: boolean;
   /** Custom options for specific plugin */
   [key: string]: unknown;
 }
@@ -106,32 +117,45 @@ export interface FilterDefinition {
   name: string;
   /** How to format arguments */
   formatArgs?: (args: string[]) => string;
+  /**
+   * Translate `<Var format>` arguments into engine-native arguments
+   * (e.g. the `MMM d, yyyy` date pattern into `%b %-d, %Y`). Platform map
+   * filters are already engine-native and skip this step.
+   */
+  translateArgs?: (args: string[]) => string[];
 }
 
 /**
  * Standard filters that plugins should support
  */
-export type StandardFilter =
-  | 'uppercase'
-  | 'lowercase'
-  | 'capitalize'
-  | 'trim'
-  | 'date'
-  | 'currency'
-  | 'number'
-  | 'json'
-  | 'escape'
-  | 'raw'
-  | 'default'
-  | 'first'
-  | 'last'
-  | 'length'
-  | 'join'
-  | 'split'
-  | 'reverse'
-  | 'sort'
-  | 'slice'
-  | 'truncate';
+export const STANDARD_FILTERS = [
+  'uppercase',
+  'lowercase',
+  'capitalize',
+  'trim',
+  'date',
+  'currency',
+  'number',
+  'json',
+  'escape',
+  'raw',
+  'default',
+  'first',
+  'last',
+  'length',
+  'join',
+  'split',
+  'reverse',
+  'sort',
+  'slice',
+  'truncate',
+] as const;
+
+export type StandardFilter = (typeof STANDARD_FILTERS)[number];
+
+export function isStandardFilter(name: string): name is StandardFilter {
+  return (STANDARD_FILTERS as readonly string[]).includes(name);
+}
 
 // =============================================================================
 // Transform Result
@@ -147,6 +171,31 @@ export interface TransformResult {
   warnings?: string[];
 }
 
+/**
+ * Rendered branch of a switch, in source order
+ */
+export interface SwitchBranch {
+  /** Case annotation (value or default) */
+  case: GenCase;
+  /** Transformed branch content */
+  content: string;
+}
+
+/**
+ * Loop metadata a `<Loop>` can bind to a name (`first="isFirst"`)
+ */
+export type LoopMeta = 'first' | 'last' | 'length';
+
+/**
+ * Template written by the template pipeline, passed to companion file generation
+ */
+export interface GeneratedTemplate {
+  /** Path relative to the output directory, e.g. "partials/header.hbs" */
+  path: string;
+  /** GenHAST tree the template was generated from */
+  tree: GenRoot;
+}
+
 // =============================================================================
 // ITemplatePlugin Interface
 // =============================================================================
@@ -165,8 +214,8 @@ export interface ITemplatePlugin {
   /** Plugin version */
   readonly version: string;
 
-  /** Target runtime ('js' for Node.js/Browser, 'php' for PHP) */
-  readonly runtime: 'js' | 'php';
+  /** Target runtime ('js' for Node.js/Browser, 'php' for PHP, 'python' for Python, 'go' for Go) */
+  readonly runtime: TemplateRuntime;
 
   /** File extension for output (e.g., '.liquid', '.twig') */
   readonly fileExtension: string;
@@ -218,6 +267,16 @@ export interface ITemplatePlugin {
    */
   transformElement(element: GenElement): Promise<TransformResult>;
 
+  /**
+   * Generate companion files for a complete template set (helpers, partial
+   * registration, Shopify sections). Called once after every source has been
+   * transformed.
+   *
+   * @param templates - Generated templates with their source trees
+   * @returns Outputs whose filenames are relative to the output directory
+   */
+  generateCompanionFiles?(templates: GeneratedTemplate[]): TemplateOutput[] | Promise<TemplateOutput[]>;
+
   // ===========================================================================
   // Annotation Renderers
   // ===========================================================================
@@ -227,12 +286,13 @@ export interface ITemplatePlugin {
    *
    * @param loop - Loop annotation
    * @param content - Content inside the loop
+   * @param emptyContent - `<Loop.Empty>` content, rendered when the collection is empty
    * @returns Template syntax for loop
    *
-   * @example Liquid: {% for item in items %}...{% endfor %}
+   * @example Liquid: {% for item in items %}...{% else %}...{% endfor %}
    * @example Twig: {% for item in items %}...{% endfor %}
    */
-  renderLoop(loop: GenLoop, content: string): string;
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string;
 
   /**
    * Render conditional construct
@@ -246,6 +306,18 @@ export interface ITemplatePlugin {
    */
   renderCondition(condition: GenCondition, content: string): string;
 
+  /**
+   * Render switch construct
+   *
+   * @param switchAnnotation - Switch annotation (subject expression)
+   * @param branches - Case and default branches in source order
+   * @returns Template syntax for switch
+   *
+   * @example Liquid: {% case status %}{% when 'ready' %}...{% else %}...{% endcase %}
+   * @example Blade: @switch($status) @case('ready') ... @break @default ... @endswitch
+   */
+  renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string;
+
   /**
    * Render else/elseif branch
    *
@@ -395,7 +467,7 @@ export type TemplatePluginFactory = (config?: Partial<TemplatePluginConfig>) =>
 export interface TemplatePluginMetadata {
   name: string;
   version: string;
-  runtime: 'js' | 'php';
+  runtime: TemplateRuntime;
   fileExtension: string;
   description?: string;
   author?: string;
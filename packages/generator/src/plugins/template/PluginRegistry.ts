@@ -10,6 +10,7 @@ import type {
   TemplatePluginMetadata,
   TemplatePluginConfig,
   TemplatePluginContext,
+  TemplateRuntime,
 } from './ITemplatePlugin';
 import type { ILogger } from '../../core/interfaces';
 
@@ -131,9 +132,9 @@ export class PluginRegistry {
   /**
    * Get plugins by runtime
    *
-   * @param runtime - Target runtime ('js' or 'php')
+   * @param runtime - Target runtime ('js', 'php', 'python' or 'go')
    */
-  getByRuntime(runtime: 'js' | 'php'): TemplatePluginMetadata[] {
+  getByRuntime(runtime: TemplateRuntime): TemplatePluginMetadata[] {
     return this.getAllMetadata().filter(m => m.runtime === runtime);
   }
 
@@ -0,0 +1,259 @@
+/**
+ * Tests for AstroPlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AstroPlugin } from './AstroPlugin';
+import {
+  root,
+  element,
+  text,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.astro',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('AstroPlugin', () => {
+  let plugin: AstroPlugin;
+
+  beforeEach(async () => {
+    plugin = new AstroPlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('astro');
+      expect(plugin.fileExtension).toBe('.astro');
+      expect(plugin.runtime).toBe('js');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('adds an index for loop metadata and renders the empty branch after the map', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '{dishes.map((dish, index) => (\n<Fragment><li></li></Fragment>\n))}\n{!dishes?.length && (<Fragment><li>None</li></Fragment>)}'
+      );
+    });
+
+    it('renders map with Fragment body', () => {
+      const result = plugin.renderLoop({ item: 'item', collection: 'items' }, '<li>{item.name}</li>');
+
+      expect(result).toBe('{items.map((item) => (\n<Fragment><li>{item.name}</li></Fragment>\n))}');
+    });
+
+    it('passes the index variable', () => {
+      expect(plugin.renderLoop({ item: 'link', collection: 'navItems', index: 'i' }, 'x')).toContain(
+        '{navItems.map((link, i) => ('
+      );
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders lone if with &&', () => {
+      expect(plugin.renderCondition({ expression: 'isActive' }, 'A')).toBe(
+        '{isActive && (<Fragment>A</Fragment>)}'
+      );
+    });
+
+    it('renders else if and else as a ternary chain', () => {
+      const elseIf = plugin.renderCondition({ expression: 'isPending', isElseIf: true }, 'P');
+      const elseBranch = plugin.renderCondition({ expression: '', isElse: true }, 'E');
+      const result = plugin.renderCondition({ expression: 'isActive' }, `A${elseIf}${elseBranch}`);
+
+      expect(result).toBe(
+        '{isActive ? (<Fragment>A</Fragment>) : isPending ? (<Fragment>P</Fragment>) : (<Fragment>E</Fragment>)}'
+      );
+    });
+
+    it('parenthesizes compound conditions before &&', () => {
+      expect(plugin.renderCondition({ expression: 'showHeader ?? true' }, 'H')).toBe(
+        '{(showHeader ?? true) && (<Fragment>H</Fragment>)}'
+      );
+    });
+
+    it('closes else-if chains without else with null', () => {
+      const elseIf = plugin.renderCondition({ expression: 'b', isElseIf: true }, 'B');
+      expect(plugin.renderCondition({ expression: 'a' }, `A${elseIf}`)).toBe(
+        '{a ? (<Fragment>A</Fragment>) : b ? (<Fragment>B</Fragment>) : null}'
+      );
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders expression with default and filter', () => {
+      expect(plugin.renderVariable({ name: 'title', default: 'Untitled' })).toBe('{title ?? "Untitled"}');
+      expect(plugin.renderVariable({ name: 'tags', filter: 'join' })).toBe('{tags.join(", ")}');
+    });
+
+    it('renders raw output with set:html', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('<Fragment set:html={post.body} />');
+    });
+
+    it('renders Var formats with the runtime formatters', () => {
+      expect(plugin.renderVariable({ name: 'price', default: '0', filter: 'currency', filterArgs: ['EUR'] })).toBe(
+        '{formatCurrency(price ?? 0, "EUR")}'
+      );
+    });
+  });
+
+  describe('renderSlot', () => {
+    it('renders default and named slots', () => {
+      expect(plugin.renderSlot({ name: 'default' }, '')).toBe('<slot />');
+      expect(plugin.renderSlot({ name: 'header' }, '<h1>Default</h1>')).toBe(
+        '<slot name="header"><h1>Default</h1></slot>'
+      );
+    });
+  });
+
+  describe('renderInclude', () => {
+    it('renders component with expression and literal props', () => {
+      const result = plugin.renderInclude({
+        partial: 'partials/card',
+        props: { title: 'card.title', mode: '"full"' },
+      });
+
+      expect(result).toBe('<Card title={card.title} mode="full" />');
+    });
+
+    it('unwraps explicit Fragment components', () => {
+      expect(plugin.renderInclude({ partial: 'partials/fragment', originalName: 'Fragment' }, '<main></main>')).toBe(
+        '<main></main>'
+      );
+    });
+  });
+
+  describe('transform', () => {
+    it('emits frontmatter props, imports and markup', async () => {
+      const tree: GenRoot = root([
+        element('Block', { component: 'section', className: ['hero'] }, [
+          annotate(
+            element('article', {}, [
+              annotate(element('span', {}, []), { variable: { name: 'item.title' }, unwrap: true }),
+            ]),
+            { loop: { item: 'item', collection: 'items' } }
+          ),
+          annotate(element('p', {}, [text('Empty')]), { condition: { expression: 'items.length === 0' } }),
+        ]),
+      ], {
+        sourceFile: 'HeroBlock.tsx',
+        componentName: 'HeroBlock',
+        exports: ['HeroBlock'],
+        dependencies: [],
+        props: [
+          { name: 'items', type: 'MenuItem[]', required: true },
+          { name: 'mode', type: "'full' | 'compact'", required: false, defaultValue: 'full' },
+          { name: 'children', type: 'ReactNode', required: false },
+        ],
+        preamble: ["const label = mode === 'full' ? 'All' : 'Some';"],
+        imports: [
+          { source: '@ui8kit/core', namedImports: ['Block'], isTypeOnly: false },
+          { source: '@/types', namedImports: ['MenuItem'], isTypeOnly: true },
+        ],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.filename).toBe('HeroBlock.astro');
+      expect(output.content.startsWith('---\n')).toBe(true);
+      expect(output.content).toContain("import { Block } from '@ui8kit/core';");
+      expect(output.content).toContain("import type { MenuItem } from '@/types';");
+      expect(output.content).toContain('interface Props {\n  items: MenuItem[];\n  mode?: \'full\' | \'compact\';\n}');
+      expect(output.content).toContain('const { items, mode = "full" } = Astro.props;');
+      expect(output.content).toContain("const label = mode === 'full' ? 'All' : 'Some';");
+      expect(output.content).not.toContain('children');
+      expect(output.content).toContain('<Block component="section" class="hero">');
+      expect(output.content).toContain('{items.map((item) => (\n<Fragment><article>{item.title}</article></Fragment>\n))}');
+      expect(output.content).toContain('{(items.length === 0) && (<Fragment><p>Empty</p></Fragment>)}');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('turns ReactNode props into named slots tested with Astro.slots', async () => {
+      const tree: GenRoot = root([
+        annotate(element('aside', {}, [
+          annotate(element('span', {}, []), { variable: { name: 'sidebar' }, unwrap: true }),
+        ]), { condition: { expression: '!!sidebar' } }),
+        annotate(element('div', {}, []), {
+          include: { partial: 'partials/panel', originalName: 'Panel', props: { aside: 'sidebar' } },
+        }),
+      ], {
+        sourceFile: 'Layout.tsx',
+        componentName: 'Layout',
+        exports: ['Layout'],
+        dependencies: [],
+        props: [{ name: 'sidebar', type: 'ReactNode', required: false }],
+        preamble: ["const full = mode === 'with-sidebar' || !sidebar;"],
+        imports: [{ source: '@/partials', namedImports: ['Panel'], isTypeOnly: false }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).not.toContain('interface Props');
+      expect(output.content).toContain("const full = mode === 'with-sidebar' || !Astro.slots.has('sidebar');");
+      expect(output.content).toContain(
+        `{(!!Astro.slots.has('sidebar')) && (<Fragment><aside><slot name="sidebar" /></aside></Fragment>)}`
+      );
+      expect(output.content).toContain('<Panel><Fragment slot="aside"><slot name="sidebar" /></Fragment></Panel>');
+    });
+
+    it('forwards Astro.props and comments out hook statements', async () => {
+      const tree: GenRoot = root([
+        annotate(element('div', {}, []), {
+          include: { partial: 'partials/main-layout-view', originalName: 'MainLayoutView', props: { __spread_0: 'props' } },
+        }),
+      ], {
+        sourceFile: 'MainLayout.tsx',
+        componentName: 'MainLayout',
+        exports: ['MainLayout'],
+        dependencies: [],
+        props: [{ name: '__spread_props', type: 'MainLayoutProps', required: true }],
+        preamble: ['const { cart } = useCart();'],
+        imports: [{ source: './views/MainLayoutView', namedImports: ['MainLayoutView'], isTypeOnly: false }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain("import MainLayoutView from './views/MainLayoutView.astro';");
+      expect(output.content).toContain('// const { cart } = useCart();');
+      expect(output.content).toContain('<MainLayoutView {...Astro.props}><slot /></MainLayoutView>');
+      expect(output.warnings?.[0]).toContain('not ported to Astro');
+    });
+  });
+
+  describe('validate', () => {
+    it('detects unclosed frontmatter', () => {
+      const result = plugin.validate('---\nconst a = 1;\n<p>{a}</p>');
+      expect(result.valid).toBe(false);
+      expect(result.errors?.[0]).toContain('frontmatter');
+    });
+
+    it('detects unbalanced expression braces', () => {
+      expect(plugin.validate('<p>{a</p>').valid).toBe(false);
+    });
+  });
+});
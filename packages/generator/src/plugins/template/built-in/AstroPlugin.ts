@@ -0,0 +1,638 @@
+/**
+ * AstroPlugin - Template Plugin for Astro Components
+ *
+ * Transforms GenHAST trees into `.astro` components (frontmatter + markup)
+ * for static Astro sites.
+ *
+ * DSL → Astro transformation rules:
+ * - Var       → {value} or {value ?? "default"}
+ * - Raw       → <Fragment set:html={value} />
+ * - If        → {condition && (<Fragment>content</Fragment>)}
+ * - If/Else   → {condition ? (<Fragment>A</Fragment>) : (<Fragment>B</Fragment>)}
+ * - ElseIf    → chained ternary
+ * - Loop      → {collection.map((item) => (<Fragment>content</Fragment>))}
+ * - Slot      → <slot /> or <slot name="header">fallback</slot>
+ * - Include   → <ComponentName prop={value} />
+ *
+ * Props are typed with `interface Props` and destructured from `Astro.props`.
+ * Astro components render once on the server, so plain preamble statements
+ * are ported as-is; hook-based (client state) statements are commented out.
+ * ReactNode props become named slots, like in the Svelte plugin.
+ *
+ * @see https://docs.astro.build/en/basics/astro-components/
+ */
+
+import { BasePlugin } from '../BasePlugin';
+import type {
+  TemplatePluginFeatures,
+  StandardFilter,
+  LoopMeta,
+} from '../ITemplatePlugin';
+import type {
+  GenRoot,
+  GenLoop,
+  GenCondition,
+  GenVariable,
+  GenSlot,
+  GenInclude,
+  GenBlock,
+  GenElement,
+  GenPropDefinition,
+  TemplateOutput,
+} from '../../../hast';
+import { collectVariables, collectDependencies } from '../../../hast';
+import {
+  FORMATTER_FILTERS,
+  NODE_TYPE,
+  VALID_PROP_NAME,
+  buildComponentImports,
+  buildFormatterImport,
+  collectComponentNames,
+  formatFormatterCall,
+  formatLoopMetaExpression,
+  replaceIdentifier,
+  resolvePropType,
+  toComponentName,
+} from './component-script';
+
+// =============================================================================
+// Branch Markers
+// =============================================================================
+
+/**
+ * Internal markers for condition branch detection.
+ * Else/else-if branches are rendered inside the merged if element; the parent
+ * if block turns them into a ternary chain.
+ */
+const MARKERS = {
+  ELSE: '___ASTRO_ELSE___',
+  ELSEIF: '___ASTRO_ELSEIF___',
+  SEP: '___ASTRO_SEP___',
+  END: '___ASTRO_END___',
+} as const;
+
+// =============================================================================
+// AstroPlugin Implementation
+// =============================================================================
+
+export class AstroPlugin extends BasePlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  readonly name = 'astro';
+  readonly version = '1.0.0';
+  readonly runtime = 'js' as const;
+  readonly fileExtension = '.astro';
+  readonly description = 'Astro component plugin for static content sites';
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  readonly features: TemplatePluginFeatures = {
+    supportsInheritance: false,
+    supportsPartials: true,
+    supportsFilters: false, // Astro markup uses JS expressions, not filters
+    supportsMacros: false,
+    supportsAsync: true, // top-level await in frontmatter
+    supportsRaw: true,
+    supportsComments: true,
+  };
+
+  // ===========================================================================
+  // Filter Mappings (Astro uses native JS methods)
+  // ===========================================================================
+
+  protected override initializeFilterMappings(): void {
+    // Astro has no template filters; formats call the runtime formatters
+    for (const [standard, definition] of FORMATTER_FILTERS) {
+      this.filterMappings.set(standard, definition);
+    }
+  }
+
+  // ===========================================================================
+  // Full-File Transformation (frontmatter + markup)
+  // ===========================================================================
+
+  /** ReactNode props rendered as named slots instead of values. */
+  private slotProps = new Set<string>();
+
+  /** `(props: Type)` signature: `{...props}` spreads forward `Astro.props` and the default slot. */
+  private forwardsProps = false;
+
+  /** Runtime formatters referenced by the markup. */
+  private formatters = new Set<string>();
+
+  async transform(tree: GenRoot): Promise<TemplateOutput> {
+    this.warnings = [];
+    this.currentDepth = 0;
+    this.formatters = new Set();
+
+    const propDefs = tree.meta?.props ?? [];
+    this.forwardsProps = propDefs.some((p) => p.name === '__spread_props');
+    this.slotProps = new Set(
+      propDefs
+        .filter((p) => p.name !== 'children' && NODE_TYPE.test(p.type))
+        .map((p) => p.name)
+    );
+
+    const markup = this.formatOutput(await this.transformChildren(tree.children));
+    const frontmatter = this.buildFrontmatter(tree, propDefs, markup);
+
+    return {
+      filename: this.getOutputFilename(tree),
+      content: frontmatter ? `${frontmatter}\n\n${markup}\n` : `${markup}\n`,
+      variables: collectVariables(tree),
+      dependencies: collectDependencies(tree),
+      warnings: this.warnings.length > 0 ? this.warnings : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render loop construct
+   *
+   * Astro renders on the server, so loops need no keys.
+   * `<Loop.Empty>` renders after the map when the collection is empty.
+   *
+   * @example
+   * {items.map((item) => (
+   * <Fragment><li>{item.name}</li></Fragment>
+   * ))}
+   * {!items?.length && (<Fragment><p>No items</p></Fragment>)}
+   */
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection } = loop;
+    const index = this.getLoopIndex(loop);
+    const params = index ? `${item}, ${index}` : item;
+    const source = this.formatExpression(collection);
+    const emptyBranch =
+      emptyContent !== undefined ? `\n{!${source}?.length && (<Fragment>${emptyContent}</Fragment>)}` : '';
+
+    return `{${source}.map((${params}) => (\n<Fragment>${content}</Fragment>\n))}${emptyBranch}`;
+  }
+
+  /**
+   * Loop metadata as expressions over the map index
+   */
+  protected override formatLoopMeta(loop: GenLoop, meta: LoopMeta): string {
+    return formatLoopMetaExpression(meta, this.getLoopIndex(loop)!, loop.collection);
+  }
+
+  /**
+   * Index parameter of a loop callback; loops with metadata always get one
+   */
+  private getLoopIndex(loop: GenLoop): string | undefined {
+    return loop.index ?? (this.getLoopMetaNames(loop).length > 0 ? 'index' : undefined);
+  }
+
+  /**
+   * Render conditional construct
+   *
+   * Else/ElseIf branches emit markers that the parent if block consumes.
+   *
+   * @example
+   * {isActive && (<Fragment>A</Fragment>)}
+   * {isActive ? (<Fragment>A</Fragment>) : isPending ? (<Fragment>P</Fragment>) : (<Fragment>B</Fragment>)}
+   */
+  renderCondition(condition: GenCondition, content: string): string {
+    const { expression, isElse, isElseIf } = condition;
+
+    if (isElse) {
+      return `${MARKERS.ELSE}${content}${MARKERS.END}`;
+    }
+
+    if (isElseIf) {
+      return `${MARKERS.ELSEIF}${expression}${MARKERS.SEP}${content}${MARKERS.END}`;
+    }
+
+    return this.buildConditionOutput(expression, content);
+  }
+
+  /**
+   * Render else/else-if continuation of a ternary chain
+   */
+  renderElse(condition?: string): string {
+    if (condition) {
+      return ` : ${this.formatExpression(condition)} ? `;
+    }
+    return ' : ';
+  }
+
+  /**
+   * Render variable output
+   *
+   * ReactNode props are rendered through their named slot.
+   *
+   * @example
+   * {title}
+   * {title ?? "Untitled"}
+   * <slot name="sidebar" />
+   */
+  renderVariable(variable: GenVariable): string {
+    if (this.slotProps.has(variable.name)) {
+      return `<slot name="${variable.name}" />`;
+    }
+    return `{${this.buildVariableExpression(variable)}}`;
+  }
+
+  /**
+   * Render unescaped output
+   *
+   * @example
+   * <Fragment set:html={post.body} />
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `<Fragment set:html={${this.buildVariableExpression(variable)}} />`;
+  }
+
+  /**
+   * Render slot placeholder
+   *
+   * @example
+   * <slot />
+   * <slot name="header"><h1>Default</h1></slot>
+   */
+  renderSlot(slot: GenSlot, defaultContent: string): string {
+    const { name } = slot;
+    const nameAttr = name === 'default' || name === 'children' ? '' : ` name="${name}"`;
+
+    if (defaultContent.trim()) {
+      return `<slot${nameAttr}>${defaultContent}</slot>`;
+    }
+    return `<slot${nameAttr} />`;
+  }
+
+  /**
+   * Render include/partial as an Astro component
+   *
+   * Slot props passed through (`sidebar={sidebar}`) are forwarded as named
+   * slots, since slot content cannot travel as a prop value.
+   *
+   * @example
+   * <Header />
+   * <Card title={cardTitle} mode="full">...</Card>
+   */
+  renderInclude(include: GenInclude, childrenContent?: string): string {
+    const { partial, props, originalName } = include;
+    const componentName = originalName || toComponentName(partial);
+    const children = childrenContent?.trim() ?? '';
+
+    // Astro markup accepts multiple roots, so explicit fragments just unwrap
+    if (componentName === 'Fragment' || componentName === 'React.Fragment') {
+      return children;
+    }
+
+    const propsFragments: string[] = [];
+    const forwardedSlots: string[] = [];
+    let forwardsSlot = false;
+
+    for (const [prop, value] of Object.entries(props ?? {})) {
+      if (prop.startsWith('__spread_')) {
+        forwardsSlot = this.forwardsProps && value === 'props';
+        propsFragments.push(`{...${forwardsSlot ? 'Astro.props' : this.formatExpression(value)}}`);
+        continue;
+      }
+      if (this.slotProps.has(value)) {
+        forwardedSlots.push(`<Fragment slot="${prop}"><slot name="${value}" /></Fragment>`);
+        continue;
+      }
+      const key = AstroPlugin.ATTRIBUTE_ALIASES[prop] ?? prop;
+      const literal = value.match(/^"([^"]*)"$/);
+      propsFragments.push(
+        literal ? `${key}="${this.escapeAttributeValue(literal[1])}"` : `${key}={${this.formatExpression(value)}}`
+      );
+    }
+    const attrs = propsFragments.length > 0 ? ` ${propsFragments.join(' ')}` : '';
+
+    // React children travel inside the spread; Astro passes them as the default slot
+    const body = [...forwardedSlots, children || (forwardsSlot ? '<slot />' : '')].join('');
+    if (body) {
+      return `<${componentName}${attrs}>${body}</${componentName}>`;
+    }
+    return `<${componentName}${attrs} />`;
+  }
+
+  /**
+   * Render block (Astro has no inheritance — comment markers only)
+   */
+  renderBlock(block: GenBlock, content: string): string {
+    return `<!-- block: ${block.name} -->${content}<!-- /block: ${block.name} -->`;
+  }
+
+  /**
+   * Render extends (not supported in Astro — use layout components)
+   */
+  renderExtends(parent: string): string {
+    this.addWarning('Astro does not support template inheritance. Use layout components instead.');
+    return `<!-- extends: ${parent} — use a layout component instead -->`;
+  }
+
+  /**
+   * Render HTML comment
+   */
+  renderComment(comment: string): string {
+    return `<!-- ${comment} -->`;
+  }
+
+  // ===========================================================================
+  // Attribute Rendering (overrides)
+  // ===========================================================================
+
+  /** JSX attribute names that differ from Astro markup attributes. */
+  private static readonly ATTRIBUTE_ALIASES: Record<string, string> = {
+    className: 'class',
+    htmlFor: 'for',
+  };
+
+  /**
+   * Override: JSX-only attribute names (className, htmlFor) become HTML names
+   */
+  protected override getHtmlAttributes(properties: GenElement['properties']): Record<string, unknown> {
+    const attributes: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(super.getHtmlAttributes(properties))) {
+      attributes[AstroPlugin.ATTRIBUTE_ALIASES[key] ?? key] = value;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Override: expression props become `attr={expr}`
+   */
+  protected override formatAttributes(attributes: Record<string, unknown>): string {
+    const parts: string[] = [];
+
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === true) {
+        parts.push(key);
+      } else if (value === false || value === undefined || value === null) {
+        continue;
+      } else if (typeof value === 'object' && '__expression' in (value as object)) {
+        const expr = (value as { __expression: string }).__expression;
+        parts.push(`${key}={${this.formatExpression(expr)}}`);
+      } else if (typeof value === 'string') {
+        parts.push(`${key}="${this.escapeAttributeValue(value)}"`);
+      } else {
+        parts.push(`${key}={${JSON.stringify(value)}}`);
+      }
+    }
+
+    return parts.join(' ');
+  }
+
+  // ===========================================================================
+  // Output Filename (Astro convention: PascalCase.astro)
+  // ===========================================================================
+
+  protected override getOutputFilename(tree: GenRoot): string {
+    const componentName = tree.meta?.componentName ?? 'Template';
+    return `${componentName}${this.fileExtension}`;
+  }
+
+  // ===========================================================================
+  // Filter Application (JS-native)
+  // ===========================================================================
+
+  override applyFilter(expression: string, filter: string, args?: string[]): string {
+    const formatter = this.filterMappings.get(filter as StandardFilter);
+    if (formatter) {
+      this.formatters.add(formatter.name);
+      return formatFormatterCall(formatter, expression, args);
+    }
+
+    const jsFilters: Record<string, (e: string, a?: string[]) => string> = {
+      uppercase: (e) => `${e}.toUpperCase()`,
+      lowercase: (e) => `${e}.toLowerCase()`,
+      capitalize: (e) => `${e}.charAt(0).toUpperCase() + ${e}.slice(1)`,
+      trim: (e) => `${e}.trim()`,
+      json: (e) => `JSON.stringify(${e})`,
+      length: (e) => `${e}.length`,
+      join: (e, a) => `${e}.join(${a?.[0] ? `"${a[0]}"` : '", "'})`,
+      split: (e, a) => `${e}.split(${a?.[0] ? `"${a[0]}"` : '","'})`,
+      reverse: (e) => `[...${e}].reverse()`,
+      sort: (e) => `[...${e}].sort()`,
+      first: (e) => `${e}[0]`,
+      last: (e) => `${e}[${e}.length - 1]`,
+      slice: (e, a) => `${e}.slice(${a?.join(', ') ?? '0'})`,
+    };
+
+    // Defaults produce `a ?? "b"`; wrap compound expressions before chaining
+    const subject = /^[\w$.[\]]+$/.test(expression) ? expression : `(${expression})`;
+    const transformer = jsFilters[filter];
+    if (transformer) {
+      return transformer(subject, args);
+    }
+
+    this.addWarning(`Unknown filter "${filter}" — passing as method call`);
+    return args?.length
+      ? `${subject}.${filter}(${args.join(', ')})`
+      : `${subject}.${filter}()`;
+  }
+
+  // ===========================================================================
+  // Validation
+  // ===========================================================================
+
+  override validate(output: string): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+
+    if (Object.values(MARKERS).some((marker) => output.includes(marker))) {
+      errors.push('Unprocessed condition branch markers found in output');
+    }
+
+    let markup = output;
+    if (output.startsWith('---\n')) {
+      const end = output.indexOf('\n---\n', 3);
+      if (end < 0) {
+        errors.push('Unclosed frontmatter fence (---)');
+      } else {
+        markup = output.slice(end + 5);
+      }
+    }
+
+    const fragmentOpens = (markup.match(/<Fragment[\s>]/g) || []).length;
+    const fragmentSelfClosing = (markup.match(/<Fragment\b[^>]*\/>/g) || []).length;
+    const fragmentCloses = (markup.match(/<\/Fragment>/g) || []).length;
+    if (fragmentOpens - fragmentSelfClosing !== fragmentCloses) {
+      errors.push(`Unbalanced <Fragment> tags: ${fragmentOpens - fragmentSelfClosing} open, ${fragmentCloses} close`);
+    }
+
+    const braceOpens = (markup.match(/\{/g) || []).length;
+    const braceCloses = (markup.match(/\}/g) || []).length;
+    if (braceOpens !== braceCloses) {
+      errors.push(`Unbalanced expression braces: ${braceOpens} { vs ${braceCloses} }`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Private: Frontmatter
+  // ===========================================================================
+
+  /**
+   * Build the `---` frontmatter: component imports, `interface Props`,
+   * the `Astro.props` destructure and the ported preamble.
+   */
+  private buildFrontmatter(tree: GenRoot, propDefs: GenPropDefinition[], markup: string): string {
+    const imports = tree.meta?.imports ?? [];
+    const props = propDefs.filter(
+      (p) =>
+        !p.rest &&
+        p.name !== 'children' &&
+        !p.name.startsWith('__') &&
+        !this.slotProps.has(p.name) &&
+        VALID_PROP_NAME.test(p.name)
+    );
+    const { ported, skipped } = this.splitPreamble(tree.meta?.preamble ?? []);
+    if (skipped.length > 0) {
+      this.addWarning(
+        `${skipped.length} component statement(s) use React hooks or JSX and are not ported to Astro; bindings they declare are undefined`
+      );
+    }
+
+    const typeNames = new Set<string>();
+    const propsSection: string[] = [];
+    if (props.length > 0) {
+      const fields = props.map(
+        (p) => `  ${p.name}${p.required ? '' : '?'}: ${resolvePropType(p.type, imports, typeNames)};`
+      );
+      const bindings = props.map((p) =>
+        p.defaultValue !== undefined ? `${p.name} = ${JSON.stringify(p.defaultValue)}` : p.name
+      );
+      propsSection.push(
+        'interface Props {',
+        ...fields,
+        '}',
+        '',
+        `const { ${bindings.join(', ')} } = Astro.props;`
+      );
+    }
+
+    const { lines: importLines, missing } = buildComponentImports({
+      componentNames: collectComponentNames(tree.children),
+      typeNames,
+      imports,
+      markup,
+      fileExtension: this.fileExtension,
+    });
+    for (const name of missing) {
+      this.addWarning(`Component "${name}" has no source import; add it to the frontmatter manually`);
+    }
+
+    const sections: string[][] = [
+      [...importLines, ...buildFormatterImport(this.formatters, this.config.formatModule)],
+      propsSection,
+      ported.map((statement) => this.formatExpression(statement)),
+    ];
+    if (skipped.length > 0) {
+      sections.push([
+        '// Not ported from React (client state needs an island component):',
+        ...skipped.flatMap((statement) => statement.split('\n').map((line) => `// ${line}`)),
+      ]);
+    }
+
+    const body = sections
+      .filter((lines) => lines.length > 0)
+      .map((lines) => lines.join('\n'))
+      .join('\n\n');
+
+    return body ? `---\n${body}\n---` : '';
+  }
+
+  // ===========================================================================
+  // Private: Condition Builders
+  // ===========================================================================
+
+  /**
+   * Split merged if content at the first branch marker and emit `&&` for a
+   * lone if, or a ternary chain for else/else-if branches.
+   */
+  private buildConditionOutput(expression: string, content: string): string {
+    const firstMarker = this.findFirstMarkerPos(content);
+    const ifContent = firstMarker >= 0 ? content.substring(0, firstMarker) : content;
+    const branches = firstMarker >= 0 ? content.substring(firstMarker) : '';
+    const formatted = this.formatExpression(expression);
+    // `a ?? b && x` is a syntax error; compound conditions need parentheses
+    const condition = /^!*[\w$.[\]]+$/.test(formatted) ? formatted : `(${formatted})`;
+
+    if (!branches) {
+      return `{${condition} && (<Fragment>${ifContent}</Fragment>)}`;
+    }
+
+    let chain = `${condition} ? (<Fragment>${ifContent}</Fragment>)`;
+    let hasElse = false;
+    let rest = branches;
+
+    while (rest.length > 0) {
+      if (rest.startsWith(MARKERS.ELSEIF)) {
+        const sepIdx = rest.indexOf(MARKERS.SEP);
+        const endIdx = rest.indexOf(MARKERS.END, sepIdx);
+        const branchExpr = rest.substring(MARKERS.ELSEIF.length, sepIdx);
+        const branchContent = rest.substring(sepIdx + MARKERS.SEP.length, endIdx);
+        chain += `${this.renderElse(branchExpr)}(<Fragment>${branchContent}</Fragment>)`;
+        rest = rest.substring(endIdx + MARKERS.END.length);
+      } else if (rest.startsWith(MARKERS.ELSE)) {
+        const endIdx = rest.indexOf(MARKERS.END);
+        const branchContent = rest.substring(MARKERS.ELSE.length, endIdx);
+        chain += `${this.renderElse()}(<Fragment>${branchContent}</Fragment>)`;
+        hasElse = true;
+        rest = rest.substring(endIdx + MARKERS.END.length);
+      } else {
+        // Whitespace between merged branches
+        rest = rest.substring(1);
+      }
+    }
+
+    return `{${chain}${hasElse ? '' : ' : null'}}`;
+  }
+
+  private findFirstMarkerPos(content: string): number {
+    const positions = [content.indexOf(MARKERS.ELSEIF), content.indexOf(MARKERS.ELSE)]
+      .filter((pos) => pos >= 0);
+    return positions.length > 0 ? Math.min(...positions) : -1;
+  }
+
+  // ===========================================================================
+  // Private: Helpers
+  // ===========================================================================
+
+  private buildVariableExpression(variable: GenVariable): string {
+    const { name, default: defaultValue, filter, filterArgs } = variable;
+
+    let expr = this.formatExpression(name);
+    if (defaultValue !== undefined) {
+      expr = `${expr} ?? ${this.formatJsValue(defaultValue)}`;
+    }
+    if (filter) {
+      expr = this.applyFilter(expr, filter, filterArgs);
+    }
+    return expr;
+  }
+
+  private formatJsValue(value: string): string {
+    if (!isNaN(Number(value)) && value.trim() !== '') return value;
+    if (value === 'true' || value === 'false') return value;
+    return `"${value}"`;
+  }
+
+  /**
+   * Format expression for Astro: slot props are tested through `Astro.slots`
+   */
+  protected override formatExpression(expr: string): string {
+    let result = expr.trim();
+    for (const name of this.slotProps) {
+      result = replaceIdentifier(result, name, `Astro.slots.has('${name}')`);
+    }
+    return result;
+  }
+}
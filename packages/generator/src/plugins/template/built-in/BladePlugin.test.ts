@@ -0,0 +1,288 @@
+/**
+ * Tests for BladePlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BladePlugin } from './BladePlugin';
+import {
+  root,
+  element,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.blade.php',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('BladePlugin', () => {
+  let plugin: BladePlugin;
+
+  beforeEach(async () => {
+    plugin = new BladePlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name and extension', () => {
+      expect(plugin.name).toBe('blade');
+      expect(plugin.fileExtension).toBe('.blade.php');
+    });
+
+    it('has php runtime', () => {
+      expect(plugin.runtime).toBe('php');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('switches to @forelse with an empty branch and sets metadata from $loop', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '@forelse ($dishes as $dish)\n@php($isFirst = $loop->first)\n@php($isLast = $loop->last)\n' +
+          '@php($total = $loop->count)\n<li></li>\n@empty\n<li>None</li>\n@endforelse'
+      );
+    });
+
+    it('renders @foreach', () => {
+      const result = plugin.renderLoop(
+        { item: 'item', collection: 'items' },
+        '<li>{{ $item->title }}</li>'
+      );
+
+      expect(result).toBe('@foreach ($items as $item)\n<li>{{ $item->title }}</li>\n@endforeach');
+    });
+
+    it('renders key => value iteration', () => {
+      const result = plugin.renderLoop(
+        { item: 'value', collection: 'attrs', key: 'name' },
+        '{{ $value }}'
+      );
+
+      expect(result).toContain('@foreach ($attrs as $name => $value)');
+    });
+
+    it('ignores React key expressions', () => {
+      const result = plugin.renderLoop({ item: 'item', collection: 'items', key: 'item.id' }, '{{ $item->title }}');
+
+      expect(result).toContain('@foreach ($items as $item)');
+    });
+
+    it('exposes index from $loop', () => {
+      const result = plugin.renderLoop(
+        { item: 'item', collection: 'page.items', index: 'i' },
+        '{{ $i }}'
+      );
+
+      expect(result).toContain('@foreach ($page->items as $item)');
+      expect(result).toContain('@php($i = $loop->index)');
+    });
+  });
+
+  describe('renderSwitch', () => {
+    it('renders @switch with @break after each case', () => {
+      const result = plugin.renderSwitch({ on: 'promotion.discount.type' }, [
+        { case: { value: 'available' }, content: 'A' },
+        { case: { value: 2 }, content: 'B' },
+        { case: { isDefault: true }, content: 'D' },
+      ]);
+
+      expect(result).toBe(
+        "@switch($promotion->discount->type)\n@case('available')\nA\n@break\n@case(2)\nB\n@break\n@default\nD\n@endswitch"
+      );
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders @if with PHP variables', () => {
+      const result = plugin.renderCondition(
+        { expression: 'isActive && user.isAdmin' },
+        '<span>Active</span>'
+      );
+
+      expect(result).toBe('@if ($isActive && $user->isAdmin)\n<span>Active</span>\n@endif');
+    });
+
+    it('keeps string literals and keywords intact', () => {
+      const result = plugin.renderCondition(
+        { expression: "status === 'active' || flag === true" },
+        'x'
+      );
+
+      expect(result).toContain("@if ($status === 'active' || $flag === true)");
+    });
+
+    it('translates length checks to count()', () => {
+      const result = plugin.renderCondition({ expression: 'items.length > 0 && !user.tags.length' }, 'x');
+
+      expect(result).toContain('@if (count($items) > 0 && !count($user->tags))');
+    });
+
+    it('renders @elseif and @else branches', () => {
+      expect(plugin.renderCondition({ expression: 'isPending', isElseIf: true }, 'P')).toBe(
+        '@elseif ($isPending)\nP'
+      );
+      expect(plugin.renderCondition({ expression: '', isElse: true }, 'E')).toBe('@else\nE');
+      expect(plugin.renderElse('isPending')).toBe('@elseif ($isPending)');
+      expect(plugin.renderElse()).toBe('@else');
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders escaped echo', () => {
+      expect(plugin.renderVariable({ name: 'post.title' })).toBe('{{ $post->title }}');
+    });
+
+    it('renders default with null coalescing', () => {
+      expect(plugin.renderVariable({ name: 'title', default: 'Untitled' })).toBe(
+        "{{ $title ?? 'Untitled' }}"
+      );
+    });
+
+    it('renders filters as PHP function calls', () => {
+      expect(plugin.renderVariable({ name: 'name', filter: 'uppercase' })).toBe(
+        '{{ strtoupper($name) }}'
+      );
+      expect(plugin.renderVariable({ name: 'tags', filter: 'join', filterArgs: [' / '] })).toBe(
+        "{{ implode(' / ', $tags) }}"
+      );
+      expect(plugin.renderVariable({ name: 'excerpt', filter: 'truncate', filterArgs: ['120'] })).toBe(
+        '{{ \\Illuminate\\Support\\Str::limit($excerpt, 120) }}'
+      );
+    });
+
+    it('renders raw echo', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('{!! $post->body !!}');
+    });
+
+    it('formats Var dates with date() and currencies with number_format()', () => {
+      expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ['MMM d, yyyy'] })).toBe(
+        "{{ date('M j, Y', strtotime($post->date)) }}"
+      );
+      expect(plugin.renderVariable({ name: 'price', filter: 'currency', filterArgs: ['EUR'] })).toBe(
+        '{{ number_format($price, 2) }}'
+      );
+    });
+  });
+
+  describe('renderSlot', () => {
+    it('maps default slot to $slot', () => {
+      expect(plugin.renderSlot({ name: 'default' }, '')).toBe('{{ $slot }}');
+    });
+
+    it('renders named slot with fallback', () => {
+      expect(plugin.renderSlot({ name: 'header' }, '<h1>Default</h1>')).toBe(
+        '@isset($header){{ $header }}@else<h1>Default</h1>@endisset'
+      );
+    });
+  });
+
+  describe('renderInclude', () => {
+    it('renders @include with dot notation', () => {
+      expect(plugin.renderInclude({ partial: 'partials/header' })).toBe("@include('partials.header')");
+    });
+
+    it('passes props as array', () => {
+      const result = plugin.renderInclude({
+        partial: 'partials/card',
+        props: { title: 'card.title', mode: '"full"' },
+      });
+
+      expect(result).toBe(`@include('partials.card', ['title' => $card->title, 'mode' => "full"])`);
+    });
+  });
+
+  describe('Inheritance', () => {
+    it('renders @yield for empty blocks', () => {
+      expect(plugin.renderBlock({ name: 'content' }, '')).toBe("@yield('content')");
+    });
+
+    it('renders @section with default content', () => {
+      expect(plugin.renderBlock({ name: 'sidebar' }, '<nav></nav>')).toBe(
+        "@section('sidebar')\n<nav></nav>\n@show"
+      );
+    });
+
+    it('renders @extends', () => {
+      expect(plugin.renderExtends('layouts/app')).toBe("@extends('layouts.app')");
+    });
+
+    it('renders comment', () => {
+      expect(plugin.renderComment('note')).toBe('{{-- note --}}');
+    });
+  });
+
+  describe('transform', () => {
+    it('uses raw echo for Raw-annotated variables', async () => {
+      const tree: GenRoot = root([
+        element('article', {}, [
+          annotate(element('span', {}, []), { variable: { name: 'title' }, unwrap: true }),
+          annotate(element('span', {}, []), { variable: { name: 'body' }, raw: true, unwrap: true }),
+        ]),
+      ], {
+        sourceFile: 'post.tsx',
+        componentName: 'PostBody',
+        exports: ['PostBody'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.filename).toBe('post-body.blade.php');
+      expect(output.content).toBe('<article>{{ $title }}{!! $body !!}</article>');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('echoes dynamic attributes', async () => {
+      const tree: GenRoot = root([
+        element('a', { href: { __expression: 'user.url' }, 'data-count': { __expression: 'items.length' } } as any, []),
+      ], {
+        sourceFile: 'user-link.tsx',
+        componentName: 'UserLink',
+        exports: ['UserLink'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toBe('<a href="{{ $user->url }}" data-count="{{ count($items) }}"></a>');
+    });
+  });
+
+  describe('validate', () => {
+    it('detects unbalanced directives', () => {
+      const result = plugin.validate('@foreach ($items as $item)<li></li>');
+      expect(result.valid).toBe(false);
+    });
+
+    it('detects unbalanced raw echo', () => {
+      const result = plugin.validate('{!! $body ');
+      expect(result.valid).toBe(false);
+    });
+
+    it('ignores comments when counting echo tags', () => {
+      const result = plugin.validate('{{-- note --}}{{ $title }}');
+      expect(result.valid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * BladePlugin - Template Plugin for Laravel Blade
+ *
+ * Transforms GenHAST trees into Blade templates.
+ * Blade is the template engine bundled with Laravel.
+ *
+ * Conventions:
+ * - Variables are PHP variables; property paths use object access (`$item->name`)
+ * - Template paths use Blade dot notation (`partials/header` -> `partials.header`)
+ * - `{{ }}` escapes output, `{!! !!}` is emitted for raw variables
+ *
+ * @see https://laravel.com/docs/blade
+ */
+
+import { BasePlugin } from '../BasePlugin';
+import type {
+  TemplatePluginFeatures,
+  FilterDefinition,
+  StandardFilter,
+  SwitchBranch,
+} from '../ITemplatePlugin';
+import type {
+  GenLoop,
+  GenCondition,
+  GenSwitch,
+  GenVariable,
+  GenSlot,
+  GenInclude,
+  GenBlock,
+} from '../../../hast';
+import { toPhpDateFormat } from './date-pattern';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** PHP functions that take the subject as the last argument */
+const SUBJECT_LAST_FUNCTIONS = new Set(['implode', 'explode']);
+
+/** Identifiers that must not receive a `$` prefix */
+const PHP_KEYWORDS = new Set(['true', 'false', 'null', 'and', 'or', 'not', 'in', 'as']);
+
+// =============================================================================
+// BladePlugin Implementation
+// =============================================================================
+
+export class BladePlugin extends BasePlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  readonly name = 'blade';
+  readonly version = '1.0.0';
+  readonly runtime = 'php' as const;
+  readonly fileExtension = '.blade.php';
+  readonly description = 'Blade template engine plugin for Laravel applications';
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  readonly features: TemplatePluginFeatures = {
+    supportsInheritance: true, // @extends/@section/@yield
+    supportsPartials: true, // @include
+    supportsFilters: false, // PHP function calls instead of filters
+    supportsMacros: true, // components
+    supportsAsync: false,
+    supportsRaw: true, // {!! !!}
+    supportsComments: true,
+  };
+
+  // ===========================================================================
+  // Filter Mappings
+  // ===========================================================================
+
+  protected override initializeFilterMappings(): void {
+    const mappings: Array<[StandardFilter, FilterDefinition]> = [
+      ['uppercase', { name: 'strtoupper' }],
+      ['lowercase', { name: 'strtolower' }],
+      ['capitalize', { name: 'ucfirst' }],
+      ['trim', { name: 'trim' }],
+      ['date', { name: 'date', formatArgs: (args) => `'${args[0] || 'Y-m-d'}'`, translateArgs: (args) => args.map(toPhpDateFormat) }],
+      ['currency', { name: 'number_format', formatArgs: (args) => args[0] || '2', translateArgs: () => [] }], // no currency code
+      ['number', { name: 'number_format' }],
+      ['json', { name: 'json_encode' }],
+      ['escape', { name: 'e' }],
+      ['raw', { name: 'raw' }],
+      ['default', { name: 'default', formatArgs: (args) => `'${args[0]}'` }],
+      ['first', { name: 'head' }],
+      ['last', { name: 'last' }],
+      ['length', { name: 'count' }],
+      ['join', { name: 'implode', formatArgs: (args) => `'${args[0] || ', '}'` }],
+      ['split', { name: 'explode', formatArgs: (args) => `'${args[0] || ','}'` }],
+      ['reverse', { name: 'array_reverse' }],
+      ['sort', { name: 'collect' }],
+      ['slice', { name: 'array_slice', formatArgs: (args) => args.join(', ') }],
+      ['truncate', { name: '\\Illuminate\\Support\\Str::limit', formatArgs: (args) => args[0] || '50' }],
+    ];
+
+    for (const [standard, definition] of mappings) {
+      this.filterMappings.set(standard, definition);
+    }
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render loop construct
+   *
+   * A `<Loop.Empty>` branch switches to `@forelse ... @empty ... @endforelse`.
+   *
+   * @example
+   * @foreach ($items as $item)
+   *   <div>{{ $item->name }}</div>
+   * @endforeach
+   */
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, key, index } = loop;
+    const collectionExpr = this.toPhpVariable(collection);
+    const directive = emptyContent !== undefined ? 'forelse' : 'foreach';
+
+    // A React key expression (`item.id`) is not a PHP key variable
+    const keyVar = key && /^[A-Za-z_]\w*$/.test(key) ? key : undefined;
+    const forTag = keyVar
+      ? `@${directive} (${collectionExpr} as $${keyVar} => $${item})`
+      : `@${directive} (${collectionExpr} as $${item})`;
+
+    // Blade exposes the iteration index and metadata through the $loop variable
+    const indexSet = index && index !== keyVar ? `@php($${index} = $loop->index)\n` : '';
+    const metaSets = this.getLoopMetaNames(loop)
+      .map(([name, meta]) => `@php($${name} = $loop->${meta === 'length' ? 'count' : meta})\n`)
+      .join('');
+
+    if (emptyContent !== undefined) {
+      return `${forTag}\n${indexSet}${metaSets}${content}\n@empty\n${emptyContent}\n@endforelse`;
+    }
+    return `${forTag}\n${indexSet}${metaSets}${content}\n@endforeach`;
+  }
+
+  /**
+   * Render conditional construct
+   *
+   * @example
+   * @if ($isActive)
+   *   <span>Active</span>
+   * @endif
+   */
+  renderCondition(condition: GenCondition, content: string): string {
+    const { expression, isElse, isElseIf } = condition;
+
+    if (isElse) {
+      return `@else\n${content}`;
+    }
+
+    if (isElseIf) {
+      return `@elseif (${this.formatExpression(expression)})\n${content}`;
+    }
+
+    return `@if (${this.formatExpression(expression)})\n${content}\n@endif`;
+  }
+
+  /**
+   * Render else/elseif
+   */
+  renderElse(condition?: string): string {
+    if (condition) {
+      return `@elseif (${this.formatExpression(condition)})`;
+    }
+    return '@else';
+  }
+
+  /**
+   * Render switch
+   *
+   * @example
+   * @switch($item->availability)
+   * @case('available') ... @break
+   * @default ...
+   * @endswitch
+   */
+  override renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    const lines = [`@switch(${this.formatExpression(switchAnnotation.on)})`];
+    for (const branch of branches) {
+      if (branch.case.isDefault) {
+        lines.push('@default', branch.content);
+      } else {
+        lines.push(`@case(${this.formatCaseValue(branch.case.value)})`, branch.content, '@break');
+      }
+    }
+    lines.push('@endswitch');
+    return lines.join('\n');
+  }
+
+  /**
+   * Render escaped variable output
+   *
+   * @example
+   * {{ $title }}
+   * {{ $title ?? 'Default' }}
+   * {{ strtoupper($title) }}
+   */
+  renderVariable(variable: GenVariable): string {
+    return `{{ ${this.buildVariableExpression(variable)} }}`;
+  }
+
+  /**
+   * Render unescaped variable output
+   *
+   * @example
+   * {!! $post->body !!}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `{!! ${this.buildVariableExpression(variable)} !!}`;
+  }
+
+  /**
+   * Render slot placeholder
+   *
+   * The default slot maps to `$slot`; named slots are component variables.
+   *
+   * @example
+   * {{ $slot }}
+   * @isset($header){{ $header }}@else<h1>Default</h1>@endisset
+   */
+  renderSlot(slot: GenSlot, defaultContent: string): string {
+    const slotVar = slot.name === 'default' || slot.name === 'content' ? '$slot' : `$${slot.name}`;
+
+    if (defaultContent.trim()) {
+      return `@isset(${slotVar}){{ ${slotVar} }}@else${defaultContent}@endisset`;
+    }
+
+    return `{{ ${slotVar} }}`;
+  }
+
+  /**
+   * Render include/partial
+   *
+   * @example
+   * @include('partials.header')
+   * @include('partials.card', ['title' => $cardTitle])
+   */
+  renderInclude(include: GenInclude, _childrenContent?: string): string {
+    const { partial, props } = include;
+    const viewName = this.toViewName(partial);
+
+    if (!props || Object.keys(props).length === 0) {
+      return `@include('${viewName}')`;
+    }
+
+    const propsString = Object.entries(props)
+      .map(([key, value]) => `'${key}' => ${this.formatExpression(value)}`)
+      .join(', ');
+
+    return `@include('${viewName}', [${propsString}])`;
+  }
+
+  /**
+   * Render block
+   *
+   * Empty blocks become `@yield`; blocks with default content use
+   * `@section ... @show` so child views can override them.
+   *
+   * @example
+   * @yield('content')
+   * @section('sidebar')<nav></nav>@show
+   */
+  renderBlock(block: GenBlock, content: string): string {
+    const { name } = block;
+
+    if (block.extends) {
+      return `${this.renderExtends(block.extends)}\n${content}`;
+    }
+
+    if (!content.trim()) {
+      return `@yield('${name}')`;
+    }
+
+    return `@section('${name}')\n${content}\n@show`;
+  }
+
+  /**
+   * Render extends
+   */
+  renderExtends(parent: string): string {
+    return `@extends('${this.toViewName(parent)}')`;
+  }
+
+  /**
+   * Render comment
+   */
+  renderComment(comment: string): string {
+    return `{{-- ${comment} --}}`;
+  }
+
+  // ===========================================================================
+  // Filter Application
+  // ===========================================================================
+
+  /**
+   * Apply a filter as a PHP function call
+   *
+   * @example
+   * strtoupper($title)
+   * implode(', ', $tags)
+   * \Illuminate\Support\Str::limit($excerpt, 120)
+   */
+  override applyFilter(expression: string, filter: string, args?: string[]): string {
+    if (filter === 'raw') {
+      return expression;
+    }
+
+    if (filter === 'default') {
+      return `${expression} ?? ${this.formatDefault(args?.[0] ?? '')}`;
+    }
+
+    if (filter === 'date') {
+      const format = this.filterMappings.get('date')!.formatArgs!(args ?? []);
+      return `date(${format}, strtotime(${expression}))`;
+    }
+
+    if (filter === 'sort') {
+      return `collect(${expression})->sort()->all()`;
+    }
+
+    const mapping = this.filterMappings.get(filter as StandardFilter);
+    const functionName = mapping?.name || filter;
+    const formattedArgs = mapping?.formatArgs
+      ? mapping.formatArgs(args ?? [])
+      : (args ?? []).join(', ');
+
+    if (!formattedArgs) {
+      return `${functionName}(${expression})`;
+    }
+
+    if (SUBJECT_LAST_FUNCTIONS.has(functionName)) {
+      return `${functionName}(${formattedArgs}, ${expression})`;
+    }
+
+    return `${functionName}(${expression}, ${formattedArgs})`;
+  }
+
+  // ===========================================================================
+  // Validation
+  // ===========================================================================
+
+  override validate(output: string): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+
+    // Check for balanced directives
+    const directivePairs: Array<[string, string]> = [
+      ['if', 'endif'],
+      ['foreach', 'endforeach'],
+      ['isset', 'endisset'],
+    ];
+
+    for (const [open, close] of directivePairs) {
+      const opens = (output.match(new RegExp(`@${open}\\b`, 'g')) || []).length;
+      const closes = (output.match(new RegExp(`@${close}\\b`, 'g')) || []).length;
+      if (opens !== closes) {
+        errors.push(`Unbalanced @${open}: ${opens} open, ${closes} close`);
+      }
+    }
+
+    // Sections close with @show, @endsection or @stop
+    const sectionOpens = (output.match(/@section\('[^']+'\)(?!\s*,)/g) || []).length;
+    const sectionCloses = (output.match(/@(show|endsection|stop)\b/g) || []).length;
+    if (sectionOpens !== sectionCloses) {
+      errors.push(`Unbalanced @section: ${sectionOpens} open, ${sectionCloses} close`);
+    }
+
+    // Check for unclosed echo tags
+    const rawOpens = (output.match(/\{!!/g) || []).length;
+    const rawCloses = (output.match(/!!\}/g) || []).length;
+    if (rawOpens !== rawCloses) {
+      errors.push(`Unbalanced raw echo tags: ${rawOpens} {!! vs ${rawCloses} !!}`);
+    }
+
+    const outputOpens = (output.match(/\{\{(?!--)/g) || []).length;
+    const outputCloses = (output.match(/(?<!--)\}\}/g) || []).length;
+    if (outputOpens !== outputCloses) {
+      errors.push(`Unbalanced output tags: ${outputOpens} {{ vs ${outputCloses} }}`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  /**
+   * Build the PHP expression for a variable (default + filter)
+   */
+  private buildVariableExpression(variable: GenVariable): string {
+    const { name, default: defaultValue, filter } = variable;
+
+    let expr = this.toPhpVariable(name);
+
+    if (defaultValue !== undefined) {
+      expr = `${expr} ?? ${this.formatDefault(defaultValue)}`;
+    }
+
+    if (filter) {
+      expr = this.applyFilter(
+        defaultValue !== undefined ? `(${expr})` : expr,
+        filter,
+        this.getVariableFilterArgs(variable)
+      );
+    }
+
+    return expr;
+  }
+
+  /**
+   * Convert a JS property path to a PHP variable (`item.name` -> `$item->name`);
+   * PHP arrays have no `length`, so `items.length` becomes `count($items)`
+   */
+  private toPhpVariable(path: string): string {
+    if (path.endsWith('.length')) {
+      return `count(${this.toPhpVariable(path.slice(0, -'.length'.length))})`;
+    }
+    const [head, ...rest] = path.split('.');
+    return [`$${head}`, ...rest].join('->');
+  }
+
+  /**
+   * Convert a template path to a Blade view name
+   */
+  private toViewName(path: string): string {
+    return path.replace(/\.blade\.php$/, '').replace(/\//g, '.');
+  }
+
+  /**
+   * Quote a default value unless it is numeric or boolean
+   */
+  private formatDefault(value: string): string {
+    if (/^(-?\d+(\.\d+)?|true|false|null)$/.test(value)) {
+      return value;
+    }
+    return `'${value.replace(/'/g, "\\'")}'`;
+  }
+
+  /**
+   * Format expression for Blade (PHP)
+   */
+  protected override formatExpression(expr: string): string {
+    const pattern = /('(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*")|\b([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\b(?!\s*\()/g;
+
+    return expr
+      .replace(pattern, (match, quoted: string | undefined, path: string | undefined) => {
+        if (quoted || !path) {
+          return match;
+        }
+        if (PHP_KEYWORDS.has(path.toLowerCase())) {
+          return path;
+        }
+        return this.toPhpVariable(path);
+      })
+      .trim();
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Tests for GoTemplatePlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GoTemplatePlugin } from './GoTemplatePlugin';
+import {
+  root,
+  element,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+import { transformJsx } from '../../../transformer';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.gohtml',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('GoTemplatePlugin', () => {
+  let plugin: GoTemplatePlugin;
+
+  beforeEach(async () => {
+    plugin = new GoTemplatePlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('go');
+      expect(plugin.fileExtension).toBe('.gohtml');
+      expect(plugin.runtime).toBe('go');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('declares loop metadata from the range index and renders the empty branch as else', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '{{range $index, $dish := .dishes}}\n{{$isFirst := eq $index 0}}\n' +
+          '{{$isLast := eq (len (slice $.dishes $index)) 1}}\n{{$total := len $.dishes}}\n' +
+          '<li></li>\n{{else}}\n<li>None</li>\n{{end}}'
+      );
+    });
+
+    it('renders range with item variable', () => {
+      const result = plugin.renderLoop(
+        { item: 'item', collection: 'items' },
+        '<li>{{$item.name}}</li>'
+      );
+
+      expect(result).toBe('{{range $item := .items}}\n<li>{{$item.name}}</li>\n{{end}}');
+    });
+
+    it('renders range with index variable', () => {
+      const result = plugin.renderLoop(
+        { item: 'item', collection: 'items', index: 'i' },
+        '{{$i}}'
+      );
+
+      expect(result).toContain('{{range $i, $item := .items}}');
+    });
+
+    it('ignores the loop key', () => {
+      expect(plugin.renderLoop({ item: 'item', collection: 'items', key: 'item.id' }, '{{$item.name}}')).toBe(
+        '{{range $item := .items}}\n{{$item.name}}\n{{end}}'
+      );
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders simple if', () => {
+      expect(plugin.renderCondition({ expression: 'isActive' }, 'A')).toBe(
+        '{{if .isActive}}\nA\n{{end}}'
+      );
+    });
+
+    it('converts logical operators to prefix functions', () => {
+      const result = plugin.renderCondition(
+        { expression: 'isAdmin && !isHidden' },
+        'A'
+      );
+
+      expect(result).toContain('{{if and .isAdmin (not .isHidden)}}');
+    });
+
+    it('converts comparisons and string literals', () => {
+      const result = plugin.renderCondition(
+        { expression: "status === 'active' || count > 0" },
+        'A'
+      );
+
+      expect(result).toContain('{{if or (eq .status "active") (gt .count 0)}}');
+    });
+
+    it('translates length to len', () => {
+      expect(plugin.renderCondition({ expression: 'items.length > 0 && !tags.length' }, 'A')).toContain(
+        '{{if and (gt (len .items) 0) (not (len .tags))}}'
+      );
+    });
+
+    it('renders else if and else', () => {
+      expect(plugin.renderCondition({ expression: 'isPending', isElseIf: true }, 'P')).toBe(
+        '{{else if .isPending}}\nP'
+      );
+      expect(plugin.renderElse()).toBe('{{else}}');
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders dot field', () => {
+      expect(plugin.renderVariable({ name: 'site.title' })).toBe('{{.site.title}}');
+    });
+
+    it('pipes default and filters', () => {
+      const result = plugin.renderVariable({
+        name: 'title',
+        default: 'Untitled',
+        filter: 'uppercase',
+      });
+
+      expect(result).toBe('{{.title | default "Untitled" | upper}}');
+    });
+
+    it('maps length to built-in len', () => {
+      expect(plugin.renderVariable({ name: 'items', filter: 'length' })).toBe('{{.items | len}}');
+    });
+
+    it('renders raw output with safeHTML', () => {
+      expect(plugin.renderRawVariable({ name: 'body' })).toBe('{{.body | safeHTML}}');
+    });
+
+    it('translates Var date patterns to Go layouts', () => {
+      expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ['EEEE, MMMM d, yyyy h:mm a'] })).toBe(
+        '{{.post.date | formatDate "Monday, January 2, 2006 3:04 PM"}}'
+      );
+    });
+  });
+
+  describe('renderInclude', () => {
+    it('renders template with dot', () => {
+      expect(plugin.renderInclude({ partial: 'partials/header' })).toBe(
+        '{{template "header.gohtml" .}}'
+      );
+    });
+
+    it('passes props through dict', () => {
+      const result = plugin.renderInclude({
+        partial: 'partials/card',
+        props: { title: 'cardTitle', mode: '"full"' },
+      });
+
+      expect(result).toBe('{{template "card.gohtml" dict "title" .cardTitle "mode" "full"}}');
+    });
+  });
+
+  describe('Blocks', () => {
+    it('renders block with default content', () => {
+      expect(plugin.renderBlock({ name: 'content' }, '<main></main>')).toBe(
+        '{{block "content" .}}<main></main>{{end}}'
+      );
+    });
+
+    it('renders empty slot as template call', () => {
+      expect(plugin.renderSlot({ name: 'sidebar' }, '')).toBe('{{template "sidebar" .}}');
+    });
+
+    it('renders comment', () => {
+      expect(plugin.renderComment('note')).toBe('{{/* note */}}');
+    });
+  });
+
+  describe('Filter Mappings', () => {
+    it('maps escape and slice to Go built-ins', () => {
+      expect(plugin.getFilter('escape')?.name).toBe('html');
+      expect(plugin.getFilter('slice')?.name).toBe('slice');
+    });
+
+    it('passes join separator before the piped value', () => {
+      expect(plugin.applyFilter('.tags', 'join', [', '])).toBe('.tags | join ", "');
+    });
+  });
+
+  describe('transform', () => {
+    it('uses $vars for loop-bound names and dot fields otherwise', async () => {
+      const tree: GenRoot = root([
+        annotate(
+          element('ul', {}, [
+            annotate(
+              element('li', {}, [
+                annotate(element('span', {}, []), { variable: { name: 'item.name' }, unwrap: true }),
+              ]),
+              { condition: { expression: 'item.available' } }
+            ),
+          ]),
+          { loop: { item: 'item', collection: 'menu.items' } }
+        ),
+      ], {
+        sourceFile: 'menu.tsx',
+        componentName: 'MenuList',
+        exports: ['MenuList'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.filename).toBe('menu-list.gohtml');
+      expect(output.content).toContain('{{range $item := .menu.items}}');
+      expect(output.content).toContain('{{if $item.available}}');
+      expect(output.content).toContain('{{$item.name}}');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('binds keyed .map() loops by index and reads root data through $', async () => {
+      const source = `
+        export function Menu({ title, items, categories }: MenuProps) {
+          return (
+            <ul>
+              {items.map((item) => (
+                <li key={item.id}>
+                  <span>{title}: {item.name}</span>
+                  {items.length > 1 && <Footer categories={categories} />}
+                </li>
+              ))}
+            </ul>
+          );
+        }
+      `;
+      const output = await plugin.transform(transformJsx(source, { sourceFile: 'menu.tsx' }).tree);
+
+      expect(output.content).toContain('{{range $item := .items}}');
+      expect(output.content).not.toContain('$item.id');
+      expect(output.content).toContain('{{$.title}}');
+      expect(output.content).toContain('{{if gt (len $.items) 1}}');
+      expect(output.content).toContain('{{template "footer.gohtml" dict "categories" $.categories}}');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('renders dynamic attributes as actions, with $ inside the range', async () => {
+      const source = `
+        export function Links({ user, items }: LinksProps) {
+          return (
+            <nav>
+              <a href={user.url}>{user.name}</a>
+              {items.map((item) => (
+                <a key={item.id} data-id={item.id} href={user.url}>{item.title}</a>
+              ))}
+            </nav>
+          );
+        }
+      `;
+      const output = await plugin.transform(transformJsx(source, { sourceFile: 'links.tsx' }).tree);
+
+      expect(output.content).toContain('<a href="{{.user.url}}">');
+      expect(output.content).toContain('<a data-id="{{$item.id}}" href="{{$.user.url}}">');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('declares loop metadata from root data inside the range', async () => {
+      const tree: GenRoot = root([
+        annotate(element('div', {}, [
+          annotate(element('span', {}, []), { slot: { name: 'badge' } }),
+        ]), { loop: { item: 'dish', collection: 'dishes', length: 'total' }, unwrap: true }),
+      ], {
+        sourceFile: 'dishes.tsx',
+        componentName: 'Dishes',
+        exports: ['Dishes'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('{{range $index, $dish := .dishes}}');
+      expect(output.content).toContain('{{$total := len $.dishes}}');
+      expect(output.content).toContain('{{block "badge" $}}<span></span>{{end}}');
+    });
+
+    it('warns on unsupported expressions', async () => {
+      const tree: GenRoot = root([
+        annotate(element('p', {}, []), { condition: { expression: 'items.some(x => x)' } }),
+      ], {
+        sourceFile: 'x.tsx',
+        componentName: 'X',
+        exports: ['X'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.warnings?.[0]).toContain('Unsupported expression');
+    });
+  });
+
+  describe('validate', () => {
+    it('accepts balanced actions', () => {
+      const result = plugin.validate('{{range $x := .xs}}{{if $x}}{{$x}}{{end}}{{end}}');
+      expect(result.valid).toBe(true);
+    });
+
+    it('detects missing {{end}}', () => {
+      const result = plugin.validate('{{range $x := .xs}}{{$x}}');
+      expect(result.valid).toBe(false);
+      expect(result.errors?.[0]).toContain('{{end}}');
+    });
+
+    it('supports trim markers', () => {
+      const result = plugin.validate('{{- if .a -}}x{{- end -}}');
+      expect(result.valid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,559 @@
+/**
+ * GoTemplatePlugin - Template Plugin for Go html/template
+ *
+ * Transforms GenHAST trees into Go `html/template` files.
+ *
+ * Conventions:
+ * - Top-level data is read from the dot (`.title`), or from `$` inside a range
+ *   where the dot is the current item (`$.title`); loop variables are `$item`
+ * - Boolean logic and comparisons become template functions (`and`, `not`, `eq`)
+ * - Filters become pipeline functions (`{{.title | upper}}`); functions that
+ *   are not Go built-ins must be provided through `template.FuncMap`
+ *
+ * @see https://pkg.go.dev/text/template
+ */
+
+import { BasePlugin } from '../BasePlugin';
+import type {
+  TemplatePluginFeatures,
+  FilterDefinition,
+  StandardFilter,
+} from '../ITemplatePlugin';
+import type {
+  GenRoot,
+  GenLoop,
+  GenCondition,
+  GenVariable,
+  GenSlot,
+  GenInclude,
+  GenBlock,
+  TemplateOutput,
+} from '../../../hast';
+import { getAnnotations, visitElements } from '../../../hast';
+import { toGoLayout } from './date-pattern';
+
+// =============================================================================
+// Expression Types
+// =============================================================================
+
+type GoExprNode =
+  | { kind: 'path'; value: string }
+  | { kind: 'literal'; value: string }
+  | { kind: 'call'; fn: string; args: GoExprNode[] };
+
+const COMPARISON_FUNCS: Record<string, string> = {
+  '===': 'eq',
+  '==': 'eq',
+  '!==': 'ne',
+  '!=': 'ne',
+  '>': 'gt',
+  '>=': 'ge',
+  '<': 'lt',
+  '<=': 'le',
+};
+
+const TOKEN_PATTERN =
+  /\s*(?:('(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*")|(-?\d+(?:\.\d+)?)|([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)|(===|!==|==|!=|>=|<=|&&|\|\||[!<>()]))/y;
+
+// =============================================================================
+// GoTemplatePlugin Implementation
+// =============================================================================
+
+export class GoTemplatePlugin extends BasePlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  readonly name = 'go';
+  readonly version = '1.0.0';
+  readonly runtime = 'go' as const;
+  readonly fileExtension = '.gohtml';
+  readonly description = 'Go html/template plugin for Go web servers';
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  readonly features: TemplatePluginFeatures = {
+    supportsInheritance: true, // block/define
+    supportsPartials: true, // template
+    supportsFilters: true, // pipeline functions
+    supportsMacros: true, // define
+    supportsAsync: false,
+    supportsRaw: true, // safeHTML
+    supportsComments: true,
+  };
+
+  /** Names bound by {{range}} in the current tree (rendered as $vars) */
+  private loopVariables: Set<string> = new Set();
+
+  // ===========================================================================
+  // Filter Mappings
+  // ===========================================================================
+
+  /**
+   * StandardFilter -> Go template function.
+   * Built-ins: html, len, slice. Everything else is expected in the FuncMap;
+   * piped values arrive as the last argument (`{{.tags | join ", "}}`).
+   */
+  protected override initializeFilterMappings(): void {
+    const mappings: Array<[StandardFilter, FilterDefinition]> = [
+      ['uppercase', { name: 'upper' }],
+      ['lowercase', { name: 'lower' }],
+      ['capitalize', { name: 'title' }],
+      ['trim', { name: 'trim' }],
+      ['date', { name: 'formatDate', formatArgs: (args) => `"${args[0] || '2006-01-02'}"`, translateArgs: (args) => args.map(toGoLayout) }],
+      ['currency', { name: 'currency', formatArgs: (args) => `"${args[0] || 'USD'}"` }],
+      ['number', { name: 'formatNumber' }],
+      ['json', { name: 'json' }],
+      ['escape', { name: 'html' }],
+      ['raw', { name: 'safeHTML' }],
+      ['default', { name: 'default', formatArgs: (args) => this.formatLiteral(args[0] ?? '') }],
+      ['first', { name: 'first' }],
+      ['last', { name: 'last' }],
+      ['length', { name: 'len' }],
+      ['join', { name: 'join', formatArgs: (args) => `"${args[0] || ', '}"` }],
+      ['split', { name: 'split', formatArgs: (args) => `"${args[0] || ','}"` }],
+      ['reverse', { name: 'reverse' }],
+      ['sort', { name: 'sortAlpha' }],
+      ['slice', { name: 'slice', formatArgs: (args) => args.join(' ') }],
+      ['truncate', { name: 'truncate', formatArgs: (args) => args[0] || '50' }],
+    ];
+
+    for (const [standard, definition] of mappings) {
+      this.filterMappings.set(standard, definition);
+    }
+  }
+
+  // ===========================================================================
+  // Core Transformation
+  // ===========================================================================
+
+  override async transform(tree: GenRoot): Promise<TemplateOutput> {
+    this.loopVariables = this.collectLoopVariables(tree);
+    try {
+      return await super.transform(tree);
+    } finally {
+      this.loopVariables = new Set();
+    }
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render loop construct
+   *
+   * Loop metadata names are declared from the range index (`last` compares the
+   * remaining slice); `<Loop.Empty>` becomes `{{else}}`. Keys have no meaning
+   * in Go and are ignored (range only binds variables).
+   *
+   * @example
+   * {{range $item := .items}}
+   *   <div>{{$item.name}}</div>
+   * {{else}}
+   *   <p>No items</p>
+   * {{end}}
+   */
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, index } = loop;
+    const collectionExpr = this.toGoPath(collection);
+    // Metadata is declared inside the range, where the dot is the item
+    const rangeCollectionExpr = this.toGoPath(collection, true);
+    const metaNames = this.getLoopMetaNames(loop);
+    const indexVar = index ?? (metaNames.length > 0 ? 'index' : undefined);
+
+    const rangeTag = indexVar
+      ? `{{range $${indexVar}, $${item} := ${collectionExpr}}}`
+      : `{{range $${item} := ${collectionExpr}}}`;
+
+    const metaVars = metaNames
+      .map(([name, meta]) => {
+        if (meta === 'first') return `{{$${name} := eq $${indexVar} 0}}\n`;
+        if (meta === 'last') return `{{$${name} := eq (len (slice ${rangeCollectionExpr} $${indexVar})) 1}}\n`;
+        return `{{$${name} := len ${rangeCollectionExpr}}}\n`;
+      })
+      .join('');
+    const emptyBranch = emptyContent !== undefined ? `\n{{else}}\n${emptyContent}` : '';
+
+    return `${rangeTag}\n${metaVars}${content}${emptyBranch}\n{{end}}`;
+  }
+
+  /**
+   * Render conditional construct
+   *
+   * @example
+   * {{if and .isActive (not .isHidden)}}
+   *   <span>Active</span>
+   * {{end}}
+   */
+  renderCondition(condition: GenCondition, content: string): string {
+    const { expression, isElse, isElseIf } = condition;
+
+    if (isElse) {
+      return `{{else}}\n${content}`;
+    }
+
+    if (isElseIf) {
+      return `{{else if ${this.formatExpression(expression)}}}\n${content}`;
+    }
+
+    return `{{if ${this.formatExpression(expression)}}}\n${content}\n{{end}}`;
+  }
+
+  /**
+   * Render else/else if
+   */
+  renderElse(condition?: string): string {
+    if (condition) {
+      return `{{else if ${this.formatExpression(condition)}}}`;
+    }
+    return '{{else}}';
+  }
+
+  /**
+   * Render variable output
+   *
+   * @example
+   * {{.title}}
+   * {{.title | default "Untitled"}}
+   * {{$item.name | upper}}
+   */
+  renderVariable(variable: GenVariable): string {
+    return `{{${this.buildPipeline(variable)}}}`;
+  }
+
+  /**
+   * Render unescaped variable output
+   *
+   * @example
+   * {{.body | safeHTML}}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `{{${this.applyFilter(this.buildPipeline(variable), 'raw')}}}`;
+  }
+
+  /**
+   * Render slot placeholder (block with default content)
+   *
+   * @example
+   * {{block "header" .}}<h1>Default</h1>{{end}}
+   * {{template "sidebar" .}}
+   */
+  renderSlot(slot: GenSlot, defaultContent: string): string {
+    const { name } = slot;
+
+    if (!defaultContent.trim()) {
+      return `{{template "${name}" ${this.dataRoot()}}}`;
+    }
+
+    return `{{block "${name}" ${this.dataRoot()}}}${defaultContent}{{end}}`;
+  }
+
+  /**
+   * Render include/partial
+   *
+   * Props are passed with a `dict` FuncMap helper since a template receives a single pipeline.
+   *
+   * @example
+   * {{template "header.gohtml" .}}
+   * {{template "card.gohtml" dict "title" .cardTitle}}
+   */
+  renderInclude(include: GenInclude, _childrenContent?: string): string {
+    const { partial, props } = include;
+    const templateName = this.toTemplateName(partial);
+
+    if (!props || Object.keys(props).length === 0) {
+      return `{{template "${templateName}" ${this.dataRoot()}}}`;
+    }
+
+    const dictArgs = Object.entries(props)
+      .map(([key, value]) => `"${key}" ${this.wrapOperand(this.formatExpression(value))}`)
+      .join(' ');
+
+    return `{{template "${templateName}" dict ${dictArgs}}}`;
+  }
+
+  /**
+   * Render block
+   *
+   * @example
+   * {{block "content" .}}...{{end}}
+   */
+  renderBlock(block: GenBlock, content: string): string {
+    const { name } = block;
+
+    if (block.extends) {
+      return `${content}\n${this.renderExtends(block.extends)}`;
+    }
+
+    return `{{block "${name}" .}}${content}{{end}}`;
+  }
+
+  /**
+   * Render extends (execute the parent layout with the current data)
+   */
+  renderExtends(parent: string): string {
+    return `{{template "${this.toTemplateName(parent)}" .}}`;
+  }
+
+  /**
+   * Render comment
+   */
+  renderComment(comment: string): string {
+    return `{{/* ${comment} */}}`;
+  }
+
+  // ===========================================================================
+  // Filter Application
+  // ===========================================================================
+
+  override applyFilter(expression: string, filter: string, args?: string[]): string {
+    const mapping = this.filterMappings.get(filter as StandardFilter);
+    const funcName = mapping?.name || filter;
+
+    if (args && args.length > 0) {
+      const formattedArgs = mapping?.formatArgs
+        ? mapping.formatArgs(args)
+        : args.join(' ');
+      return `${expression} | ${funcName} ${formattedArgs}`;
+    }
+
+    return `${expression} | ${funcName}`;
+  }
+
+  // ===========================================================================
+  // Validation
+  // ===========================================================================
+
+  override validate(output: string): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+
+    // Every range/if/with/block/define action needs a matching {{end}}
+    const blockOpens = output.match(/\{\{-?\s*(if|range|with|block|define)\b/g) || [];
+    const blockCloses = output.match(/\{\{-?\s*end\s*-?\}\}/g) || [];
+
+    if (blockOpens.length !== blockCloses.length) {
+      errors.push(`Unbalanced actions: ${blockOpens.length} open, ${blockCloses.length} {{end}}`);
+    }
+
+    // Check for unclosed action delimiters
+    const outputOpens = (output.match(/\{\{/g) || []).length;
+    const outputCloses = (output.match(/\}\}/g) || []).length;
+
+    if (outputOpens !== outputCloses) {
+      errors.push(`Unbalanced action delimiters: ${outputOpens} {{ vs ${outputCloses} }}`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  /**
+   * Build the pipeline for a variable (value | default | filter)
+   */
+  private buildPipeline(variable: GenVariable): string {
+    const { name, default: defaultValue, filter } = variable;
+
+    let expr = this.printGoExpr(this.toGoOperand(name));
+
+    if (defaultValue !== undefined) {
+      expr = this.applyFilter(expr, 'default', [defaultValue]);
+    }
+
+    if (filter) {
+      expr = this.applyFilter(expr, filter, this.getVariableFilterArgs(variable));
+    }
+
+    return expr;
+  }
+
+  /**
+   * Collect item/index names bound by loops anywhere in the tree
+   */
+  private collectLoopVariables(tree: GenRoot): Set<string> {
+    const names = new Set<string>();
+    visitElements(tree, (node) => {
+      const loop = getAnnotations(node)?.loop;
+      if (!loop) return;
+      names.add(loop.item);
+      if (loop.index) names.add(loop.index);
+      for (const [name] of this.getLoopMetaNames(loop)) names.add(name);
+    });
+    return names;
+  }
+
+  /**
+   * Convert a JS property path to a Go template field chain
+   * (`title` -> `.title`, `item.name` -> `$item.name`, and `title` -> `$.title`
+   * inside a range, where the dot is the current item)
+   */
+  private toGoPath(path: string, inRange = this.loopStack.length > 0): string {
+    const head = path.split('.')[0];
+    if (this.loopVariables.has(head)) return `$${path}`;
+    return inRange ? `$.${path}` : `.${path}`;
+  }
+
+  /**
+   * Convert a JS property path to an operand; slices have no `length` field,
+   * so `items.length` becomes `len .items`
+   */
+  private toGoOperand(path: string): GoExprNode {
+    if (path.endsWith('.length')) {
+      return { kind: 'call', fn: 'len', args: [{ kind: 'path', value: this.toGoPath(path.slice(0, -'.length'.length)) }] };
+    }
+    return { kind: 'path', value: this.toGoPath(path) };
+  }
+
+  /**
+   * Data passed to templates and blocks: the dot, or the root data inside a range
+   */
+  private dataRoot(): string {
+    return this.loopStack.length > 0 ? '$' : '.';
+  }
+
+  /**
+   * Template name for partials (ParseFiles/ParseGlob name templates by file base name)
+   */
+  private toTemplateName(path: string): string {
+    const baseName = path.split('/').pop() ?? path;
+    return baseName.endsWith(this.fileExtension) ? baseName : `${baseName}${this.fileExtension}`;
+  }
+
+  /**
+   * Format a default value as a Go literal
+   */
+  private formatLiteral(value: string): string {
+    if (/^(-?\d+(\.\d+)?|true|false)$/.test(value)) {
+      return value;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Parenthesize function calls used as arguments
+   */
+  private wrapOperand(operand: string): string {
+    return /\s/.test(operand) && !/^"/.test(operand) ? `(${operand})` : operand;
+  }
+
+  /**
+   * Format expression for Go templates (prefix function calls)
+   *
+   * @example
+   * a && !b        -> and .a (not .b)
+   * status === 'x' -> eq .status "x"
+   */
+  protected override formatExpression(expr: string): string {
+    const tokens = this.tokenize(expr);
+    if (!tokens) {
+      this.addWarning(`Unsupported expression for Go template: ${expr}`);
+      return expr.trim();
+    }
+
+    let position = 0;
+    const peek = (): string | undefined => tokens[position];
+    const next = (): string | undefined => tokens[position++];
+
+    const parseOr = (): GoExprNode => {
+      const args = [parseAnd()];
+      while (peek() === '||') {
+        next();
+        args.push(parseAnd());
+      }
+      return args.length === 1 ? args[0] : { kind: 'call', fn: 'or', args };
+    };
+
+    const parseAnd = (): GoExprNode => {
+      const args = [parseComparison()];
+      while (peek() === '&&') {
+        next();
+        args.push(parseComparison());
+      }
+      return args.length === 1 ? args[0] : { kind: 'call', fn: 'and', args };
+    };
+
+    const parseComparison = (): GoExprNode => {
+      const left = parseUnary();
+      const operator = peek();
+      if (operator && COMPARISON_FUNCS[operator]) {
+        next();
+        return { kind: 'call', fn: COMPARISON_FUNCS[operator], args: [left, parseUnary()] };
+      }
+      return left;
+    };
+
+    const parseUnary = (): GoExprNode => {
+      if (peek() === '!') {
+        next();
+        return { kind: 'call', fn: 'not', args: [parseUnary()] };
+      }
+      return parsePrimary();
+    };
+
+    const parsePrimary = (): GoExprNode => {
+      const token = next();
+      if (token === undefined) {
+        throw new Error('Unexpected end of expression');
+      }
+      if (token === '(') {
+        const inner = parseOr();
+        if (next() !== ')') throw new Error('Missing closing parenthesis');
+        return inner;
+      }
+      if (/^['"]/.test(token)) {
+        return { kind: 'literal', value: JSON.stringify(token.slice(1, -1)) };
+      }
+      if (/^-?\d/.test(token) || token === 'true' || token === 'false') {
+        return { kind: 'literal', value: token };
+      }
+      if (token === 'null' || token === 'undefined') {
+        return { kind: 'literal', value: 'nil' };
+      }
+      if (/^[A-Za-z_$]/.test(token)) {
+        return this.toGoOperand(token);
+      }
+      throw new Error(`Unexpected token "${token}"`);
+    };
+
+    try {
+      const node = parseOr();
+      if (position !== tokens.length) {
+        throw new Error(`Unexpected token "${tokens[position]}"`);
+      }
+      return this.printGoExpr(node);
+    } catch {
+      this.addWarning(`Unsupported expression for Go template: ${expr}`);
+      return expr.trim();
+    }
+  }
+
+  private printGoExpr(node: GoExprNode): string {
+    if (node.kind !== 'call') {
+      return node.value;
+    }
+    const args = node.args.map((arg) => (arg.kind === 'call' ? `(${this.printGoExpr(arg)})` : arg.value));
+    return `${node.fn} ${args.join(' ')}`;
+  }
+
+  private tokenize(expr: string): string[] | null {
+    const tokens: string[] = [];
+    const source = expr.trim();
+    TOKEN_PATTERN.lastIndex = 0;
+
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+      const match = TOKEN_PATTERN.exec(source);
+      if (!match) return null;
+      tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+    }
+
+    return tokens;
+  }
+}
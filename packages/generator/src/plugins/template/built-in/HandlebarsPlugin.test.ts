@@ -0,0 +1,243 @@
+/**
+ * Tests for HandlebarsPlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HandlebarsPlugin } from './HandlebarsPlugin';
+import {
+  root,
+  element,
+  text,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.hbs',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+function createTree(componentName: string, children: GenRoot['children']): GenRoot {
+  return root(children, {
+    sourceFile: `${componentName}.tsx`,
+    componentName,
+    exports: [componentName],
+    dependencies: [],
+  });
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('HandlebarsPlugin', () => {
+  let plugin: HandlebarsPlugin;
+
+  beforeEach(async () => {
+    plugin = new HandlebarsPlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('handlebars');
+      expect(plugin.fileExtension).toBe('.hbs');
+      expect(plugin.runtime).toBe('js');
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders filters as helpers and defaults with the default helper', () => {
+      expect(plugin.renderVariable({ name: 'price', filter: 'currency' })).toBe('{{formatCurrency price}}');
+      expect(plugin.renderVariable({ name: 'title', default: 'Untitled' })).toBe('{{default title "Untitled"}}');
+    });
+
+    it('passes Var format arguments to helpers as literals', () => {
+      expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ['MMM d, yyyy'] })).toBe(
+        '{{formatDate post.date "MMM d, yyyy"}}'
+      );
+      expect(plugin.renderVariable({ name: 'price', filter: 'currency', filterArgs: ['EUR'] })).toBe(
+        '{{formatCurrency price "EUR"}}'
+      );
+      expect(plugin.renderVariable({ name: 'excerpt', filter: 'truncate', filterArgs: ['120'] })).toBe(
+        '{{truncate excerpt 120}}'
+      );
+    });
+
+    it('renders raw output with triple braces', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('{{{post.body}}}');
+      expect(plugin.renderRawVariable({ name: 'intro', default: 'None' })).toBe('{{{default intro "None"}}}');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('renders the empty branch as the each else block', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes' }, '<li></li>', '<li>None</li>')).toBe(
+        '{{#each dishes as |dish|}}\n<li></li>\n{{else}}\n<li>None</li>\n{{/each}}'
+      );
+    });
+
+    it('references loop metadata through @data variables', async () => {
+      const tree = createTree('DishList', [
+        annotate(
+          element('div', {}, [
+            annotate(element('div', {}, [text(', ')]), { condition: { expression: '!isLast' }, unwrap: true }),
+            annotate(element('span', {}, []), { variable: { name: 'total' }, unwrap: true }),
+            annotate(
+              element('div', {}, [
+                annotate(element('div', {}, [text('*')]), { condition: { expression: 'isFirst' }, unwrap: true }),
+              ]),
+              { loop: { item: 'tag', collection: 'dish.tags' }, unwrap: true }
+            ),
+          ]),
+          { loop: { item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, unwrap: true }
+        ),
+      ]);
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('{{#unless @last}}\n, \n{{/unless}}');
+      expect(output.content).toContain('{{../dishes.length}}');
+      expect(output.content).toContain('{{#each dish.tags as |tag|}}\n{{#if @../first}}');
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders length checks as truthiness', () => {
+      expect(plugin.renderCondition({ expression: 'items.length > 0' }, 'A')).toBe('{{#if items.length}}\nA\n{{/if}}');
+      expect(plugin.renderCondition({ expression: 'items.length === 0' }, 'A')).toBe(
+        '{{#unless items.length}}\nA\n{{/unless}}'
+      );
+      expect(plugin.renderCondition({ expression: 'items.length === 0', isElseIf: true }, 'A')).toBe(
+        '{{else unless items.length}}\nA'
+      );
+    });
+
+    it('renders comparisons and logic as helper subexpressions', () => {
+      expect(plugin.renderCondition({ expression: "status === 'ready'" }, 'A')).toBe(
+        "{{#if (eq status 'ready')}}\nA\n{{/if}}"
+      );
+      expect(plugin.renderCondition({ expression: '!isHidden && (total >= 2 || items.length !== 1)', isElseIf: true }, 'A')).toBe(
+        '{{else if (and (not isHidden) (or (gte total 2) (ne items.length 1)))}}\nA'
+      );
+      expect(plugin.renderElse("@index < 3")).toBe('{{else if (lt @index 3)}}');
+    });
+  });
+
+  describe('renderSwitch', () => {
+    it('renders an eq helper chain', () => {
+      const result = plugin.renderSwitch({ on: 'item.availability' }, [
+        { case: { value: 'available' }, content: 'A' },
+        { case: { value: 2 }, content: 'B' },
+        { case: { isDefault: true }, content: 'D' },
+      ]);
+
+      expect(result).toBe(
+        "{{#if (eq item.availability 'available')}}\nA\n{{else if (eq item.availability 2)}}\nB\n{{else}}\nD\n{{/if}}"
+      );
+    });
+  });
+
+  describe('generateCompanionFiles', () => {
+    const templates = () => [
+      {
+        path: 'blocks/menu/menu-page-view.hbs',
+        tree: createTree('MenuPageView', [
+          annotate(element('span'), { variable: { name: 'item.price', filter: 'currency' } }),
+          annotate(element('span'), { variable: { name: 'item.title', default: 'Dish' } }),
+          annotate(element('span'), { variable: { name: 'item.tags', filter: 'slugify' } }),
+          annotate(element('div'), { include: { partial: 'partials/menu-card', originalName: 'MenuCard' } }),
+          annotate(element('div'), { include: { partial: 'partials/block', originalName: 'Block' } }),
+        ]),
+      },
+      {
+        path: 'partials/menu-card.hbs',
+        tree: createTree('MenuCard', [
+          annotate(element('h3'), { variable: { name: 'title', filter: 'uppercase' } }),
+        ]),
+      },
+    ];
+
+    it('emits helpers for every filter the templates use', () => {
+      const [helpers] = plugin.generateCompanionFiles(templates());
+
+      expect(helpers.filename).toBe('helpers.ts');
+      expect(helpers.dependencies).toEqual(['currency', 'default', 'slugify', 'uppercase']);
+      expect(helpers.content).toContain("import Handlebars from 'handlebars';");
+      expect(helpers.content).toMatch(/^  default: valueHelper\(/m);
+      expect(helpers.content).toMatch(/^  formatCurrency: valueHelper\(/m);
+      expect(helpers.content).toMatch(/^  uppercase: valueHelper\(/m);
+      expect(helpers.content).not.toContain('truncate');
+      expect(helpers.content).toContain('export function registerHelpers(hbs: typeof Handlebars = Handlebars): void {');
+      expect(helpers.warnings).toEqual(['No helper implementation for filter "slugify"; register "slugify" manually']);
+    });
+
+    it('registers included partials and lists the ones without a template', () => {
+      const [, partials] = plugin.generateCompanionFiles(templates());
+
+      expect(partials.filename).toBe('register-partials.ts');
+      expect(partials.content).toContain(
+        "export const partials: Record<string, string> = {\n  'partials/menu-card': 'partials/menu-card.hbs',\n};"
+      );
+      expect(partials.content).toContain("export const externalPartials: string[] = [\n  'partials/block',\n];");
+      expect(partials.content).toContain('hbs.registerPartial(name, readFileSync(join(templatesDir, path), \'utf-8\'));');
+      expect(partials.warnings?.[0]).toContain('partials/block');
+    });
+
+    it('emits the eq helper for templates with a switch', () => {
+      const [helpers] = plugin.generateCompanionFiles([
+        {
+          path: 'blocks/promo.hbs',
+          tree: createTree('Promo', [annotate(element('div'), { switch: { on: 'discount.type' }, unwrap: true })]),
+        },
+      ]);
+
+      expect(helpers.content).toContain('  eq: (left: unknown, right: unknown) => left === right,');
+    });
+
+    it('emits the helpers that If/ElseIf comparisons call', () => {
+      const [helpers] = plugin.generateCompanionFiles([
+        {
+          path: 'blocks/order.hbs',
+          tree: createTree('Order', [
+            annotate(element('p'), { condition: { expression: "status === 'ready' && !paid" } }),
+            annotate(element('p'), { condition: { expression: 'items.length > 0' } }),
+          ]),
+        },
+      ]);
+
+      expect(helpers.content).toContain('  and: (...args: unknown[]) => args.slice(0, -1).every(Boolean),');
+      expect(helpers.content).toContain('  eq: (left: unknown, right: unknown) => left === right,');
+      expect(helpers.content).toContain('  not: (value: unknown) => !value,');
+      expect(helpers.content).not.toContain('  gt:');
+    });
+
+    it('emits empty registries for templates without filters or includes', () => {
+      const [helpers, partials] = plugin.generateCompanionFiles([
+        { path: 'blocks/hero.hbs', tree: createTree('Hero', [element('p')]) },
+      ]);
+
+      expect(helpers.content).toContain('export const helpers: Record<string, Handlebars.HelperDelegate> = {};');
+      expect(helpers.warnings).toBeUndefined();
+      expect(partials.content).toContain('export const partials: Record<string, string> = {};');
+      expect(partials.warnings).toBeUndefined();
+    });
+  });
+});
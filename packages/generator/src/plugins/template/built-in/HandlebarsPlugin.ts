@@ -4,6 +4,9 @@
  * Transforms GenHAST trees into Handlebars templates.
  * Handlebars is commonly used with Express.js and static site generators.
  *
+ * Alongside the templates, `generateCompanionFiles` emits `helpers.ts` and
+ * `register-partials.ts` for the filters and partials the set uses.
+ *
  * @see https://handlebarsjs.com/
  */
 
@@ -12,15 +15,46 @@ import type {
   TemplatePluginFeatures,
   FilterDefinition,
   StandardFilter,
+  GeneratedTemplate,
+  SwitchBranch,
+  LoopMeta,
 } from '../ITemplatePlugin';
 import type {
   GenLoop,
   GenCondition,
+  GenSwitch,
   GenVariable,
   GenSlot,
   GenInclude,
   GenBlock,
+  TemplateOutput,
+  GenRoot,
 } from '../../../hast';
+import { collectFilters, getAnnotations, isElement, visit } from '../../../hast';
+import { toComponentName } from './component-script';
+import { HELPER_SOURCES, buildHelpersModule, buildPartialsModule } from './handlebars-companion';
+
+/**
+ * Helpers (see `handlebars-companion.ts`) for JS comparison operators in conditions
+ */
+const COMPARISON_HELPERS: Record<string, string> = {
+  '===': 'eq',
+  '==': 'eq',
+  '!==': 'ne',
+  '!=': 'ne',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+/** Helpers a condition subexpression can call */
+const CONDITION_HELPERS = new Set([...Object.values(COMPARISON_HELPERS), 'and', 'or', 'not']);
+
+const TOKEN_PATTERN =
+  /\s*(?:('(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*")|(-?\d+(?:\.\d+)?)|(@?(?:\.\.\/)*[A-Za-z_$][\w$]*(?:[./][A-Za-z_$][\w$]*)*)|(===|!==|==|!=|>=|<=|&&|\|\||[!<>()]))/y;
+
+type HandlebarsExprNode = { kind: 'operand'; value: string } | { kind: 'call'; helper: string; args: HandlebarsExprNode[] };
 
 // =============================================================================
 // HandlebarsPlugin Implementation
@@ -63,8 +97,8 @@ export class HandlebarsPlugin extends BasePlugin {
       ['lowercase', { name: 'lowercase' }],
       ['capitalize', { name: 'capitalize' }],
       ['trim', { name: 'trim' }],
-      ['date', { name: 'formatDate', formatArgs: (args) => `"${args[0] || 'YYYY-MM-DD'}"` }],
-      ['currency', { name: 'formatCurrency' }],
+      ['date', { name: 'formatDate', formatArgs: (args) => `"${args[0] || 'yyyy-MM-dd'}"` }],
+      ['currency', { name: 'formatCurrency', formatArgs: (args) => `"${args[0] || 'USD'}"` }],
       ['number', { name: 'formatNumber' }],
       ['json', { name: 'json' }],
       ['escape', { name: 'escape' }],
@@ -102,8 +136,10 @@ export class HandlebarsPlugin extends BasePlugin {
    * {{#each items as |item|}}
    *   <div>{{item.name}}</div>
    * {{/each}}
+   *
+   * `<Loop.Empty>` becomes the `{{else}}` branch of `#each`.
    */
-  renderLoop(loop: GenLoop, content: string): string {
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
     const { item, collection, index } = loop;
 
     // Handlebars uses #each with optional block params
@@ -114,41 +150,97 @@ export class HandlebarsPlugin extends BasePlugin {
       eachTag = `{{#each ${collection} as |${item}|}}`;
     }
 
-    return `${eachTag}\n${content}\n{{/each}}`;
+    const emptyBranch = emptyContent !== undefined ? `\n{{else}}\n${emptyContent}` : '';
+
+    return `${eachTag}\n${content}${emptyBranch}\n{{/each}}`;
   }
 
   /**
    * Render conditional construct
    *
+   * A negated path (`!isLast`) becomes `{{#unless}}`.
+   *
    * @example
    * {{#if isActive}}
    *   <span>Active</span>
    * {{/if}}
    */
   renderCondition(condition: GenCondition, content: string): string {
-    const { expression, isElse, isElseIf } = condition;
+    const { isElse, isElseIf } = condition;
+    const expression = toLengthTruthiness(condition.expression);
 
     if (isElse) {
       return `{{else}}\n${content}`;
     }
 
+    const negated = expression.trim().match(/^!\s*([\w$@.\/]+)$/);
+
     if (isElseIf) {
-      return `{{else if ${this.formatExpression(expression)}}}\n${content}`;
+      return negated
+        ? `{{else unless ${negated[1]}}}\n${content}`
+        : `{{else if ${this.formatExpression(expression)}}}\n${content}`;
+    }
+
+    if (negated) {
+      return `{{#unless ${negated[1]}}}\n${content}\n{{/unless}}`;
     }
 
     return `{{#if ${this.formatExpression(expression)}}}\n${content}\n{{/if}}`;
   }
 
+  /**
+   * Loop metadata comes from `#each` data variables; `@../` reaches outer loops.
+   * `#each` changes the context, so the length reads the collection through `../`
+   * unless it starts at an outer block param.
+   *
+   * @example
+   * {{#if @first}}...{{/if}} {{@../last}} {{../items.length}}
+   */
+  protected override formatLoopMeta(loop: GenLoop, meta: LoopMeta, depth: number): string {
+    if (meta !== 'length') return `@${'../'.repeat(depth)}${meta}`;
+
+    const root = loop.collection.split('.')[0];
+    const outerLoops = this.loopStack.slice(0, this.loopStack.indexOf(loop));
+    const fromBlockParam = outerLoops.some((outer) => outer.item === root || outer.index === root);
+    return `${fromBlockParam ? '' : '../'.repeat(depth + 1)}${loop.collection}.length`;
+  }
+
   /**
    * Render else/elseif
    */
   renderElse(condition?: string): string {
     if (condition) {
-      return `{{else if ${this.formatExpression(condition)}}}`;
+      const expression = toLengthTruthiness(condition);
+      const negated = expression.trim().match(/^!\s*([\w$@.\/]+)$/);
+      return negated ? `{{else unless ${negated[1]}}}` : `{{else if ${this.formatExpression(expression)}}}`;
     }
     return '{{else}}';
   }
 
+  /**
+   * Render switch as an `eq` helper chain (Handlebars has no switch)
+   *
+   * @example
+   * {{#if (eq item.availability 'available')}}...{{else if (eq item.availability 'limited')}}...{{else}}...{{/if}}
+   */
+  override renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    const cases = branches.filter((branch) => !branch.case.isDefault);
+    const fallback = branches.find((branch) => branch.case.isDefault);
+    if (cases.length === 0) {
+      return fallback?.content ?? '';
+    }
+
+    const lines = cases.flatMap((branch, index) => [
+      `{{${index === 0 ? '#if' : 'else if'} (eq ${switchAnnotation.on} ${this.formatCaseValue(branch.case.value)})}}`,
+      branch.content,
+    ]);
+    if (fallback) {
+      lines.push('{{else}}', fallback.content);
+    }
+    lines.push('{{/if}}');
+    return lines.join('\n');
+  }
+
   /**
    * Render variable output
    *
@@ -166,9 +258,13 @@ export class HandlebarsPlugin extends BasePlugin {
       const helperName = mapping?.name || filter;
 
       if (defaultValue !== undefined || (filterArgs && filterArgs.length > 0)) {
-        const args = filterArgs ? filterArgs.join(' ') : '';
+        const args = !filterArgs?.length
+          ? ''
+          : mapping?.formatArgs
+            ? mapping.formatArgs(filterArgs)
+            : filterArgs.join(' ');
         const defArg = defaultValue ? `default="${defaultValue}"` : '';
-        return `{{${helperName} ${name} ${args} ${defArg}}}`.replace(/\s+/g, ' ').trim().replace(/}}$/, '}}');
+        return `{{${[helperName, name, args, defArg].filter(Boolean).join(' ')}}}`;
       }
 
       return `{{${helperName} ${name}}}`;
@@ -183,6 +279,16 @@ export class HandlebarsPlugin extends BasePlugin {
     return `{{${name}}}`;
   }
 
+  /**
+   * Render unescaped variable output with triple braces
+   *
+   * @example
+   * {{{post.body}}}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `{${this.renderVariable(variable)}}`;
+  }
+
   /**
    * Render slot placeholder (using partials with context)
    */
@@ -263,6 +369,91 @@ export class HandlebarsPlugin extends BasePlugin {
     return `(${helperName} ${expression})`;
   }
 
+  // ===========================================================================
+  // Companion Files
+  // ===========================================================================
+
+  /**
+   * Emit `helpers.ts` for every filter used by the templates (and the
+   * comparison helpers their conditions and switches call) and
+   * `register-partials.ts` for every `{{> partial}}` they reference.
+   */
+  generateCompanionFiles(templates: GeneratedTemplate[]): TemplateOutput[] {
+    return [this.buildHelpersFile(templates), this.buildPartialsFile(templates)];
+  }
+
+  private buildHelpersFile(templates: GeneratedTemplate[]): TemplateOutput {
+    const filters = [...new Set(templates.flatMap(({ tree }) => collectFilters(tree)))].sort();
+    const helperNames = new Set<string>();
+    const warnings: string[] = [];
+
+    for (const filter of filters) {
+      const helperName = this.filterMappings.get(filter as StandardFilter)?.name ?? filter;
+      if (HELPER_SOURCES[helperName]) {
+        helperNames.add(helperName);
+      } else {
+        warnings.push(`No helper implementation for filter "${filter}"; register "${helperName}" manually`);
+      }
+    }
+    for (const { tree } of templates) {
+      for (const helperName of collectConditionHelpers(tree)) {
+        helperNames.add(helperName);
+      }
+    }
+
+    return {
+      filename: 'helpers.ts',
+      content: buildHelpersModule([...helperNames].sort()),
+      variables: [],
+      dependencies: filters,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  private buildPartialsFile(templates: GeneratedTemplate[]): TemplateOutput {
+    const templatePaths = new Map<string, string>();
+    for (const { path, tree } of templates) {
+      const componentName = tree.meta?.componentName;
+      if (componentName && !templatePaths.has(componentName)) {
+        templatePaths.set(componentName, path);
+      }
+    }
+
+    const partials: Record<string, string> = {};
+    const external = new Set<string>();
+    for (const { tree } of templates) {
+      visit(tree, (node) => {
+        if (!isElement(node)) return;
+        const include = getAnnotations(node)?.include;
+        if (!include) return;
+
+        const partialName = include.partial.replace(/\.hbs$/, '');
+        const path = templatePaths.get(include.originalName ?? toComponentName(include.partial));
+        if (path) {
+          partials[partialName] = path;
+        } else {
+          external.add(partialName);
+        }
+      });
+    }
+
+    const registered = Object.keys(partials).sort();
+    const externalNames = [...external].sort();
+
+    return {
+      filename: 'register-partials.ts',
+      content: buildPartialsModule(
+        Object.fromEntries(registered.map((name) => [name, partials[name]])),
+        externalNames
+      ),
+      variables: [],
+      dependencies: [...registered, ...externalNames],
+      warnings: externalNames.length > 0
+        ? [`${externalNames.length} referenced partial(s) have no generated template: ${externalNames.join(', ')}`]
+        : undefined,
+    };
+  }
+
   // ===========================================================================
   // Validation
   // ===========================================================================
@@ -297,14 +488,123 @@ export class HandlebarsPlugin extends BasePlugin {
   // ===========================================================================
 
   /**
-   * Format expression for Handlebars
+   * Format expression for Handlebars. Handlebars has no operators, so
+   * comparisons and logic become helper subexpressions.
+   *
+   * @example
+   * status === 'ready'      -> (eq status 'ready')
+   * !isLast && total > 1    -> (and (not isLast) (gt total 1))
    */
   protected override formatExpression(expr: string): string {
-    // Handlebars conditions are simpler - just the variable
-    // Complex expressions need subexpressions
-    return expr
-      .replace(/\s*===?\s*/g, ' ')
-      .replace(/\s*!==?\s*/g, ' ')
-      .trim();
+    const node = parseConditionExpression(expr);
+    if (!node) {
+      this.addWarning(`Unsupported expression for Handlebars: ${expr}`);
+      return expr.trim();
+    }
+    return printConditionExpression(node);
+  }
+}
+
+/**
+ * Length checks as truthiness, so the common case needs no helper
+ * (`items.length > 0` -> `items.length`, `items.length === 0` -> `!items.length`)
+ */
+function toLengthTruthiness(expr: string): string {
+  return expr
+    .replace(/^\s*([\w$@.\/]+\.length)\s*(?:>|!==?)\s*0\s*$/, '$1')
+    .replace(/^\s*([\w$@.\/]+\.length)\s*===?\s*0\s*$/, '!$1');
+}
+
+/**
+ * Parse a JS condition into helper calls; undefined when it uses other syntax
+ */
+function parseConditionExpression(expr: string): HandlebarsExprNode | undefined {
+  const tokens: string[] = [];
+  const source = expr.trim();
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) return undefined;
+    tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
   }
+
+  let position = 0;
+  const peek = (): string | undefined => tokens[position];
+  const next = (): string | undefined => tokens[position++];
+
+  const parseLogical = (operator: string, helper: string, parseOperand: () => HandlebarsExprNode): HandlebarsExprNode => {
+    const args = [parseOperand()];
+    while (peek() === operator) {
+      next();
+      args.push(parseOperand());
+    }
+    return args.length === 1 ? args[0] : { kind: 'call', helper, args };
+  };
+  const parseOr = (): HandlebarsExprNode => parseLogical('||', 'or', parseAnd);
+  const parseAnd = (): HandlebarsExprNode => parseLogical('&&', 'and', parseComparison);
+
+  const parseComparison = (): HandlebarsExprNode => {
+    const left = parseUnary();
+    const operator = peek();
+    if (operator && COMPARISON_HELPERS[operator]) {
+      next();
+      return { kind: 'call', helper: COMPARISON_HELPERS[operator], args: [left, parseUnary()] };
+    }
+    return left;
+  };
+
+  const parseUnary = (): HandlebarsExprNode => {
+    if (peek() === '!') {
+      next();
+      return { kind: 'call', helper: 'not', args: [parseUnary()] };
+    }
+    const token = next();
+    if (token === '(') {
+      const inner = parseOr();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return inner;
+    }
+    if (token === undefined || /^(?:[<>!()]|[=!]=|[|&])/.test(token)) {
+      throw new Error(`Unexpected token "${token ?? 'end of expression'}"`);
+    }
+    return { kind: 'operand', value: token };
+  };
+
+  try {
+    const node = parseOr();
+    return position === tokens.length ? node : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function printConditionExpression(node: HandlebarsExprNode): string {
+  if (node.kind === 'operand') return node.value;
+  return `(${node.helper} ${node.args.map(printConditionExpression).join(' ')})`;
+}
+
+/**
+ * Condition helpers (`eq`, `gt`, `and`, ...) a tree needs, switches included
+ */
+function collectConditionHelpers(tree: GenRoot): string[] {
+  const helpers = new Set<string>();
+  const collect = (node: HandlebarsExprNode | undefined): void => {
+    if (node?.kind !== 'call') return;
+    if (CONDITION_HELPERS.has(node.helper)) helpers.add(node.helper);
+    node.args.forEach(collect);
+  };
+
+  visit(tree, (node) => {
+    if (!isElement(node)) return;
+    const annotations = getAnnotations(node);
+    if (annotations?.switch) {
+      helpers.add('eq');
+    }
+    const expression = annotations?.condition?.expression;
+    if (expression) {
+      collect(parseConditionExpression(toLengthTruthiness(expression)));
+    }
+  });
+  return [...helpers];
 }
+
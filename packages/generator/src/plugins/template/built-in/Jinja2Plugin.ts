@@ -0,0 +1,99 @@
+/**
+ * Jinja2Plugin - Template Plugin for Jinja2 Template Engine
+ *
+ * Transforms GenHAST trees into Jinja2 templates.
+ * Jinja2 is the default template engine for Flask and is used by Django and Ansible.
+ * The syntax is shared with Nunjucks, so only the differences are overridden here.
+ *
+ * @see https://jinja.palletsprojects.com/en/stable/templates/
+ */
+
+import { NunjucksPlugin } from './NunjucksPlugin';
+import { toStrftime } from './date-pattern';
+import type { SwitchBranch, TemplateRuntime } from '../ITemplatePlugin';
+import type { GenInclude, GenSwitch } from '../../../hast';
+
+// =============================================================================
+// Jinja2Plugin Implementation
+// =============================================================================
+
+export class Jinja2Plugin extends NunjucksPlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  override readonly name: string = 'jinja2';
+  override readonly version: string = '1.0.0';
+  override readonly runtime: TemplateRuntime = 'python';
+  override readonly fileExtension: string = '.jinja';
+  override readonly description: string = 'Jinja2 template engine plugin for Flask and Python applications';
+
+  // ===========================================================================
+  // Filter Mappings
+  // ===========================================================================
+
+  protected override initializeFilterMappings(): void {
+    super.initializeFilterMappings();
+
+    // Jinja2 serializes with tojson instead of Nunjucks' dump
+    this.filterMappings.set('json', { name: 'tojson' });
+    // Python date filters take strftime formats, not Moment tokens
+    this.filterMappings.set('date', {
+      name: 'date',
+      formatArgs: (args) => `"${args[0] || '%Y-%m-%d'}"`,
+      translateArgs: (args) => args.map(toStrftime),
+    });
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render include/partial
+   *
+   * Jinja2 scopes include props with a `{% with %}` block.
+   *
+   * @example
+   * {% include "partials/header.jinja" %}
+   * {% with title = cardTitle %}{% include "partials/card.jinja" %}{% endwith %}
+   */
+  override renderInclude(include: GenInclude, _childrenContent?: string): string {
+    const { partial, props } = include;
+    const includeTag = `{% include "${this.withExtension(partial)}" %}`;
+    const boundProps = this.getBoundProps(props);
+
+    if (boundProps.length === 0) {
+      return includeTag;
+    }
+
+    const assignments = boundProps
+      .map(([key, value]) => `${key} = ${value}`)
+      .join(', ');
+
+    return `{% with ${assignments} %}${includeTag}{% endwith %}`;
+  }
+
+  /**
+   * Render switch
+   *
+   * Jinja2 has no switch tag, so cases become an if/elif chain.
+   *
+   * @example
+   * {% if item.availability == 'available' %}...{% elif item.availability == 'limited' %}...{% else %}...{% endif %}
+   */
+  override renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    return this.renderSwitchAsConditions(switchAnnotation, branches);
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  /**
+   * Jinja2 iterates dict pairs through `.items()`
+   */
+  protected override formatPairCollection(collection: string): string {
+    return `${collection}.items()`;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for LattePlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LattePlugin } from './LattePlugin';
+import type { PlatformMap, TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const WOOCOMMERCE_MAP: PlatformMap = {
+  platform: 'woocommerce',
+  version: 'wc-8',
+  domains: {
+    catalog: {
+      resource: 'product',
+      itemVariable: 'product',
+      collectionVariable: 'products',
+      fields: {
+        title: { to: 'get_name()' },
+        'price.display': { to: 'get_price_html()', filter: 'raw' },
+        badge: { to: "get_meta('badge.label')" },
+        promotionIds: { to: "get_meta('promotion_ids')", skip: true },
+      },
+    },
+    category: {
+      resource: 'product_cat',
+      itemVariable: 'term',
+      collectionVariable: 'product_categories',
+      fields: {
+        title: { to: 'name' },
+      },
+    },
+  },
+};
+
+function createMockContext(platformDomain?: string): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.latte',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+      ...(platformDomain ? { platformMap: WOOCOMMERCE_MAP, platformDomain } : {}),
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('LattePlugin', () => {
+  let plugin: LattePlugin;
+
+  beforeEach(async () => {
+    plugin = new LattePlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('latte');
+      expect(plugin.fileExtension).toBe('.latte');
+      expect(plugin.runtime).toBe('php');
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders canonical paths without a platform map', () => {
+      expect(plugin.renderVariable({ name: 'title', filter: 'uppercase' })).toBe('{$title|upper}');
+      expect(plugin.renderLoop({ item: 'item', collection: 'items' }, '<li></li>')).toBe(
+        '{foreach $items as $item}\n<li></li>\n{/foreach}'
+      );
+    });
+
+    it('translates Var date patterns to PHP date formats', () => {
+      expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ['dd.MM.yy'] })).toBe(
+        '{$post.date|date:"d.m.y"}'
+      );
+    });
+
+    it('renders raw output with noescape', () => {
+      expect(plugin.renderRawVariable({ name: 'body' })).toBe('{$body|noescape}');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('declares loop metadata from $iterator and renders the empty branch as else', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '{foreach $dishes as $dish}\n{var $isFirst = $iterator->first}\n{var $isLast = $iterator->last}\n' +
+          '{var $total = $iterator->count()}\n<li></li>\n{else}\n<li>None</li>\n{/foreach}'
+      );
+    });
+  });
+
+  describe('renderSwitch', () => {
+    it('renders switch/case/default', () => {
+      const result = plugin.renderSwitch({ on: 'item.availability' }, [
+        { case: { value: 'available' }, content: 'A' },
+        { case: { value: 2 }, content: 'B' },
+        { case: { isDefault: true }, content: 'D' },
+      ]);
+
+      expect(result).toBe("{switch $item.availability}\n{case 'available'}\nA\n{case 2}\nB\n{default}\nD\n{/switch}");
+    });
+  });
+
+  describe('Platform Map', () => {
+    it('maps catalog fields to WooCommerce product methods', async () => {
+      await plugin.initialize(createMockContext('catalog'));
+
+      expect(plugin.renderVariable({ name: 'item.title' })).toBe('{$product->get_name()}');
+      expect(plugin.renderVariable({ name: 'item.price.display' })).toBe('{$product->get_price_html()|noescape}');
+      expect(plugin.renderVariable({ name: 'item.badge' })).toBe("{$product->get_meta('badge.label')}");
+      expect(plugin.renderVariable({ name: 'item.promotionIds' })).toBe('');
+    });
+
+    it('maps product_cat terms and loops over the platform collection', async () => {
+      await plugin.initialize(createMockContext('category'));
+
+      expect(plugin.renderVariable({ name: 'category.title' })).toBe('{$term->name}');
+      expect(plugin.renderLoop({ item: 'category', collection: 'categories' }, '<li></li>')).toBe(
+        '{foreach $product_categories as $term}\n<li></li>\n{/foreach}'
+      );
+    });
+  });
+});
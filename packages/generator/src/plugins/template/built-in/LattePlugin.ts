@@ -12,15 +12,18 @@ import type {
   TemplatePluginFeatures,
   FilterDefinition,
   StandardFilter,
+  SwitchBranch,
 } from '../ITemplatePlugin';
 import type {
   GenLoop,
   GenCondition,
+  GenSwitch,
   GenVariable,
   GenSlot,
   GenInclude,
   GenBlock,
 } from '../../../hast';
+import { toPhpDateFormat } from './date-pattern';
 
 // =============================================================================
 // LattePlugin Implementation
@@ -61,7 +64,7 @@ export class LattePlugin extends BasePlugin {
       ['lowercase', { name: 'lower' }],
       ['capitalize', { name: 'capitalize' }],
       ['trim', { name: 'trim' }],
-      ['date', { name: 'date', formatArgs: (args) => `"${args[0] || 'Y-m-d'}"` }],
+      ['date', { name: 'date', formatArgs: (args) => `"${args[0] || 'Y-m-d'}"`, translateArgs: (args) => args.map(toPhpDateFormat) }],
       ['currency', { name: 'number', formatArgs: (args) => `2, ',', ' '` }],
       ['number', { name: 'number' }],
       ['json', { name: 'json' }],
@@ -98,19 +101,27 @@ export class LattePlugin extends BasePlugin {
    * {foreach $items as $item}
    *   <div>{$item.name}</div>
    * {/foreach}
+   *
+   * Loop metadata names are declared from `$iterator`; `<Loop.Empty>` becomes `{else}`.
    */
-  renderLoop(loop: GenLoop, content: string): string {
-    const { item, collection, key, index } = loop;
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, key, index } = this.resolvePlatformLoop(loop);
+    const source = this.getPlatformDomainMapping() ? this.toPhpAccess(collection) : `$${collection}`;
 
     let forTag: string;
 
     if (key) {
-      forTag = `{foreach $${collection} as $${key} => $${item}}`;
+      forTag = `{foreach ${source} as $${key} => $${item}}`;
     } else {
-      forTag = `{foreach $${collection} as $${item}}`;
+      forTag = `{foreach ${source} as $${item}}`;
     }
 
-    return `${forTag}\n${content}\n{/foreach}`;
+    const metaVars = this.getLoopMetaNames(loop)
+      .map(([name, meta]) => `{var $${name} = ${meta === 'length' ? '$iterator->count()' : `$iterator->${meta}`}}\n`)
+      .join('');
+    const emptyBranch = emptyContent !== undefined ? `\n{else}\n${emptyContent}` : '';
+
+    return `${forTag}\n${metaVars}${content}${emptyBranch}\n{/foreach}`;
   }
 
   /**
@@ -145,6 +156,24 @@ export class LattePlugin extends BasePlugin {
     return '{else}';
   }
 
+  /**
+   * Render switch
+   *
+   * @example
+   * {switch $item.availability}
+   * {case 'available'}...
+   * {default}...
+   * {/switch}
+   */
+  override renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    const lines = [`{switch $${switchAnnotation.on}}`];
+    for (const branch of branches) {
+      lines.push(branch.case.isDefault ? '{default}' : `{case ${this.formatCaseValue(branch.case.value)}}`, branch.content);
+    }
+    lines.push('{/switch}');
+    return lines.join('\n');
+  }
+
   /**
    * Render variable output
    *
@@ -152,11 +181,41 @@ export class LattePlugin extends BasePlugin {
    * {$title}
    * {$title ?? 'Default'}
    * {$title|upper}
+   * {$product->get_price_html()|noescape}
    */
   renderVariable(variable: GenVariable): string {
-    const { name, default: defaultValue, filter, filterArgs } = variable;
+    const expr = this.buildVariableExpression(variable);
+    return expr === undefined ? '' : `{${expr}}`;
+  }
 
-    let expr = `$${name}`;
+  /**
+   * Render unescaped variable output (Latte escapes by default)
+   *
+   * @example
+   * {$body|noescape}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    const expr = this.buildVariableExpression(variable);
+    if (expr === undefined) {
+      return '';
+    }
+    return /\|noescape$/.test(expr) ? `{${expr}}` : `{${this.applyFilter(expr, 'raw')}}`;
+  }
+
+  private buildVariableExpression(variable: GenVariable): string | undefined {
+    const { name, default: defaultValue, filter } = variable;
+    const mapped = this.resolvePlatformVariable(name);
+    if (mapped.skip) {
+      return undefined;
+    }
+
+    // Platform fields are object properties/methods (e.g. WooCommerce WC_Product)
+    let expr = mapped.expression === name ? `$${name}` : this.toPhpAccess(mapped.expression);
+
+    // Platform filter binds to the field, before the fallback
+    if (mapped.filter) {
+      expr = this.applyPlatformFilter(expr, mapped.filter);
+    }
 
     // Apply default using null coalescing
     if (defaultValue !== undefined) {
@@ -165,10 +224,10 @@ export class LattePlugin extends BasePlugin {
 
     // Apply filter
     if (filter) {
-      expr = this.applyFilter(expr, filter, filterArgs);
+      expr = this.applyFilter(expr, filter, this.getVariableFilterArgs(variable));
     }
 
-    return `{${expr}}`;
+    return expr;
   }
 
   /**
@@ -270,6 +329,14 @@ export class LattePlugin extends BasePlugin {
   // Helpers
   // ===========================================================================
 
+  /**
+   * Platform path to PHP object access: `product.get_meta('badge')` →
+   * `$product->get_meta('badge')`. Dots inside call arguments are kept.
+   */
+  protected toPhpAccess(path: string): string {
+    return `$${path.split(/\.(?![^(]*\))/).join('->')}`;
+  }
+
   /**
    * Format expression for Latte (PHP-like)
    */
@@ -94,6 +94,19 @@ describe('LiquidPlugin', () => {
         '{% for item in items %}\n  <li>{{ item.title }}</li>\n{% endfor %}'
       );
     });
+
+    it('assigns loop metadata from forloop and renders the empty branch as else', () => {
+      const result = plugin.renderLoop(
+        { item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' },
+        '<li>{{ dish.title }}</li>',
+        '<li>No dishes</li>'
+      );
+
+      expect(result).toBe(
+        '{% for dish in dishes %}\n{% assign isFirst = forloop.first %}\n{% assign isLast = forloop.last %}\n' +
+          '{% assign total = forloop.length %}\n<li>{{ dish.title }}</li>\n{% else %}\n<li>No dishes</li>\n{% endfor %}'
+      );
+    });
   });
 
   describe('renderCondition', () => {
@@ -134,6 +147,11 @@ describe('LiquidPlugin', () => {
       expect(result).toContain('{% if not isHidden %}');
     });
 
+    it('reads length as size', () => {
+      expect(plugin.renderCondition({ expression: 'items.length > 0' }, 'A')).toContain('{% if items.size > 0 %}');
+      expect(plugin.renderCondition({ expression: 'item.tags.length === 0' }, 'A')).toContain('{% if item.tags.size == 0 %}');
+    });
+
     it('renders else branch', () => {
       const result = plugin.renderCondition(
         { expression: '', isElse: true },
@@ -158,7 +176,7 @@ describe('LiquidPlugin', () => {
     it('renders simple variable', () => {
       const result = plugin.renderVariable({ name: 'title' });
 
-      expect(result).toBe('{{ title }}');
+      expect(result).toBe('{{ title | escape }}');
     });
 
     it('renders variable with default', () => {
@@ -167,7 +185,7 @@ describe('LiquidPlugin', () => {
         default: 'Untitled',
       });
 
-      expect(result).toBe('{{ title | default: "Untitled" }}');
+      expect(result).toBe('{{ title | default: "Untitled" | escape }}');
     });
 
     it('renders variable with filter', () => {
@@ -176,7 +194,13 @@ describe('LiquidPlugin', () => {
         filter: 'uppercase',
       });
 
-      expect(result).toBe('{{ name | upcase }}');
+      expect(result).toBe('{{ name | upcase | escape }}');
+    });
+
+    it('leaves raw and already escaped output unescaped', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('{{ post.body }}');
+      expect(plugin.renderVariable({ name: 'post.body', filter: 'raw' })).toBe('{{ post.body | raw }}');
+      expect(plugin.renderVariable({ name: 'note', filter: 'escape' })).toBe('{{ note | escape }}');
     });
 
     it('renders variable with default and filter', () => {
@@ -258,6 +282,20 @@ describe('LiquidPlugin', () => {
     });
   });
 
+  describe('renderSwitch', () => {
+    it('renders case/when with else for the default branch', () => {
+      const result = plugin.renderSwitch({ on: 'item.availability' }, [
+        { case: { value: 'available' }, content: 'A' },
+        { case: { value: 2 }, content: 'B' },
+        { case: { isDefault: true }, content: 'D' },
+      ]);
+
+      expect(result).toBe(
+        "{% case item.availability %}\n{% when 'available' %}\nA\n{% when 2 %}\nB\n{% else %}\nD\n{% endcase %}"
+      );
+    });
+  });
+
   describe('Filter Mappings', () => {
     it('maps uppercase to upcase', () => {
       const filter = plugin.getFilter('uppercase');
@@ -279,6 +317,18 @@ describe('LiquidPlugin', () => {
       expect(result).toContain('join');
       expect(result).toContain('-');
     });
+
+    it('translates Var format arguments to Liquid filters', () => {
+      expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ['d MMMM yyyy, HH:mm'] })).toBe(
+        '{{ post.date | date: "%-d %B %Y, %H:%M" | escape }}'
+      );
+      expect(plugin.renderVariable({ name: 'rating', filter: 'number', filterArgs: ['1'] })).toBe(
+        '{{ rating | round: 1 | escape }}'
+      );
+      expect(plugin.renderVariable({ name: 'price', filter: 'currency', filterArgs: ['EUR'] })).toBe(
+        '{{ price | money | escape }}'
+      );
+    });
   });
 
   describe('transform', () => {
@@ -338,7 +388,7 @@ describe('LiquidPlugin', () => {
 
       const output = await plugin.transform(tree);
 
-      expect(output.content).toContain('{{ userName | default: "Guest" }}');
+      expect(output.content).toContain('{{ userName | default: "Guest" | escape }}');
       expect(output.variables).toContain('userName');
     });
 
@@ -410,4 +460,97 @@ describe('LiquidPlugin', () => {
       expect(result).not.toContain('disabled');
     });
   });
+
+  describe('Shopify sections', () => {
+    function heroTree(): GenRoot {
+      return root([
+        annotate(
+          element('section', {}, [
+            annotate(element('h1', {}, [annotate(element('span'), { variable: { name: 'title' } })]), {
+              condition: { expression: 'title' },
+            }),
+            element('a', { href: { __expression: 'ctaUrl' } } as any, [text('Go')]),
+          ]),
+          {}
+        ),
+      ], {
+        sourceFile: 'HeroBlock.tsx',
+        componentName: 'HeroBlock',
+        exports: ['HeroBlock'],
+        dependencies: [],
+        props: [
+          { name: 'title', type: 'string', required: false },
+          { name: 'ctaUrl', type: 'string', required: false },
+          { name: 'align', type: "'left' | 'center'", required: false, defaultValue: "'center'" },
+          { name: 'children', type: 'React.ReactNode', required: false },
+        ],
+      });
+    }
+
+    async function initializeShopify(): Promise<void> {
+      const context = createMockContext();
+      context.config.platform = 'shopify';
+      context.config.fixtures = { landing: { title: 'Welcome', ctaUrl: '/menu' }, menu: { items: [] } };
+      await plugin.initialize(context);
+    }
+
+    it('emits no companion files for other platforms', async () => {
+      expect(await plugin.generateCompanionFiles([{ path: 'blocks/hero-block.liquid', tree: heroTree() }])).toEqual([]);
+    });
+
+    it('emits a section with a schema derived from props and fixture defaults', async () => {
+      await initializeShopify();
+
+      const [section] = await plugin.generateCompanionFiles([{ path: 'blocks/hero-block.liquid', tree: heroTree() }]);
+      const schema = JSON.parse(section!.content.match(/\{% schema %\}([\s\S]*)\{% endschema %\}/)![1]!);
+
+      expect(section!.filename).toBe('sections/hero-block.liquid');
+      expect(section!.content).toContain('{% if section.settings.title %}');
+      expect(section!.content).toContain('{{ section.settings.title | escape }}');
+      expect(schema.name).toBe('Hero block');
+      expect(schema.presets).toEqual([{ name: 'Hero block' }]);
+      expect(schema.settings).toEqual([
+        { type: 'text', id: 'title', label: 'Title', default: 'Welcome' },
+        { type: 'url', id: 'ctaUrl', label: 'Cta url' },
+        {
+          type: 'select',
+          id: 'align',
+          label: 'Align',
+          options: [
+            { value: 'left', label: 'Left' },
+            { value: 'center', label: 'Center' },
+          ],
+          default: 'center',
+        },
+      ]);
+    });
+
+    it('adds a JSON template for page views and leaves partials alone', async () => {
+      await initializeShopify();
+      const pageTree = heroTree();
+      pageTree.meta!.componentName = 'LandingPageView';
+
+      const outputs = await plugin.generateCompanionFiles([
+        { path: 'blocks/landing/landing-page-view.liquid', tree: pageTree },
+        { path: 'partials/header.liquid', tree: heroTree() },
+      ]);
+
+      expect(outputs.map((output) => output.filename)).toEqual([
+        'sections/landing-page-view.liquid',
+        'templates/page.landing-page-view.json',
+      ]);
+      expect(JSON.parse(outputs[1]!.content)).toEqual({
+        sections: { main: { type: 'landing-page-view' } },
+        order: ['main'],
+      });
+    });
+
+    it('renders regular templates without section settings', async () => {
+      await initializeShopify();
+      await plugin.generateCompanionFiles([{ path: 'blocks/hero-block.liquid', tree: heroTree() }]);
+
+      const output = await plugin.transform(heroTree());
+      expect(output.content).toContain('{{ title | escape }}');
+    });
+  });
 });
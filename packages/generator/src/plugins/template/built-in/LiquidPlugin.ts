@@ -4,24 +4,44 @@
  * Transforms GenHAST trees into Liquid templates.
  * Liquid is commonly used with Jekyll, Shopify, and Eleventy.
  *
+ * With `platform: shopify`, `generateCompanionFiles` also emits an Online
+ * Store 2.0 layout: `sections/*.liquid` with a `{% schema %}` per block and
+ * `templates/page.*.json` for page views.
+ *
  * @see https://liquidjs.com/
  * @see https://shopify.github.io/liquid/
  */
 
+import { basename } from 'node:path';
 import { BasePlugin } from '../BasePlugin';
 import type {
   TemplatePluginFeatures,
   FilterDefinition,
+  GeneratedTemplate,
   StandardFilter,
+  SwitchBranch,
 } from '../ITemplatePlugin';
+import {
+  buildSectionFile,
+  buildSectionSchema,
+  buildTemplateJson,
+  deriveSectionSettings,
+  findFixtureDefaults,
+} from './shopify-sections';
 import type {
+  TemplateOutput,
   GenLoop,
   GenCondition,
+  GenSwitch,
   GenVariable,
   GenSlot,
   GenInclude,
   GenBlock,
 } from '../../../hast';
+import { toStrftime } from './date-pattern';
+
+/** Output whose last filter already decides escaping */
+const OUTPUT_FILTER_PATTERN = /\|\s*(?:escape|escape_once|raw)\s*$/;
 
 // =============================================================================
 // LiquidPlugin Implementation
@@ -52,6 +72,9 @@ export class LiquidPlugin extends BasePlugin {
     supportsComments: true,
   };
 
+  /** Setting ids of the section being rendered; these read from `section.settings` */
+  private sectionSettings?: Set<string>;
+
   // ===========================================================================
   // Filter Mappings
   // ===========================================================================
@@ -62,9 +85,9 @@ export class LiquidPlugin extends BasePlugin {
       ['lowercase', { name: 'downcase' }],
       ['capitalize', { name: 'capitalize' }],
       ['trim', { name: 'strip' }],
-      ['date', { name: 'date', formatArgs: (args) => `"${args[0] || '%Y-%m-%d'}"` }],
+      ['date', { name: 'date', formatArgs: (args) => `"${args[0] || '%Y-%m-%d'}"`, translateArgs: (args) => args.map(toStrftime) }],
       ['currency', { name: 'money' }],
-      ['number', { name: 'round' }],
+      ['number', { name: 'round', formatArgs: (args) => args[0] }],
       ['json', { name: 'json' }],
       ['escape', { name: 'escape' }],
       ['raw', { name: 'raw' }],
@@ -92,12 +115,17 @@ export class LiquidPlugin extends BasePlugin {
   /**
    * Render loop construct
    *
+   * Loop metadata names are assigned from `forloop`; `<Loop.Empty>` becomes `{% else %}`.
+   *
    * @example
    * {% for item in items %}
+   *   {% assign isLast = forloop.last %}
    *   <div>{{ item.name }}</div>
+   * {% else %}
+   *   <p>No items</p>
    * {% endfor %}
    */
-  renderLoop(loop: GenLoop, content: string): string {
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
     const resolvedLoop = this.resolvePlatformLoop(loop);
     const { item, collection, key } = resolvedLoop;
 
@@ -108,7 +136,12 @@ export class LiquidPlugin extends BasePlugin {
       forTag = `{% for ${item} in ${collection} %}`;
     }
 
-    return `${forTag}\n${content}\n{% endfor %}`;
+    const metaAssigns = this.getLoopMetaNames(loop)
+      .map(([name, meta]) => `{% assign ${name} = forloop.${meta} %}\n`)
+      .join('');
+    const emptyBranch = emptyContent !== undefined ? `\n{% else %}\n${emptyContent}` : '';
+
+    return `${forTag}\n${metaAssigns}${content}${emptyBranch}\n{% endfor %}`;
   }
 
   /**
@@ -144,18 +177,58 @@ export class LiquidPlugin extends BasePlugin {
   }
 
   /**
-   * Render variable output
+   * Render switch
+   *
+   * @example
+   * {% case item.availability %}
+   * {% when 'available' %}...
+   * {% else %}...
+   * {% endcase %}
+   */
+  override renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    const lines = [`{% case ${this.formatExpression(switchAnnotation.on)} %}`];
+    for (const branch of branches) {
+      lines.push(branch.case.isDefault ? '{% else %}' : `{% when ${this.formatCaseValue(branch.case.value)} %}`, branch.content);
+    }
+    lines.push('{% endcase %}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Render variable output. Liquid does not escape output, so it ends with
+   * `| escape` unless the filter already decides (`escape`, `raw`).
    *
    * @example
-   * {{ title | default: "Untitled" }}
-   * {{ price | money }}
+   * {{ title | default: "Untitled" | escape }}
+   * {{ price | money | escape }}
    */
   renderVariable(variable: GenVariable): string {
-    const { name, default: defaultValue, filter, filterArgs } = variable;
-    const mapped = this.resolvePlatformVariable(name);
-    if (mapped.skip) {
+    const expr = this.buildVariableExpression(variable);
+    if (expr === undefined) {
       return '';
     }
+    return OUTPUT_FILTER_PATTERN.test(expr) ? `{{ ${expr} }}` : `{{ ${expr} | escape }}`;
+  }
+
+  /**
+   * Render unescaped variable output
+   *
+   * @example
+   * {{ post.body }}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    const expr = this.buildVariableExpression(variable);
+    return expr === undefined ? '' : `{{ ${expr} }}`;
+  }
+
+  private buildVariableExpression(variable: GenVariable): string | undefined {
+    const { name, default: defaultValue, filter } = variable;
+    const mapped = this.sectionSettings?.has(name)
+      ? { expression: `section.settings.${name}`, filter: undefined, skip: false }
+      : this.resolvePlatformVariable(name);
+    if (mapped.skip) {
+      return undefined;
+    }
 
     let expr = mapped.expression;
 
@@ -165,16 +238,15 @@ export class LiquidPlugin extends BasePlugin {
     }
 
     if (mapped.filter) {
-      const [mappedFilter, ...mappedArgs] = mapped.filter.split(':').map((part) => part.trim());
-      expr = this.applyFilter(expr, mappedFilter, mappedArgs.length > 0 ? mappedArgs : undefined);
+      expr = this.applyPlatformFilter(expr, mapped.filter);
     }
 
     // Apply filter
     if (filter) {
-      expr = this.applyFilter(expr, filter, filterArgs);
+      expr = this.applyFilter(expr, filter, this.getVariableFilterArgs(variable));
     }
 
-    return `{{ ${expr} }}`;
+    return expr;
   }
 
   /**
@@ -214,7 +286,7 @@ export class LiquidPlugin extends BasePlugin {
 
     // Format props
     const propsString = Object.entries(props)
-      .map(([key, value]) => `${key}: ${value}`)
+      .map(([key, value]) => `${key}: ${this.withSectionSettings(value)}`)
       .join(', ');
 
     return `{% include '${partialPath}', ${propsString} %}`;
@@ -267,6 +339,57 @@ export class LiquidPlugin extends BasePlugin {
     return `${expression} | ${filter}`;
   }
 
+  // ===========================================================================
+  // Companion Files
+  // ===========================================================================
+
+  /**
+   * Emit Shopify sections and JSON templates for the generated blocks.
+   * Other platforms have no companion files.
+   */
+  async generateCompanionFiles(templates: GeneratedTemplate[]): Promise<TemplateOutput[]> {
+    const platform = this.config.platform ?? this.config.platformMap?.platform;
+    if (platform !== 'shopify') return [];
+
+    const fixtures = this.config.fixtures ?? {};
+    const outputs: TemplateOutput[] = [];
+
+    for (const { path, tree } of templates) {
+      if (!path.startsWith('blocks/')) continue;
+
+      const componentName = tree.meta?.componentName ?? 'Section';
+      const props = tree.meta?.props ?? [];
+      const defaults = findFixtureDefaults(props.map((prop) => prop.name), fixtures);
+      const settings = deriveSectionSettings(props, defaults);
+
+      this.sectionSettings = new Set(settings.map((setting) => setting.id));
+      let output: TemplateOutput;
+      try {
+        output = await this.transform(tree);
+      } finally {
+        this.sectionSettings = undefined;
+      }
+
+      const sectionType = basename(path, this.fileExtension);
+      outputs.push({
+        ...output,
+        filename: `sections/${sectionType}${this.fileExtension}`,
+        content: buildSectionFile(output.content, buildSectionSchema(componentName, settings)),
+      });
+
+      if (/PageView$/.test(componentName)) {
+        outputs.push({
+          filename: `templates/page.${sectionType}.json`,
+          content: `${JSON.stringify(buildTemplateJson(sectionType), null, 2)}\n`,
+          variables: [],
+          dependencies: [sectionType],
+        });
+      }
+    }
+
+    return outputs;
+  }
+
   // ===========================================================================
   // Validation
   // ===========================================================================
@@ -304,7 +427,7 @@ export class LiquidPlugin extends BasePlugin {
    * Format expression for Liquid (convert JS-style to Liquid-style)
    */
   protected override formatExpression(expr: string): string {
-    return expr
+    const converted = expr
       // Convert && to and
       .replace(/\s*&&\s*/g, ' and ')
       // Convert || to or
@@ -315,8 +438,22 @@ export class LiquidPlugin extends BasePlugin {
       .replace(/===/g, '==')
       // Convert !== to !=
       .replace(/!==/g, '!=')
+      // Arrays and strings expose `size`, not `length`
+      .replace(/(?<=[\w$\]])\.length\b/g, '.size')
       // Keep other expressions as-is
       .trim();
+    return this.withSectionSettings(converted);
+  }
+
+  /**
+   * Read section setting ids from `section.settings` while rendering a section
+   */
+  private withSectionSettings(expr: string): string {
+    const settings = this.sectionSettings;
+    if (!settings || settings.size === 0) return expr;
+    return expr.replace(/(?<![\w.$'"])[A-Za-z_$][\w$]*(?![\w$(])/g, (name) =>
+      settings.has(name) ? `section.settings.${name}` : name
+    );
   }
 
   /**
@@ -0,0 +1,402 @@
+/**
+ * Tests for NunjucksPlugin and Jinja2Plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NunjucksPlugin } from './NunjucksPlugin';
+import { Jinja2Plugin } from './Jinja2Plugin';
+import {
+  root,
+  element,
+  text,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+import { PluginRegistry } from '../PluginRegistry';
+import { registerBuiltInPlugins } from './index';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(fileExtension = '.njk'): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension,
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('NunjucksPlugin', () => {
+  let plugin: NunjucksPlugin;
+
+  beforeEach(async () => {
+    plugin = new NunjucksPlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name', () => {
+      expect(plugin.name).toBe('nunjucks');
+    });
+
+    it('has correct file extension', () => {
+      expect(plugin.fileExtension).toBe('.njk');
+    });
+
+    it('has js runtime', () => {
+      expect(plugin.runtime).toBe('js');
+    });
+
+    it('supports inheritance', () => {
+      expect(plugin.features.supportsInheritance).toBe(true);
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('sets loop metadata from the loop variable and renders the empty branch as else', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '{% for dish in dishes %}\n{% set isFirst = loop.first %}\n{% set isLast = loop.last %}\n' +
+          '{% set total = loop.length %}\n<li></li>\n{% else %}\n<li>None</li>\n{% endfor %}'
+      );
+    });
+
+    it('renders simple for loop', () => {
+      const result = plugin.renderLoop(
+        { item: 'item', collection: 'items' },
+        '  <li>{{ item.title }}</li>'
+      );
+
+      expect(result).toBe(
+        '{% for item in items %}\n  <li>{{ item.title }}</li>\n{% endfor %}'
+      );
+    });
+
+    it('exposes index via loop.index0', () => {
+      const result = plugin.renderLoop(
+        { item: 'item', collection: 'items', index: 'i' },
+        '<li>{{ i }}</li>'
+      );
+
+      expect(result).toContain('{% set i = loop.index0 %}');
+    });
+
+    it('renders key/value iteration', () => {
+      const result = plugin.renderLoop(
+        { item: 'value', collection: 'attrs', key: 'name', index: 'name' },
+        '{{ value }}'
+      );
+
+      expect(result).toContain('{% for name, value in attrs %}');
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders simple if condition', () => {
+      const result = plugin.renderCondition({ expression: 'isActive' }, 'Active');
+
+      expect(result).toBe('{% if isActive %}\nActive\n{% endif %}');
+    });
+
+    it('converts logical operators', () => {
+      const result = plugin.renderCondition(
+        { expression: '!isHidden && (isAdmin || isOwner)' },
+        'Content'
+      );
+
+      expect(result).toContain('{% if not isHidden and (isAdmin or isOwner) %}');
+    });
+
+    it('converts strict equality', () => {
+      const result = plugin.renderCondition(
+        { expression: "status === 'active' && role !== 'guest'" },
+        'Content'
+      );
+
+      expect(result).toContain("{% if status == 'active' and role != 'guest' %}");
+    });
+
+    it('renders elif branch', () => {
+      const result = plugin.renderCondition(
+        { expression: 'isPending', isElseIf: true },
+        'Pending'
+      );
+
+      expect(result).toBe('{% elif isPending %}\nPending');
+    });
+
+    it('renders else branch', () => {
+      expect(plugin.renderElse()).toBe('{% else %}');
+      expect(plugin.renderElse('isPending')).toBe('{% elif isPending %}');
+    });
+  });
+
+  describe('renderSwitch', () => {
+    it('renders switch/case/default', () => {
+      const result = plugin.renderSwitch({ on: 'item.availability' }, [
+        { case: { value: 'available' }, content: 'A' },
+        { case: { value: 2 }, content: 'B' },
+        { case: { isDefault: true }, content: 'D' },
+      ]);
+
+      expect(result).toBe(
+        "{% switch item.availability %}\n{% case 'available' %}\nA\n{% case 2 %}\nB\n{% default %}\nD\n{% endswitch %}"
+      );
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders simple variable', () => {
+      expect(plugin.renderVariable({ name: 'title' })).toBe('{{ title }}');
+    });
+
+    it('renders variable with default', () => {
+      const result = plugin.renderVariable({ name: 'title', default: 'Untitled' });
+
+      expect(result).toBe('{{ title | default("Untitled") }}');
+    });
+
+    it('renders variable with default and filter', () => {
+      const result = plugin.renderVariable({
+        name: 'title',
+        default: 'Untitled',
+        filter: 'uppercase',
+      });
+
+      expect(result).toBe('{{ title | default("Untitled") | upper }}');
+    });
+
+    it('renders filter arguments in call syntax', () => {
+      const result = plugin.renderVariable({
+        name: 'excerpt',
+        filter: 'truncate',
+        filterArgs: ['120'],
+      });
+
+      expect(result).toBe('{{ excerpt | truncate(120) }}');
+    });
+
+    it('translates Var date patterns to Moment formats', () => {
+      expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ["EEE, MMM d 'at' HH:mm"] })).toBe(
+        '{{ post.date | date("ddd, MMM D[ at ]HH:mm") }}'
+      );
+      expect(plugin.renderVariable({ name: 'rating', filter: 'number', filterArgs: ['1'] })).toBe(
+        '{{ rating | float }}'
+      );
+    });
+
+    it('marks raw output safe', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('{{ post.body | safe }}');
+      expect(plugin.renderRawVariable({ name: 'post.body', default: '' })).toBe('{{ post.body | default("") | safe }}');
+    });
+  });
+
+  describe('renderInclude', () => {
+    it('renders simple include', () => {
+      const result = plugin.renderInclude({ partial: 'partials/header' });
+
+      expect(result).toBe('{% include "partials/header.njk" %}');
+    });
+
+    it('binds props with set before include', () => {
+      const result = plugin.renderInclude({
+        partial: 'partials/card',
+        props: { title: 'cardTitle' },
+      });
+
+      expect(result).toBe('{% set title = cardTitle %}{% include "partials/card.njk" %}');
+    });
+
+    it('preserves .njk extension if present', () => {
+      expect(plugin.renderInclude({ partial: 'header.njk' })).toBe('{% include "header.njk" %}');
+    });
+  });
+
+  describe('Inheritance', () => {
+    it('renders extends', () => {
+      expect(plugin.renderExtends('layouts/base')).toBe('{% extends "layouts/base.njk" %}');
+    });
+
+    it('renders block', () => {
+      expect(plugin.renderBlock({ name: 'content' }, '<main></main>')).toBe(
+        '{% block content %}<main></main>{% endblock %}'
+      );
+    });
+
+    it('renders slot as block with default content', () => {
+      expect(plugin.renderSlot({ name: 'header' }, '<h1>Default</h1>')).toBe(
+        '{% block header %}<h1>Default</h1>{% endblock %}'
+      );
+    });
+  });
+
+  describe('Filter Mappings', () => {
+    it('maps json to dump', () => {
+      expect(plugin.getFilter('json')?.name).toBe('dump');
+    });
+
+    it('maps raw to safe', () => {
+      expect(plugin.getFilter('raw')?.name).toBe('safe');
+    });
+  });
+
+  describe('transform', () => {
+    it('transforms tree with loop and variable annotations', async () => {
+      const tree: GenRoot = root([
+        annotate(
+          element('ul', {}, [
+            annotate(element('li', {}, []), { variable: { name: 'item.name' } }),
+          ]),
+          { loop: { item: 'item', collection: 'items' } }
+        ),
+      ], {
+        sourceFile: 'list.tsx',
+        componentName: 'ItemList',
+        exports: ['ItemList'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.filename).toBe('item-list.njk');
+      expect(output.content).toContain('{% for item in items %}');
+      expect(output.content).toContain('{{ item.name }}');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('transforms plain markup', async () => {
+      const tree: GenRoot = root([
+        element('div', { className: ['container'] }, [text('Hello')]),
+      ], {
+        sourceFile: 'hello.tsx',
+        componentName: 'Hello',
+        exports: ['Hello'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('<div class="container">Hello</div>');
+    });
+  });
+
+  describe('validate', () => {
+    it('detects unbalanced block tags', () => {
+      const result = plugin.validate('{% if x %}<div></div>');
+      expect(result.valid).toBe(false);
+    });
+
+    it('accepts whitespace-control tags', () => {
+      const result = plugin.validate('{%- for x in xs -%}{{ x }}{%- endfor -%}');
+      expect(result.valid).toBe(true);
+    });
+  });
+});
+
+describe('Jinja2Plugin', () => {
+  let plugin: Jinja2Plugin;
+
+  beforeEach(async () => {
+    plugin = new Jinja2Plugin();
+    await plugin.initialize(createMockContext('.jinja'));
+  });
+
+  it('has jinja2 identity', () => {
+    expect(plugin.name).toBe('jinja2');
+    expect(plugin.fileExtension).toBe('.jinja');
+    expect(plugin.runtime).toBe('python');
+  });
+
+  it('scopes include props with a with block', () => {
+    const result = plugin.renderInclude({
+      partial: 'partials/card',
+      props: { title: 'cardTitle', image: 'cardImage' },
+    });
+
+    expect(result).toBe(
+      '{% with title = cardTitle, image = cardImage %}{% include "partials/card.jinja" %}{% endwith %}'
+    );
+  });
+
+  it('iterates key/value pairs with items()', () => {
+    const result = plugin.renderLoop(
+      { item: 'value', collection: 'attrs', key: 'name', index: 'name' },
+      '{{ value }}'
+    );
+
+    expect(result).toContain('{% for name, value in attrs.items() %}');
+  });
+
+  it('maps json to tojson', () => {
+    expect(plugin.getFilter('json')?.name).toBe('tojson');
+  });
+
+  it('renders switches as an if/elif chain', () => {
+    const result = plugin.renderSwitch({ on: 'item.availability' }, [
+      { case: { value: 'available' }, content: 'A' },
+      { case: { value: 'limited' }, content: 'L' },
+      { case: { isDefault: true }, content: 'D' },
+    ]);
+
+    expect(result).toBe(
+      "{% if item.availability == 'available' %}\nA{% elif item.availability == 'limited' %}\nL{% else %}\nD\n{% endif %}"
+    );
+  });
+
+  it('translates Var date patterns to strftime formats', () => {
+    expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ['MMM d, yyyy'] })).toBe(
+      '{{ post.date | date("%b %-d, %Y") }}'
+    );
+  });
+
+  it('marks raw output safe', () => {
+    expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('{{ post.body | safe }}');
+  });
+
+  it('tests list sizes with the length filter', () => {
+    expect(plugin.renderCondition({ expression: 'items.length > 0 && !user.tags.length' }, 'x')).toBe(
+      '{% if items | length > 0 and not user.tags | length %}\nx\n{% endif %}'
+    );
+    expect(plugin.renderVariable({ name: 'items.length' })).toBe('{{ items | length }}');
+  });
+
+  it('outputs dynamic attributes as expressions', async () => {
+    const tree: GenRoot = root([
+      element('a', { href: { __expression: 'user.url' } } as any, [text('Profile')]),
+    ], {
+      sourceFile: 'user-link.tsx',
+      componentName: 'UserLink',
+      exports: ['UserLink'],
+      dependencies: [],
+    });
+
+    const output = await plugin.transform(tree);
+
+    expect(output.content).toBe('<a href="{{ user.url }}">Profile</a>');
+  });
+});
+
+describe('Built-in registration', () => {
+  it('registers nunjucks and jinja2 plugins', () => {
+    const registry = new PluginRegistry();
+    registerBuiltInPlugins(registry);
+
+    expect(registry.create('nunjucks')).toBeInstanceOf(NunjucksPlugin);
+    expect(registry.create('jinja2')).toBeInstanceOf(Jinja2Plugin);
+    expect(registry.getByRuntime('python').map((meta) => meta.name)).toEqual(['jinja2']);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * NunjucksPlugin - Template Plugin for Nunjucks Template Engine
+ *
+ * Transforms GenHAST trees into Nunjucks templates.
+ * Nunjucks is Mozilla's Jinja2-inspired engine for Node.js (Eleventy, Express).
+ *
+ * @see https://mozilla.github.io/nunjucks/templating.html
+ */
+
+import { BasePlugin } from '../BasePlugin';
+import type {
+  TemplatePluginFeatures,
+  FilterDefinition,
+  StandardFilter,
+  TemplateRuntime,
+  SwitchBranch,
+} from '../ITemplatePlugin';
+import type {
+  GenLoop,
+  GenCondition,
+  GenSwitch,
+  GenVariable,
+  GenSlot,
+  GenInclude,
+  GenBlock,
+} from '../../../hast';
+import { toMomentFormat } from './date-pattern';
+
+// =============================================================================
+// NunjucksPlugin Implementation
+// =============================================================================
+
+export class NunjucksPlugin extends BasePlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  readonly name: string = 'nunjucks';
+  readonly version: string = '1.0.0';
+  readonly runtime: TemplateRuntime = 'js';
+  readonly fileExtension: string = '.njk';
+  readonly description: string = 'Nunjucks template engine plugin for Eleventy and Express.js';
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  readonly features: TemplatePluginFeatures = {
+    supportsInheritance: true, // extends/block
+    supportsPartials: true, // include
+    supportsFilters: true,
+    supportsMacros: true,
+    supportsAsync: true,
+    supportsRaw: true,
+    supportsComments: true,
+  };
+
+  // ===========================================================================
+  // Filter Mappings
+  // ===========================================================================
+
+  protected override initializeFilterMappings(): void {
+    const mappings: Array<[StandardFilter, FilterDefinition]> = [
+      ['uppercase', { name: 'upper' }],
+      ['lowercase', { name: 'lower' }],
+      ['capitalize', { name: 'capitalize' }],
+      ['trim', { name: 'trim' }],
+      ['date', { name: 'date', formatArgs: (args) => `"${args[0] || 'YYYY-MM-DD'}"`, translateArgs: (args) => args.map(toMomentFormat) }],
+      ['currency', { name: 'currency', formatArgs: (args) => `"${args[0] || 'USD'}"` }],
+      ['number', { name: 'float', translateArgs: () => [] }], // float() takes a fallback, not decimals
+      ['json', { name: 'dump' }],
+      ['escape', { name: 'escape' }],
+      ['raw', { name: 'safe' }],
+      ['default', { name: 'default', formatArgs: (args) => `"${args[0]}"` }],
+      ['first', { name: 'first' }],
+      ['last', { name: 'last' }],
+      ['length', { name: 'length' }],
+      ['join', { name: 'join', formatArgs: (args) => `"${args[0] || ', '}"` }],
+      ['split', { name: 'split', formatArgs: (args) => `"${args[0] || ','}"` }],
+      ['reverse', { name: 'reverse' }],
+      ['sort', { name: 'sort' }],
+      ['slice', { name: 'slice', formatArgs: (args) => args.join(', ') }],
+      ['truncate', { name: 'truncate', formatArgs: (args) => args[0] || '50' }],
+    ];
+
+    for (const [standard, definition] of mappings) {
+      this.filterMappings.set(standard, definition);
+    }
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render loop construct
+   *
+   * Loop metadata names are set from the `loop` variable; `<Loop.Empty>` becomes `{% else %}`.
+   *
+   * @example
+   * {% for item in items %}
+   *   {% set isLast = loop.last %}
+   *   <div>{{ item.name }}</div>
+   * {% else %}
+   *   <p>No items</p>
+   * {% endfor %}
+   */
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, key, index } = loop;
+
+    const forTag = key && index
+      ? `{% for ${key}, ${item} in ${this.formatPairCollection(collection)} %}`
+      : `{% for ${item} in ${collection} %}`;
+
+    // Expose the zero-based index under the name used in the JSX source
+    const indexSet = index && !key ? `{% set ${index} = loop.index0 %}\n` : '';
+    const metaSets = this.getLoopMetaNames(loop)
+      .map(([name, meta]) => `{% set ${name} = loop.${meta} %}\n`)
+      .join('');
+    const emptyBranch = emptyContent !== undefined ? `\n{% else %}\n${emptyContent}` : '';
+
+    return `${forTag}\n${indexSet}${metaSets}${content}${emptyBranch}\n{% endfor %}`;
+  }
+
+  /**
+   * Render conditional construct
+   *
+   * @example
+   * {% if isActive %}
+   *   <span>Active</span>
+   * {% endif %}
+   */
+  renderCondition(condition: GenCondition, content: string): string {
+    const { expression, isElse, isElseIf } = condition;
+
+    if (isElse) {
+      return `{% else %}\n${content}`;
+    }
+
+    if (isElseIf) {
+      return `{% elif ${this.formatExpression(expression)} %}\n${content}`;
+    }
+
+    return `{% if ${this.formatExpression(expression)} %}\n${content}\n{% endif %}`;
+  }
+
+  /**
+   * Render else/elif
+   */
+  renderElse(condition?: string): string {
+    if (condition) {
+      return `{% elif ${this.formatExpression(condition)} %}`;
+    }
+    return '{% else %}';
+  }
+
+  /**
+   * Render switch
+   *
+   * @example
+   * {% switch item.availability %}
+   * {% case 'available' %}...
+   * {% default %}...
+   * {% endswitch %}
+   */
+  override renderSwitch(switchAnnotation: GenSwitch, branches: SwitchBranch[]): string {
+    const lines = [`{% switch ${this.formatExpression(switchAnnotation.on)} %}`];
+    for (const branch of branches) {
+      lines.push(branch.case.isDefault ? '{% default %}' : `{% case ${this.formatCaseValue(branch.case.value)} %}`, branch.content);
+    }
+    lines.push('{% endswitch %}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Render variable output
+   *
+   * @example
+   * {{ title }}
+   * {{ title | default("Default") }}
+   * {{ title | upper }}
+   */
+  renderVariable(variable: GenVariable): string {
+    return `{{ ${this.buildVariableExpression(variable)} }}`;
+  }
+
+  /**
+   * Render unescaped variable output (autoescaping is on by default)
+   *
+   * @example
+   * {{ post.body | safe }}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `{{ ${this.applyFilter(this.buildVariableExpression(variable), 'raw')} }}`;
+  }
+
+  /**
+   * Render slot placeholder (using blocks)
+   */
+  renderSlot(slot: GenSlot, defaultContent: string): string {
+    const { name } = slot;
+    return `{% block ${name} %}${defaultContent}{% endblock %}`;
+  }
+
+  /**
+   * Render include/partial
+   *
+   * Nunjucks includes share the parent context, so props are bound with
+   * `{% set %}` right before the include.
+   *
+   * @example
+   * {% include "partials/header.njk" %}
+   * {% set title = cardTitle %}{% include "partials/card.njk" %}
+   */
+  renderInclude(include: GenInclude, _childrenContent?: string): string {
+    const { partial, props } = include;
+    const includeTag = `{% include "${this.withExtension(partial)}" %}`;
+    const boundProps = this.getBoundProps(props);
+
+    if (boundProps.length === 0) {
+      return includeTag;
+    }
+
+    const assignments = boundProps
+      .map(([key, value]) => `{% set ${key} = ${value} %}`)
+      .join('');
+
+    return `${assignments}${includeTag}`;
+  }
+
+  /**
+   * Render block
+   */
+  renderBlock(block: GenBlock, content: string): string {
+    const { name } = block;
+    return `{% block ${name} %}${content}{% endblock %}`;
+  }
+
+  /**
+   * Render extends
+   */
+  renderExtends(parent: string): string {
+    return `{% extends "${this.withExtension(parent)}" %}`;
+  }
+
+  /**
+   * Render comment
+   */
+  renderComment(comment: string): string {
+    return `{# ${comment} #}`;
+  }
+
+  // ===========================================================================
+  // Filter Application
+  // ===========================================================================
+
+  override applyFilter(expression: string, filter: string, args?: string[]): string {
+    const mapping = this.filterMappings.get(filter as StandardFilter);
+    const filterName = mapping?.name || filter;
+
+    if (args && args.length > 0) {
+      const formattedArgs = mapping?.formatArgs
+        ? mapping.formatArgs(args)
+        : args.join(', ');
+      return `${expression} | ${filterName}(${formattedArgs})`;
+    }
+
+    return `${expression} | ${filterName}`;
+  }
+
+  // ===========================================================================
+  // Validation
+  // ===========================================================================
+
+  override validate(output: string): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+
+    // Check for balanced tags
+    const blockOpens = output.match(/\{%-?\s*(if|for|block|macro|with)\b/g) || [];
+    const blockCloses = output.match(/\{%-?\s*end(if|for|block|macro|with)\s*-?%\}/g) || [];
+
+    if (blockOpens.length !== blockCloses.length) {
+      errors.push(`Unbalanced block tags: ${blockOpens.length} open, ${blockCloses.length} close`);
+    }
+
+    // Check for unclosed output tags
+    const outputOpens = (output.match(/\{\{/g) || []).length;
+    const outputCloses = (output.match(/\}\}/g) || []).length;
+
+    if (outputOpens !== outputCloses) {
+      errors.push(`Unbalanced output tags: ${outputOpens} {{ vs ${outputCloses} }}`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  /**
+   * Append the plugin extension to a template path if missing
+   */
+  protected withExtension(path: string): string {
+    return path.endsWith(this.fileExtension) ? path : `${path}${this.fileExtension}`;
+  }
+
+  /**
+   * Include props that need binding; `title={title}` is already in the shared context
+   */
+  protected getBoundProps(props?: Record<string, string>): Array<[string, string]> {
+    return Object.entries(props ?? {}).filter(([key, value]) => key !== value);
+  }
+
+  /**
+   * Build the variable expression (value | default | filter)
+   */
+  private buildVariableExpression(variable: GenVariable): string {
+    const { name, default: defaultValue, filter } = variable;
+
+    let expr = this.formatExpression(name);
+
+    // Apply default using the default() filter
+    if (defaultValue !== undefined) {
+      expr = this.applyFilter(expr, 'default', [defaultValue]);
+    }
+
+    // Apply filter
+    if (filter) {
+      expr = this.applyFilter(expr, filter, this.getVariableFilterArgs(variable));
+    }
+
+    return expr;
+  }
+
+  /**
+   * Collection expression for key/value iteration
+   */
+  protected formatPairCollection(collection: string): string {
+    return collection;
+  }
+
+  /**
+   * Format expression for Nunjucks
+   */
+  protected override formatExpression(expr: string): string {
+    return expr
+      // Python-style boolean operators
+      .replace(/\s*&&\s*/g, ' and ')
+      .replace(/\s*\|\|\s*/g, ' or ')
+      .replace(/!(?!=)\s*(?=\w)/g, 'not ')
+      // Strict equality is not part of the Jinja grammar
+      .replace(/===/g, '==')
+      .replace(/!==/g, '!=')
+      // Python lists have no `length` attribute; the length filter works in both engines
+      .replace(/(?<=[\w\]])\.length\b/g, ' | length')
+      .trim();
+  }
+}
@@ -156,6 +156,12 @@ describe('ReactPlugin', () => {
       });
       expect(result).toBe('{items.length}');
     });
+
+    it('renders raw variable through dangerouslySetInnerHTML', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe(
+        '<span dangerouslySetInnerHTML={{ __html: post.body }} />'
+      );
+    });
   });
 
   // ===========================================================================
@@ -316,6 +322,34 @@ describe('ReactPlugin', () => {
       expect(result).toContain('(item, i)');
       expect(result).toContain('item.id ?? i');
     });
+
+    it('renders the empty branch after the map', () => {
+      const result = plugin.renderLoop({ item: 'item', collection: 'items' }, '<li />', '<p>None</p>');
+
+      expect(result).toContain('{!items?.length ? (<><p>None</p></>) : null}');
+    });
+
+    it('replaces loop metadata names with index expressions', async () => {
+      const tree: GenRoot = root([
+        annotate(
+          element('div', {}, [
+            annotate(element('div', {}, [text(', ')]), { condition: { expression: '!isLast' }, unwrap: true }),
+            annotate(element('span', {}, []), { variable: { name: 'total' }, unwrap: true }),
+          ]),
+          { loop: { item: 'dish', collection: 'dishes', index: 'i', last: 'isLast', length: 'total' }, unwrap: true }
+        ),
+      ], {
+        sourceFile: 'dish-list.tsx',
+        componentName: 'DishList',
+        exports: ['DishList'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('{!(i === dishes.length - 1) ? (<>, </>) : null}');
+      expect(output.content).toContain('{dishes.length}');
+    });
   });
 
   // ===========================================================================
@@ -474,6 +508,33 @@ describe('ReactPlugin', () => {
   // ===========================================================================
 
   describe('transform', () => {
+    it('sets raw HTML on the element a raw variable fills', async () => {
+      const tree: GenRoot = root(
+        [
+          element('article', {}, [
+            element('div', { className: ['body'] }, [
+              annotate(element('span', {}, []), { variable: { name: 'body' }, raw: true, unwrap: true }),
+            ]),
+            element('p', {}, [
+              text('Note: '),
+              annotate(element('span', {}, []), { variable: { name: 'note' }, raw: true, unwrap: true }),
+            ]),
+          ]),
+        ],
+        {
+          sourceFile: 'notes.tsx',
+          componentName: 'Notes',
+          exports: ['Notes'],
+          dependencies: [],
+        },
+      );
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('<div className="body" dangerouslySetInnerHTML={{ __html: body }} />');
+      expect(output.content).toContain('<span dangerouslySetInnerHTML={{ __html: note }} />');
+    });
+
     it('transforms simple tree', async () => {
       const tree: GenRoot = root(
         [
@@ -646,6 +707,43 @@ describe('ReactPlugin', () => {
       expect(output.content).toContain("import { useState } from 'react';");
       expect(output.content).toContain('export function Comp() {');
     });
+
+    it('imports the runtime formatters used by Var formats', async () => {
+      const tree: GenRoot = root(
+        [
+          element('p', {}, [
+            annotate(element('span', {}, []), {
+              variable: { name: 'post.date', filter: 'date', filterArgs: ['MMM d, yyyy'] },
+              unwrap: true,
+            }),
+            annotate(element('span', {}, []), {
+              variable: { name: 'post.price', filter: 'currency', filterArgs: ['EUR'] },
+              unwrap: true,
+            }),
+          ]),
+        ],
+        {
+          sourceFile: 'PostMeta.tsx',
+          componentName: 'PostMeta',
+          exports: ['PostMeta'],
+          dependencies: [],
+          imports: [{ source: '@ui8kit/core', namedImports: ['Text'], isTypeOnly: false }],
+        },
+      );
+      const configured = new ReactPlugin();
+      const context = createMockContext();
+      await configured.initialize({ ...context, config: { ...context.config, formatModule: '@/lib/format' } });
+
+      const output = await plugin.transform(tree);
+      const configuredOutput = await configured.transform(tree);
+
+      expect(output.content).toContain(
+        "import { Text } from '@ui8kit/core';\nimport { formatCurrency, formatDate } from '@ui8kit/generator/format';"
+      );
+      expect(output.content).toContain('{formatDate(post.date, "MMM d, yyyy")}');
+      expect(output.content).toContain('{formatCurrency(post.price, "EUR")}');
+      expect(configuredOutput.content).toContain("import { formatCurrency, formatDate } from '@/lib/format';");
+    });
   });
 
   // ===========================================================================
@@ -717,5 +815,11 @@ describe('ReactPlugin', () => {
       const result = plugin.applyFilter('value', 'customFilter');
       expect(result).toBe('value.customFilter()');
     });
+
+    it('applies formats through the runtime formatters', () => {
+      expect(plugin.applyFilter('post.date', 'date', ['MMM d, yyyy'])).toBe('formatDate(post.date, "MMM d, yyyy")');
+      expect(plugin.applyFilter('price', 'currency')).toBe('formatCurrency(price)');
+      expect(plugin.applyFilter('excerpt', 'truncate', ['120'])).toBe('truncate(excerpt, 120)');
+    });
   });
 });
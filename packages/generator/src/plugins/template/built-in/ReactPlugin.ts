@@ -21,6 +21,7 @@ import type {
   TemplatePluginFeatures,
   FilterDefinition,
   StandardFilter,
+  LoopMeta,
 } from '../ITemplatePlugin';
 import type {
   GenLoop,
@@ -32,7 +33,13 @@ import type {
   GenElement,
   GenSourceImport,
 } from '../../../hast';
-import { collectVariables, collectDependencies } from '../../../hast';
+import { collectVariables, collectDependencies, getAnnotations, isElement } from '../../../hast';
+import {
+  FORMATTER_FILTERS,
+  buildFormatterImport,
+  formatFormatterCall,
+  formatLoopMetaExpression,
+} from './component-script';
 
 // =============================================================================
 // Branch Markers
@@ -84,9 +91,15 @@ export class ReactPlugin extends BasePlugin {
   // ===========================================================================
 
   protected override initializeFilterMappings(): void {
-    // React doesn't use template filters.
+    // React doesn't use template filters; formats call the runtime formatters
+    for (const [standard, definition] of FORMATTER_FILTERS) {
+      this.filterMappings.set(standard, definition);
+    }
   }
 
+  /** Runtime formatters referenced by the rendered JSX. */
+  private formatters = new Set<string>();
+
   // ===========================================================================
   // Full-File Transformation (imports + export function)
   // ===========================================================================
@@ -98,6 +111,7 @@ export class ReactPlugin extends BasePlugin {
   async transform(tree: import('../../../hast').GenRoot): Promise<import('../../../hast').TemplateOutput> {
     this.warnings = [];
     this.currentDepth = 0;
+    this.formatters = new Set();
 
     const content = await this.transformChildren(tree.children);
     const formattedJsx = this.formatOutput(content);
@@ -110,7 +124,10 @@ export class ReactPlugin extends BasePlugin {
       const rootJsx = needsRootFragment ? `<Fragment>\n${formattedJsx}\n</Fragment>` : formattedJsx;
       const needsFragment = rootJsx.includes('<Fragment') || rootJsx.includes('</Fragment>');
       const importsWithFragment = needsFragment ? this.ensureFragmentImport(imports) : imports;
-      let importBlock = this.emitImportBlock(importsWithFragment);
+      let importBlock = [
+        this.emitImportBlock(importsWithFragment),
+        ...buildFormatterImport(this.formatters, this.config.formatModule),
+      ].join('\n');
       const bodyIndented = rootJsx
         .split('\n')
         .map((line) => (line.trim() ? '    ' + line : ''))
@@ -338,8 +355,11 @@ export class ReactPlugin extends BasePlugin {
    *     <div>{item.name}</div>
    *   </React.Fragment>
    * ))}
+   *
+   * `<Loop.Empty>` renders after the map when the collection is empty:
+   * {!items?.length ? (<><p>No items</p></>) : null}
    */
-  renderLoop(loop: GenLoop, content: string): string {
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
     const { item, collection, key, index: indexVar } = loop;
     const idx = indexVar ?? 'index';
 
@@ -362,10 +382,21 @@ export class ReactPlugin extends BasePlugin {
       '</Fragment>',
       '))}',
     ];
+    if (emptyContent !== undefined) {
+      lines.push(`{!${collection}?.length ? (<>${emptyContent}</>) : null}`);
+    }
 
     return lines.join('\n');
   }
 
+  /**
+   * Loop metadata as expressions over the map index
+   */
+  protected override formatLoopMeta(loop: GenLoop, meta: LoopMeta): string {
+    const collection = loop.collection.includes('.') ? `(${loop.collection} ?? [])` : loop.collection;
+    return formatLoopMetaExpression(meta, loop.index ?? 'index', collection);
+  }
+
   /**
    * Render conditional construct
    *
@@ -412,6 +443,42 @@ export class ReactPlugin extends BasePlugin {
    * {price.toFixed(2)}
    */
   renderVariable(variable: GenVariable): string {
+    return `{${this.buildVariableExpression(variable)}}`;
+  }
+
+  /**
+   * Render unescaped output through dangerouslySetInnerHTML (needs a host
+   * element; a raw Var that is an element's only child uses that element)
+   *
+   * @example
+   * <span dangerouslySetInnerHTML={{ __html: post.body }} />
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `<span dangerouslySetInnerHTML={{ __html: ${this.buildVariableExpression(variable)} }} />`;
+  }
+
+  /**
+   * Override: an element whose only child is a raw Var hosts the HTML itself
+   *
+   * @example
+   * <div className="body" dangerouslySetInnerHTML={{ __html: body }} />
+   */
+  protected override async renderElementContent(element: GenElement): Promise<string> {
+    const annotations = getAnnotations(element);
+    const children = element.children.filter((child) => child.type !== 'text' || child.value.trim() !== '');
+    const rawChild = children.length === 1 && isElement(children[0]) ? getAnnotations(children[0]) : undefined;
+    if (annotations?.variable || annotations?.include || !rawChild?.raw || !rawChild.variable || rawChild.condition || rawChild.loop) {
+      return super.renderElementContent(element);
+    }
+
+    const variable = { ...rawChild.variable, name: this.resolveLoopMeta(rawChild.variable.name) };
+    const attributes = this.getHtmlAttributes(element.properties);
+    const attrString = this.formatAttributes(attributes);
+    const html = `dangerouslySetInnerHTML={{ __html: ${this.buildVariableExpression(variable)} }}`;
+    return `<${element.tagName} ${attrString ? `${attrString} ` : ''}${html} />`;
+  }
+
+  private buildVariableExpression(variable: GenVariable): string {
     const { name, default: defaultValue, filter, filterArgs } = variable;
 
     let expr = name;
@@ -426,7 +493,7 @@ export class ReactPlugin extends BasePlugin {
       expr = this.applyJsFilter(expr, filter, filterArgs);
     }
 
-    return `{${expr}}`;
+    return expr;
   }
 
   /**
@@ -779,6 +846,12 @@ export class ReactPlugin extends BasePlugin {
    * Apply filter as native JS method
    */
   private applyJsFilter(expression: string, filter: string, args?: string[]): string {
+    const formatter = this.filterMappings.get(filter as StandardFilter);
+    if (formatter) {
+      this.formatters.add(formatter.name);
+      return formatFormatterCall(formatter, expression, args);
+    }
+
     const jsFilters: Record<string, (e: string, a?: string[]) => string> = {
       uppercase: (e) => `${e}.toUpperCase()`,
       lowercase: (e) => `${e}.toLowerCase()`,
@@ -793,7 +866,6 @@ export class ReactPlugin extends BasePlugin {
       first: (e) => `${e}[0]`,
       last: (e) => `${e}[${e}.length - 1]`,
       slice: (e, a) => `${e}.slice(${a?.join(', ') ?? '0'})`,
-      truncate: (e, a) => `${e}.substring(0, ${a?.[0] ?? '50'})`,
     };
 
     const transformer = jsFilters[filter];
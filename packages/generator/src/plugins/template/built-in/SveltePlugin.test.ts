@@ -0,0 +1,278 @@
+/**
+ * Tests for SveltePlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SveltePlugin } from './SveltePlugin';
+import {
+  root,
+  element,
+  text,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.svelte',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('SveltePlugin', () => {
+  let plugin: SveltePlugin;
+
+  beforeEach(async () => {
+    plugin = new SveltePlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('svelte');
+      expect(plugin.fileExtension).toBe('.svelte');
+      expect(plugin.runtime).toBe('js');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('adds an index for loop metadata and renders the empty branch as :else', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '{#each dishes as dish, index}\n<li></li>\n{:else}\n<li>None</li>\n{/each}'
+      );
+    });
+
+    it('renders each block', () => {
+      const result = plugin.renderLoop({ item: 'item', collection: 'items' }, '<li>{item.name}</li>');
+
+      expect(result).toBe('{#each items as item}\n<li>{item.name}</li>\n{/each}');
+    });
+
+    it('renders index and explicit key', () => {
+      const result = plugin.renderLoop(
+        { item: 'link', collection: 'navItems', key: 'href', index: 'i' },
+        'x'
+      );
+
+      expect(result).toContain('{#each navItems as link, i (link.href)}');
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders if block', () => {
+      expect(plugin.renderCondition({ expression: 'isActive' }, 'A')).toBe('{#if isActive}\nA\n{/if}');
+    });
+
+    it('renders else if and else tags inside the if block', () => {
+      const elseIf = plugin.renderCondition({ expression: 'isPending', isElseIf: true }, 'P');
+      const elseBranch = plugin.renderCondition({ expression: '', isElse: true }, 'E');
+      const result = plugin.renderCondition({ expression: 'isActive' }, `A${elseIf}${elseBranch}`);
+
+      expect(result).toBe('{#if isActive}\nA{:else if isPending}\nP{:else}\nE\n{/if}');
+      expect(plugin.renderElse()).toBe('{:else}');
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders expression with default and filter', () => {
+      expect(plugin.renderVariable({ name: 'title', default: 'Untitled' })).toBe('{title ?? "Untitled"}');
+      expect(plugin.renderVariable({ name: 'name', filter: 'uppercase' })).toBe('{name.toUpperCase()}');
+    });
+
+    it('renders raw output with @html', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('{@html post.body}');
+    });
+
+    it('renders Var formats with the runtime formatters', () => {
+      expect(plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ['MMM d, yyyy'] })).toBe(
+        '{formatDate(post.date, "MMM d, yyyy")}'
+      );
+    });
+  });
+
+  describe('renderSlot', () => {
+    it('renders default and named slots', () => {
+      expect(plugin.renderSlot({ name: 'children' }, '')).toBe('<slot />');
+      expect(plugin.renderSlot({ name: 'header' }, '<h1>Default</h1>')).toBe(
+        '<slot name="header"><h1>Default</h1></slot>'
+      );
+    });
+  });
+
+  describe('renderInclude', () => {
+    it('renders component with expression and literal props', () => {
+      const result = plugin.renderInclude({
+        partial: 'partials/card',
+        props: { title: 'card.title', mode: '"full"', className: '"px-4"' },
+      });
+
+      expect(result).toBe('<Card title={card.title} mode="full" class="px-4" />');
+    });
+
+    it('keeps spread props and children', () => {
+      const result = plugin.renderInclude(
+        { partial: 'partials/main-layout', originalName: 'MainLayout', props: { __spread_0: 'layoutProps' } },
+        '<p>Body</p>'
+      );
+
+      expect(result).toBe('<MainLayout {...layoutProps}><p>Body</p></MainLayout>');
+    });
+
+    it('unwraps explicit Fragment components', () => {
+      expect(plugin.renderInclude({ partial: 'partials/fragment', originalName: 'Fragment' }, '<main></main>')).toBe(
+        '<main></main>'
+      );
+    });
+  });
+
+  describe('transform', () => {
+    it('emits export let props, component imports and markup', async () => {
+      const tree: GenRoot = root([
+        element('Block', { component: 'section', dataClass: 'menu' }, [
+          annotate(
+            element('article', {}, [
+              annotate(element('span', {}, []), { variable: { name: 'item.title' }, unwrap: true }),
+            ]),
+            { loop: { item: 'item', collection: 'items' } }
+          ),
+          annotate(element('p', {}, [text('Empty')]), { condition: { expression: 'items.length === 0' } }),
+          annotate(element('div', {}, []), {
+            include: { partial: 'partials/header', originalName: 'Header', props: { title: '"Menu"' } },
+          }),
+        ]),
+      ], {
+        sourceFile: 'MenuList.tsx',
+        componentName: 'MenuList',
+        exports: ['MenuList'],
+        dependencies: [],
+        props: [
+          { name: 'items', type: 'MenuItem[]', required: true },
+          { name: 'mode', type: "'full' | 'compact'", required: false, defaultValue: 'full' },
+          { name: 'note', type: 'Unknown', required: false },
+          { name: 'children', type: 'ReactNode', required: false },
+        ],
+        imports: [
+          { source: '@/components', namedImports: ['Block'], isTypeOnly: false },
+          { source: '@/partials/Header', namedImports: ['Header'], isTypeOnly: false },
+          { source: '@/types', namedImports: ['MenuItem'], isTypeOnly: true },
+        ],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.filename).toBe('MenuList.svelte');
+      expect(output.content).toContain('<script lang="ts">');
+      expect(output.content).toContain("  import Header from '@/partials/Header.svelte';");
+      expect(output.content).toContain("  import { Block } from '@/components';");
+      expect(output.content).toContain("  import type { MenuItem } from '@/types';");
+      expect(output.content).toContain('  export let items: MenuItem[];');
+      expect(output.content).toContain(`  export let mode: 'full' | 'compact' = "full";`);
+      expect(output.content).toContain('  export let note: any = undefined;');
+      expect(output.content).not.toContain('children');
+      expect(output.content).toContain('<Block component="section" dataClass="menu">');
+      expect(output.content).toContain('{#each items as item}\n<article>{item.title}</article>\n{/each}');
+      expect(output.content).toContain('{#if items.length === 0}\n<p>Empty</p>\n{/if}');
+      expect(output.content).toContain('<Header title="Menu" />');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('turns ReactNode props into named slots and forwards them', async () => {
+      const tree: GenRoot = root([
+        annotate(element('aside', {}, [
+          annotate(element('span', {}, []), { variable: { name: 'sidebar' }, unwrap: true }),
+        ]), { condition: { expression: '!!sidebar' } }),
+        annotate(element('div', {}, []), {
+          include: { partial: 'partials/panel', originalName: 'Panel', props: { aside: 'sidebar' } },
+        }),
+      ], {
+        sourceFile: 'Layout.tsx',
+        componentName: 'Layout',
+        exports: ['Layout'],
+        dependencies: [],
+        props: [{ name: 'sidebar', type: 'ReactNode', required: false }],
+        imports: [{ source: '@/partials', namedImports: ['Panel'], isTypeOnly: false }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).not.toContain('export let sidebar');
+      expect(output.content).toContain('{#if !!$$slots.sidebar}\n<aside><slot name="sidebar" /></aside>\n{/if}');
+      expect(output.content).toContain(
+        '<Panel><svelte:fragment slot="aside"><slot name="sidebar" /></svelte:fragment></Panel>'
+      );
+    });
+
+    it('ports derived values as reactive statements and comments out hooks', async () => {
+      const tree: GenRoot = root([
+        annotate(element('p', {}, []), { variable: { name: 'label' }, unwrap: true }),
+      ], {
+        sourceFile: 'Menu.tsx',
+        componentName: 'Menu',
+        exports: ['Menu'],
+        dependencies: [],
+        props: [{ name: 'mode', type: 'string', required: false, defaultValue: 'full' }],
+        preamble: [
+          "const label = mode === 'full' ? 'All' : 'Some';",
+          'const { cart } = useCart();',
+        ],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain("  $: label = mode === 'full' ? 'All' : 'Some';");
+      expect(output.content).toContain('  // const { cart } = useCart();');
+      expect(output.warnings?.[0]).toContain('1 component statement(s)');
+    });
+
+    it('forwards $$props and the default slot for a (props: Type) signature', async () => {
+      const tree: GenRoot = root([
+        annotate(element('div', {}, []), {
+          include: { partial: 'partials/main-layout-view', originalName: 'MainLayoutView', props: { __spread_0: 'props' } },
+        }),
+      ], {
+        sourceFile: 'MainLayout.tsx',
+        componentName: 'MainLayout',
+        exports: ['MainLayout'],
+        dependencies: [],
+        props: [{ name: '__spread_props', type: 'MainLayoutProps', required: true }],
+        imports: [{ source: './views/MainLayoutView', namedImports: ['MainLayoutView'], isTypeOnly: false }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain("import MainLayoutView from './views/MainLayoutView.svelte';");
+      expect(output.content).toContain('<MainLayoutView {...$$props}><slot /></MainLayoutView>');
+    });
+  });
+
+  describe('validate', () => {
+    it('accepts balanced blocks', () => {
+      expect(plugin.validate('{#each xs as x}{#if x}{x}{:else}-{/if}{/each}').valid).toBe(true);
+    });
+
+    it('detects unclosed each blocks', () => {
+      const result = plugin.validate('{#each xs as x}{x}');
+      expect(result.valid).toBe(false);
+      expect(result.errors?.[0]).toContain('{#each}');
+    });
+  });
+});
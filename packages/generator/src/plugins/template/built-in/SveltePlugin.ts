@@ -0,0 +1,567 @@
+/**
+ * SveltePlugin - Template Plugin for Svelte Components
+ *
+ * Transforms GenHAST trees into `.svelte` components (`<script>` + markup).
+ *
+ * DSL → Svelte transformation rules:
+ * - Var       → {value} or {value ?? "default"}
+ * - Raw       → {@html value}
+ * - If        → {#if condition}content{/if}
+ * - ElseIf    → {:else if condition}
+ * - Else      → {:else}
+ * - Loop      → {#each collection as item, index (key)}content{/each}
+ * - Slot      → <slot /> or <slot name="header">fallback</slot>
+ * - Include   → <ComponentName prop={value} />
+ *
+ * Props become `export let` declarations from GenComponentMeta.props.
+ * ReactNode props (other than children) become named slots. Components used
+ * in the markup are imported from the same module specifiers as the source:
+ * barrels (`@/partials`) as named imports, single files as `.svelte` defaults.
+ *
+ * @see https://svelte.dev/docs/svelte/legacy-overview
+ */
+
+import { BasePlugin } from '../BasePlugin';
+import type {
+  TemplatePluginFeatures,
+  StandardFilter,
+  LoopMeta,
+} from '../ITemplatePlugin';
+import type {
+  GenRoot,
+  GenLoop,
+  GenCondition,
+  GenVariable,
+  GenSlot,
+  GenInclude,
+  GenBlock,
+  GenElement,
+  GenPropDefinition,
+  TemplateOutput,
+} from '../../../hast';
+import { collectVariables, collectDependencies } from '../../../hast';
+import {
+  FORMATTER_FILTERS,
+  NODE_TYPE,
+  VALID_PROP_NAME,
+  buildComponentImports,
+  buildFormatterImport,
+  collectComponentNames,
+  formatFormatterCall,
+  formatLoopMetaExpression,
+  replaceIdentifier,
+  resolvePropType,
+  toComponentName,
+} from './component-script';
+
+// =============================================================================
+// SveltePlugin Implementation
+// =============================================================================
+
+export class SveltePlugin extends BasePlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  readonly name = 'svelte';
+  readonly version = '1.0.0';
+  readonly runtime = 'js' as const;
+  readonly fileExtension = '.svelte';
+  readonly description = 'Svelte component plugin (export let props, slots)';
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  readonly features: TemplatePluginFeatures = {
+    supportsInheritance: false,
+    supportsPartials: true,
+    supportsFilters: false, // Svelte markup uses JS expressions, not filters
+    supportsMacros: false,
+    supportsAsync: true, // {#await}
+    supportsRaw: true,
+    supportsComments: true,
+  };
+
+  // ===========================================================================
+  // Filter Mappings (Svelte uses native JS methods)
+  // ===========================================================================
+
+  protected override initializeFilterMappings(): void {
+    // Svelte has no template filters; formats call the runtime formatters
+    for (const [standard, definition] of FORMATTER_FILTERS) {
+      this.filterMappings.set(standard, definition);
+    }
+  }
+
+  // ===========================================================================
+  // Full-File Transformation (script + markup)
+  // ===========================================================================
+
+  /** ReactNode props rendered as named slots instead of values. */
+  private slotProps = new Set<string>();
+
+  /** `(props: Type)` signature: `{...props}` spreads forward `$$props` and the default slot. */
+  private forwardsProps = false;
+
+  /** Runtime formatters referenced by the markup. */
+  private formatters = new Set<string>();
+
+  async transform(tree: GenRoot): Promise<TemplateOutput> {
+    this.warnings = [];
+    this.currentDepth = 0;
+    this.formatters = new Set();
+
+    const propDefs = tree.meta?.props ?? [];
+    this.forwardsProps = propDefs.some((p) => p.name === '__spread_props');
+    this.slotProps = new Set(
+      propDefs
+        .filter((p) => p.name !== 'children' && NODE_TYPE.test(p.type))
+        .map((p) => p.name)
+    );
+
+    const markup = this.formatOutput(await this.transformChildren(tree.children));
+    const script = this.buildScript(tree, propDefs, markup);
+
+    return {
+      filename: this.getOutputFilename(tree),
+      content: script ? `${script}\n\n${markup}\n` : `${markup}\n`,
+      variables: collectVariables(tree),
+      dependencies: collectDependencies(tree),
+      warnings: this.warnings.length > 0 ? this.warnings : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render loop construct
+   *
+   * Only an explicit DSL key produces a keyed each block.
+   * `<Loop.Empty>` becomes the `{:else}` branch.
+   *
+   * @example
+   * {#each items as item (item.slug)}
+   *   <div>{item.name}</div>
+   * {:else}
+   *   <p>No items</p>
+   * {/each}
+   */
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, key } = loop;
+    const index = this.getLoopIndex(loop);
+
+    let keyPart = '';
+    if (key) {
+      const keyExpr = key.startsWith(`${item}.`) || key === item ? key : `${item}.${key}`;
+      keyPart = ` (${keyExpr})`;
+    }
+    const indexPart = index ? `, ${index}` : '';
+
+    const emptyBranch = emptyContent !== undefined ? `\n{:else}\n${emptyContent}` : '';
+
+    return `{#each ${this.formatExpression(collection)} as ${item}${indexPart}${keyPart}}\n${content}${emptyBranch}\n{/each}`;
+  }
+
+  /**
+   * Loop metadata as expressions over the each-block index
+   */
+  protected override formatLoopMeta(loop: GenLoop, meta: LoopMeta): string {
+    return formatLoopMetaExpression(meta, this.getLoopIndex(loop)!, loop.collection);
+  }
+
+  /**
+   * Index name of an each block; loops with metadata always get one
+   */
+  private getLoopIndex(loop: GenLoop): string | undefined {
+    return loop.index ?? (this.getLoopMetaNames(loop).length > 0 ? 'index' : undefined);
+  }
+
+  /**
+   * Render conditional construct
+   *
+   * Else/ElseIf branches are merged into the if element's children, so their
+   * tags land inside the if block like Nunjucks `{% else %}`.
+   *
+   * @example
+   * {#if isActive}
+   *   <span>Active</span>
+   * {:else if isPending}
+   *   <span>Pending</span>
+   * {:else}
+   *   <span>Inactive</span>
+   * {/if}
+   */
+  renderCondition(condition: GenCondition, content: string): string {
+    const { expression, isElse, isElseIf } = condition;
+
+    if (isElse) {
+      return `{:else}\n${content}`;
+    }
+
+    if (isElseIf) {
+      return `{:else if ${this.formatExpression(expression)}}\n${content}`;
+    }
+
+    return `{#if ${this.formatExpression(expression)}}\n${content}\n{/if}`;
+  }
+
+  /**
+   * Render else/else-if tag
+   */
+  renderElse(condition?: string): string {
+    if (condition) {
+      return `{:else if ${this.formatExpression(condition)}}`;
+    }
+    return '{:else}';
+  }
+
+  /**
+   * Render variable output
+   *
+   * ReactNode props are rendered through their named slot.
+   *
+   * @example
+   * {title}
+   * {title ?? "Untitled"}
+   * <slot name="sidebar" />
+   */
+  renderVariable(variable: GenVariable): string {
+    if (this.slotProps.has(variable.name)) {
+      return `<slot name="${variable.name}" />`;
+    }
+    return `{${this.buildVariableExpression(variable)}}`;
+  }
+
+  /**
+   * Render unescaped output
+   *
+   * @example
+   * {@html post.body}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `{@html ${this.buildVariableExpression(variable)}}`;
+  }
+
+  /**
+   * Render slot placeholder
+   *
+   * @example
+   * <slot />
+   * <slot name="header"><h1>Default</h1></slot>
+   */
+  renderSlot(slot: GenSlot, defaultContent: string): string {
+    const { name } = slot;
+    const nameAttr = name === 'default' || name === 'children' ? '' : ` name="${name}"`;
+
+    if (defaultContent.trim()) {
+      return `<slot${nameAttr}>${defaultContent}</slot>`;
+    }
+    return `<slot${nameAttr} />`;
+  }
+
+  /**
+   * Render include/partial as a Svelte component
+   *
+   * Slot props passed through (`sidebar={sidebar}`) are forwarded as named
+   * slots, since Svelte slot content cannot travel as a prop value.
+   *
+   * @example
+   * <Header />
+   * <Card title={cardTitle} mode="full">...</Card>
+   */
+  renderInclude(include: GenInclude, childrenContent?: string): string {
+    const { partial, props, originalName } = include;
+    const componentName = originalName || toComponentName(partial);
+    const children = childrenContent?.trim() ?? '';
+
+    // Svelte markup accepts multiple roots, so explicit fragments just unwrap
+    if (componentName === 'Fragment' || componentName === 'React.Fragment') {
+      return children;
+    }
+
+    const propsFragments: string[] = [];
+    const forwardedSlots: string[] = [];
+    let forwardsSlot = false;
+
+    for (const [prop, value] of Object.entries(props ?? {})) {
+      if (prop.startsWith('__spread_')) {
+        forwardsSlot = this.forwardsProps && value === 'props';
+        propsFragments.push(`{...${forwardsSlot ? '$$props' : this.formatExpression(value)}}`);
+        continue;
+      }
+      if (this.slotProps.has(value)) {
+        forwardedSlots.push(`<svelte:fragment slot="${prop}"><slot name="${value}" /></svelte:fragment>`);
+        continue;
+      }
+      const key = SveltePlugin.ATTRIBUTE_ALIASES[prop] ?? prop;
+      const literal = value.match(/^"([^"]*)"$/);
+      propsFragments.push(
+        literal ? `${key}="${this.escapeAttributeValue(literal[1])}"` : `${key}={${this.formatExpression(value)}}`
+      );
+    }
+    const attrs = propsFragments.length > 0 ? ` ${propsFragments.join(' ')}` : '';
+
+    // React children travel inside the spread; Svelte passes them as the default slot
+    const body = [...forwardedSlots, children || (forwardsSlot ? '<slot />' : '')].join('');
+    if (body) {
+      return `<${componentName}${attrs}>${body}</${componentName}>`;
+    }
+    return `<${componentName}${attrs} />`;
+  }
+
+  /**
+   * Render block (Svelte has no inheritance — comment markers only)
+   */
+  renderBlock(block: GenBlock, content: string): string {
+    return `<!-- block: ${block.name} -->${content}<!-- /block: ${block.name} -->`;
+  }
+
+  /**
+   * Render extends (not supported in Svelte — use composition)
+   */
+  renderExtends(parent: string): string {
+    this.addWarning('Svelte does not support template inheritance. Use composition instead.');
+    return `<!-- extends: ${parent} — use composition instead -->`;
+  }
+
+  /**
+   * Render HTML comment
+   */
+  renderComment(comment: string): string {
+    return `<!-- ${comment} -->`;
+  }
+
+  // ===========================================================================
+  // Attribute Rendering (overrides)
+  // ===========================================================================
+
+  /** JSX attribute names that differ from Svelte markup attributes. */
+  private static readonly ATTRIBUTE_ALIASES: Record<string, string> = {
+    className: 'class',
+    htmlFor: 'for',
+  };
+
+  /**
+   * Override: JSX-only attribute names (className, htmlFor) become HTML names
+   */
+  protected override getHtmlAttributes(properties: GenElement['properties']): Record<string, unknown> {
+    const attributes: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(super.getHtmlAttributes(properties))) {
+      attributes[SveltePlugin.ATTRIBUTE_ALIASES[key] ?? key] = value;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Override: expression props become `attr={expr}`
+   */
+  protected override formatAttributes(attributes: Record<string, unknown>): string {
+    const parts: string[] = [];
+
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === true) {
+        parts.push(key);
+      } else if (value === false || value === undefined || value === null) {
+        continue;
+      } else if (typeof value === 'object' && '__expression' in (value as object)) {
+        const expr = (value as { __expression: string }).__expression;
+        parts.push(`${key}={${this.formatExpression(expr)}}`);
+      } else if (typeof value === 'string') {
+        parts.push(`${key}="${this.escapeAttributeValue(value)}"`);
+      } else {
+        parts.push(`${key}={${JSON.stringify(value)}}`);
+      }
+    }
+
+    return parts.join(' ');
+  }
+
+  // ===========================================================================
+  // Output Filename (Svelte convention: PascalCase.svelte)
+  // ===========================================================================
+
+  protected override getOutputFilename(tree: GenRoot): string {
+    const componentName = tree.meta?.componentName ?? 'Template';
+    return `${componentName}${this.fileExtension}`;
+  }
+
+  // ===========================================================================
+  // Filter Application (JS-native)
+  // ===========================================================================
+
+  override applyFilter(expression: string, filter: string, args?: string[]): string {
+    const formatter = this.filterMappings.get(filter as StandardFilter);
+    if (formatter) {
+      this.formatters.add(formatter.name);
+      return formatFormatterCall(formatter, expression, args);
+    }
+
+    const jsFilters: Record<string, (e: string, a?: string[]) => string> = {
+      uppercase: (e) => `${e}.toUpperCase()`,
+      lowercase: (e) => `${e}.toLowerCase()`,
+      capitalize: (e) => `${e}.charAt(0).toUpperCase() + ${e}.slice(1)`,
+      trim: (e) => `${e}.trim()`,
+      json: (e) => `JSON.stringify(${e})`,
+      length: (e) => `${e}.length`,
+      join: (e, a) => `${e}.join(${a?.[0] ? `"${a[0]}"` : '", "'})`,
+      split: (e, a) => `${e}.split(${a?.[0] ? `"${a[0]}"` : '","'})`,
+      reverse: (e) => `[...${e}].reverse()`,
+      sort: (e) => `[...${e}].sort()`,
+      first: (e) => `${e}[0]`,
+      last: (e) => `${e}[${e}.length - 1]`,
+      slice: (e, a) => `${e}.slice(${a?.join(', ') ?? '0'})`,
+    };
+
+    // Defaults produce `a ?? "b"`; wrap compound expressions before chaining
+    const subject = /^[\w$.[\]]+$/.test(expression) ? expression : `(${expression})`;
+    const transformer = jsFilters[filter];
+    if (transformer) {
+      return transformer(subject, args);
+    }
+
+    this.addWarning(`Unknown filter "${filter}" — passing as method call`);
+    return args?.length
+      ? `${subject}.${filter}(${args.join(', ')})`
+      : `${subject}.${filter}()`;
+  }
+
+  // ===========================================================================
+  // Validation
+  // ===========================================================================
+
+  override validate(output: string): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+
+    // Ported (or commented-out) script statements may contain braces and JSX
+    const markup = output.replace(/<script\b[\s\S]*?<\/script>/, '');
+
+    for (const block of ['if', 'each', 'await', 'key']) {
+      const opens = (markup.match(new RegExp(`\\{#${block}\\b`, 'g')) || []).length;
+      const closes = (markup.match(new RegExp(`\\{/${block}\\}`, 'g')) || []).length;
+      if (opens !== closes) {
+        errors.push(`Unbalanced {#${block}} blocks: ${opens} open, ${closes} close`);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Private: Script
+  // ===========================================================================
+
+  /**
+   * Build `<script lang="ts">` with component imports, `export let` props
+   * and the ported preamble (`$:` for simple derived values).
+   */
+  private buildScript(tree: GenRoot, propDefs: GenPropDefinition[], markup: string): string {
+    const imports = tree.meta?.imports ?? [];
+    const props = propDefs.filter(
+      (p) =>
+        !p.rest &&
+        p.name !== 'children' &&
+        !p.name.startsWith('__') &&
+        !this.slotProps.has(p.name) &&
+        VALID_PROP_NAME.test(p.name)
+    );
+    const { ported, skipped } = this.splitPreamble(tree.meta?.preamble ?? []);
+    if (skipped.length > 0) {
+      this.addWarning(
+        `${skipped.length} component statement(s) use React hooks or JSX and are not ported to Svelte; bindings they declare are undefined`
+      );
+    }
+
+    const typeNames = new Set<string>();
+    const propLines = props.map((p) => {
+      const type = resolvePropType(p.type, imports, typeNames);
+      if (p.defaultValue !== undefined) {
+        return `export let ${p.name}: ${type} = ${JSON.stringify(p.defaultValue)};`;
+      }
+      if (p.required) {
+        return `export let ${p.name}: ${type};`;
+      }
+      return `export let ${p.name}: ${type === 'any' ? type : `${type} | undefined`} = undefined;`;
+    });
+
+    const { lines: importLines, missing } = buildComponentImports({
+      componentNames: collectComponentNames(tree.children),
+      typeNames,
+      imports,
+      markup,
+      fileExtension: this.fileExtension,
+    });
+    for (const name of missing) {
+      this.addWarning(`Component "${name}" has no source import; add it to the script manually`);
+    }
+
+    const sections: string[][] = [
+      [...importLines, ...buildFormatterImport(this.formatters, this.config.formatModule)],
+      propLines,
+      ported.map((statement) => this.toReactiveStatement(this.formatExpression(statement))),
+    ];
+    if (skipped.length > 0) {
+      sections.push([
+        '// Not ported from React (rewrite as stores):',
+        ...skipped.flatMap((statement) => statement.split('\n').map((line) => `// ${line}`)),
+      ]);
+    }
+
+    const body = sections
+      .filter((lines) => lines.length > 0)
+      .map((lines) => lines.map((line) => `  ${line}`).join('\n'))
+      .join('\n\n');
+
+    return body ? `<script lang="ts">\n${body}\n</script>` : '';
+  }
+
+  /**
+   * `const x = expr;` becomes `$: x = expr;` so derived values follow prop
+   * updates; other statements are kept as-is.
+   */
+  private toReactiveStatement(statement: string): string {
+    const match = statement.match(/^const\s+([\w$]+)(?::[^=]+)?\s*=\s*([\s\S]+)$/);
+    return match ? `$: ${match[1]} = ${match[2]}` : statement;
+  }
+
+  // ===========================================================================
+  // Private: Helpers
+  // ===========================================================================
+
+  private buildVariableExpression(variable: GenVariable): string {
+    const { name, default: defaultValue, filter, filterArgs } = variable;
+
+    let expr = this.formatExpression(name);
+    if (defaultValue !== undefined) {
+      expr = `${expr} ?? ${this.formatJsValue(defaultValue)}`;
+    }
+    if (filter) {
+      expr = this.applyFilter(expr, filter, filterArgs);
+    }
+    return expr;
+  }
+
+  private formatJsValue(value: string): string {
+    if (!isNaN(Number(value)) && value.trim() !== '') return value;
+    if (value === 'true' || value === 'false') return value;
+    return `"${value}"`;
+  }
+
+  /**
+   * Format expression for Svelte: slot props are tested through `$$slots`
+   */
+  protected override formatExpression(expr: string): string {
+    let result = expr.trim();
+    for (const name of this.slotProps) {
+      result = replaceIdentifier(result, name, `$$slots.${name}`);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Tests for TwigPlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TwigPlugin } from './TwigPlugin';
+import { root, element, annotate, type GenRoot } from '../../../hast';
+import type { PlatformMap, TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const WOOCOMMERCE_MAP: PlatformMap = {
+  platform: 'woocommerce',
+  version: 'wc-8',
+  domains: {
+    catalog: {
+      resource: 'product',
+      itemVariable: 'product',
+      collectionVariable: 'products',
+      fields: {
+        title: { to: 'get_name()' },
+        'price.display': { to: 'get_price_html()', filter: 'raw' },
+        'image.src': { to: 'get_image_id()', filter: "wp_get_attachment_image_url: 'woocommerce_single'" },
+        promotionIds: { to: "get_meta('promotion_ids')", skip: true },
+      },
+    },
+    promo: {
+      resource: 'shop_coupon',
+      itemVariable: 'coupon',
+      collectionVariable: 'coupons',
+      fields: {
+        'discount.couponCode': { to: 'get_code()' },
+        validUntil: { to: 'get_date_expires()', filter: 'date: Y-m-d' },
+      },
+    },
+  },
+};
+
+function createMockContext(platformDomain?: string): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.twig',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+      ...(platformDomain ? { platformMap: WOOCOMMERCE_MAP, platformDomain } : {}),
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('TwigPlugin', () => {
+  let plugin: TwigPlugin;
+
+  beforeEach(async () => {
+    plugin = new TwigPlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('twig');
+      expect(plugin.fileExtension).toBe('.twig');
+      expect(plugin.runtime).toBe('php');
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders canonical paths without a platform map', () => {
+      expect(plugin.renderVariable({ name: 'item.title' })).toBe('{{ item.title }}');
+      expect(plugin.renderVariable({ name: 'title', filter: 'uppercase' })).toBe('{{ title|upper }}');
+    });
+
+    it('renders raw output with the raw filter', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('{{ post.body|raw }}');
+      expect(plugin.renderRawVariable({ name: 'intro', default: 'None' })).toBe('{{ (intro ?? "None")|raw }}');
+    });
+
+    it('translates Var date patterns to PHP date formats', () => {
+      expect(
+        plugin.renderVariable({ name: 'post.date', filter: 'date', filterArgs: ["MMM d, yyyy 'at' H:mm"] })
+      ).toBe('{{ post.date|date("M j, Y \\\\a\\\\t G:i") }}');
+      expect(plugin.renderVariable({ name: 'price', filter: 'currency', filterArgs: ['EUR'] })).toBe(
+        '{{ price|format_currency("EUR") }}'
+      );
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('converts logical operators and strict equality', () => {
+      const result = plugin.renderCondition(
+        { expression: "!isHidden && (status === 'active' || items.length !== 0)" },
+        'Content'
+      );
+
+      expect(result).toContain("{% if not isHidden and (status == 'active' or items.length != 0) %}");
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('sets loop metadata from the loop variable and renders the empty branch as else', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '{% for dish in dishes %}\n{% set isFirst = loop.first %}\n{% set isLast = loop.last %}\n' +
+          '{% set total = loop.length %}\n<li></li>\n{% else %}\n<li>None</li>\n{% endfor %}'
+      );
+    });
+  });
+
+  describe('renderSwitch', () => {
+    it('renders an if/elseif chain (Twig has no switch tag)', () => {
+      const result = plugin.renderSwitch({ on: 'item.availability' }, [
+        { case: { value: 'available' }, content: 'A' },
+        { case: { isDefault: true }, content: 'D' },
+      ]);
+
+      expect(result).toBe("{% if item.availability == 'available' %}\nA{% else %}\nD\n{% endif %}");
+    });
+
+    it('renders only the default branch when there are no cases', () => {
+      expect(plugin.renderSwitch({ on: 'status' }, [{ case: { isDefault: true }, content: 'D' }])).toBe('D');
+    });
+  });
+
+  describe('Platform Map', () => {
+    it('maps catalog fields to WooCommerce product methods', async () => {
+      await plugin.initialize(createMockContext('catalog'));
+
+      expect(plugin.renderVariable({ name: 'item.title' })).toBe('{{ product.get_name() }}');
+      expect(plugin.renderVariable({ name: 'item.price.display' })).toBe('{{ product.get_price_html()|raw }}');
+      expect(plugin.renderVariable({ name: 'item.image.src' })).toBe(
+        "{{ product.get_image_id()|wp_get_attachment_image_url('woocommerce_single') }}"
+      );
+    });
+
+    it('applies the platform filter before the fallback', async () => {
+      await plugin.initialize(createMockContext('catalog'));
+
+      expect(plugin.renderVariable({ name: 'item.price.display', default: '-' })).toBe(
+        '{{ product.get_price_html()|raw ?? "-" }}'
+      );
+    });
+
+    it('drops skipped fields and keeps unmapped ones', async () => {
+      await plugin.initialize(createMockContext('catalog'));
+
+      expect(plugin.renderVariable({ name: 'item.promotionIds' })).toBe('');
+      expect(plugin.renderVariable({ name: 'item.availability' })).toBe('{{ item.availability }}');
+    });
+
+    it('maps promo fields to WooCommerce coupon methods', async () => {
+      await plugin.initialize(createMockContext('promo'));
+
+      expect(plugin.renderVariable({ name: 'promotion.discount.couponCode' })).toBe('{{ coupon.get_code() }}');
+      expect(plugin.renderVariable({ name: 'promotion.validUntil' })).toBe(
+        '{{ coupon.get_date_expires()|date("Y-m-d") }}'
+      );
+    });
+
+    it('renders loops over the platform collection', async () => {
+      await plugin.initialize(createMockContext('catalog'));
+
+      const tree: GenRoot = root([
+        annotate(
+          element('ul', {}, [
+            annotate(element('li', {}, [annotate(element('span'), { variable: { name: 'dish.title' } })]), {
+              loop: { item: 'dish', collection: 'dishes' },
+            }),
+          ]),
+          {}
+        ),
+      ], {
+        sourceFile: 'dish-list.tsx',
+        componentName: 'DishList',
+        exports: ['DishList'],
+        dependencies: [],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('{% for product in products %}');
+      expect(output.content).toContain('{{ product.get_name() }}');
+    });
+  });
+});
@@ -21,6 +21,7 @@ import type {
   GenInclude,
   GenBlock,
 } from '../../../hast';
+import { toPhpDateFormat } from './date-pattern';
 
 // =============================================================================
 // TwigPlugin Implementation
@@ -61,7 +62,7 @@ export class TwigPlugin extends BasePlugin {
       ['lowercase', { name: 'lower' }],
       ['capitalize', { name: 'capitalize' }],
       ['trim', { name: 'trim' }],
-      ['date', { name: 'date', formatArgs: (args) => `"${args[0] || 'Y-m-d'}"` }],
+      ['date', { name: 'date', formatArgs: (args) => `"${args[0] || 'Y-m-d'}"`, translateArgs: (args) => args.map(toPhpDateFormat) }],
       ['currency', { name: 'format_currency', formatArgs: (args) => `"${args[0] || 'USD'}"` }],
       ['number', { name: 'number_format' }],
       ['json', { name: 'json_encode' }],
@@ -91,13 +92,18 @@ export class TwigPlugin extends BasePlugin {
   /**
    * Render loop construct
    *
+   * Loop metadata names are set from the `loop` variable; `<Loop.Empty>` becomes `{% else %}`.
+   *
    * @example
    * {% for item in items %}
+   *   {% set isLast = loop.last %}
    *   <div>{{ item.name }}</div>
+   * {% else %}
+   *   <p>No items</p>
    * {% endfor %}
    */
-  renderLoop(loop: GenLoop, content: string): string {
-    const { item, collection, key, index } = loop;
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, key, index } = this.resolvePlatformLoop(loop);
 
     let forTag: string;
 
@@ -109,7 +115,12 @@ export class TwigPlugin extends BasePlugin {
       forTag = `{% for ${item} in ${collection} %}`;
     }
 
-    return `${forTag}\n${content}\n{% endfor %}`;
+    const metaSets = this.getLoopMetaNames(loop)
+      .map(([name, meta]) => `{% set ${name} = loop.${meta} %}\n`)
+      .join('');
+    const emptyBranch = emptyContent !== undefined ? `\n{% else %}\n${emptyContent}` : '';
+
+    return `${forTag}\n${metaSets}${content}${emptyBranch}\n{% endfor %}`;
   }
 
   /**
@@ -151,11 +162,44 @@ export class TwigPlugin extends BasePlugin {
    * {{ title }}
    * {{ title ?? 'Default' }}
    * {{ title|upper }}
+   * {{ product.get_price_html()|raw }}
    */
   renderVariable(variable: GenVariable): string {
-    const { name, default: defaultValue, filter, filterArgs } = variable;
+    const expr = this.buildVariableExpression(variable);
+    return expr === undefined ? '' : `{{ ${expr} }}`;
+  }
 
-    let expr = name;
+  /**
+   * Render unescaped variable output (autoescaping is on by default)
+   *
+   * @example
+   * {{ post.body|raw }}
+   * {{ (intro ?? "None")|raw }}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    const expr = this.buildVariableExpression(variable);
+    if (expr === undefined) {
+      return '';
+    }
+    if (/\|\s*raw$/.test(expr)) {
+      return `{{ ${expr} }}`;
+    }
+    return `{{ ${this.applyFilter(expr.includes(' ?? ') ? `(${expr})` : expr, 'raw')} }}`;
+  }
+
+  private buildVariableExpression(variable: GenVariable): string | undefined {
+    const { name, default: defaultValue, filter } = variable;
+    const mapped = this.resolvePlatformVariable(name);
+    if (mapped.skip) {
+      return undefined;
+    }
+
+    let expr = mapped.expression;
+
+    // Platform filter binds to the field, before the fallback
+    if (mapped.filter) {
+      expr = this.applyPlatformFilter(expr, mapped.filter);
+    }
 
     // Apply default using null coalescing
     if (defaultValue !== undefined) {
@@ -164,10 +208,10 @@ export class TwigPlugin extends BasePlugin {
 
     // Apply filter
     if (filter) {
-      expr = this.applyFilter(expr, filter, filterArgs);
+      expr = this.applyFilter(expr, filter, this.getVariableFilterArgs(variable));
     }
 
-    return `{{ ${expr} }}`;
+    return expr;
   }
 
   /**
@@ -287,7 +331,9 @@ export class TwigPlugin extends BasePlugin {
       .replace(/\s*\|\|\s*/g, ' or ')
       // Twig uses 'not' for negation
       .replace(/!\s*(?=\w)/g, 'not ')
-      // Keep == and != as-is (Twig supports them)
+      // Twig has no strict comparison; == and != are kept as-is
+      .replace(/===/g, '==')
+      .replace(/!==/g, '!=')
       .trim();
   }
 }
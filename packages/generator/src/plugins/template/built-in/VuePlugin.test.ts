@@ -0,0 +1,296 @@
+/**
+ * Tests for VuePlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VuePlugin } from './VuePlugin';
+import {
+  root,
+  element,
+  text,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.vue',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('VuePlugin', () => {
+  let plugin: VuePlugin;
+
+  beforeEach(async () => {
+    plugin = new VuePlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('vue');
+      expect(plugin.fileExtension).toBe('.vue');
+      expect(plugin.runtime).toBe('js');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('renders the empty branch in a v-if template after the loop', () => {
+      const result = plugin.renderLoop({ item: 'dish', collection: 'dishes' }, '<li></li>', '<li>None</li>');
+
+      expect(result).toContain('<template v-if="!dishes?.length">\n<li>None</li>\n</template>');
+    });
+
+    it('renders v-for on a template with id key fallback', () => {
+      const result = plugin.renderLoop({ item: 'item', collection: 'items' }, '<li>{{ item.name }}</li>');
+
+      expect(result).toBe(
+        '<template v-for="(item, index) in items" :key="item.id ?? index">\n<li>{{ item.name }}</li>\n</template>'
+      );
+    });
+
+    it('uses explicit key and index names', () => {
+      const result = plugin.renderLoop(
+        { item: 'link', collection: 'navItems', key: 'href', index: 'i' },
+        'x'
+      );
+
+      expect(result).toContain('v-for="(link, i) in navItems" :key="link.href"');
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders v-if template', () => {
+      expect(plugin.renderCondition({ expression: 'isActive' }, 'A')).toBe(
+        '<template v-if="isActive">A</template>'
+      );
+    });
+
+    it('moves else-if and else branches after the v-if block', () => {
+      const elseIf = plugin.renderCondition({ expression: 'isPending', isElseIf: true }, 'P');
+      const elseBranch = plugin.renderCondition({ expression: '', isElse: true }, 'E');
+      const result = plugin.renderCondition({ expression: 'isActive' }, `A${elseIf}${elseBranch}`);
+
+      expect(result).toBe(
+        '<template v-if="isActive">A</template>' +
+          '<template v-else-if="isPending">P</template>' +
+          '<template v-else>E</template>'
+      );
+    });
+
+    it('switches string literals to single quotes inside directives', () => {
+      expect(plugin.renderCondition({ expression: 'status === "active"' }, 'A')).toContain(
+        `v-if="status === 'active'"`
+      );
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders interpolation with default', () => {
+      expect(plugin.renderVariable({ name: 'title', default: 'Untitled' })).toBe(
+        '{{ title ?? "Untitled" }}'
+      );
+    });
+
+    it('applies filters as JS methods', () => {
+      expect(plugin.renderVariable({ name: 'name', filter: 'uppercase' })).toBe('{{ name.toUpperCase() }}');
+      expect(plugin.renderVariable({ name: 'name', default: 'x', filter: 'uppercase' })).toBe(
+        '{{ (name ?? "x").toUpperCase() }}'
+      );
+    });
+
+    it('renders raw output through v-html', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('<span v-html="post.body"></span>');
+    });
+  });
+
+  describe('renderSlot', () => {
+    it('renders default slot', () => {
+      expect(plugin.renderSlot({ name: 'default' }, '')).toBe('<slot />');
+    });
+
+    it('renders named slot with fallback', () => {
+      expect(plugin.renderSlot({ name: 'header' }, '<h1>Default</h1>')).toBe(
+        '<slot name="header"><h1>Default</h1></slot>'
+      );
+    });
+  });
+
+  describe('renderInclude', () => {
+    it('renders component with bound and literal props', () => {
+      const result = plugin.renderInclude({
+        partial: 'partials/card',
+        props: { title: 'card.title', mode: '"full"' },
+      });
+
+      expect(result).toBe('<Card :title="card.title" mode="full" />');
+    });
+
+    it('keeps original name, spread props and children', () => {
+      const result = plugin.renderInclude(
+        { partial: 'partials/main-layout', originalName: 'MainLayout', props: { __spread_0: 'layoutProps' } },
+        '<p>Body</p>'
+      );
+
+      expect(result).toBe('<MainLayout v-bind="layoutProps"><p>Body</p></MainLayout>');
+    });
+
+    it('unwraps explicit Fragment components', () => {
+      const result = plugin.renderInclude(
+        { partial: 'partials/fragment', originalName: 'Fragment', props: {} },
+        '<main></main>'
+      );
+
+      expect(result).toBe('<main></main>');
+    });
+  });
+
+  describe('transform', () => {
+    it('emits script setup with defineProps and a template block', async () => {
+      const tree: GenRoot = root([
+        element('section', { className: ['menu'], dataClass: 'x' }, [
+          annotate(
+            element('article', {}, [
+              annotate(element('span', {}, []), { variable: { name: 'item.title' }, unwrap: true }),
+            ]),
+            { loop: { item: 'item', collection: 'items' } }
+          ),
+          annotate(element('p', {}, [text('Empty')]), { condition: { expression: 'items.length === 0' } }),
+        ]),
+      ], {
+        sourceFile: 'MenuList.tsx',
+        componentName: 'MenuList',
+        exports: ['MenuList'],
+        dependencies: [],
+        props: [
+          { name: 'items', type: 'MenuItem[]', required: true },
+          { name: 'mode', type: "'full' | 'compact'", required: false, defaultValue: 'full' },
+          { name: 'children', type: 'ReactNode', required: false },
+        ],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.filename).toBe('MenuList.vue');
+      expect(output.content).toContain('<script setup lang="ts">');
+      expect(output.content).toContain('  items: any[];');
+      expect(output.content).toContain("  mode?: 'full' | 'compact';");
+      expect(output.content).toContain('  mode: "full",');
+      expect(output.content).not.toContain('children');
+      expect(output.content).toContain('<section class="menu" dataClass="x">');
+      expect(output.content).toContain('<template v-for="(item, index) in items"');
+      expect(output.content).toContain('{{ item.title }}');
+      expect(output.content).toContain('<template v-if="items.length === 0"><p>Empty</p></template>');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('binds expression attributes with colon prefix', async () => {
+      const tree: GenRoot = root([
+        element('a', { href: { __expression: 'link.href' } as any, htmlFor: 'x' }, []),
+      ]);
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toBe('<template>\n<a :href="link.href" for="x"></a>\n</template>\n');
+    });
+    it('forwards attrs and the default slot for a (props: Type) signature', async () => {
+      const tree: GenRoot = root([
+        annotate(element('MainLayoutView', {}, []), {
+          include: { partial: 'partials/main-layout-view', originalName: 'MainLayoutView', props: { __spread_0: 'props' } },
+        }),
+      ], {
+        sourceFile: 'MainLayout.tsx',
+        componentName: 'MainLayout',
+        exports: ['MainLayout'],
+        dependencies: [],
+        props: [{ name: '__spread_props', type: 'MainLayoutProps', required: true }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).not.toContain('<script');
+      expect(output.content).toContain('<MainLayoutView v-bind="$attrs"><slot /></MainLayoutView>');
+    });
+
+    it('ports plain preamble statements and comments out hook calls', async () => {
+      const tree: GenRoot = root([
+        annotate(element('p', {}, []), { variable: { name: 'label' }, unwrap: true }),
+      ], {
+        sourceFile: 'Menu.tsx',
+        componentName: 'Menu',
+        exports: ['Menu'],
+        dependencies: [],
+        props: [{ name: 'mode', type: 'string', required: false, defaultValue: 'full' }],
+        preamble: [
+          "const label = mode === 'full' ? 'All' : 'Some';",
+          'const { cart } = useCart();',
+          'const count = cart.length;',
+        ],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('const { mode = "full" } = defineProps<{');
+      expect(output.content).toContain("const label = mode === 'full' ? 'All' : 'Some';");
+      expect(output.content).toContain('// const { cart } = useCart();');
+      expect(output.content).toContain('// const count = cart.length;');
+      expect(output.warnings?.[0]).toContain('2 component statement(s)');
+    });
+
+    it('imports the runtime formatters used by Var formats', async () => {
+      const tree: GenRoot = root([
+        element('time', {}, [
+          annotate(element('span', {}, []), {
+            variable: { name: 'post.date', filter: 'date', filterArgs: ['MMM d, yyyy'] },
+            unwrap: true,
+          }),
+        ]),
+      ], {
+        sourceFile: 'PostDate.tsx',
+        componentName: 'PostDate',
+        exports: ['PostDate'],
+        dependencies: [],
+        props: [{ name: 'post', type: 'Post', required: true }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain(
+        "<script setup lang=\"ts\">\nimport { formatDate } from '@ui8kit/generator/format';\n\ndefineProps<{"
+      );
+      expect(output.content).toContain('<time>{{ formatDate(post.date, "MMM d, yyyy") }}</time>');
+    });
+  });
+
+  describe('validate', () => {
+    it('detects unbalanced template tags', () => {
+      const result = plugin.validate('<template>\n<template v-if="a">x\n</template>\n');
+      expect(result.valid).toBe(false);
+    });
+
+    it('detects leftover branch markers', () => {
+      const result = plugin.validate(plugin.renderCondition({ expression: '', isElse: true }, 'x'));
+      expect(result.valid).toBe(false);
+    });
+  });
+});
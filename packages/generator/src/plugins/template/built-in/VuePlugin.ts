@@ -0,0 +1,633 @@
+/**
+ * VuePlugin - Template Plugin for Vue 3 Single-File Components
+ *
+ * Transforms GenHAST trees into `.vue` SFCs (`<script setup>` + `<template>`).
+ *
+ * DSL → Vue transformation rules:
+ * - Var       → {{ value }} or {{ value ?? "default" }}
+ * - Raw       → <span v-html="value"></span>
+ * - If        → <template v-if="condition">content</template>
+ * - ElseIf    → <template v-else-if="condition">content</template>
+ * - Else      → <template v-else>content</template>
+ * - Loop      → <template v-for="(item, index) in collection" :key="...">content</template>
+ * - Slot      → <slot /> or <slot name="header">fallback</slot>
+ * - Include   → <ComponentName :prop="value" />
+ *
+ * Props are declared with `defineProps` from GenComponentMeta.props. Plain
+ * preamble statements are ported into `<script setup>`; statements that call
+ * React hooks or build JSX are left as comments. Components referenced in
+ * templates (core passthroughs, includes) are expected to be registered
+ * globally by the host app, see `generateVueApp()`.
+ *
+ * @see https://vuejs.org/guide/scaling-up/sfc.html
+ */
+
+import { BasePlugin } from '../BasePlugin';
+import type {
+  TemplatePluginFeatures,
+  StandardFilter,
+  LoopMeta,
+} from '../ITemplatePlugin';
+import type {
+  GenRoot,
+  GenLoop,
+  GenCondition,
+  GenVariable,
+  GenSlot,
+  GenInclude,
+  GenBlock,
+  GenElement,
+  GenPropDefinition,
+  TemplateOutput,
+} from '../../../hast';
+import { collectVariables, collectDependencies } from '../../../hast';
+import {
+  FORMATTER_FILTERS,
+  buildFormatterImport,
+  formatFormatterCall,
+  formatLoopMetaExpression,
+} from './component-script';
+
+// =============================================================================
+// Branch Markers
+// =============================================================================
+
+/**
+ * Internal markers for condition branch detection.
+ * Else/else-if branches are rendered inside the merged if element; the parent
+ * if block moves them after its own `<template v-if>` so Vue sees siblings.
+ */
+const MARKERS = {
+  ELSE: '___VUE_ELSE___',
+  ELSEIF: '___VUE_ELSEIF___',
+  SEP: '___VUE_SEP___',
+  END: '___VUE_END___',
+} as const;
+
+// =============================================================================
+// VuePlugin Implementation
+// =============================================================================
+
+export class VuePlugin extends BasePlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  readonly name = 'vue';
+  readonly version = '1.0.0';
+  readonly runtime = 'js' as const;
+  readonly fileExtension = '.vue';
+  readonly description = 'Vue 3 single-file component plugin';
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  readonly features: TemplatePluginFeatures = {
+    supportsInheritance: false,
+    supportsPartials: true,
+    supportsFilters: false, // Vue templates use JS expressions, not filters
+    supportsMacros: false,
+    supportsAsync: true,
+    supportsRaw: true,
+    supportsComments: true,
+  };
+
+  // ===========================================================================
+  // Filter Mappings (Vue uses native JS methods)
+  // ===========================================================================
+
+  protected override initializeFilterMappings(): void {
+    // Vue 3 removed template filters; formats call the runtime formatters
+    for (const [standard, definition] of FORMATTER_FILTERS) {
+      this.filterMappings.set(standard, definition);
+    }
+  }
+
+  // ===========================================================================
+  // Full-File Transformation (script setup + template)
+  // ===========================================================================
+
+  /** `(props: Type)` signature: `{...props}` spreads forward `$attrs` and the default slot. */
+  private forwardsProps = false;
+
+  /** Runtime formatters referenced by the template. */
+  private formatters = new Set<string>();
+
+  async transform(tree: GenRoot): Promise<TemplateOutput> {
+    this.warnings = [];
+    this.currentDepth = 0;
+    this.formatters = new Set();
+
+    const propDefs = tree.meta?.props ?? [];
+    this.forwardsProps = propDefs.some((p) => p.name === '__spread_props');
+
+    const body = this.formatOutput(await this.transformChildren(tree.children));
+    const script = this.buildScriptSetup(propDefs, tree.meta?.preamble ?? []);
+    const template = `<template>\n${body}\n</template>\n`;
+
+    return {
+      filename: this.getOutputFilename(tree),
+      content: script ? `${script}\n\n${template}` : template,
+      variables: collectVariables(tree),
+      dependencies: collectDependencies(tree),
+      warnings: this.warnings.length > 0 ? this.warnings : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render loop construct
+   *
+   * Key strategy matches ReactPlugin: explicit key → item.id → index.
+   * `<Loop.Empty>` renders in a `v-if` template after the loop.
+   *
+   * @example
+   * <template v-for="(item, index) in items" :key="item.id ?? index">
+   *   <div>{{ item.name }}</div>
+   * </template>
+   * <template v-if="!items?.length"><p>No items</p></template>
+   */
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, key, index: indexVar } = loop;
+    const idx = indexVar ?? 'index';
+
+    let keyExpr: string;
+    if (key) {
+      keyExpr = key.startsWith(`${item}.`) || key === item ? key : `${item}.${key}`;
+    } else {
+      keyExpr = `${item}.id ?? ${idx}`;
+    }
+
+    const lines = [
+      `<template v-for="(${item}, ${idx}) in ${this.toAttributeExpression(collection)}" :key="${this.toAttributeExpression(keyExpr)}">`,
+      content,
+      '</template>',
+    ];
+    if (emptyContent !== undefined) {
+      lines.push(`<template v-if="${this.toAttributeExpression(`!${collection}?.length`)}">`, emptyContent, '</template>');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Loop metadata as expressions over the v-for index
+   */
+  protected override formatLoopMeta(loop: GenLoop, meta: LoopMeta): string {
+    return formatLoopMetaExpression(meta, loop.index ?? 'index', loop.collection);
+  }
+
+  /**
+   * Render conditional construct
+   *
+   * Else/ElseIf branches emit markers that the parent if block consumes.
+   *
+   * @example
+   * <template v-if="isActive">A</template>
+   * <template v-else-if="isPending">P</template>
+   * <template v-else>B</template>
+   */
+  renderCondition(condition: GenCondition, content: string): string {
+    const { expression, isElse, isElseIf } = condition;
+
+    if (isElse) {
+      return `${MARKERS.ELSE}${content}${MARKERS.END}`;
+    }
+
+    if (isElseIf) {
+      return `${MARKERS.ELSEIF}${expression}${MARKERS.SEP}${content}${MARKERS.END}`;
+    }
+
+    return this.buildConditionOutput(expression, content);
+  }
+
+  /**
+   * Render standalone else/else-if opening tag
+   */
+  renderElse(condition?: string): string {
+    if (condition) {
+      return `<template v-else-if="${this.toAttributeExpression(condition)}">`;
+    }
+    return '<template v-else>';
+  }
+
+  /**
+   * Render variable output
+   *
+   * @example
+   * {{ title }}
+   * {{ title ?? "Untitled" }}
+   */
+  renderVariable(variable: GenVariable): string {
+    return `{{ ${this.buildVariableExpression(variable)} }}`;
+  }
+
+  /**
+   * Render unescaped output through v-html (needs a host element)
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    return `<span v-html="${this.toAttributeExpression(this.buildVariableExpression(variable))}"></span>`;
+  }
+
+  /**
+   * Render slot placeholder
+   *
+   * @example
+   * <slot />
+   * <slot name="header"><h1>Default</h1></slot>
+   */
+  renderSlot(slot: GenSlot, defaultContent: string): string {
+    const { name } = slot;
+    const nameAttr = name === 'default' || name === 'children' ? '' : ` name="${name}"`;
+
+    if (defaultContent.trim()) {
+      return `<slot${nameAttr}>${defaultContent}</slot>`;
+    }
+    return `<slot${nameAttr} />`;
+  }
+
+  /**
+   * Render include/partial as a Vue component
+   *
+   * @example
+   * <Header />
+   * <Card :title="cardTitle" mode="full">...</Card>
+   */
+  renderInclude(include: GenInclude, childrenContent?: string): string {
+    const { partial, props, originalName } = include;
+    const componentName = originalName || this.toComponentName(partial);
+
+    // Vue templates accept multiple roots, so explicit fragments just unwrap
+    if (componentName === 'Fragment' || componentName === 'React.Fragment') {
+      return childrenContent?.trim() ?? '';
+    }
+
+    const propsFragments: string[] = [];
+    let forwardsSlot = false;
+    for (const [prop, value] of Object.entries(props ?? {})) {
+      if (prop.startsWith('__spread_')) {
+        forwardsSlot = this.forwardsProps && value === 'props';
+        const bound = forwardsSlot ? '$attrs' : this.toAttributeExpression(value);
+        propsFragments.push(`v-bind="${bound}"`);
+        continue;
+      }
+      const key = VuePlugin.ATTRIBUTE_ALIASES[prop] ?? prop;
+      const literal = value.match(/^"([^"]*)"$/);
+      propsFragments.push(
+        literal
+          ? `${key}="${this.escapeAttributeValue(literal[1])}"`
+          : `:${key}="${this.toAttributeExpression(value)}"`
+      );
+    }
+    const attrs = propsFragments.length > 0 ? ` ${propsFragments.join(' ')}` : '';
+
+    // React children travel inside the spread; Vue passes them as the default slot
+    if (forwardsSlot && !childrenContent?.trim()) {
+      return `<${componentName}${attrs}><slot /></${componentName}>`;
+    }
+
+    if (childrenContent !== undefined && childrenContent.trim().length > 0) {
+      return `<${componentName}${attrs}>${childrenContent.trim()}</${componentName}>`;
+    }
+    return `<${componentName}${attrs} />`;
+  }
+
+  /**
+   * Render block (Vue has no inheritance — comment markers only)
+   */
+  renderBlock(block: GenBlock, content: string): string {
+    return `<!-- block: ${block.name} -->${content}<!-- /block: ${block.name} -->`;
+  }
+
+  /**
+   * Render extends (not supported in Vue — use composition)
+   */
+  renderExtends(parent: string): string {
+    this.addWarning('Vue does not support template inheritance. Use composition instead.');
+    return `<!-- extends: ${parent} — use composition instead -->`;
+  }
+
+  /**
+   * Render HTML comment
+   */
+  renderComment(comment: string): string {
+    return `<!-- ${comment} -->`;
+  }
+
+  // ===========================================================================
+  // Attribute Rendering (overrides)
+  // ===========================================================================
+
+  /** JSX attribute names that differ from Vue template attributes. */
+  private static readonly ATTRIBUTE_ALIASES: Record<string, string> = {
+    className: 'class',
+    htmlFor: 'for',
+  };
+
+  /**
+   * Override: JSX-only attribute names (className, htmlFor) become HTML names
+   */
+  protected override getHtmlAttributes(properties: GenElement['properties']): Record<string, unknown> {
+    const attributes: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(super.getHtmlAttributes(properties))) {
+      attributes[VuePlugin.ATTRIBUTE_ALIASES[key] ?? key] = value;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Override: expression props become `:attr` bindings
+   */
+  protected override formatAttributes(attributes: Record<string, unknown>): string {
+    const parts: string[] = [];
+
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === true) {
+        parts.push(key);
+      } else if (value === false || value === undefined || value === null) {
+        continue;
+      } else if (typeof value === 'object' && '__expression' in (value as object)) {
+        const expr = (value as { __expression: string }).__expression;
+        parts.push(`:${key}="${this.toAttributeExpression(expr)}"`);
+      } else if (typeof value === 'string') {
+        parts.push(`${key}="${this.escapeAttributeValue(value)}"`);
+      } else {
+        parts.push(`:${key}="${this.toAttributeExpression(JSON.stringify(value))}"`);
+      }
+    }
+
+    return parts.join(' ');
+  }
+
+  // ===========================================================================
+  // Output Filename (Vue convention: PascalCase.vue)
+  // ===========================================================================
+
+  protected override getOutputFilename(tree: GenRoot): string {
+    const componentName = tree.meta?.componentName ?? 'Template';
+    return `${componentName}${this.fileExtension}`;
+  }
+
+  // ===========================================================================
+  // Filter Application (JS-native)
+  // ===========================================================================
+
+  override applyFilter(expression: string, filter: string, args?: string[]): string {
+    const formatter = this.filterMappings.get(filter as StandardFilter);
+    if (formatter) {
+      this.formatters.add(formatter.name);
+      return formatFormatterCall(formatter, expression, args);
+    }
+
+    const jsFilters: Record<string, (e: string, a?: string[]) => string> = {
+      uppercase: (e) => `${e}.toUpperCase()`,
+      lowercase: (e) => `${e}.toLowerCase()`,
+      capitalize: (e) => `${e}.charAt(0).toUpperCase() + ${e}.slice(1)`,
+      trim: (e) => `${e}.trim()`,
+      json: (e) => `JSON.stringify(${e})`,
+      length: (e) => `${e}.length`,
+      join: (e, a) => `${e}.join(${a?.[0] ? `"${a[0]}"` : '", "'})`,
+      split: (e, a) => `${e}.split(${a?.[0] ? `"${a[0]}"` : '","'})`,
+      reverse: (e) => `[...${e}].reverse()`,
+      sort: (e) => `[...${e}].sort()`,
+      first: (e) => `${e}[0]`,
+      last: (e) => `${e}[${e}.length - 1]`,
+      slice: (e, a) => `${e}.slice(${a?.join(', ') ?? '0'})`,
+    };
+
+    // Defaults produce `a ?? "b"`; wrap compound expressions before chaining
+    const subject = /^[\w$.[\]]+$/.test(expression) ? expression : `(${expression})`;
+    const transformer = jsFilters[filter];
+    if (transformer) {
+      return transformer(subject, args);
+    }
+
+    this.addWarning(`Unknown filter "${filter}" — passing as method call`);
+    return args?.length
+      ? `${subject}.${filter}(${args.join(', ')})`
+      : `${subject}.${filter}()`;
+  }
+
+  // ===========================================================================
+  // Validation
+  // ===========================================================================
+
+  override validate(output: string): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+
+    if (output.includes(MARKERS.ELSE) || output.includes(MARKERS.ELSEIF)) {
+      errors.push('Unprocessed condition branch markers found in output');
+    }
+
+    if (!/<template>\n[\s\S]*\n<\/template>\n?$/.test(output) && output.includes('<script setup')) {
+      errors.push('Missing root <template> block');
+    }
+
+    // Ported (or commented-out) script statements may contain `{{` and JSX
+    const markup = output.replace(/<script\b[\s\S]*?<\/script>/, '');
+
+    const templateOpens = (markup.match(/<template[\s>]/g) || []).length;
+    const templateCloses = (markup.match(/<\/template>/g) || []).length;
+    if (templateOpens !== templateCloses) {
+      errors.push(`Unbalanced <template> tags: ${templateOpens} open, ${templateCloses} close`);
+    }
+
+    const outputOpens = (markup.match(/\{\{/g) || []).length;
+    const outputCloses = (markup.match(/\}\}/g) || []).length;
+    if (outputOpens !== outputCloses) {
+      errors.push(`Unbalanced interpolation: ${outputOpens} {{ vs ${outputCloses} }}`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Private: Script Setup
+  // ===========================================================================
+
+  /** Valid JS identifier for prop declarations. */
+  private static readonly VALID_PROP_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+  /** TS primitives and wrappers that compile without imports. */
+  private static readonly SAFE_TYPES = new Set([
+    'string', 'number', 'boolean', 'any', 'unknown', 'null', 'undefined',
+    'Record', 'Array', 'Partial', 'Required', 'Readonly',
+  ]);
+
+  /**
+   * Build `<script setup>` with `defineProps` (and `withDefaults` when the
+   * source declares default values). `children` maps to the default slot.
+   *
+   * When preamble statements are ported, props are destructured (Vue 3.5
+   * reactive props destructure) so the statements can reference them by name.
+   */
+  private buildScriptSetup(propDefs: GenPropDefinition[], preamble: string[]): string {
+    const props = propDefs.filter(
+      (p) => !p.rest && p.name !== 'children' && !p.name.startsWith('__') && VuePlugin.VALID_PROP_NAME.test(p.name)
+    );
+    const { ported, skipped } = this.splitPreamble(preamble);
+    if (skipped.length > 0) {
+      this.addWarning(
+        `${skipped.length} component statement(s) use React hooks or JSX and are not ported to Vue; bindings they declare are undefined`
+      );
+    }
+
+    const lines: string[] = [...buildFormatterImport(this.formatters, this.config.formatModule)];
+
+    if (props.length > 0) {
+      if (lines.length > 0) lines.push('');
+      const fields = props.map(
+        (p) => `  ${p.name}${p.required ? '' : '?'}: ${this.sanitizePropType(p.type)};`
+      );
+      const defineProps = `defineProps<{\n${fields.join('\n')}\n}>()`;
+
+      if (ported.length > 0) {
+        const bindings = props.map((p) =>
+          p.defaultValue !== undefined ? `${p.name} = ${JSON.stringify(p.defaultValue)}` : p.name
+        );
+        lines.push(`const { ${bindings.join(', ')} } = ${defineProps};`);
+      } else {
+        const defaults = props
+          .filter((p) => p.defaultValue !== undefined)
+          .map((p) => `  ${p.name}: ${JSON.stringify(p.defaultValue)},`);
+        lines.push(
+          defaults.length > 0
+            ? `withDefaults(${defineProps}, {\n${defaults.join('\n')}\n});`
+            : `${defineProps};`
+        );
+      }
+    }
+
+    if (ported.length > 0) {
+      if (lines.length > 0) lines.push('');
+      lines.push(...ported);
+    }
+
+    if (skipped.length > 0) {
+      if (lines.length > 0) lines.push('');
+      lines.push('// Not ported from React (rewrite as composables):');
+      for (const statement of skipped) {
+        lines.push(...statement.split('\n').map((line) => `// ${line}`));
+      }
+    }
+
+    if (lines.length === 0) return '';
+    return `<script setup lang="ts">\n${lines.join('\n')}\n</script>`;
+  }
+
+  /**
+   * Ensure a TS type string is valid without imports: React and app-specific
+   * types become `any`; primitives and literal unions are kept.
+   */
+  private sanitizePropType(tsType: string): string {
+    const trimmed = tsType.trim();
+    const isArray = trimmed.endsWith('[]');
+    const base = isArray ? trimmed.slice(0, -2) : trimmed;
+
+    if (VuePlugin.SAFE_TYPES.has(base)) return trimmed;
+
+    const members = base.split('|').map((m) => m.trim());
+    const isLiteralUnion = members.every(
+      (m) => /^(['"]).*\1$/.test(m) || VuePlugin.SAFE_TYPES.has(m) || /^-?\d+(\.\d+)?$/.test(m)
+    );
+    if (isLiteralUnion) return trimmed;
+
+    return isArray ? 'any[]' : 'any';
+  }
+
+  // ===========================================================================
+  // Private: Condition Builders
+  // ===========================================================================
+
+  /**
+   * Split merged if content at the first branch marker and emit sibling
+   * `<template v-if>` / `v-else-if` / `v-else` blocks.
+   */
+  private buildConditionOutput(expression: string, content: string): string {
+    const firstMarker = this.findFirstMarkerPos(content);
+    const ifContent = firstMarker >= 0 ? content.substring(0, firstMarker) : content;
+    const branches = firstMarker >= 0 ? content.substring(firstMarker) : '';
+
+    const ifBlock = `<template v-if="${this.toAttributeExpression(expression)}">${ifContent}</template>`;
+    if (!branches) return ifBlock;
+
+    const resolvedBranches = branches
+      .split(MARKERS.ELSEIF)
+      .map((part, i) => {
+        if (i === 0) return part;
+        const sepIdx = part.indexOf(MARKERS.SEP);
+        const branchExpr = part.substring(0, sepIdx);
+        const rest = part.substring(sepIdx + MARKERS.SEP.length);
+        return `<template v-else-if="${this.toAttributeExpression(branchExpr)}">${rest}`;
+      })
+      .join('')
+      .split(MARKERS.ELSE)
+      .join('<template v-else>')
+      .split(MARKERS.END)
+      .join('</template>');
+
+    return `${ifBlock}${resolvedBranches}`;
+  }
+
+  private findFirstMarkerPos(content: string): number {
+    const positions = [content.indexOf(MARKERS.ELSEIF), content.indexOf(MARKERS.ELSE)]
+      .filter((pos) => pos >= 0);
+    return positions.length > 0 ? Math.min(...positions) : -1;
+  }
+
+  // ===========================================================================
+  // Private: Helpers
+  // ===========================================================================
+
+  private buildVariableExpression(variable: GenVariable): string {
+    const { name, default: defaultValue, filter, filterArgs } = variable;
+
+    let expr = name;
+    if (defaultValue !== undefined) {
+      expr = `${expr} ?? ${this.formatJsValue(defaultValue)}`;
+    }
+    if (filter) {
+      expr = this.applyFilter(expr, filter, filterArgs);
+    }
+    return expr;
+  }
+
+  /**
+   * Convert partial path to PascalCase component name
+   * "partials/user-card" → "UserCard"
+   */
+  private toComponentName(partial: string): string {
+    const basename = partial.split('/').pop() || partial;
+    return basename
+      .replace(/\.\w+$/, '')
+      .split(/[-_]/)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+
+  private formatJsValue(value: string): string {
+    if (!isNaN(Number(value)) && value.trim() !== '') return value;
+    if (value === 'true' || value === 'false') return value;
+    return `"${value}"`;
+  }
+
+  /**
+   * JS expression for a double-quoted directive value: string literals
+   * switch to single quotes, remaining double quotes are entity-escaped.
+   */
+  private toAttributeExpression(expr: string): string {
+    return expr
+      .replace(/"((?:[^"\\']|\\.)*)"/g, "'$1'")
+      .replace(/"/g, '&quot;')
+      .trim();
+  }
+}
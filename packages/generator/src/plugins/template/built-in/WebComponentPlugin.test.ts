@@ -0,0 +1,285 @@
+/**
+ * Tests for WebComponentPlugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WebComponentPlugin } from './WebComponentPlugin';
+import {
+  root,
+  element,
+  text,
+  annotate,
+  type GenRoot,
+} from '../../../hast';
+import type { TemplatePluginContext } from '../ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockContext(): TemplatePluginContext {
+  return {
+    logger: {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+    } as any,
+    config: {
+      fileExtension: '.ts',
+      outputDir: './dist/templates',
+      prettyPrint: false,
+    },
+    outputDir: './dist/templates',
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('WebComponentPlugin', () => {
+  let plugin: WebComponentPlugin;
+
+  beforeEach(async () => {
+    plugin = new WebComponentPlugin();
+    await plugin.initialize(createMockContext());
+  });
+
+  describe('Identity', () => {
+    it('has correct name, extension and runtime', () => {
+      expect(plugin.name).toBe('web-components');
+      expect(plugin.fileExtension).toBe('.ts');
+      expect(plugin.runtime).toBe('js');
+    });
+  });
+
+  describe('renderLoop', () => {
+    it('adds an index for loop metadata and renders the empty branch after the map', () => {
+      expect(plugin.renderLoop({ item: 'dish', collection: 'dishes', first: 'isFirst', last: 'isLast', length: 'total' }, '<li></li>', '<li>None</li>')).toBe(
+        '${dishes.map((dish, index) => html`<li></li>`)}${!dishes?.length ? html`<li>None</li>` : nothing}'
+      );
+    });
+
+    it('renders map with an html template body', () => {
+      expect(plugin.renderLoop({ item: 'item', collection: 'items' }, '<li>${item.name}</li>')).toBe(
+        '${items.map((item) => html`<li>${item.name}</li>`)}'
+      );
+    });
+
+    it('uses the repeat directive for keyed loops', () => {
+      expect(plugin.renderLoop({ item: 'link', collection: 'navItems', key: 'link.id', index: 'i' }, 'x')).toBe(
+        '${repeat(navItems, (link) => link.id, (link, i) => html`x`)}'
+      );
+    });
+  });
+
+  describe('renderCondition', () => {
+    it('renders lone if with nothing', () => {
+      expect(plugin.renderCondition({ expression: 'isActive' }, 'A')).toBe('${isActive ? html`A` : nothing}');
+    });
+
+    it('renders else if and else as a ternary chain', () => {
+      const elseIf = plugin.renderCondition({ expression: 'isPending', isElseIf: true }, 'P');
+      const elseBranch = plugin.renderCondition({ expression: '', isElse: true }, 'E');
+      const result = plugin.renderCondition({ expression: 'isActive' }, `A${elseIf}${elseBranch}`);
+
+      expect(result).toBe('${isActive ? html`A` : isPending ? html`P` : html`E`}');
+    });
+  });
+
+  describe('renderVariable', () => {
+    it('renders expression with default and filter', () => {
+      expect(plugin.renderVariable({ name: 'title', default: 'Untitled' })).toBe('${title ?? "Untitled"}');
+      expect(plugin.renderVariable({ name: 'tags', filter: 'join' })).toBe('${tags.join(", ")}');
+    });
+
+    it('renders raw output with unsafeHTML', () => {
+      expect(plugin.renderRawVariable({ name: 'post.body' })).toBe('${unsafeHTML(post.body)}');
+    });
+
+    it('renders Var formats with the runtime formatters', () => {
+      expect(plugin.renderVariable({ name: 'post.excerpt', filter: 'truncate', filterArgs: ['120'] })).toBe(
+        '${truncate(post.excerpt, 120)}'
+      );
+    });
+  });
+
+  describe('renderSlot', () => {
+    it('renders default and named slots', () => {
+      expect(plugin.renderSlot({ name: 'default' }, '')).toBe('${this.slotted()}');
+      expect(plugin.renderSlot({ name: 'header' }, '<h1>Default</h1>')).toBe(
+        "${this.slotted('header', html`<h1>Default</h1>`)}"
+      );
+    });
+  });
+
+  describe('renderInclude', () => {
+    it('binds expressions as properties and literals as attributes', () => {
+      const result = plugin.renderInclude({
+        partial: 'partials/card',
+        originalName: 'MenuCard',
+        props: { title: 'card.title', displayMode: '"full"', onSelect: 'select' },
+      });
+
+      expect(result).toBe(
+        '<ui8-menu-card .title=${card.title} display-mode="full" @select=${select}></ui8-menu-card>'
+      );
+    });
+
+    it('unwraps explicit Fragment components', () => {
+      expect(plugin.renderInclude({ partial: 'partials/fragment', originalName: 'Fragment' }, '<main></main>')).toBe(
+        '<main></main>'
+      );
+    });
+
+    it('renders core components as native tags with core() classes', () => {
+      const result = plugin.renderInclude(
+        {
+          partial: 'block',
+          originalName: 'Block',
+          props: { component: '"section"', py: '"16"', 'data-class': '"hero-section"' },
+        },
+        '<p>Hi</p>'
+      );
+
+      expect(result).toBe(
+        `<section class=\${core('Block', { py: '16' })} data-class="hero-section"><p>Hi</p></section>`
+      );
+    });
+  });
+
+  describe('transform', () => {
+    it('emits the element class with observed attributes and lit-html template', async () => {
+      const tree: GenRoot = root([
+        element('section', { className: ['hero'] }, [
+          annotate(
+            element('article', {}, [
+              annotate(element('span', {}, []), { variable: { name: 'item.title' }, unwrap: true }),
+            ]),
+            { loop: { item: 'item', collection: 'items' } }
+          ),
+          annotate(element('p', {}, [text("Nothing's here")]), { condition: { expression: 'items.length === 0' } }),
+        ]),
+      ], {
+        sourceFile: 'HeroBlock.tsx',
+        componentName: 'HeroBlock',
+        exports: ['HeroBlock'],
+        dependencies: [],
+        props: [
+          { name: 'items', type: 'MenuItem[]', required: true },
+          { name: 'displayMode', type: "'full' | 'compact'", required: false, defaultValue: "'full'" },
+          { name: 'children', type: 'ReactNode', required: false },
+        ],
+        preamble: ["const label = displayMode === 'full' ? 'All' : 'Some';"],
+        imports: [{ source: '@/types', namedImports: ['MenuItem'], isTypeOnly: true }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.filename).toBe('HeroBlock.ts');
+      expect(output.content).toContain("import { html, nothing } from 'lit-html';");
+      expect(output.content).toContain("import { Ui8Element } from '@/runtime';");
+      expect(output.content).toContain("import type { MenuItem } from '@/types';");
+      expect(output.content).toContain(
+        "export interface HeroBlockProps {\n  items: MenuItem[];\n  displayMode?: 'full' | 'compact';\n}"
+      );
+      expect(output.content).toContain('export class HeroBlockElement extends Ui8Element<HeroBlockProps> {');
+      expect(output.content).toContain("static readonly tagName = 'ui8-hero-block';");
+      expect(output.content).toContain("static readonly observedAttributes = ['items', 'display-mode'];");
+      expect(output.content).toContain("items: 'json',");
+      expect(output.content).toContain("displayMode: 'string',");
+      expect(output.content).toContain("const { items, displayMode = 'full' } = this.props;");
+      expect(output.content).toContain("const label = displayMode === 'full' ? 'All' : 'Some';");
+      expect(output.content).toContain('${items.map((item) => html`<article>${item.title}</article>`)}');
+      expect(output.content).toContain('${items.length === 0 ? html`<p>Nothing&#39;s here</p>` : nothing}');
+      expect(plugin.validate(output.content).valid).toBe(true);
+    });
+
+    it('renders ReactNode props through slotted() and tests them with hasSlot()', async () => {
+      const tree: GenRoot = root([
+        annotate(element('aside', {}, [
+          annotate(element('span', {}, []), { variable: { name: 'sidebar' }, unwrap: true }),
+        ]), { condition: { expression: '!!sidebar' } }),
+        annotate(element('div', {}, []), {
+          include: { partial: 'partials/panel', originalName: 'Panel', props: { aside: 'sidebar' } },
+        }),
+      ], {
+        sourceFile: 'Layout.tsx',
+        componentName: 'Layout',
+        exports: ['Layout'],
+        dependencies: [],
+        props: [{ name: 'sidebar', type: 'ReactNode', required: false }],
+        preamble: [],
+        imports: [{ source: '@/partials', namedImports: ['Panel'], isTypeOnly: false }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain('export type LayoutProps = Record<string, unknown>;');
+      expect(output.content).toContain('static readonly observedAttributes = [];');
+      expect(output.content).not.toContain("from '@/partials'");
+      expect(output.content).toContain("${!!this.hasSlot('sidebar') ? html`<aside>${this.slotted('sidebar')}</aside>` : nothing}");
+      expect(output.content).toContain(
+        `<ui8-panel><div slot="aside" style="display: contents">\${this.slotted('sidebar')}</div></ui8-panel>`
+      );
+    });
+
+    it('forwards props to the wrapped element and comments out hook statements', async () => {
+      const tree: GenRoot = root([
+        annotate(element('div', {}, []), {
+          include: { partial: 'partials/main-layout-view', originalName: 'MainLayoutView', props: { __spread_0: 'props' } },
+        }),
+      ], {
+        sourceFile: 'MainLayout.tsx',
+        componentName: 'MainLayout',
+        exports: ['MainLayout'],
+        dependencies: [],
+        props: [{ name: '__spread_props', type: 'MainLayoutProps', required: true }],
+        preamble: ['const { cart } = useCart();'],
+        imports: [{ source: './views/MainLayoutView', namedImports: ['MainLayoutView'], isTypeOnly: false }],
+      });
+
+      const output = await plugin.transform(tree);
+
+      expect(output.content).toContain("import { Ui8Element, spread } from '@/runtime';");
+      expect(output.content).toContain("static readonly forwardsTo = 'ui8-main-layout-view';");
+      expect(output.content).not.toContain('observedAttributes');
+      expect(output.content).toContain('    // const { cart } = useCart();\n    let cart: any;');
+      expect(output.content).toContain(
+        '<ui8-main-layout-view ${spread(this.props)}>${this.slotted()}</ui8-main-layout-view>'
+      );
+      expect(output.warnings?.[0]).toContain('not ported to the custom element');
+    });
+
+    it('honours the tagPrefix option', async () => {
+      const prefixed = new WebComponentPlugin();
+      const context = createMockContext();
+      await prefixed.initialize({ ...context, config: { ...context.config, tagPrefix: 'resta' } });
+
+      const output = await prefixed.transform(root([element('p', {}, [text('Hi')])], {
+        sourceFile: 'Note.tsx',
+        componentName: 'Note',
+        exports: ['Note'],
+        dependencies: [],
+        props: [],
+        preamble: [],
+        imports: [],
+      }));
+
+      expect(output.content).toContain("static readonly tagName = 'resta-note';");
+    });
+  });
+
+  describe('validate', () => {
+    it('requires a Ui8Element class', () => {
+      const result = plugin.validate("import { html } from 'lit-html';\nexport const a = html`<p></p>`;");
+      expect(result.valid).toBe(false);
+      expect(result.errors?.[0]).toContain('Ui8Element');
+    });
+
+    it('detects unbalanced template literals', () => {
+      expect(plugin.validate('class A extends Ui8Element { t() { return html`<p>; } }').valid).toBe(false);
+    });
+  });
+});
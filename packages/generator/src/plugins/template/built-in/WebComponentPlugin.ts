@@ -0,0 +1,919 @@
+/**
+ * WebComponentPlugin - Template Plugin for Custom Elements
+ *
+ * Transforms GenHAST trees into custom element classes rendered with
+ * lit-html tagged templates, so blocks can be embedded on any page without
+ * a framework.
+ *
+ * DSL → lit-html transformation rules:
+ * - Var       → ${value} or ${value ?? "default"}
+ * - Raw       → ${unsafeHTML(value)}
+ * - If        → ${condition ? html`content` : nothing}
+ * - ElseIf    → chained ternary
+ * - Loop      → ${collection.map((item) => html`content`)} or repeat() when keyed
+ * - Slot      → ${this.slotted('header', html`fallback`)}
+ * - Include   → <ui8-component-name .prop=${value} attr="literal">
+ *
+ * Each file exports `class <Name>Element extends Ui8Element` with
+ * `observedAttributes` derived from the props interface. The runtime base
+ * class (see `generate web-components`) parses attributes, renders into a
+ * shadow root or the element itself (light DOM), and resolves `this.slotted()`
+ * for both modes. @ui8kit/core components compile to native tags whose
+ * classes come from the runtime `core()` resolver.
+ *
+ * @see https://lit.dev/docs/libraries/standalone-templates/
+ */
+
+import { BasePlugin } from '../BasePlugin';
+import type {
+  TemplatePluginFeatures,
+  StandardFilter,
+  LoopMeta,
+} from '../ITemplatePlugin';
+import type {
+  GenRoot,
+  GenChild,
+  GenLoop,
+  GenCondition,
+  GenVariable,
+  GenSlot,
+  GenInclude,
+  GenBlock,
+  GenElement,
+  GenPropDefinition,
+  TemplateOutput,
+} from '../../../hast';
+import { collectVariables, collectDependencies, isElement, isText } from '../../../hast';
+import {
+  FORMATTER_FILTERS,
+  NODE_TYPE,
+  VALID_PROP_NAME,
+  buildComponentImports,
+  buildFormatterImport,
+  collectComponentNames,
+  formatFormatterCall,
+  formatLoopMetaExpression,
+  replaceIdentifier,
+  resolvePropType,
+  toComponentName,
+} from './component-script';
+
+// =============================================================================
+// Branch Markers
+// =============================================================================
+
+/**
+ * Internal markers for condition branch detection.
+ * Else/else-if branches are rendered inside the merged if element; the parent
+ * if block turns them into a ternary chain.
+ */
+const MARKERS = {
+  ELSE: '___WC_ELSE___',
+  ELSEIF: '___WC_ELSEIF___',
+  SEP: '___WC_SEP___',
+  END: '___WC_END___',
+} as const;
+
+// =============================================================================
+// Core Components
+// =============================================================================
+
+interface CoreElement {
+  /** Native tag, or a resolver reading include props (Title order, Button href) */
+  tag: string | ((props: Record<string, string>) => string);
+  dataClass: string;
+  /** Props consumed by the component even when they look like DOM attributes */
+  consumes?: string[];
+  /** Props with no custom element counterpart (resolved into the tag or dropped) */
+  ignores?: string[];
+}
+
+const headingTag = (fallback: number) => (props: Record<string, string>): string => {
+  const level = props.order?.replace(/^"(.*)"$/, '$1');
+  return level && /^[1-6]$/.test(level) ? `h${level}` : `h${fallback}`;
+};
+
+/**
+ * @ui8kit/core components compiled to native tags. Their utility and variant
+ * props are resolved to classes at runtime by `core(name, props, className)`.
+ */
+const CORE_ELEMENTS: Record<string, CoreElement> = {
+  Block: { tag: 'div', dataClass: 'block' },
+  Container: { tag: 'div', dataClass: 'container' },
+  Stack: { tag: 'div', dataClass: 'stack' },
+  Group: { tag: 'div', dataClass: 'group' },
+  Box: { tag: 'div', dataClass: 'box' },
+  Title: { tag: headingTag(1), dataClass: 'title', ignores: ['order'] },
+  Text: { tag: 'p', dataClass: 'text' },
+  Button: { tag: (props) => (props.href !== undefined ? 'a' : 'button'), dataClass: 'button' },
+  Badge: { tag: 'span', dataClass: 'badge' },
+  Image: { tag: 'img', dataClass: 'image' },
+  Icon: { tag: 'span', dataClass: 'icon', ignores: ['lucideIcon'] },
+  Grid: { tag: 'div', dataClass: 'Grid' },
+  Card: { tag: 'div', dataClass: 'card' },
+  CardHeader: { tag: 'div', dataClass: 'card-header' },
+  CardTitle: { tag: headingTag(3), dataClass: 'card-title', ignores: ['order'] },
+  CardDescription: { tag: 'p', dataClass: 'card-description' },
+  CardContent: { tag: 'div', dataClass: 'card-content' },
+  CardFooter: { tag: 'div', dataClass: 'card-footer' },
+  Sheet: { tag: 'div', dataClass: 'sheet', consumes: ['title'] },
+  Field: { tag: 'input', dataClass: 'field' },
+};
+
+/** Props rendered as DOM attributes on core elements (everything else is a utility or variant prop). */
+const DOM_ATTRIBUTES = new Set([
+  'id', 'href', 'src', 'alt', 'title', 'type', 'role', 'for', 'name', 'value',
+  'placeholder', 'target', 'rel', 'disabled', 'checked', 'tabindex', 'width',
+  'height', 'loading', 'style', 'action', 'method',
+]);
+
+const VOID_TAGS = new Set(['img', 'input', 'br', 'hr']);
+
+/** lit-html directive modules, by export name. */
+const DIRECTIVE_MODULES: Record<string, string> = {
+  ifDefined: 'lit-html/directives/if-defined.js',
+  repeat: 'lit-html/directives/repeat.js',
+  styleMap: 'lit-html/directives/style-map.js',
+  unsafeHTML: 'lit-html/directives/unsafe-html.js',
+};
+
+const EVENT_PROP = /^on([A-Z]\w*)$/;
+
+// =============================================================================
+// WebComponentPlugin Implementation
+// =============================================================================
+
+export class WebComponentPlugin extends BasePlugin {
+  // ===========================================================================
+  // Identity
+  // ===========================================================================
+
+  readonly name = 'web-components';
+  readonly version = '1.0.0';
+  readonly runtime = 'js' as const;
+  readonly fileExtension = '.ts';
+  readonly description = 'Custom element classes with lit-html templates (shadow or light DOM)';
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  readonly features: TemplatePluginFeatures = {
+    supportsInheritance: false,
+    supportsPartials: true,
+    supportsFilters: false, // lit-html templates use JS expressions, not filters
+    supportsMacros: false,
+    supportsAsync: false,
+    supportsRaw: true,
+    supportsComments: true,
+  };
+
+  // ===========================================================================
+  // Filter Mappings (lit-html uses native JS methods)
+  // ===========================================================================
+
+  protected override initializeFilterMappings(): void {
+    // lit-html has no template filters; formats call the runtime formatters
+    for (const [standard, definition] of FORMATTER_FILTERS) {
+      this.filterMappings.set(standard, definition);
+    }
+  }
+
+  // ===========================================================================
+  // Full-File Transformation (module + element class)
+  // ===========================================================================
+
+  /** ReactNode props rendered through `this.slotted()` instead of values. */
+  private slotProps = new Set<string>();
+
+  /** `(props: Type)` signature: `{...props}` spreads forward `this.props` and the default slot. */
+  private forwardsProps = false;
+
+  /** lit-html directives referenced by the rendered template. */
+  private directives = new Set<string>();
+
+  /** Runtime helpers referenced by the rendered template, besides Ui8Element. */
+  private helpers = new Set<string>();
+
+  /** Runtime formatters referenced by the rendered template. */
+  private formatters = new Set<string>();
+
+  /** Whether a condition without else renders lit-html `nothing`. */
+  private usesNothing = false;
+
+  /** Tag receiving `{...props}`; the runtime copies its attribute table to the forwarding element. */
+  private forwardsTo?: string;
+
+  async transform(tree: GenRoot): Promise<TemplateOutput> {
+    this.warnings = [];
+    this.currentDepth = 0;
+    this.directives = new Set();
+    this.helpers = new Set();
+    this.formatters = new Set();
+    this.usesNothing = false;
+    this.forwardsTo = undefined;
+
+    const propDefs = tree.meta?.props ?? [];
+    this.forwardsProps = propDefs.some((p) => p.name === '__spread_props');
+    this.slotProps = new Set(
+      propDefs
+        .filter((p) => p.name !== 'children' && NODE_TYPE.test(p.type))
+        .map((p) => p.name)
+    );
+
+    const markup = await this.transformChildren(this.escapeTextNodes(tree.children));
+
+    return {
+      filename: this.getOutputFilename(tree),
+      content: this.buildModule(tree, propDefs, markup),
+      variables: collectVariables(tree),
+      dependencies: collectDependencies(tree),
+      warnings: this.warnings.length > 0 ? this.warnings : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Annotation Renderers
+  // ===========================================================================
+
+  /**
+   * Render loop construct
+   *
+   * Keyed loops use the `repeat` directive so DOM nodes follow their items.
+   * `<Loop.Empty>` renders after the loop when the collection is empty.
+   *
+   * @example
+   * ${items.map((item) => html`<li>${item.name}</li>`)}
+   * ${repeat(items, (item) => item.id, (item) => html`<li>${item.name}</li>`)}
+   * ${!items?.length ? html`<p>No items</p>` : nothing}
+   */
+  renderLoop(loop: GenLoop, content: string, emptyContent?: string): string {
+    const { item, collection, key } = loop;
+    const index = this.getLoopIndex(loop);
+    const params = index ? `(${item}, ${index})` : `(${item})`;
+    const source = this.wrapCompound(this.formatExpression(collection));
+
+    let emptyBranch = '';
+    if (emptyContent !== undefined) {
+      this.usesNothing = true;
+      emptyBranch = `\${!${source}?.length ? html\`${emptyContent}\` : nothing}`;
+    }
+
+    if (key) {
+      this.directives.add('repeat');
+      return `\${repeat(${source}, (${item}) => ${key}, ${params} => html\`${content}\`)}${emptyBranch}`;
+    }
+    return `\${${source}.map(${params} => html\`${content}\`)}${emptyBranch}`;
+  }
+
+  /**
+   * Loop metadata as expressions over the callback index
+   */
+  protected override formatLoopMeta(loop: GenLoop, meta: LoopMeta): string {
+    return formatLoopMetaExpression(meta, this.getLoopIndex(loop)!, loop.collection);
+  }
+
+  /**
+   * Index parameter of a loop callback; loops with metadata always get one
+   */
+  private getLoopIndex(loop: GenLoop): string | undefined {
+    return loop.index ?? (this.getLoopMetaNames(loop).length > 0 ? 'index' : undefined);
+  }
+
+  /**
+   * Render conditional construct
+   *
+   * Else/ElseIf branches emit markers that the parent if block consumes.
+   *
+   * @example
+   * ${isActive ? html`A` : nothing}
+   * ${isActive ? html`A` : isPending ? html`P` : html`B`}
+   */
+  renderCondition(condition: GenCondition, content: string): string {
+    const { expression, isElse, isElseIf } = condition;
+
+    if (isElse) {
+      return `${MARKERS.ELSE}${content}${MARKERS.END}`;
+    }
+
+    if (isElseIf) {
+      return `${MARKERS.ELSEIF}${expression}${MARKERS.SEP}${content}${MARKERS.END}`;
+    }
+
+    return this.buildConditionOutput(expression, content);
+  }
+
+  /**
+   * Render else/else-if continuation of a ternary chain
+   */
+  renderElse(condition?: string): string {
+    if (condition) {
+      return ` : ${this.formatExpression(condition)} ? `;
+    }
+    return ' : ';
+  }
+
+  /**
+   * Render variable output
+   *
+   * ReactNode props are rendered through their named slot.
+   *
+   * @example
+   * ${title}
+   * ${title ?? "Untitled"}
+   * ${this.slotted('sidebar')}
+   */
+  renderVariable(variable: GenVariable): string {
+    if (this.slotProps.has(variable.name)) {
+      return `\${this.slotted('${variable.name}')}`;
+    }
+    return `\${${this.buildVariableExpression(variable)}}`;
+  }
+
+  /**
+   * Render unescaped output
+   *
+   * @example
+   * ${unsafeHTML(post.body)}
+   */
+  override renderRawVariable(variable: GenVariable): string {
+    this.directives.add('unsafeHTML');
+    return `\${unsafeHTML(${this.buildVariableExpression(variable)})}`;
+  }
+
+  /**
+   * Render slot placeholder
+   *
+   * `this.slotted()` emits a native `<slot>` in shadow DOM and the captured
+   * child nodes in light DOM.
+   *
+   * @example
+   * ${this.slotted()}
+   * ${this.slotted('header', html`<h1>Default</h1>`)}
+   */
+  renderSlot(slot: GenSlot, defaultContent: string): string {
+    const { name } = slot;
+    const isDefault = name === 'default' || name === 'children';
+
+    if (defaultContent.trim()) {
+      return `\${this.slotted(${isDefault ? 'undefined' : `'${name}'`}, html\`${defaultContent}\`)}`;
+    }
+    return isDefault ? '${this.slotted()}' : `\${this.slotted('${name}')}`;
+  }
+
+  /**
+   * Render include/partial as a nested custom element
+   *
+   * Expressions bind to properties (`.prop=${value}`), literals to attributes.
+   * Slot props passed through (`sidebar={sidebar}`) are forwarded as slotted
+   * `display: contents` wrappers.
+   *
+   * @example
+   * <ui8-header></ui8-header>
+   * <ui8-card .title=${cardTitle} mode="full">...</ui8-card>
+   */
+  renderInclude(include: GenInclude, childrenContent?: string): string {
+    const { partial, props, originalName } = include;
+    const componentName = originalName || toComponentName(partial);
+    const children = childrenContent?.trim() ?? '';
+
+    // Templates accept multiple roots, so explicit fragments just unwrap
+    if (componentName === 'Fragment' || componentName === 'React.Fragment') {
+      return children;
+    }
+
+    const core = CORE_ELEMENTS[componentName];
+    if (core) {
+      return this.renderCoreElement(componentName, core, props ?? {}, children);
+    }
+
+    const bindings: string[] = [];
+    const forwardedSlots: string[] = [];
+    let forwardsSlot = false;
+
+    for (const [prop, value] of Object.entries(props ?? {})) {
+      if (prop.startsWith('__spread_')) {
+        forwardsSlot = this.forwardsProps && value === 'props';
+        this.helpers.add('spread');
+        bindings.push(`\${spread(${forwardsSlot ? 'this.props' : this.formatExpression(value)})}`);
+        continue;
+      }
+      if (this.slotProps.has(value)) {
+        forwardedSlots.push(`<div slot="${prop}" style="display: contents">\${this.slotted('${value}')}</div>`);
+        continue;
+      }
+      const literal = value.match(/^"([^"]*)"$/);
+      bindings.push(
+        literal
+          ? `${this.toAttributeName(prop)}="${this.escapeStaticValue(literal[1])}"`
+          : this.formatBinding(prop, value, 'property')
+      );
+    }
+
+    const tag = this.toTagName(componentName);
+    if (forwardsSlot) {
+      this.forwardsTo = tag;
+    }
+    const attrs = bindings.length > 0 ? ` ${bindings.join(' ')}` : '';
+    // React children travel inside the spread; custom elements receive them as the default slot
+    const body = [...forwardedSlots, children || (forwardsSlot ? '${this.slotted()}' : '')].join('');
+    return `<${tag}${attrs}>${body}</${tag}>`;
+  }
+
+  /**
+   * Render block (no inheritance — comment markers only)
+   */
+  renderBlock(block: GenBlock, content: string): string {
+    return `<!-- block: ${block.name} -->${content}<!-- /block: ${block.name} -->`;
+  }
+
+  /**
+   * Render extends (not supported — compose elements instead)
+   */
+  renderExtends(parent: string): string {
+    this.addWarning('Custom elements do not support template inheritance. Compose layout elements instead.');
+    return `<!-- extends: ${parent} — compose a layout element instead -->`;
+  }
+
+  /**
+   * Render HTML comment
+   */
+  renderComment(comment: string): string {
+    return `<!-- ${comment} -->`;
+  }
+
+  // ===========================================================================
+  // Core Components
+  // ===========================================================================
+
+  /**
+   * Render a @ui8kit/core component as its native tag. DOM attributes and
+   * events stay on the tag; utility and variant props resolve to classes
+   * through the runtime `core()` helper.
+   *
+   * @example
+   * <section class=${core('Block', { py: '16' })} data-class="hero-section">...</section>
+   */
+  private renderCoreElement(
+    name: string,
+    core: CoreElement,
+    props: Record<string, string>,
+    children: string
+  ): string {
+    const { component, className, ...rest } = props;
+    let tag = typeof core.tag === 'function' ? core.tag(rest) : core.tag;
+    const componentTag = component?.match(/^"([a-z][\w-]*)"$/);
+    if (componentTag) {
+      tag = componentTag[1];
+    } else if (component !== undefined) {
+      this.addWarning(`Dynamic "component" prop on ${name} is not supported; rendered as <${tag}>`);
+    }
+
+    const attributes: Record<string, unknown> = {};
+    const coreProps: string[] = [];
+    const spreads: string[] = [];
+    for (const [key, value] of Object.entries(rest)) {
+      const literal = value.match(/^"([^"]*)"$/);
+      if (key.startsWith('__spread_')) {
+        // Spread props carry both utility props and DOM attributes
+        this.helpers.add('spread');
+        coreProps.push(`...${this.formatExpression(value)}`);
+        spreads.push(`\${spread(${this.formatExpression(value)})}`);
+      } else if (core.ignores?.includes(key)) {
+        const warning = 'Icon glyphs (lucideIcon) have no custom element counterpart; icons render empty';
+        if (key === 'lucideIcon' && !this.warnings.includes(warning)) this.addWarning(warning);
+      } else if (core.consumes?.includes(key)) {
+        coreProps.push(`${this.formatObjectKey(key)}: ${this.formatPropValue(value)}`);
+      } else if (DOM_ATTRIBUTES.has(key) || /^(data|aria)-/.test(key) || EVENT_PROP.test(key)) {
+        attributes[key] = literal ? literal[1] : { __expression: value };
+      } else {
+        coreProps.push(`${this.formatObjectKey(key)}: ${this.formatPropValue(value)}`);
+      }
+    }
+    if (attributes['data-class'] === undefined) {
+      attributes['data-class'] = core.dataClass;
+    }
+
+    this.helpers.add('core');
+    const classArgs = [`'${name}'`];
+    if (coreProps.length > 0 || className !== undefined) {
+      classArgs.push(coreProps.length > 0 ? `{ ${coreProps.join(', ')} }` : '{}');
+    }
+    if (className !== undefined) {
+      classArgs.push(this.formatPropValue(className));
+    }
+
+    const attrs = [`class=\${core(${classArgs.join(', ')})}`, this.formatAttributes(attributes), ...spreads]
+      .filter(Boolean)
+      .join(' ');
+    if (VOID_TAGS.has(tag)) {
+      return `<${tag} ${attrs} />`;
+    }
+    return `<${tag} ${attrs}>${children}</${tag}>`;
+  }
+
+  // ===========================================================================
+  // Attribute Rendering (overrides)
+  // ===========================================================================
+
+  /** JSX attribute names that differ from HTML attributes. */
+  private static readonly ATTRIBUTE_ALIASES: Record<string, string> = {
+    className: 'class',
+    htmlFor: 'for',
+  };
+
+  /**
+   * Override: JSX-only attribute names (className, htmlFor) become HTML names
+   */
+  protected override getHtmlAttributes(properties: GenElement['properties']): Record<string, unknown> {
+    const attributes: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(super.getHtmlAttributes(properties))) {
+      attributes[WebComponentPlugin.ATTRIBUTE_ALIASES[key] ?? key] = value;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Override: expressions become lit-html bindings (`@event`, `style`, attributes)
+   */
+  protected override formatAttributes(attributes: Record<string, unknown>): string {
+    const parts: string[] = [];
+
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === true) {
+        parts.push(key);
+      } else if (value === false || value === undefined || value === null) {
+        continue;
+      } else if (typeof value === 'object' && '__expression' in (value as object)) {
+        parts.push(this.formatBinding(key, (value as { __expression: string }).__expression, 'attribute'));
+      } else {
+        parts.push(`${key}="${this.escapeStaticValue(String(value))}"`);
+      }
+    }
+
+    return parts.join(' ');
+  }
+
+  // ===========================================================================
+  // Output Filename (PascalCase.ts, one element class per module)
+  // ===========================================================================
+
+  protected override getOutputFilename(tree: GenRoot): string {
+    const componentName = tree.meta?.componentName ?? 'Template';
+    return `${componentName}${this.fileExtension}`;
+  }
+
+  // ===========================================================================
+  // Filter Application (JS-native)
+  // ===========================================================================
+
+  override applyFilter(expression: string, filter: string, args?: string[]): string {
+    const formatter = this.filterMappings.get(filter as StandardFilter);
+    if (formatter) {
+      this.formatters.add(formatter.name);
+      return formatFormatterCall(formatter, expression, args);
+    }
+
+    const jsFilters: Record<string, (e: string, a?: string[]) => string> = {
+      uppercase: (e) => `${e}.toUpperCase()`,
+      lowercase: (e) => `${e}.toLowerCase()`,
+      capitalize: (e) => `${e}.charAt(0).toUpperCase() + ${e}.slice(1)`,
+      trim: (e) => `${e}.trim()`,
+      json: (e) => `JSON.stringify(${e})`,
+      length: (e) => `${e}.length`,
+      join: (e, a) => `${e}.join(${a?.[0] ? `"${a[0]}"` : '", "'})`,
+      split: (e, a) => `${e}.split(${a?.[0] ? `"${a[0]}"` : '","'})`,
+      reverse: (e) => `[...${e}].reverse()`,
+      sort: (e) => `[...${e}].sort()`,
+      first: (e) => `${e}[0]`,
+      last: (e) => `${e}[${e}.length - 1]`,
+      slice: (e, a) => `${e}.slice(${a?.join(', ') ?? '0'})`,
+    };
+
+    // Defaults produce `a ?? "b"`; wrap compound expressions before chaining
+    const subject = this.wrapCompound(expression);
+    const transformer = jsFilters[filter];
+    if (transformer) {
+      return transformer(subject, args);
+    }
+
+    this.addWarning(`Unknown filter "${filter}" — passing as method call`);
+    return args?.length
+      ? `${subject}.${filter}(${args.join(', ')})`
+      : `${subject}.${filter}()`;
+  }
+
+  // ===========================================================================
+  // Validation
+  // ===========================================================================
+
+  override validate(output: string): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
+
+    if (Object.values(MARKERS).some((marker) => output.includes(marker))) {
+      errors.push('Unprocessed condition branch markers found in output');
+    }
+
+    if (!/class \w+ extends Ui8Element\b/.test(output)) {
+      errors.push('No custom element class extending Ui8Element found');
+    }
+
+    const backticks = (output.match(/(?<!\\)`/g) || []).length;
+    if (backticks % 2 !== 0) {
+      errors.push(`Unbalanced template literals: ${backticks} backticks`);
+    }
+
+    const braceOpens = (output.match(/\{/g) || []).length;
+    const braceCloses = (output.match(/\}/g) || []).length;
+    if (braceOpens !== braceCloses) {
+      errors.push(`Unbalanced braces: ${braceOpens} { vs ${braceCloses} }`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Private: Module
+  // ===========================================================================
+
+  /**
+   * Build the element module: lit-html and runtime imports, the props
+   * interface, and the element class with its attribute table and template.
+   */
+  private buildModule(tree: GenRoot, propDefs: GenPropDefinition[], markup: string): string {
+    const componentName = tree.meta?.componentName ?? 'Template';
+    const imports = tree.meta?.imports ?? [];
+    const props = propDefs.filter(
+      (p) =>
+        !p.rest &&
+        p.name !== 'children' &&
+        !p.name.startsWith('__') &&
+        !this.slotProps.has(p.name) &&
+        VALID_PROP_NAME.test(p.name)
+    );
+    const { ported, skipped } = this.splitPreamble(tree.meta?.preamble ?? []);
+    if (skipped.length > 0) {
+      this.addWarning(
+        `${skipped.length} component statement(s) use React hooks or JSX and are not ported to the custom element; bindings they declare are undefined`
+      );
+    }
+
+    const typeNames = new Set<string>();
+    const fields = props.map(
+      (p) => `  ${p.name}${p.required ? '' : '?'}: ${resolvePropType(p.type, imports, typeNames)};`
+    );
+    const propsInterface = `${componentName}Props`;
+
+    const { lines: valueImports, missing } = buildComponentImports({
+      componentNames: collectComponentNames(tree.children),
+      typeNames,
+      imports,
+      // String literals (core props like `title: 'Menu'`) never reference imports
+      markup: [markup, ...ported].join('\n').replace(/"[^"]*"|'(?:[^'\\]|\\.)*'/g, '""'),
+      fileExtension: this.fileExtension,
+      importComponents: false,
+    });
+    for (const name of missing) {
+      this.addWarning(`Component "${name}" has no source import`);
+    }
+
+    const litNames = this.usesNothing ? ['html', 'nothing'] : ['html'];
+    const directiveImports = [...this.directives]
+      .sort()
+      .map((name) => `import { ${name} } from '${DIRECTIVE_MODULES[name]}';`);
+    const runtimeNames = ['Ui8Element', ...[...this.helpers].sort()];
+
+    const importLines = [
+      `import { ${litNames.join(', ')} } from 'lit-html';`,
+      ...directiveImports,
+      `import { ${runtimeNames.join(', ')} } from '${this.getRuntimeModule()}';`,
+      ...buildFormatterImport(this.formatters, this.config.formatModule),
+      ...valueImports,
+    ];
+
+    const attributeTypes = props.map((p) => `    ${p.name}: '${this.toAttributeType(p.type)}',`);
+    const observed = props.map((p) => `'${this.toAttributeName(p.name)}'`);
+    const bindings = props.map((p) =>
+      p.defaultValue !== undefined ? `${p.name} = ${this.formatDefaultValue(p.defaultValue)}` : p.name
+    );
+    // `...rest` collects attributes and properties outside the attribute table
+    const restProp = propDefs.find((p) => p.rest && VALID_PROP_NAME.test(p.name));
+    if (restProp) {
+      bindings.push(`...${restProp.name}`);
+    }
+
+    const body: string[] = [];
+    if (bindings.length > 0) {
+      body.push(`    const { ${bindings.join(', ')} } = this.props;`);
+    }
+    body.push(...ported.flatMap((statement) => this.formatExpression(statement).split('\n').map((line) => `    ${line}`)));
+    if (skipped.length > 0) {
+      // Declared so the module type-checks; templates reading them need element properties instead
+      const unported = skipped.flatMap((statement) => this.getDeclaredNames(statement));
+      body.push(
+        '    // Not ported from React (move client state into element properties):',
+        ...skipped.flatMap((statement) => statement.split('\n').map((line) => `    // ${line}`)),
+        ...(unported.length > 0 ? [`    let ${unported.map((name) => `${name}: any`).join(', ')};`] : [])
+      );
+    }
+    body.push(`    return html\`${this.formatOutput(markup)}\`;`);
+
+    const classLines = [
+      `export class ${componentName}Element extends Ui8Element<${propsInterface}> {`,
+      `  static readonly tagName = '${this.toTagName(componentName)}';`,
+      this.forwardsTo
+        ? `  static readonly forwardsTo = '${this.forwardsTo}';`
+        : `  static readonly observedAttributes = [${observed.join(', ')}];`,
+      ...(restProp ? ['  static readonly acceptsRest = true;'] : []),
+      ...(attributeTypes.length > 0
+        ? ['  static readonly attributeTypes = {', ...attributeTypes, '  } as const;']
+        : []),
+      '',
+      '  protected template() {',
+      ...body,
+      '  }',
+      '}',
+    ];
+
+    return [
+      importLines.join('\n'),
+      fields.length > 0
+        ? [`export interface ${propsInterface} {`, ...fields, '}'].join('\n')
+        : `export type ${propsInterface} = Record<string, unknown>;`,
+      classLines.join('\n'),
+    ].join('\n\n') + '\n';
+  }
+
+  // ===========================================================================
+  // Private: Condition Builders
+  // ===========================================================================
+
+  /**
+   * Split merged if content at the first branch marker and emit a ternary
+   * chain ending in `nothing` when there is no else branch.
+   */
+  private buildConditionOutput(expression: string, content: string): string {
+    const firstMarker = this.findFirstMarkerPos(content);
+    const ifContent = firstMarker >= 0 ? content.substring(0, firstMarker) : content;
+    const branches = firstMarker >= 0 ? content.substring(firstMarker) : '';
+
+    let chain = `${this.formatExpression(expression)} ? html\`${ifContent}\``;
+    let hasElse = false;
+    let rest = branches;
+
+    while (rest.length > 0) {
+      if (rest.startsWith(MARKERS.ELSEIF)) {
+        const sepIdx = rest.indexOf(MARKERS.SEP);
+        const endIdx = rest.indexOf(MARKERS.END, sepIdx);
+        const branchExpr = rest.substring(MARKERS.ELSEIF.length, sepIdx);
+        const branchContent = rest.substring(sepIdx + MARKERS.SEP.length, endIdx);
+        chain += `${this.renderElse(branchExpr)}html\`${branchContent}\``;
+        rest = rest.substring(endIdx + MARKERS.END.length);
+      } else if (rest.startsWith(MARKERS.ELSE)) {
+        const endIdx = rest.indexOf(MARKERS.END);
+        const branchContent = rest.substring(MARKERS.ELSE.length, endIdx);
+        chain += `${this.renderElse()}html\`${branchContent}\``;
+        hasElse = true;
+        rest = rest.substring(endIdx + MARKERS.END.length);
+      } else {
+        // Whitespace between merged branches
+        rest = rest.substring(1);
+      }
+    }
+
+    this.usesNothing ||= !hasElse;
+    return `\${${chain}${hasElse ? '' : ' : nothing'}}`;
+  }
+
+  private findFirstMarkerPos(content: string): number {
+    const positions = [content.indexOf(MARKERS.ELSEIF), content.indexOf(MARKERS.ELSE)]
+      .filter((pos) => pos >= 0);
+    return positions.length > 0 ? Math.min(...positions) : -1;
+  }
+
+  // ===========================================================================
+  // Private: Helpers
+  // ===========================================================================
+
+  private buildVariableExpression(variable: GenVariable): string {
+    const { name, default: defaultValue, filter, filterArgs } = variable;
+
+    let expr = this.formatExpression(name);
+    if (defaultValue !== undefined) {
+      expr = `${expr} ?? ${this.formatJsValue(defaultValue)}`;
+    }
+    if (filter) {
+      expr = this.applyFilter(expr, filter, filterArgs);
+    }
+    return expr;
+  }
+
+  /**
+   * lit-html binding for a JSX prop: `onClick` → `@click`, style objects →
+   * `styleMap`, attributes skip undefined values, include props bind properties.
+   */
+  private formatBinding(key: string, expr: string, target: 'attribute' | 'property'): string {
+    const value = this.formatExpression(expr);
+    const event = key.match(EVENT_PROP);
+    if (event) {
+      return `@${event[1].toLowerCase()}=\${${value}}`;
+    }
+    if (key === 'style' && value.startsWith('{')) {
+      this.directives.add('styleMap');
+      return `style=\${styleMap(${value})}`;
+    }
+    if (target === 'property' && !/^(data|aria)-/.test(key) && !(key in WebComponentPlugin.ATTRIBUTE_ALIASES)) {
+      return `.${key}=\${${value}}`;
+    }
+    this.directives.add('ifDefined');
+    return `${WebComponentPlugin.ATTRIBUTE_ALIASES[key] ?? key}=\${ifDefined(${value})}`;
+  }
+
+  /** JS source for an include prop value: `"16"` literals become `'16'`, expressions pass through. */
+  private formatPropValue(value: string): string {
+    const literal = value.match(/^"([^"]*)"$/);
+    if (literal) {
+      return `'${literal[1].replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+    return this.formatExpression(value);
+  }
+
+  private formatJsValue(value: string): string {
+    if (!isNaN(Number(value)) && value.trim() !== '') return value;
+    if (value === 'true' || value === 'false') return value;
+    return `"${value}"`;
+  }
+
+  /** Prop defaults are recorded as source text (`'right'`, `4`); bare words become strings. */
+  private formatDefaultValue(value: unknown): string {
+    if (typeof value !== 'string') return JSON.stringify(value);
+    return /^(['"`\d[{-]|true$|false$|null$|undefined$)/.test(value.trim()) ? value.trim() : JSON.stringify(value);
+  }
+
+  private formatObjectKey(key: string): string {
+    return VALID_PROP_NAME.test(key) ? key : `'${key}'`;
+  }
+
+  /** Attribute parser for a prop type; unknown aliases fall back to JSON (raw string when unparsable). */
+  private toAttributeType(tsType: string): 'string' | 'number' | 'boolean' | 'json' {
+    const type = tsType.trim();
+    if (type === 'string' || /^(['"][^'"]*['"]\s*\|?\s*)+$/.test(type)) return 'string';
+    if (type === 'number') return 'number';
+    if (type === 'boolean') return 'boolean';
+    return 'json';
+  }
+
+  private toAttributeName(prop: string): string {
+    return WebComponentPlugin.ATTRIBUTE_ALIASES[prop] ?? this.toKebabCase(prop);
+  }
+
+  private toTagName(componentName: string): string {
+    const prefix = typeof this.config.tagPrefix === 'string' ? this.config.tagPrefix : 'ui8';
+    return `${prefix}-${this.toKebabCase(componentName)}`;
+  }
+
+  private getRuntimeModule(): string {
+    return typeof this.config.runtimeModule === 'string' ? this.config.runtimeModule : '@/runtime';
+  }
+
+  /** Wrap expressions that are not plain member paths before chaining. */
+  private wrapCompound(expression: string): string {
+    return /^[\w$.[\]]+$/.test(expression) ? expression : `(${expression})`;
+  }
+
+  /** Static text inside a tagged template: escape backticks, backslashes and `${`. */
+  private escapeStaticValue(value: string): string {
+    return this.escapeAttributeValue(value).replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  }
+
+  private escapeTextNodes(children: GenChild[]): GenChild[] {
+    return children.map((child) => {
+      if (isText(child)) {
+        // Apostrophes become entities so text never reads as a JS string when scanning imports
+        const value = child.value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+        return { ...child, value: value.replace(/'/g, '&#39;') };
+      }
+      if (isElement(child)) {
+        return { ...child, children: this.escapeTextNodes(child.children) };
+      }
+      return child;
+    });
+  }
+
+  /**
+   * Format expression for custom elements: slot props are tested through
+   * `this.hasSlot()`
+   */
+  protected override formatExpression(expr: string): string {
+    let result = expr.trim();
+    for (const name of this.slotProps) {
+      result = replaceIdentifier(result, name, `this.hasSlot('${name}')`);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Script helpers shared by component-framework plugins (Svelte, Astro, Web Components).
+ *
+ * These targets compile markup that references other components by tag, so
+ * each output file needs its own imports and typed props, derived from the
+ * source file's imports and GenComponentMeta.props.
+ */
+
+import type { GenChild, GenSourceImport } from '../../../hast';
+import { getAnnotations, isElement } from '../../../hast';
+import type { FilterDefinition, LoopMeta, StandardFilter } from '../ITemplatePlugin';
+
+/** Sources whose bindings have no meaning outside React. */
+const REACT_ONLY_SOURCES = new Set(['react', 'react-dom', '@ui8kit/dsl']);
+
+/** TS primitives and wrappers that compile without imports. */
+const SAFE_TYPES = new Set([
+  'string', 'number', 'boolean', 'any', 'unknown', 'null', 'undefined',
+  'Record', 'Array', 'Partial', 'Required', 'Readonly',
+]);
+
+/** React node types that map to slots. */
+export const NODE_TYPE = /^(React\.)?(ReactNode|ReactElement|JSX\.Element)\b/;
+
+/** Valid JS identifier for prop declarations. */
+export const VALID_PROP_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Convert partial path to PascalCase component name
+ * "partials/user-card" → "UserCard"
+ */
+export function toComponentName(partial: string): string {
+  const basename = partial.split('/').pop() || partial;
+  return basename
+    .replace(/\.\w+$/, '')
+    .split(/[-_]/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Component tags used in the markup: PascalCase passthrough elements and
+ * include annotations (except unwrapped fragments).
+ */
+export function collectComponentNames(children: GenChild[], names = new Set<string>()): Set<string> {
+  for (const child of children) {
+    if (!isElement(child)) continue;
+
+    const include = getAnnotations(child)?.include;
+    const name = include ? include.originalName || toComponentName(include.partial) : child.tagName;
+    if (/^[A-Z]/.test(name) && name !== 'Fragment' && !name.includes('.')) {
+      names.add(name);
+    }
+
+    collectComponentNames(child.children, names);
+  }
+  return names;
+}
+
+/**
+ * Keep a prop type when every referenced type name is a primitive or is
+ * imported by the source (recorded in `typeNames`); otherwise fall back to `any`.
+ */
+export function resolvePropType(tsType: string, imports: GenSourceImport[], typeNames: Set<string>): string {
+  const referenced = (tsType.replace(/(['"]).*?\1/g, '').match(/\b[A-Za-z_]\w*\b/g) ?? [])
+    .filter((name) => !SAFE_TYPES.has(name));
+  const resolvable = referenced.every((name) => imports.some((imp) => imp.namedImports.includes(name)));
+
+  if (!resolvable) {
+    return tsType.trim().endsWith('[]') ? 'any[]' : 'any';
+  }
+  for (const name of referenced) typeNames.add(name);
+  return tsType.trim();
+}
+
+/**
+ * Replace a bare identifier in a JS expression, leaving string literals and
+ * property accesses (`x.name`) untouched.
+ */
+export function replaceIdentifier(expr: string, name: string, replacement: string): string {
+  const pattern = new RegExp(`(^|[^\\w$.-])${name.replace(/\$/g, '\\$')}(?![\\w$-])`, 'g');
+  return expr
+    .split(/('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`\\]|\\.)*`)/)
+    .map((part, i) => (i % 2 === 1 ? part : part.replace(pattern, (_, prefix: string) => `${prefix}${replacement}`)))
+    .join('');
+}
+
+/** Module with the runtime formatters (overridable with the `formatModule` plugin option) */
+export const DEFAULT_FORMAT_MODULE = '@ui8kit/generator/format';
+
+/**
+ * Standard filters rendered through the runtime formatter library by the
+ * JS plugins (React, Vue, Svelte, Astro, Web Components)
+ */
+export const FORMATTER_FILTERS: Array<[StandardFilter, FilterDefinition]> = [
+  ['date', { name: 'formatDate', formatArgs: (args) => `"${args[0]}"` }],
+  ['currency', { name: 'formatCurrency', formatArgs: (args) => `"${args[0]}"` }],
+  ['number', { name: 'formatNumber', formatArgs: (args) => args[0] }],
+  ['truncate', { name: 'truncate', formatArgs: (args) => args[0] }],
+];
+
+/**
+ * Runtime formatter call for a filter mapping
+ *
+ * @example
+ * formatFormatterCall(dateMapping, 'post.date', ['MMM d, yyyy']) // formatDate(post.date, "MMM d, yyyy")
+ */
+export function formatFormatterCall(mapping: FilterDefinition, expression: string, args?: string[]): string {
+  const formattedArgs = args?.length && mapping.formatArgs ? `, ${mapping.formatArgs(args)}` : '';
+  return `${mapping.name}(${expression}${formattedArgs})`;
+}
+
+/**
+ * Import line for the formatters a component uses (empty when none)
+ */
+export function buildFormatterImport(formatters: Set<string>, formatModule: unknown): string[] {
+  if (formatters.size === 0) return [];
+  const source = typeof formatModule === 'string' ? formatModule : DEFAULT_FORMAT_MODULE;
+  return [`import { ${[...formatters].sort().join(', ')} } from '${source}';`];
+}
+
+/**
+ * Loop metadata as a JS expression over the loop's index parameter, for
+ * framework plugins whose templates are JS expressions (no assignments)
+ *
+ * @example
+ * formatLoopMetaExpression('last', 'index', 'items') // index === items.length - 1
+ */
+export function formatLoopMetaExpression(meta: LoopMeta, index: string, collection: string): string {
+  if (meta === 'first') return `${index} === 0`;
+  if (meta === 'last') return `${index} === ${collection}.length - 1`;
+  return `${collection}.length`;
+}
+
+export interface ComponentImportOptions {
+  componentNames: Set<string>;
+  typeNames: Set<string>;
+  imports: GenSourceImport[];
+  /** Rendered markup, scanned for values referenced in `{...}` expressions */
+  markup: string;
+  /** Component file extension for single-file imports, e.g. `.svelte` */
+  fileExtension: string;
+  /** Import used components (default); false when they resolve by tag name */
+  importComponents?: boolean;
+}
+
+/**
+ * Import lines for used components and values referenced in markup
+ * expressions (from the source specifiers), and for type names kept in
+ * prop declarations.
+ *
+ * Barrels (`@/partials`) become named imports; specifiers ending in the
+ * component name become default imports of the component file.
+ */
+export function buildComponentImports(options: ComponentImportOptions): { lines: string[]; missing: string[] } {
+  const { componentNames, typeNames, imports, markup, fileExtension, importComponents = true } = options;
+  const named = new Map<string, string[]>();
+  const typeOnly = new Map<string, string[]>();
+  const lines: string[] = [];
+  const missing: string[] = [];
+
+  for (const name of importComponents ? componentNames : []) {
+    const source = imports.find((imp) => imp.namedImports.includes(name) || imp.defaultImport === name)?.source;
+    if (!source) {
+      missing.push(name);
+      continue;
+    }
+    if (source.split('/').pop() === name) {
+      lines.push(`import ${name} from '${source}${fileExtension}';`);
+    } else {
+      named.set(source, [...(named.get(source) ?? []), name]);
+    }
+  }
+
+  for (const imp of imports) {
+    if (imp.isTypeOnly || REACT_ONLY_SOURCES.has(imp.source)) continue;
+    for (const name of imp.namedImports) {
+      if (componentNames.has(name)) continue;
+      if (new RegExp(`\\{[^}]*(?<![\\w$.])${name}(?![\\w$])`).test(markup)) {
+        named.set(imp.source, [...(named.get(imp.source) ?? []), name]);
+      }
+    }
+  }
+
+  for (const name of typeNames) {
+    const source = imports.find((imp) => imp.namedImports.includes(name))!.source;
+    typeOnly.set(source, [...(typeOnly.get(source) ?? []), name]);
+  }
+
+  for (const [source, names] of named) {
+    lines.push(`import { ${names.join(', ')} } from '${source}';`);
+  }
+  for (const [source, names] of typeOnly) {
+    lines.push(`import type { ${names.join(', ')} } from '${source}';`);
+  }
+
+  return { lines, missing };
+}
@@ -0,0 +1,58 @@
+/**
+ * Date pattern translation for template engines.
+ *
+ * `<Var format="date" pattern="MMM d, yyyy" />` uses the Unicode tokens of the
+ * runtime formatter (`@ui8kit/generator/format`); engines with their own date
+ * filters get the pattern in their native format.
+ */
+
+import { parseDatePattern, type DateToken } from '../../../lib/format';
+
+type TokenTable = Record<DateToken, string>;
+
+/** strftime: Liquid, Jinja2 */
+const STRFTIME: TokenTable = {
+  yyyy: '%Y', yy: '%y', MMMM: '%B', MMM: '%b', MM: '%m', M: '%-m', dd: '%d', d: '%-d',
+  EEEE: '%A', EEE: '%a', HH: '%H', H: '%-H', hh: '%I', h: '%-I', mm: '%M', ss: '%S', a: '%p',
+};
+
+/** PHP date(): Twig, Blade, Latte */
+const PHP_DATE: TokenTable = {
+  yyyy: 'Y', yy: 'y', MMMM: 'F', MMM: 'M', MM: 'm', M: 'n', dd: 'd', d: 'j',
+  EEEE: 'l', EEE: 'D', HH: 'H', H: 'G', hh: 'h', h: 'g', mm: 'i', ss: 's', a: 'A',
+};
+
+/** Moment.js tokens: Nunjucks date filter */
+const MOMENT: TokenTable = {
+  yyyy: 'YYYY', yy: 'YY', MMMM: 'MMMM', MMM: 'MMM', MM: 'MM', M: 'M', dd: 'DD', d: 'D',
+  EEEE: 'dddd', EEE: 'ddd', HH: 'HH', H: 'H', hh: 'hh', h: 'h', mm: 'mm', ss: 'ss', a: 'A',
+};
+
+/** Go reference time layout */
+const GO_LAYOUT: TokenTable = {
+  yyyy: '2006', yy: '06', MMMM: 'January', MMM: 'Jan', MM: '01', M: '1', dd: '02', d: '2',
+  EEEE: 'Monday', EEE: 'Mon', HH: '15', H: '15', hh: '03', h: '3', mm: '04', ss: '05', a: 'PM',
+};
+
+function translate(pattern: string, table: TokenTable, literal: (text: string) => string): string {
+  return parseDatePattern(pattern)
+    .map((part) => ('token' in part ? table[part.token] : literal(part.literal)))
+    .join('');
+}
+
+export function toStrftime(pattern: string): string {
+  return translate(pattern, STRFTIME, (text) => text.replace(/%/g, '%%'));
+}
+
+/** Literal letters are backslash-escaped (doubled, for use inside a string literal) */
+export function toPhpDateFormat(pattern: string): string {
+  return translate(pattern, PHP_DATE, (text) => text.replace(/[a-zA-Z\\]/g, '\\\\$&'));
+}
+
+export function toMomentFormat(pattern: string): string {
+  return translate(pattern, MOMENT, (text) => (/[a-zA-Z]/.test(text) ? `[${text}]` : text));
+}
+
+export function toGoLayout(pattern: string): string {
+  return translate(pattern, GO_LAYOUT, (text) => text);
+}
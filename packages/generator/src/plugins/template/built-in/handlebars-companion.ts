@@ -0,0 +1,184 @@
+/**
+ * Companion modules for generated Handlebars templates.
+ *
+ * Handlebars has no built-in filters and no partial discovery, so a template
+ * set ships with `helpers.ts` (one helper per filter the templates use) and
+ * `register-partials.ts` (every `{{> partial}}` the templates reference).
+ */
+
+const GENERATED_NOTE = 'Generated by @ui8kit/generator (templates --engine handlebars). Do not edit.';
+
+/**
+ * Helper implementations keyed by Handlebars helper name (see the
+ * HandlebarsPlugin filter mappings, plus `eq` for switches). Each entry is an
+ * object property source.
+ */
+export const HELPER_SOURCES: Record<string, string> = {
+  uppercase: 'valueHelper((value) => toText(value).toUpperCase())',
+  lowercase: 'valueHelper((value) => toText(value).toLowerCase())',
+  capitalize: `valueHelper((value) => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  })`,
+  trim: 'valueHelper((value) => toText(value).trim())',
+  formatDate: `valueHelper((value, [format = 'yyyy-MM-dd']) => {
+    const dateOnly = typeof value === 'string' ? /^(\\d{4})-(\\d{2})-(\\d{2})$/.exec(value) : null;
+    const date = value instanceof Date ? value
+      : dateOnly ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+      : new Date(String(value));
+    if (value == null || Number.isNaN(date.getTime())) return toText(value);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    const hours12 = date.getHours() % 12 || 12;
+    const tokens: Record<string, string> = {
+      yyyy: String(date.getFullYear()),
+      yy: pad(date.getFullYear() % 100),
+      MMMM: months[date.getMonth()],
+      MMM: months[date.getMonth()].slice(0, 3),
+      MM: pad(date.getMonth() + 1),
+      M: String(date.getMonth() + 1),
+      dd: pad(date.getDate()),
+      d: String(date.getDate()),
+      EEEE: days[date.getDay()],
+      EEE: days[date.getDay()].slice(0, 3),
+      HH: pad(date.getHours()),
+      H: String(date.getHours()),
+      hh: pad(hours12),
+      h: String(hours12),
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds()),
+      a: date.getHours() < 12 ? 'AM' : 'PM',
+    };
+    return String(format).replace(/'((?:[^']|'')*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g,
+      (token, literal) => (literal === undefined ? tokens[token] : literal ? literal.replace(/''/g, "'") : "'"));
+  })`,
+  formatCurrency: `valueHelper((value, [currency], hash) => {
+    if (value == null || value === '') return '';
+    return new Intl.NumberFormat(hash.locale ?? 'en-US', {
+      style: 'currency',
+      currency: String(currency ?? hash.currency ?? 'USD'),
+    }).format(Number(value));
+  })`,
+  formatNumber: `valueHelper((value, [decimals], hash) => {
+    if (value == null || value === '') return '';
+    const digits = decimals === undefined ? {} : { minimumFractionDigits: Number(decimals), maximumFractionDigits: Number(decimals) };
+    return new Intl.NumberFormat(hash.locale ?? 'en-US', digits).format(Number(value));
+  })`,
+  json: 'valueHelper((value) => JSON.stringify(value ?? null))',
+  escape: 'valueHelper((value) => new Handlebars.SafeString(Handlebars.escapeExpression(toText(value))))',
+  raw: 'valueHelper((value) => new Handlebars.SafeString(toText(value)))',
+  default: "valueHelper((value, [fallback]) => (value == null || value === '' ? fallback : value))",
+  first: 'valueHelper((value) => (Array.isArray(value) ? value[0] : toText(value).charAt(0)))',
+  last: 'valueHelper((value) => (Array.isArray(value) ? value[value.length - 1] : toText(value).slice(-1)))',
+  length: 'valueHelper((value) => (value == null ? 0 : (value.length ?? Object.keys(value).length)))',
+  join: "valueHelper((value, [separator = ', ']) => (Array.isArray(value) ? value.join(String(separator)) : toText(value)))",
+  split: "valueHelper((value, [separator = ',']) => toText(value).split(String(separator)))",
+  reverse: "valueHelper((value) => (Array.isArray(value) ? [...value].reverse() : [...toText(value)].reverse().join('')))",
+  sort: 'valueHelper((value) => (Array.isArray(value) ? [...value].sort() : value))',
+  slice: `valueHelper((value, [start = 0, end]) =>
+    (Array.isArray(value) ? value : toText(value)).slice(Number(start), end === undefined ? undefined : Number(end))
+  )`,
+  eq: '(left: unknown, right: unknown) => left === right',
+  ne: '(left: unknown, right: unknown) => left !== right',
+  gt: '(left: any, right: any) => left > right',
+  gte: '(left: any, right: any) => left >= right',
+  lt: '(left: any, right: any) => left < right',
+  lte: '(left: any, right: any) => left <= right',
+  and: '(...args: unknown[]) => args.slice(0, -1).every(Boolean)',
+  or: '(...args: unknown[]) => args.slice(0, -1).some(Boolean)',
+  not: '(value: unknown) => !value',
+  truncate: `valueHelper((value, [length = 50, suffix = '...']) => {
+    const text = toText(value);
+    return text.length > Number(length) ? text.slice(0, Number(length)) + suffix : text;
+  })`,
+};
+
+/**
+ * Build `helpers.ts` with the given helpers (names without an implementation
+ * must be skipped by the caller).
+ */
+export function buildHelpersModule(helperNames: string[]): string {
+  const entries = helperNames.map((name) => {
+    const key = /^[a-zA-Z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+    return `  ${key}: ${HELPER_SOURCES[name]},`;
+  });
+
+  return [
+    '/**',
+    ' * Handlebars helpers used by the generated templates.',
+    ' *',
+    ` * ${GENERATED_NOTE}`,
+    ' */',
+    '',
+    "import Handlebars from 'handlebars';",
+    '',
+    'type HelperArgs = any[];',
+    'type HelperHash = Record<string, any>;',
+    '',
+    'function toText(value: unknown): string {',
+    "  return value == null ? '' : String(value);",
+    '}',
+    '',
+    '/**',
+    ' * Drop the trailing Handlebars options argument and fall back to the',
+    ' * `default="..."` hash argument when the value is missing.',
+    ' */',
+    'function valueHelper(fn: (value: any, args: HelperArgs, hash: HelperHash) => unknown): Handlebars.HelperDelegate {',
+    '  return (value: unknown, ...rest: unknown[]) => {',
+    '    const options = rest.pop() as Handlebars.HelperOptions | undefined;',
+    '    const hash: HelperHash = options?.hash ?? {};',
+    '    return fn(value ?? hash.default, rest, hash);',
+    '  };',
+    '}',
+    '',
+    entries.length > 0
+      ? ['export const helpers: Record<string, Handlebars.HelperDelegate> = {', ...entries, '};'].join('\n')
+      : 'export const helpers: Record<string, Handlebars.HelperDelegate> = {};',
+    '',
+    'export function registerHelpers(hbs: typeof Handlebars = Handlebars): void {',
+    '  hbs.registerHelper(helpers);',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Build `register-partials.ts`. `partials` maps partial names (as written in
+ * `{{> name}}`) to template paths relative to the output directory;
+ * `external` lists referenced partials that have no generated template.
+ */
+export function buildPartialsModule(partials: Record<string, string>, external: string[]): string {
+  const entries = Object.entries(partials).map(([name, path]) => `  '${name}': '${path}',`);
+  const externalList = external.map((name) => `  '${name}',`);
+
+  return [
+    '/**',
+    ' * Registers every partial referenced by the generated templates.',
+    ' *',
+    ` * ${GENERATED_NOTE}`,
+    ' */',
+    '',
+    "import { readFileSync } from 'node:fs';",
+    "import { join } from 'node:path';",
+    "import { fileURLToPath } from 'node:url';",
+    "import Handlebars from 'handlebars';",
+    '',
+    '/** Partial name → template path relative to this file */',
+    entries.length > 0
+      ? ['export const partials: Record<string, string> = {', ...entries, '};'].join('\n')
+      : 'export const partials: Record<string, string> = {};',
+    '',
+    '/** Referenced partials without a generated template (e.g. @ui8kit/core components); register them before rendering */',
+    externalList.length > 0
+      ? ['export const externalPartials: string[] = [', ...externalList, '];'].join('\n')
+      : 'export const externalPartials: string[] = [];',
+    '',
+    "export function registerPartials(hbs: typeof Handlebars = Handlebars, templatesDir = fileURLToPath(new URL('.', import.meta.url))): void {",
+    '  for (const [name, path] of Object.entries(partials)) {',
+    "    hbs.registerPartial(name, readFileSync(join(templatesDir, path), 'utf-8'));",
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
@@ -7,6 +7,14 @@
  * - HandlebarsPlugin: For Express.js, static sites (JS runtime)
  * - TwigPlugin: For Symfony, PHP applications (PHP runtime)
  * - LattePlugin: For Nette Framework (PHP runtime)
+ * - NunjucksPlugin: For Eleventy, Express.js (JS runtime)
+ * - Jinja2Plugin: For Flask, Django (Python runtime)
+ * - BladePlugin: For Laravel (PHP runtime)
+ * - GoTemplatePlugin: For Go html/template servers (Go runtime)
+ * - VuePlugin: Vue 3 single-file components (JS runtime)
+ * - SveltePlugin: Svelte components (JS runtime)
+ * - AstroPlugin: Astro components for static sites (JS runtime)
+ * - WebComponentPlugin: Custom elements with lit-html templates (JS runtime)
  */
 
 export { ReactPlugin } from './ReactPlugin';
@@ -14,6 +22,14 @@ export { LiquidPlugin } from './LiquidPlugin';
 export { HandlebarsPlugin } from './HandlebarsPlugin';
 export { TwigPlugin } from './TwigPlugin';
 export { LattePlugin } from './LattePlugin';
+export { NunjucksPlugin } from './NunjucksPlugin';
+export { Jinja2Plugin } from './Jinja2Plugin';
+export { BladePlugin } from './BladePlugin';
+export { GoTemplatePlugin } from './GoTemplatePlugin';
+export { VuePlugin } from './VuePlugin';
+export { SveltePlugin } from './SveltePlugin';
+export { AstroPlugin } from './AstroPlugin';
+export { WebComponentPlugin } from './WebComponentPlugin';
 
 // Re-export for convenience
 import { ReactPlugin } from './ReactPlugin';
@@ -21,6 +37,14 @@ import { LiquidPlugin } from './LiquidPlugin';
 import { HandlebarsPlugin } from './HandlebarsPlugin';
 import { TwigPlugin } from './TwigPlugin';
 import { LattePlugin } from './LattePlugin';
+import { NunjucksPlugin } from './NunjucksPlugin';
+import { Jinja2Plugin } from './Jinja2Plugin';
+import { BladePlugin } from './BladePlugin';
+import { GoTemplatePlugin } from './GoTemplatePlugin';
+import { VuePlugin } from './VuePlugin';
+import { SveltePlugin } from './SveltePlugin';
+import { AstroPlugin } from './AstroPlugin';
+import { WebComponentPlugin } from './WebComponentPlugin';
 import type { TemplatePluginMetadata, TemplatePluginFactory } from '../ITemplatePlugin';
 
 /**
@@ -80,6 +104,86 @@ export const builtInPlugins: Array<{
     },
     factory: (config) => new LattePlugin(),
   },
+  {
+    metadata: {
+      name: 'nunjucks',
+      version: '1.0.0',
+      runtime: 'js',
+      fileExtension: '.njk',
+      description: 'Nunjucks template engine for Eleventy and Express.js',
+    },
+    factory: (config) => new NunjucksPlugin(),
+  },
+  {
+    metadata: {
+      name: 'jinja2',
+      version: '1.0.0',
+      runtime: 'python',
+      fileExtension: '.jinja',
+      description: 'Jinja2 template engine for Flask and Python applications',
+    },
+    factory: (config) => new Jinja2Plugin(),
+  },
+  {
+    metadata: {
+      name: 'blade',
+      version: '1.0.0',
+      runtime: 'php',
+      fileExtension: '.blade.php',
+      description: 'Blade template engine for Laravel applications',
+    },
+    factory: (config) => new BladePlugin(),
+  },
+  {
+    metadata: {
+      name: 'go',
+      version: '1.0.0',
+      runtime: 'go',
+      fileExtension: '.gohtml',
+      description: 'Go html/template for Go web servers',
+    },
+    factory: (config) => new GoTemplatePlugin(),
+  },
+  {
+    metadata: {
+      name: 'vue',
+      version: '1.0.0',
+      runtime: 'js',
+      fileExtension: '.vue',
+      description: 'Vue 3 single-file component plugin',
+    },
+    factory: (config) => new VuePlugin(),
+  },
+  {
+    metadata: {
+      name: 'svelte',
+      version: '1.0.0',
+      runtime: 'js',
+      fileExtension: '.svelte',
+      description: 'Svelte component plugin (export let props, slots)',
+    },
+    factory: (config) => new SveltePlugin(),
+  },
+  {
+    metadata: {
+      name: 'astro',
+      version: '1.0.0',
+      runtime: 'js',
+      fileExtension: '.astro',
+      description: 'Astro component plugin for static content sites',
+    },
+    factory: (config) => new AstroPlugin(),
+  },
+  {
+    metadata: {
+      name: 'web-components',
+      version: '1.0.0',
+      runtime: 'js',
+      fileExtension: '.ts',
+      description: 'Custom element classes with lit-html templates (shadow or light DOM)',
+    },
+    factory: (config) => new WebComponentPlugin(),
+  },
 ];
 
 /**
@@ -0,0 +1,186 @@
+/**
+ * Shopify Online Store 2.0 sections for generated Liquid templates.
+ *
+ * Every block becomes `sections/<name>.liquid` with a `{% schema %}` whose
+ * settings come from the block's props (GenPropDefinition) and fixture
+ * defaults, so merchants can edit the content in the theme editor.
+ * `*PageView` blocks also get a `templates/page.<name>.json` that renders the
+ * section as the page's main content.
+ */
+
+import type { GenPropDefinition } from '../../../hast';
+
+/** Section names longer than this are rejected by the theme editor */
+const MAX_SECTION_NAME_LENGTH = 25;
+
+export type ShopifySettingType = 'text' | 'textarea' | 'url' | 'image_picker' | 'checkbox' | 'number' | 'select';
+
+export interface ShopifySectionSetting {
+  type: ShopifySettingType;
+  id: string;
+  label: string;
+  default?: string | number | boolean;
+  options?: Array<{ value: string; label: string }>;
+}
+
+export interface ShopifySectionSchema {
+  name: string;
+  tag: 'section';
+  settings: ShopifySectionSetting[];
+  presets: Array<{ name: string }>;
+}
+
+export interface ShopifyTemplateJson {
+  sections: Record<string, { type: string }>;
+  order: string[];
+}
+
+/**
+ * `headerTitle` -> `Header title`
+ */
+export function toSettingLabel(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * `LandingPageView` -> `Landing page view`, capped at the theme editor limit
+ */
+export function toSectionName(componentName: string): string {
+  return toSettingLabel(componentName).slice(0, MAX_SECTION_NAME_LENGTH).trim();
+}
+
+function stripNullish(type: string): string {
+  return type
+    .split('|')
+    .map((part) => part.trim())
+    .filter((part) => part && part !== 'undefined' && part !== 'null')
+    .join(' | ');
+}
+
+function parseStringUnion(type: string): string[] | undefined {
+  const parts = type.split('|').map((part) => part.trim());
+  if (parts.length === 0 || !parts.every((part) => /^(['"]).*\1$/.test(part))) return undefined;
+  return parts.map((part) => part.slice(1, -1));
+}
+
+function parseDefaultValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const source = value.trim();
+  if (/^(['"`]).*\1$/.test(source)) return source.slice(1, -1);
+  if (source === 'true' || source === 'false') return source === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(source)) return Number(source);
+  return undefined;
+}
+
+function settingTypeFor(prop: GenPropDefinition, type: string): ShopifySettingType | undefined {
+  if (type === 'boolean') return 'checkbox';
+  if (type === 'number') return 'number';
+  if (parseStringUnion(type)) return 'select';
+  if (type !== 'string') return undefined;
+  if (/(url|href|link)$/i.test(prop.name)) return 'url';
+  if (/(image|img|src|photo|background)/i.test(prop.name)) return 'image_picker';
+  if (/(description|subtitle|body|content|excerpt)$/i.test(prop.name)) return 'textarea';
+  return 'text';
+}
+
+function isValidDefault(type: ShopifySettingType, value: unknown, options?: string[]): boolean {
+  switch (type) {
+    case 'checkbox':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number';
+    case 'select':
+      return typeof value === 'string' && (options ?? []).includes(value);
+    case 'text':
+    case 'textarea':
+      return typeof value === 'string' && value !== '';
+    default:
+      // url and image_picker only accept theme-specific defaults
+      return false;
+  }
+}
+
+/**
+ * Scalar defaults for the given props from the fixture whose top-level keys
+ * match the most prop names (e.g. HeroBlock <- landing.json).
+ */
+export function findFixtureDefaults(
+  propNames: string[],
+  fixtures: Record<string, unknown>
+): Record<string, unknown> {
+  let best: Record<string, unknown> = {};
+  let bestScore = 0;
+
+  for (const name of Object.keys(fixtures).sort()) {
+    const data = fixtures[name];
+    if (!data || typeof data !== 'object' || Array.isArray(data)) continue;
+    const record = data as Record<string, unknown>;
+    const score = propNames.filter((prop) => {
+      const value = record[prop];
+      return value !== null && value !== undefined && typeof value !== 'object';
+    }).length;
+    if (score > bestScore) {
+      best = record;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Section settings for the editable props of a block. Slots, objects,
+ * arrays and callbacks are not editable and are left out.
+ */
+export function deriveSectionSettings(
+  props: GenPropDefinition[],
+  defaults: Record<string, unknown> = {}
+): ShopifySectionSetting[] {
+  const settings: ShopifySectionSetting[] = [];
+
+  for (const prop of props) {
+    if (prop.rest || prop.name === '__spread_props') continue;
+    const type = stripNullish(prop.type);
+    const settingType = settingTypeFor(prop, type);
+    if (!settingType) continue;
+
+    const setting: ShopifySectionSetting = { type: settingType, id: prop.name, label: toSettingLabel(prop.name) };
+    const options = settingType === 'select' ? parseStringUnion(type) : undefined;
+    if (options) {
+      setting.options = options.map((value) => ({ value, label: toSettingLabel(value) }));
+    }
+
+    const value = parseDefaultValue(prop.defaultValue) ?? defaults[prop.name];
+    if (isValidDefault(settingType, value, options)) {
+      setting.default = value as string | number | boolean;
+    } else if (settingType === 'select' && options) {
+      setting.default = options[0];
+    }
+    settings.push(setting);
+  }
+
+  return settings;
+}
+
+export function buildSectionSchema(componentName: string, settings: ShopifySectionSetting[]): ShopifySectionSchema {
+  const name = toSectionName(componentName);
+  return { name, tag: 'section', settings, presets: [{ name }] };
+}
+
+/**
+ * Section file: rendered block followed by its `{% schema %}` tag
+ */
+export function buildSectionFile(content: string, schema: ShopifySectionSchema): string {
+  return `${content.trimEnd()}\n\n{% schema %}\n${JSON.stringify(schema, null, 2)}\n{% endschema %}\n`;
+}
+
+/**
+ * JSON template rendering a single section as the page's main content
+ */
+export function buildTemplateJson(sectionType: string): ShopifyTemplateJson {
+  return { sections: { main: { type: sectionType } }, order: ['main'] };
+}
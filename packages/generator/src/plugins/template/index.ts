@@ -2,7 +2,9 @@
  * Template Plugin System
  *
  * Provides infrastructure for template engine plugins that transform
- * GenHAST trees into various template formats (Liquid, Twig, Handlebars, Latte).
+ * GenHAST trees into various template formats (Liquid, Twig, Handlebars, Latte,
+ * Nunjucks, Jinja2, Blade, Go html/template, Vue SFC, Svelte, Astro,
+ * Web Components).
  *
  * @example
  * ```ts
@@ -29,6 +31,9 @@ export type {
   TemplatePluginContext,
   TemplatePluginConfig,
   TransformResult,
+  GeneratedTemplate,
+  SwitchBranch,
+  LoopMeta,
   FilterDefinition,
   StandardFilter,
   PlatformFieldMapping,
@@ -36,11 +41,38 @@ export type {
   PlatformMap,
   TemplatePluginFactory,
   TemplatePluginMetadata,
+  TemplateRuntime,
 } from './ITemplatePlugin';
 
+export { STANDARD_FILTERS, isStandardFilter } from './ITemplatePlugin';
+
 // Base class
 export { BasePlugin } from './BasePlugin';
 
+// Platform map validation
+export {
+  PlatformMapSchema,
+  PlatformDomainMappingSchema,
+  PlatformFieldMappingSchema,
+  validatePlatformMap,
+  formatPlatformMapIssues,
+  loadPlatformMap,
+  toCanonicalFieldPath,
+  comparePlatformFields,
+  type PlatformFieldCoverage,
+} from './platform-map';
+
+// Source maps
+export {
+  sourceMark,
+  extractSourceMarks,
+  encodeSourceMap,
+  decodeSourceMap,
+  originalPositionFor,
+  type SourceMapping,
+  type SourcePosition,
+} from './source-map';
+
 // Registry
 export {
   PluginRegistry,
@@ -55,6 +87,14 @@ export {
   HandlebarsPlugin,
   TwigPlugin,
   LattePlugin,
+  NunjucksPlugin,
+  Jinja2Plugin,
+  BladePlugin,
+  GoTemplatePlugin,
+  VuePlugin,
+  SveltePlugin,
+  AstroPlugin,
+  WebComponentPlugin,
   ReactPlugin,
   builtInPlugins,
   registerBuiltInPlugins,
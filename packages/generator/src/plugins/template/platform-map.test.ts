@@ -0,0 +1,125 @@
+/**
+ * Tests for platform map validation and field coverage
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  comparePlatformFields,
+  formatPlatformMapIssues,
+  loadPlatformMap,
+  toCanonicalFieldPath,
+  validatePlatformMap,
+} from './platform-map';
+import type { PlatformDomainMapping } from './ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const SHOPIFY_MAP = {
+  $schema: '../platform-map.schema.json',
+  platform: 'shopify',
+  version: '2024-01',
+  domains: {
+    catalog: {
+      resource: 'product',
+      itemVariable: 'product',
+      fields: {
+        title: { to: 'title' },
+        'price.display': { to: 'price', filter: 'money' },
+        promotionIds: { to: 'metafields.custom.promotion_ids', skip: true },
+      },
+    },
+  },
+};
+
+const CATALOG: PlatformDomainMapping = SHOPIFY_MAP.domains.catalog;
+
+let tempDir: string | undefined;
+
+function writeMap(content: string): string {
+  tempDir = mkdtempSync(join(tmpdir(), 'platform-map-'));
+  const filePath = join(tempDir, 'map.json');
+  writeFileSync(filePath, content);
+  return filePath;
+}
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = undefined;
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('validatePlatformMap', () => {
+  it('accepts a valid map', () => {
+    expect(validatePlatformMap(SHOPIFY_MAP).success).toBe(true);
+  });
+
+  it('rejects misspelled field mapping keys', () => {
+    const map = structuredClone(SHOPIFY_MAP) as any;
+    map.domains.catalog.fields['price.display'] = { to: 'price', filtr: 'money' };
+
+    const result = validatePlatformMap(map);
+
+    expect(result.success).toBe(false);
+    expect(formatPlatformMapIssues(result.error!)).toEqual([
+      "domains.catalog.fields.price.display: Unrecognized key(s) in object: 'filtr'",
+    ]);
+  });
+
+  it('rejects field keys that are not canonical dot paths', () => {
+    const map = structuredClone(SHOPIFY_MAP) as any;
+    map.domains.catalog.fields['price..display'] = { to: 'price' };
+
+    const issues = formatPlatformMapIssues(validatePlatformMap(map).error!);
+
+    expect(issues).toEqual(['domains.catalog.fields.price..display: Field key must be a canonical dot path']);
+  });
+
+  it('requires a target for every field', () => {
+    const map = structuredClone(SHOPIFY_MAP) as any;
+    map.domains.catalog.fields.title = { filter: 'escape' };
+
+    expect(validatePlatformMap(map).success).toBe(false);
+  });
+});
+
+describe('loadPlatformMap', () => {
+  it('loads a valid map file', () => {
+    const map = loadPlatformMap(writeMap(JSON.stringify(SHOPIFY_MAP)));
+    expect(map.domains.catalog?.fields.title?.to).toBe('title');
+  });
+
+  it('lists every issue for an invalid map', () => {
+    const filePath = writeMap(JSON.stringify({ platform: 'shopify', domains: { catalog: { fields: {} } } }));
+
+    expect(() => loadPlatformMap(filePath)).toThrow(/version: Required[\s\S]*domains\.catalog\.resource: Required/);
+  });
+
+  it('reports malformed JSON and missing files', () => {
+    expect(() => loadPlatformMap(writeMap('{ "platform": '))).toThrow('Platform map is not valid JSON');
+    expect(() => loadPlatformMap('/missing/map.json')).toThrow('Platform map not found');
+  });
+});
+
+describe('comparePlatformFields', () => {
+  it('derives field paths the way plugins resolve variables', () => {
+    expect(toCanonicalFieldPath('item.price.display')).toBe('price.display');
+    expect(toCanonicalFieldPath('title')).toBeUndefined();
+  });
+
+  it('reports mapped, unmapped, unused and skipped fields', () => {
+    expect(comparePlatformFields(CATALOG, ['title', 'availability', 'promotionIds'])).toEqual({
+      mapped: ['title'],
+      unmapped: ['availability'],
+      unused: ['price.display'],
+      skipped: ['promotionIds'],
+    });
+  });
+});
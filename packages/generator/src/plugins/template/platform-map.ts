@@ -0,0 +1,132 @@
+/**
+ * Platform Map Validation
+ *
+ * Zod schemas for `schemas/platform-map/*.json` (mirrors
+ * `schemas/platform-map.schema.json` in the app). Unknown keys are rejected
+ * so a typo such as `filtr` fails loudly instead of being ignored.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { PlatformDomainMapping, PlatformMap } from './ITemplatePlugin';
+
+/** Canonical field path: `title`, `price.display`, `discount.appliesTo.productIds` */
+const CANONICAL_PATH = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+
+export const PlatformFieldMappingSchema = z
+  .object({
+    to: z.string().min(1, 'Target field path is required'),
+    filter: z.string().min(1).optional(),
+    transform: z.string().min(1).optional(),
+    skip: z.boolean().optional(),
+  })
+  .strict();
+
+export const PlatformDomainMappingSchema = z
+  .object({
+    resource: z.string().min(1, 'Resource is required'),
+    collection: z.string().min(1).optional(),
+    itemVariable: z.string().min(1).optional(),
+    collectionVariable: z.string().min(1).optional(),
+    fields: z.record(
+      z.string().regex(CANONICAL_PATH, 'Field key must be a canonical dot path'),
+      PlatformFieldMappingSchema
+    ),
+  })
+  .strict();
+
+export const PlatformMapSchema = z
+  .object({
+    $schema: z.string().optional(),
+    platform: z.string().min(1, 'Platform is required'),
+    version: z.string().min(1, 'Version is required'),
+    domains: z.record(z.string().min(1), PlatformDomainMappingSchema),
+  })
+  .strict();
+
+/**
+ * Validate a parsed platform map
+ */
+export function validatePlatformMap(data: unknown): z.SafeParseReturnType<unknown, z.infer<typeof PlatformMapSchema>> {
+  return PlatformMapSchema.safeParse(data);
+}
+
+/**
+ * Readable issues: `domains.catalog.fields.price.display: Unrecognized key(s) in object: 'filtr'`
+ */
+export function formatPlatformMapIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Read and validate a platform map file. Throws with every issue listed.
+ */
+export function loadPlatformMap(filePath: string): PlatformMap {
+  if (!existsSync(filePath)) {
+    throw new Error(`Platform map not found: ${filePath}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Platform map is not valid JSON (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = validatePlatformMap(data);
+  if (!result.success) {
+    const issues = formatPlatformMapIssues(result.error).map((issue) => `  - ${issue}`);
+    throw new Error(`Invalid platform map ${filePath}:\n${issues.join('\n')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Field coverage of a platform domain against the canonical paths a view uses
+ */
+export interface PlatformFieldCoverage {
+  /** Used paths with a rendering mapping */
+  mapped: string[];
+  /** Used paths missing from `fields` (rendered unchanged, usually a typo or a gap) */
+  unmapped: string[];
+  /** Mapped paths no view uses */
+  unused: string[];
+  /** Paths mapped with `skip: true` */
+  skipped: string[];
+}
+
+/**
+ * Canonical field path of a template variable, resolved the way
+ * `BasePlugin.resolvePlatformVariable` does: `item.price.display` -> `price.display`.
+ * Bare names are not field paths.
+ */
+export function toCanonicalFieldPath(variableName: string): string | undefined {
+  const firstDot = variableName.indexOf('.');
+  if (firstDot < 0) return undefined;
+  const fieldPath = variableName.slice(firstDot + 1);
+  return CANONICAL_PATH.test(fieldPath) ? fieldPath : undefined;
+}
+
+/**
+ * Compare the field paths used by views with a domain mapping
+ */
+export function comparePlatformFields(
+  mapping: PlatformDomainMapping,
+  usedFieldPaths: Iterable<string>
+): PlatformFieldCoverage {
+  const used = new Set(usedFieldPaths);
+  const coverage: PlatformFieldCoverage = { mapped: [], unmapped: [], unused: [], skipped: [] };
+
+  for (const fieldPath of [...used].sort()) {
+    const field = mapping.fields[fieldPath];
+    if (!field) coverage.unmapped.push(fieldPath);
+    else if (!field.skip) coverage.mapped.push(fieldPath);
+  }
+
+  for (const [fieldPath, field] of Object.entries(mapping.fields).sort(([a], [b]) => a.localeCompare(b))) {
+    if (field.skip) coverage.skipped.push(fieldPath);
+    else if (!used.has(fieldPath)) coverage.unused.push(fieldPath);
+  }
+
+  return coverage;
+}
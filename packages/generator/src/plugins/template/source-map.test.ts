@@ -0,0 +1,126 @@
+/**
+ * Tests for template source maps
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformJsx } from '../../transformer';
+import { LiquidPlugin } from './built-in/LiquidPlugin';
+import type { TemplatePluginContext } from './ITemplatePlugin';
+import {
+  decodeSourceMap,
+  encodeSourceMap,
+  extractSourceMarks,
+  originalPositionFor,
+  sourceMark,
+  type SourceMapping,
+} from './source-map';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function mapping(generatedLine: number, generatedColumn: number, source: string, line: number, column: number): SourceMapping {
+  return { generatedLine, generatedColumn, original: { source, line, column } };
+}
+
+async function renderLiquid(source: string, sourceMaps: boolean) {
+  const context: TemplatePluginContext = {
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} } as any,
+    config: { fileExtension: '.liquid', outputDir: './dist/templates', prettyPrint: false, sourceMaps },
+    outputDir: './dist/templates',
+  };
+  const plugin = new LiquidPlugin();
+  await plugin.initialize(context);
+  const { tree } = transformJsx(source, { sourceFile: 'src/blocks/ProductList.tsx', includeSourceLocations: sourceMaps });
+  return plugin.transform(tree);
+}
+
+const PRODUCT_LIST = `function ProductList({ products, title }) {
+  return (
+    <section>
+      <h2>{title}</h2>
+      <ul>
+        {products.map((product) => (
+          <li key={product.id}>
+            <span>{product.name}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}`;
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('encodeSourceMap / decodeSourceMap', () => {
+  it('round-trips mappings across lines, sources and negative deltas', () => {
+    const mappings = [
+      mapping(1, 0, 'a.tsx', 10, 4),
+      mapping(1, 12, 'a.tsx', 3, 0),
+      mapping(3, 2, 'b.tsx', 1, 8),
+      mapping(3, 40, 'a.tsx', 120, 6),
+    ];
+    const map = encodeSourceMap('list.liquid', mappings);
+
+    expect(map).toMatchObject({ version: 3, file: 'list.liquid', sources: ['a.tsx', 'b.tsx'], names: [] });
+    expect(map.mappings.split(';')).toHaveLength(3);
+    expect(decodeSourceMap(map)).toEqual(mappings);
+  });
+});
+
+describe('extractSourceMarks', () => {
+  it('strips marks and records their generated positions', () => {
+    const locations = [
+      { file: 'a.tsx', line: 2, column: 4 },
+      { file: 'a.tsx', line: 5, column: 6 },
+    ];
+    const { content, mappings } = extractSourceMarks(
+      `${sourceMark(0)}<ul>\n  ${sourceMark(1)}<li></li>${sourceMark(0)}\n</ul>`,
+      locations
+    );
+
+    expect(content).toBe('<ul>\n  <li></li>\n</ul>');
+    expect(mappings).toEqual([
+      mapping(1, 0, 'a.tsx', 2, 4),
+      mapping(2, 2, 'a.tsx', 5, 6),
+      mapping(2, 11, 'a.tsx', 2, 4),
+    ]);
+  });
+});
+
+describe('originalPositionFor', () => {
+  const map = encodeSourceMap('list.liquid', [mapping(1, 0, 'a.tsx', 2, 4), mapping(1, 10, 'a.tsx', 7, 8)]);
+
+  it('uses the closest mapping at or before the column', () => {
+    expect(originalPositionFor(map, 1, 15)).toEqual({ source: 'a.tsx', line: 7, column: 8 });
+    expect(originalPositionFor(map, 1, 9)).toEqual({ source: 'a.tsx', line: 2, column: 4 });
+  });
+
+  it('falls back to the first mapping on the line, then to earlier lines', () => {
+    expect(originalPositionFor(map, 1)).toEqual({ source: 'a.tsx', line: 2, column: 4 });
+    expect(originalPositionFor(map, 4)).toEqual({ source: 'a.tsx', line: 7, column: 8 });
+  });
+});
+
+describe('BasePlugin source maps', () => {
+  it('returns the same content with a map pointing at the JSX lines', async () => {
+    const plain = await renderLiquid(PRODUCT_LIST, false);
+    const mapped = await renderLiquid(PRODUCT_LIST, true);
+
+    expect(plain.sourceMap).toBeUndefined();
+    expect(mapped.content).toBe(plain.content);
+    expect(mapped.sourceMap?.sources).toEqual(['src/blocks/ProductList.tsx']);
+
+    const at = (needle: string) => {
+      const before = mapped.content.slice(0, mapped.content.indexOf(needle)).split('\n');
+      return originalPositionFor(mapped.sourceMap!, before.length, before[before.length - 1].length);
+    };
+    expect(at('<h2>')?.line).toBe(4);
+    expect(at('{% for')?.line).toBe(6);
+    expect(at('<li>')?.line).toBe(7);
+    expect(at('<span>')?.line).toBe(8);
+    expect(at('</ul>')?.line).toBe(5);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Template Source Maps
+ *
+ * Source map v3 support for generated templates. Plugins mark rendered
+ * elements with `sourceMark()`; `extractSourceMarks()` strips the marks and
+ * records where each element landed, and `encodeSourceMap()` turns those
+ * positions into a standard `.map` file that `originalPositionFor()` reads back.
+ *
+ * Lines are 1-based and columns 0-based everywhere (like `GenSourceLocation`).
+ */
+
+import type { GenSourceLocation, TemplateSourceMap } from '../../hast';
+
+export interface SourcePosition {
+  source: string;
+  line: number;
+  column: number;
+}
+
+/** A generated template position and the JSX position it came from */
+export interface SourceMapping {
+  generatedLine: number;
+  generatedColumn: number;
+  original: SourcePosition;
+}
+
+// Private-use code points never produced by the JSX transformer
+const MARK_START = '\uE000';
+const MARK_END = '\uE001';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Inline marker for the source location at `index`; removed by `extractSourceMarks`.
+ */
+export function sourceMark(index: number): string {
+  return `${MARK_START}${index}${MARK_END}`;
+}
+
+/**
+ * Strip source marks from rendered content and map each mark position to its location.
+ * When several marks share a position, the last one wins.
+ */
+export function extractSourceMarks(
+  content: string,
+  locations: GenSourceLocation[]
+): { content: string; mappings: SourceMapping[] } {
+  const mappings: SourceMapping[] = [];
+  let output = '';
+  let line = 1;
+  let column = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === MARK_START) {
+      const end = content.indexOf(MARK_END, i);
+      const location = locations[Number(content.slice(i + 1, end))];
+      i = end;
+      if (!location) continue;
+
+      const previous = mappings[mappings.length - 1];
+      const mapping: SourceMapping = {
+        generatedLine: line,
+        generatedColumn: column,
+        original: { source: location.file, line: location.line, column: location.column },
+      };
+      if (previous && previous.generatedLine === line && previous.generatedColumn === column) {
+        mappings[mappings.length - 1] = mapping;
+      } else {
+        mappings.push(mapping);
+      }
+      continue;
+    }
+
+    output += char;
+    if (char === '\n') {
+      line += 1;
+      column = 0;
+    } else {
+      column += 1;
+    }
+  }
+
+  return { content: output, mappings };
+}
+
+/**
+ * Encode mappings (sorted by generated position) as a v3 source map.
+ */
+export function encodeSourceMap(file: string, mappings: SourceMapping[]): TemplateSourceMap {
+  const sources: string[] = [];
+  const lines: string[][] = [];
+  let previousGenerated = 0;
+  let previousSource = 0;
+  let previousLine = 0;
+  let previousColumn = 0;
+
+  for (const mapping of mappings) {
+    if (lines.length < mapping.generatedLine) previousGenerated = 0;
+    while (lines.length < mapping.generatedLine) lines.push([]);
+    let sourceIndex = sources.indexOf(mapping.original.source);
+    if (sourceIndex < 0) sourceIndex = sources.push(mapping.original.source) - 1;
+
+    lines[mapping.generatedLine - 1].push(
+      [
+        mapping.generatedColumn - previousGenerated,
+        sourceIndex - previousSource,
+        mapping.original.line - 1 - previousLine,
+        mapping.original.column - previousColumn,
+      ]
+        .map(encodeVlq)
+        .join('')
+    );
+
+    previousGenerated = mapping.generatedColumn;
+    previousSource = sourceIndex;
+    previousLine = mapping.original.line - 1;
+    previousColumn = mapping.original.column;
+  }
+
+  return { version: 3, file, sources, names: [], mappings: lines.map((line) => line.join(',')).join(';') };
+}
+
+/**
+ * Decode a v3 source map into absolute mappings.
+ */
+export function decodeSourceMap(map: TemplateSourceMap): SourceMapping[] {
+  const mappings: SourceMapping[] = [];
+  let sourceIndex = 0;
+  let line = 0;
+  let column = 0;
+
+  map.mappings.split(';').forEach((segments, lineIndex) => {
+    for (const [generatedColumn, sourceDelta, lineDelta, columnDelta] of decodeLine(segments)) {
+      if (sourceDelta === undefined) continue;
+      sourceIndex += sourceDelta;
+      line += lineDelta ?? 0;
+      column += columnDelta ?? 0;
+      mappings.push({
+        generatedLine: lineIndex + 1,
+        generatedColumn,
+        original: { source: map.sources[sourceIndex] ?? '', line: line + 1, column },
+      });
+    }
+  });
+  return mappings;
+}
+
+/**
+ * Original position for a generated line (and column). Without a column the
+ * first mapping on the line is used; lines without mappings inherit the last
+ * mapping before them.
+ */
+export function originalPositionFor(
+  map: TemplateSourceMap,
+  line: number,
+  column?: number
+): SourcePosition | undefined {
+  const mappings = decodeSourceMap(map);
+  const onLine = mappings.filter((mapping) => mapping.generatedLine === line);
+  const match =
+    column === undefined
+      ? onLine[0]
+      : onLine.filter((mapping) => mapping.generatedColumn <= column).at(-1);
+  if (match) return match.original;
+  return mappings.filter((mapping) => mapping.generatedLine < line).at(-1)?.original;
+}
+
+/** Segments of one generated line; the first field is made absolute. */
+function decodeLine(segments: string): number[][] {
+  let column = 0;
+  return segments
+    .split(',')
+    .filter(Boolean)
+    .map((segment) => {
+      const fields = decodeVlq(segment);
+      column += fields[0];
+      return [column, ...fields.slice(1)];
+    });
+}
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    encoded += BASE64[digit];
+  } while (vlq > 0);
+  return encoded;
+}
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid source map segment "${segment}"`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
@@ -1,5 +1,7 @@
 import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
 import { dirname, extname, join, relative, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
 
 export interface BlueprintEntity {
   name: string;
@@ -140,6 +142,21 @@ export function writeTextFile(path: string, content: string): void {
   writeFileSync(path, content, 'utf-8');
 }
 
+/**
+ * Resolve a package from the app first (like RenderService), then from the generator.
+ */
+export async function importFromApp<T>(appRoot: string, specifier: string): Promise<T> {
+  const candidates = [createRequire(join(appRoot, 'package.json')), createRequire(import.meta.url)];
+  for (const appRequire of candidates) {
+    try {
+      return (await import(pathToFileURL(appRequire.resolve(specifier)).href)) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'MODULE_NOT_FOUND') throw error;
+    }
+  }
+  throw new Error(`Cannot resolve "${specifier}" from ${appRoot}. Add it to the app devDependencies.`);
+}
+
 export function getUi8kitConfigPath(cwd: string): string {
   return resolve(cwd, 'ui8kit.config.json');
 }
@@ -274,6 +291,16 @@ export function parseAppRoutes(source: string): AppRouteRecord[] {
   return records;
 }
 
+/**
+ * Source file of a route component imported by App.tsx (`@/` maps to srcDir).
+ */
+export function resolveRouteComponentFile(srcDir: string, appPath: string, specifier: string | undefined): string | undefined {
+  if (!specifier) return undefined;
+  return specifier.startsWith('@/')
+    ? join(srcDir, `${specifier.slice(2)}.tsx`)
+    : resolve(dirname(appPath), `${specifier}.tsx`);
+}
+
 export function getBlueprintPath(cwd: string, override?: string): string {
   return resolve(cwd, override ?? 'blueprint.json');
 }
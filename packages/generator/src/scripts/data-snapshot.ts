@@ -0,0 +1,200 @@
+import { existsSync, readdirSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  type BlueprintDocument,
+  type Ui8kitConfigLike,
+  getBlueprintPath,
+  importFromApp,
+  loadUi8kitConfig,
+  readJson,
+  readTextIfExists,
+  relPath,
+  writeJsonFile,
+} from './blueprint-shared';
+import { CANONICAL_ITEM_SCHEMAS } from '../lib/canonical-types';
+
+type RuntimeUi8kitConfig = Ui8kitConfigLike & {
+  /** Platform domain -> blueprint entity names, e.g. { "catalog": ["menu"] } */
+  platformDomains?: Record<string, string[]>;
+};
+
+/** Remote data sources with an app adapter (`loadContextInput(source)` in the context file). */
+export const SNAPSHOT_SOURCES = ['shopify', 'wpgraphql'] as const;
+
+export type SnapshotSource = (typeof SNAPSHOT_SOURCES)[number];
+
+/** Subset of `CanonicalContextInput` the snapshot writes. */
+export interface SnapshotContextInput {
+  fixtures: Record<string, unknown>;
+}
+
+export type ContextInputLoader = (source: string) => Promise<SnapshotContextInput>;
+
+export interface SnapshotDataOptions {
+  cwd: string;
+  /** Data source passed to the app's `loadContextInput` */
+  source: SnapshotSource;
+  blueprintFile?: string;
+  /** Canonical JSON Schemas directory (default: schemas/canonical) */
+  schemasDir?: string;
+  /** Validate and report without writing fixtures */
+  dryRun?: boolean;
+  /** Loader override (default: `loadContextInput` exported by the blueprint context file) */
+  loadInput?: ContextInputLoader;
+}
+
+export type SnapshotFixtureStatus = 'written' | 'unchanged' | 'invalid';
+
+export interface SnapshotFixtureResult {
+  /** Fixture key in `CanonicalContextInput.fixtures`, e.g. menu */
+  key: string;
+  /** Fixture file relative to cwd */
+  file: string;
+  /** Schema the fixture (or each item) was validated against, relative to cwd */
+  schema?: string;
+  status: SnapshotFixtureStatus;
+  /** Validation errors as `<file> <json pointer>: <message>` */
+  errors: string[];
+}
+
+export interface SnapshotDataResult {
+  /** False when any fixture fails validation; nothing is written then */
+  ok: boolean;
+  source: SnapshotSource;
+  fixtures: SnapshotFixtureResult[];
+  warnings: string[];
+}
+
+type SchemaValidator = {
+  (data: unknown): boolean;
+  errors?: Array<{ instancePath: string; message?: string }> | null;
+};
+
+interface AjvInstance {
+  addSchema(schema: object): unknown;
+  getSchema(id: string): SchemaValidator | undefined;
+  compile(schema: object): SchemaValidator;
+}
+
+type AjvConstructor = new (options: Record<string, unknown>) => AjvInstance;
+
+/**
+ * JSON Schema validator with every canonical schema registered, so `$ref`s
+ * between them resolve. Ajv is loaded from the app like the maintain fixtures checker.
+ */
+async function createSchemaValidator(cwd: string, schemasDir: string): Promise<(schemaFile: string) => SchemaValidator> {
+  const ajvMod = await importFromApp<{ default: AjvConstructor }>(cwd, 'ajv/dist/2020');
+  const formatsMod = await importFromApp<{ default: (ajv: AjvInstance) => void }>(cwd, 'ajv-formats');
+  const ajv = new ajvMod.default({ allErrors: true, strict: false });
+  formatsMod.default(ajv);
+
+  const schemas = new Map<string, Record<string, unknown>>();
+  for (const name of readdirSync(schemasDir).filter((file) => file.endsWith('.schema.json'))) {
+    const schema = readJson<Record<string, unknown>>(join(schemasDir, name));
+    schemas.set(name, schema);
+    ajv.addSchema(schema);
+  }
+
+  return (schemaFile) => {
+    const schema = schemas.get(schemaFile);
+    if (!schema) throw new Error(`Canonical schema not found: ${schemaFile}`);
+    return (typeof schema.$id === 'string' ? ajv.getSchema(schema.$id) : undefined) ?? ajv.compile(schema);
+  };
+}
+
+function resolveEntityDomain(entityName: string, config: RuntimeUi8kitConfig): string {
+  const domain = Object.entries(config.platformDomains ?? {}).find(([, names]) => names.includes(entityName));
+  return domain?.[0] ?? entityName;
+}
+
+function validationErrors(file: string, validate: SchemaValidator, data: unknown, pointerPrefix = ''): string[] {
+  if (validate(data)) return [];
+  return (validate.errors ?? []).map(
+    (error) => `${file} ${pointerPrefix}${error.instancePath || (pointerPrefix ? '' : '/')}: ${error.message ?? 'invalid'}`
+  );
+}
+
+async function resolveContextInputLoader(cwd: string, blueprint: BlueprintDocument | undefined): Promise<ContextInputLoader> {
+  const contextFile = resolve(cwd, blueprint?.context.file ?? 'src/data/context.ts');
+  if (!existsSync(contextFile)) {
+    throw new Error(`Context file not found: ${relPath(cwd, contextFile)}`);
+  }
+  const mod = (await import(pathToFileURL(contextFile).href)) as { loadContextInput?: ContextInputLoader };
+  if (typeof mod.loadContextInput !== 'function') {
+    throw new Error(`${relPath(cwd, contextFile)} does not export loadContextInput(source)`);
+  }
+  return mod.loadContextInput;
+}
+
+/**
+ * Run a data adapter, validate its fixtures against the canonical schemas and
+ * write them as normalized `fixtures/*.json` (2-space JSON, trailing newline).
+ * Entity collections are validated per item using the blueprint `itemsKey`
+ * and the entity's platform domain; other fixtures use `<key>.schema.json` when present.
+ */
+export async function snapshotData(options: SnapshotDataOptions): Promise<SnapshotDataResult> {
+  const cwd = resolve(options.cwd);
+  if (!SNAPSHOT_SOURCES.includes(options.source)) {
+    throw new Error(`Data snapshot supports ${SNAPSHOT_SOURCES.join(', ')}; got "${options.source}"`);
+  }
+  const config = loadUi8kitConfig(cwd) as RuntimeUi8kitConfig;
+  const blueprintPath = getBlueprintPath(cwd, options.blueprintFile);
+  const blueprint = existsSync(blueprintPath) ? readJson<BlueprintDocument>(blueprintPath) : undefined;
+  const schemasDir = resolve(cwd, options.schemasDir ?? 'schemas/canonical');
+  if (!existsSync(schemasDir)) {
+    throw new Error(`Canonical schemas not found: ${relPath(cwd, schemasDir)}`);
+  }
+
+  const loadInput = options.loadInput ?? (await resolveContextInputLoader(cwd, blueprint));
+  const input = await loadInput(options.source);
+  const schemaFor = await createSchemaValidator(cwd, schemasDir);
+  const fixturesDir = resolve(cwd, config.fixtures ?? 'fixtures');
+  const warnings: string[] = [];
+  const fixtures: SnapshotFixtureResult[] = [];
+
+  for (const [key, data] of Object.entries(input.fixtures)) {
+    const entity = blueprint?.entities.find((candidate) => candidate.name === key);
+    const absFile = entity ? resolve(cwd, entity.fixture) : join(fixturesDir, `${key}.json`);
+    const file = relPath(cwd, absFile);
+    let schemaFile: string | undefined;
+    let errors: string[] = [];
+
+    if (entity) {
+      const domain = resolveEntityDomain(entity.name, config);
+      schemaFile = CANONICAL_ITEM_SCHEMAS[domain];
+      const items = (data as Record<string, unknown>)[entity.itemsKey];
+      if (!schemaFile) {
+        warnings.push(`${file}: no canonical item schema for domain "${domain}" (not validated)`);
+      } else if (!Array.isArray(items)) {
+        errors = [`${file} /${entity.itemsKey}: must be array`];
+      } else {
+        const validate = schemaFor(schemaFile);
+        errors = items.flatMap((item, index) => validationErrors(file, validate, item, `/${entity.itemsKey}/${index}`));
+      }
+    } else if (existsSync(join(schemasDir, `${key}.schema.json`))) {
+      schemaFile = `${key}.schema.json`;
+      errors = validationErrors(file, schemaFor(schemaFile), data);
+    } else {
+      warnings.push(`${file}: no canonical schema (not validated)`);
+    }
+
+    const unchanged = readTextIfExists(absFile) === `${JSON.stringify(data, null, 2)}\n`;
+    fixtures.push({
+      key,
+      file,
+      ...(schemaFile ? { schema: relPath(cwd, join(schemasDir, schemaFile)) } : {}),
+      status: errors.length > 0 ? 'invalid' : unchanged ? 'unchanged' : 'written',
+      errors,
+    });
+  }
+
+  const ok = fixtures.every((fixture) => fixture.status !== 'invalid');
+  if (ok && !options.dryRun) {
+    for (const fixture of fixtures.filter((entry) => entry.status === 'written')) {
+      writeJsonFile(resolve(cwd, fixture.file), input.fixtures[fixture.key]);
+    }
+  }
+
+  return { ok, source: options.source, fixtures, warnings };
+}
@@ -0,0 +1,52 @@
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { buildCanonicalTypes, loadCanonicalSchemas, renderCanonicalTypes } from '../lib/canonical-types';
+import { readTextIfExists, relPath, writeTextFile } from './blueprint-shared';
+
+export const DEFAULT_CANONICAL_TYPES_FILE = 'src/data/adapters/canonical.generated.ts';
+
+export interface GenerateCanonicalTypesOptions {
+  cwd: string;
+  /** Canonical JSON Schemas directory (default: schemas/canonical) */
+  schemasDir?: string;
+  /** Output module (default: src/data/adapters/canonical.generated.ts) */
+  outFile?: string;
+  /** Compare with the existing file instead of writing it */
+  check?: boolean;
+}
+
+export type CanonicalTypesStatus = 'written' | 'unchanged' | 'stale';
+
+export interface GenerateCanonicalTypesResult {
+  /** Output module relative to cwd */
+  outFile: string;
+  /** Generated type names in output order */
+  types: string[];
+  status: CanonicalTypesStatus;
+}
+
+/**
+ * Generate TypeScript types from `schemas/canonical/*.schema.json`.
+ * With `check`, nothing is written and a differing file reports `stale`.
+ */
+export function generateCanonicalTypes(options: GenerateCanonicalTypesOptions): GenerateCanonicalTypesResult {
+  const cwd = resolve(options.cwd);
+  const schemasDir = resolve(cwd, options.schemasDir ?? 'schemas/canonical');
+  if (!existsSync(schemasDir)) {
+    throw new Error(`Canonical schemas not found: ${relPath(cwd, schemasDir)}`);
+  }
+  const outFile = resolve(cwd, options.outFile ?? DEFAULT_CANONICAL_TYPES_FILE);
+
+  const types = buildCanonicalTypes(loadCanonicalSchemas(schemasDir));
+  const content = renderCanonicalTypes(types, { schemasDir: relPath(cwd, schemasDir) });
+  const unchanged = readTextIfExists(outFile) === content;
+  if (!unchanged && !options.check) {
+    writeTextFile(outFile, content);
+  }
+
+  return {
+    outFile: relPath(cwd, outFile),
+    types: types.map((type) => type.name),
+    status: unchanged ? 'unchanged' : options.check ? 'stale' : 'written',
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Tests for template generation (include resolution across blocks, layouts and partials)
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, describe, it, expect } from 'vitest';
+import nunjucks from 'nunjucks';
+import { generateTemplates, resolveIncludePartials } from './generate-templates';
+import { annotate, element, root } from '../hast';
+import { normalizeHtml } from '../utils';
+import type { GeneratedTemplate } from '../plugins/template/ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let tempDir: string | undefined;
+
+function createTempDir(): string {
+  tempDir = mkdtempSync(join(tmpdir(), 'generate-templates-'));
+  return tempDir;
+}
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = undefined;
+});
+
+function template(path: string, componentName: string, includes: string[] = []): GeneratedTemplate {
+  const children = includes.map((name) =>
+    annotate(element('div', {}, []), { include: { partial: `partials/${name.toLowerCase()}`, originalName: name }, unwrap: true })
+  );
+  return {
+    path,
+    tree: root(children, { sourceFile: `${componentName}.tsx`, componentName, exports: [componentName], dependencies: [] }),
+  };
+}
+
+function writeSources(cwd: string, files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(cwd, path)), { recursive: true });
+    writeFileSync(join(cwd, path), content);
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('resolveIncludePartials', () => {
+  it('maps include names to template paths and reports ambiguous and missing components', () => {
+    const warnings: string[] = [];
+    const partials = resolveIncludePartials(
+      [
+        template('blocks/menu/menu-page.liquid', 'MenuPage', ['Footer', 'Card', 'Button']),
+        template('partials/footer.liquid', 'Footer'),
+        template('blocks/menu/card.liquid', 'Card'),
+        template('blocks/blog/card.liquid', 'Card'),
+      ],
+      warnings
+    );
+
+    expect([...partials]).toEqual([['partials/footer', 'partials/footer.liquid']]);
+    expect(warnings).toEqual([
+      'Include partials/card matches several templates (blocks/menu/card.liquid, blocks/blog/card.liquid); not resolved',
+      '1 include(s) have no generated template: partials/button',
+    ]);
+  });
+});
+
+describe('generateTemplates', () => {
+  it('points includes at the layout and partial templates it writes', async () => {
+    const cwd = createTempDir();
+    writeSources(cwd, {
+      'src/blocks/MenuPage.tsx': `
+import { Var } from '@ui8kit/dsl';
+import { SiteFrame } from '@/layouts';
+import { PriceTag } from '@/partials';
+
+export function MenuPage({ title }: { title: string }) {
+  return (
+    <main>
+      <SiteFrame />
+      <h1><Var name="title" value={title} /></h1>
+      <PriceTag />
+    </main>
+  );
+}
+`,
+      'src/layouts/SiteFrame.tsx': `
+import { Var } from '@ui8kit/dsl';
+
+export function SiteFrame({ siteName }: { siteName: string }) {
+  return <header><Var name="siteName" value={siteName} /></header>;
+}
+`,
+      'src/partials/PriceTag.tsx': `
+import { Var } from '@ui8kit/dsl';
+
+export function PriceTag({ price }: { price: string }) {
+  return <span className="price"><Var name="price" value={price} /></span>;
+}
+`,
+      'src/partials/OrderButton.tsx': `
+import { Button } from '@ui8kit/core';
+
+export function OrderButton() {
+  return <Button>Order</Button>;
+}
+`,
+    });
+
+    const result = await generateTemplates({ cwd, engine: 'nunjucks', silent: true });
+    const env = new nunjucks.Environment(new nunjucks.FileSystemLoader(result.outputDir), { autoescape: true });
+    const html = env.render('blocks/menu-page.njk', { title: 'Menu', siteName: 'Resta', price: '$14' });
+
+    expect(result.templates.map((entry) => entry.path)).toEqual([
+      'blocks/menu-page.njk',
+      'layouts/site-frame.njk',
+      'partials/order-button.njk',
+      'partials/price-tag.njk',
+    ]);
+    expect(normalizeHtml(html)).toBe(
+      normalizeHtml('<main><header>Resta</header><h1>Menu</h1><span class="price">$14</span></main>')
+    );
+    expect(result.warnings).toContain('1 include(s) have no generated template: partials/button');
+  });
+});
@@ -0,0 +1,296 @@
+import { existsSync, readdirSync } from 'node:fs';
+import { basename, dirname, join, relative, resolve } from 'node:path';
+import { transformJsx } from '../transformer/transform';
+import { Logger } from '../core/logger';
+import { getAnnotations, visitElements, type GenRoot, type TemplateOutput } from '../hast';
+import { PluginRegistry } from '../plugins/template/PluginRegistry';
+import { registerBuiltInPlugins } from '../plugins/template/built-in';
+import { loadPlatformMap } from '../plugins/template/platform-map';
+import { toComponentName } from '../plugins/template/built-in/component-script';
+import type {
+  GeneratedTemplate,
+  ITemplatePlugin,
+  TemplatePluginConfig,
+} from '../plugins/template/ITemplatePlugin';
+import {
+  type Ui8kitConfigLike,
+  getUi8kitConfigPath,
+  listFilesRecursive,
+  readJson,
+  readText,
+  relPath,
+  writeTextFile,
+} from './blueprint-shared';
+
+type RuntimeUi8kitConfig = Ui8kitConfigLike & {
+  platform?: string;
+  platformDomain?: string;
+  platformMapPath?: string;
+};
+
+type TemplateSourceKind = 'blocks' | 'layouts' | 'partials';
+
+interface TransformedSource {
+  filePath: string;
+  tree: GenRoot;
+  output: TemplateOutput;
+  outputPath: string;
+}
+
+export interface GenerateTemplatesOptions {
+  cwd: string;
+  /** Registered template plugin name, e.g. liquid, twig, nunjucks */
+  engine: string;
+  /** Output directory (default: dist/templates/<engine>) */
+  outDir?: string;
+  /** Platform map override (default: platformMapPath from ui8kit.config.json) */
+  platformMapPath?: string;
+  platformDomain?: string;
+  /** Target platform override (default: platform from ui8kit.config.json) */
+  platform?: string;
+  /** Plugin-specific options merged into the plugin config (e.g. tagPrefix for web-components) */
+  pluginOptions?: Record<string, unknown>;
+  /** Write a `<template>.map` source map next to each template (engines using the base transform) */
+  sourceMaps?: boolean;
+  silent?: boolean;
+}
+
+export interface GenerateTemplatesResult {
+  engine: string;
+  outputDir: string;
+  files: string[];
+  /** Transformed sources with output paths relative to outputDir (companion files excluded) */
+  templates: GeneratedTemplate[];
+  warnings: string[];
+}
+
+/**
+ * Registry with every built-in template plugin, used for engine selection.
+ */
+export function createTemplateRegistry(): PluginRegistry {
+  const registry = new PluginRegistry();
+  registerBuiltInPlugins(registry);
+  return registry;
+}
+
+function isTemplateSource(filePath: string): boolean {
+  const name = basename(filePath);
+  return !name.endsWith('.test.tsx') && !name.endsWith('.spec.tsx') && name !== 'index.tsx';
+}
+
+function loadRuntimeConfig(cwd: string): RuntimeUi8kitConfig {
+  const configPath = getUi8kitConfigPath(cwd);
+  return existsSync(configPath) ? readJson<RuntimeUi8kitConfig>(configPath) : {};
+}
+
+/**
+ * Top-level fixture files keyed by name (`fixtures/landing.json` -> `landing`)
+ */
+function loadFixtureData(fixturesDir: string): Record<string, unknown> {
+  const fixtures: Record<string, unknown> = {};
+  if (!existsSync(fixturesDir)) return fixtures;
+  for (const entry of readdirSync(fixturesDir).filter((name) => name.endsWith('.json')).sort()) {
+    fixtures[basename(entry, '.json')] = readJson(join(fixturesDir, entry));
+  }
+  return fixtures;
+}
+
+/**
+ * Include names (`partials/<component>`, without extension) mapped to the
+ * template path, relative to the output directory, of the included component.
+ * A component with several templates (same name in different directories) is
+ * reported and left unresolved rather than bound to an arbitrary one; includes
+ * of components without a template (UI primitives) are reported once.
+ */
+export function resolveIncludePartials(templates: GeneratedTemplate[], warnings: string[]): Map<string, string> {
+  const pathsByComponent = new Map<string, string[]>();
+  for (const { path, tree } of templates) {
+    const componentName = tree.meta?.componentName;
+    if (componentName) {
+      pathsByComponent.set(componentName, [...(pathsByComponent.get(componentName) ?? []), path]);
+    }
+  }
+
+  const partials = new Map<string, string>();
+  const ambiguous = new Set<string>();
+  const missing = new Set<string>();
+  for (const { tree } of templates) {
+    visitElements(tree, (node) => {
+      const include = getAnnotations(node)?.include;
+      if (!include) return;
+      const name = include.partial.replace(/\.\w+$/, '');
+      if (partials.has(name) || ambiguous.has(name) || missing.has(name)) return;
+
+      const paths = pathsByComponent.get(include.originalName ?? toComponentName(include.partial)) ?? [];
+      if (paths.length > 1) {
+        ambiguous.add(name);
+        warnings.push(`Include ${name} matches several templates (${paths.join(', ')}); not resolved`);
+      } else if (paths.length === 1) {
+        partials.set(name, paths[0]);
+      } else {
+        missing.add(name);
+      }
+    });
+  }
+  if (missing.size > 0) {
+    warnings.push(`${missing.size} include(s) have no generated template: ${[...missing].sort().join(', ')}`);
+  }
+  return partials;
+}
+
+/**
+ * Point include annotations at the template they resolve to, e.g.
+ * `partials/main-layout` -> `layouts/main-layout`; true when any changed.
+ */
+function retargetIncludes(tree: GenRoot, partials: Map<string, string>, fileExtension: string): boolean {
+  let changed = false;
+  visitElements(tree, (node) => {
+    const include = getAnnotations(node)?.include;
+    const path = include && partials.get(include.partial.replace(/\.\w+$/, ''));
+    if (!include || !path) return;
+    const partial = path.endsWith(fileExtension) ? path.slice(0, -fileExtension.length) : path.replace(/\.\w+$/, '');
+    if (partial !== include.partial) {
+      include.partial = partial;
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+export async function generateTemplates(options: GenerateTemplatesOptions): Promise<GenerateTemplatesResult> {
+  const cwd = resolve(options.cwd);
+  const registry = createTemplateRegistry();
+  if (!registry.has(options.engine)) {
+    throw new Error(
+      `Unknown template engine "${options.engine}". Available: ${registry.getAvailableNames().join(', ')}`
+    );
+  }
+
+  const config = loadRuntimeConfig(cwd);
+  const metadata = registry.getMetadata(options.engine)!;
+  const outputDir = resolve(cwd, options.outDir ?? join('dist', 'templates', options.engine));
+  const warnings: string[] = [];
+  const files: string[] = [];
+  const templates: GeneratedTemplate[] = [];
+
+  const platformMapPath = options.platformMapPath ?? config.platformMapPath;
+  const pluginConfig: TemplatePluginConfig = {
+    ...options.pluginOptions,
+    fileExtension: metadata.fileExtension,
+    outputDir,
+    prettyPrint: false,
+    sourceMaps: options.sourceMaps,
+  };
+  if (platformMapPath) {
+    const absMapPath = resolve(cwd, platformMapPath);
+    if (existsSync(absMapPath)) {
+      pluginConfig.platformMap = loadPlatformMap(absMapPath);
+      pluginConfig.platformDomain = options.platformDomain ?? config.platformDomain;
+    } else {
+      warnings.push(`Platform map not found: ${platformMapPath}`);
+    }
+  }
+  const platform = options.platform ?? config.platform;
+  if (platform) {
+    pluginConfig.platform = platform;
+    pluginConfig.fixtures = loadFixtureData(resolve(cwd, config.fixtures ?? 'fixtures'));
+  }
+
+  const plugin: ITemplatePlugin = registry.create(options.engine, pluginConfig);
+  await plugin.initialize({
+    logger: new Logger({ level: 'silent' }),
+    config: pluginConfig,
+    outputDir,
+  });
+
+  const sourceDirs: Array<{ kind: TemplateSourceKind; dir: string }> = [
+    { kind: 'blocks', dir: resolve(cwd, config.blocksDir ?? 'src/blocks') },
+    { kind: 'layouts', dir: resolve(cwd, config.layoutsDir ?? 'src/layouts') },
+    { kind: 'partials', dir: resolve(cwd, config.partialsDir ?? 'src/partials') },
+  ];
+
+  try {
+    const sources: TransformedSource[] = [];
+    for (const { kind, dir } of sourceDirs) {
+      if (!existsSync(dir)) {
+        warnings.push(`Source directory not found for ${kind}: ${relPath(cwd, dir)}`);
+        continue;
+      }
+
+      for (const filePath of listFilesRecursive(dir, ['.tsx']).filter(isTemplateSource).sort()) {
+        const transformResult = transformJsx(readText(filePath), {
+          sourceFile: filePath,
+          includeSourceLocations: options.sourceMaps,
+        });
+        if (transformResult.errors.length > 0 || transformResult.tree.children.length === 0) {
+          warnings.push(
+            `Skipped ${relPath(cwd, filePath)} (${transformResult.errors.join('; ') || 'empty tree'})`
+          );
+          continue;
+        }
+        for (const warning of transformResult.warnings) {
+          warnings.push(`${relPath(cwd, filePath)}: ${warning}`);
+        }
+
+        const output = await plugin.transform(transformResult.tree);
+        const relativeDir = dirname(relative(dir, filePath));
+        const outputPath = join(outputDir, kind, relativeDir, output.filename);
+        sources.push({ filePath, tree: transformResult.tree, output, outputPath });
+        templates.push({ path: relPath(outputDir, outputPath), tree: transformResult.tree });
+      }
+    }
+
+    // Includes name `partials/<component>`; templates are written under blocks/, layouts/ and partials/
+    const partials = resolveIncludePartials(templates, warnings);
+    for (const source of sources) {
+      const { filePath, tree, outputPath } = source;
+      const output = retargetIncludes(tree, partials, metadata.fileExtension)
+        ? await plugin.transform(tree)
+        : source.output;
+
+      const validation = plugin.validate(output.content);
+      if (!validation.valid) {
+        warnings.push(`${relPath(cwd, filePath)}: ${(validation.errors ?? []).join('; ')}`);
+      }
+      for (const warning of output.warnings ?? []) {
+        warnings.push(`${relPath(cwd, filePath)}: ${warning}`);
+      }
+
+      writeTextFile(outputPath, output.content);
+      files.push(outputPath);
+      if (output.sourceMap) {
+        // Sources are relative to the map file, as the v3 spec expects
+        const sourceMap = {
+          ...output.sourceMap,
+          sources: output.sourceMap.sources.map((source) => relPath(dirname(outputPath), source)),
+        };
+        writeTextFile(`${outputPath}.map`, JSON.stringify(sourceMap) + '\n');
+        files.push(`${outputPath}.map`);
+      }
+    }
+
+    // Helpers, partial registration and similar files that span the whole template set
+    for (const companion of (await plugin.generateCompanionFiles?.(templates)) ?? []) {
+      for (const warning of companion.warnings ?? []) {
+        warnings.push(`${companion.filename}: ${warning}`);
+      }
+      const outputPath = join(outputDir, companion.filename);
+      writeTextFile(outputPath, companion.content);
+      files.push(outputPath);
+    }
+  } finally {
+    await plugin.dispose();
+  }
+
+  if (!options.silent) {
+    console.log(`Generated ${files.length} ${options.engine} templates in ${relPath(cwd, outputDir)}`);
+  }
+
+  return {
+    engine: options.engine,
+    outputDir,
+    files,
+    templates,
+    warnings,
+  };
+}
@@ -0,0 +1,592 @@
+import { cpSync, existsSync, readFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import type {
+  JSXAttribute,
+  JSXElement,
+  JSXSpreadAttribute,
+  ObjectPattern,
+  Statement,
+} from '@babel/types';
+import { parseJsx, getNodeSource } from '../transformer/jsx-parser';
+import { generateTemplates } from './generate-templates';
+import {
+  type Ui8kitConfigLike,
+  getUi8kitConfigPath,
+  parseAppRoutes,
+  parseNamedImports,
+  readJson,
+  readJsonIfExists,
+  relPath,
+  resolveRouteComponentFile,
+  writeJsonFile,
+  writeTextFile,
+} from './blueprint-shared';
+
+interface AppPackageJson {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+export interface GenerateVueAppOptions {
+  cwd: string;
+  /** Output directory for the standalone Vite + Vue app (default: dist/vue) */
+  outDir?: string;
+  silent?: boolean;
+}
+
+export interface VueRouteRecord {
+  path: string;
+  /** Route component name from App.tsx, emitted as src/routes/<component>.vue */
+  component: string;
+  /** View SFC rendered by the route */
+  view?: string;
+}
+
+export interface GenerateVueAppResult {
+  outputDir: string;
+  /** Generated block/layout/partial SFCs */
+  components: string[];
+  routes: VueRouteRecord[];
+  /** Every file written, including project config */
+  files: string[];
+  warnings: string[];
+}
+
+/** App shell directories without React code, copied as-is (TS only). */
+const SHELL_DIRS = ['lib', 'variants', 'data', 'types', 'assets'];
+
+/** Imports that only exist in the React app; Vue resolves components globally. */
+const REACT_ONLY_SOURCES = [
+  /^react(-dom|-router-dom)?(\/|$)/,
+  /^lucide-react$/,
+  /^@ui8kit\/(core|dsl)$/,
+  /^@\/(blocks|layouts|partials|components|providers|hooks)(\/|$)/,
+];
+
+const VUE_DEPENDENCIES = {
+  vue: '^3.5.13',
+  'vue-router': '^4.5.0',
+};
+
+const VUE_DEV_DEPENDENCIES = {
+  '@vitejs/plugin-vue': '^5.2.1',
+  'vue-tsc': '^2.2.0',
+};
+
+function isReactOnlySource(source: string): boolean {
+  return REACT_ONLY_SOURCES.some((pattern) => pattern.test(source));
+}
+
+function loadRuntimeConfig(cwd: string): Ui8kitConfigLike {
+  const configPath = getUi8kitConfigPath(cwd);
+  return existsSync(configPath) ? readJson<Ui8kitConfigLike>(configPath) : {};
+}
+
+/**
+ * JS expression for a double-quoted Vue directive value.
+ */
+function toDirectiveValue(expr: string): string {
+  return expr.replace(/"((?:[^"\\']|\\.)*)"/g, "'$1'").replace(/"/g, '&quot;');
+}
+
+// =============================================================================
+// Route Conversion (src/routes/*.tsx → src/routes/*.vue)
+// =============================================================================
+
+interface ParsedRouteView {
+  view?: string;
+  imports: string[];
+  statements: string[];
+  attributes: string[];
+  warnings: string[];
+}
+
+function getReturnedJsx(statements: Statement[]): JSXElement | undefined {
+  let found: JSXElement | undefined;
+  for (const statement of statements) {
+    if (statement.type === 'ReturnStatement' && statement.argument?.type === 'JSXElement') {
+      found = statement.argument;
+    }
+  }
+  return found;
+}
+
+function convertAttribute(source: string, attr: JSXAttribute | JSXSpreadAttribute, warnings: string[]): string | undefined {
+  if (attr.type === 'JSXSpreadAttribute') {
+    return `v-bind="${toDirectiveValue(getNodeSource(source, attr.argument))}"`;
+  }
+
+  const name = attr.name.type === 'JSXIdentifier' ? attr.name.name : getNodeSource(source, attr.name);
+  const value = attr.value;
+  if (!value) return name;
+  if (value.type === 'StringLiteral') return `${name}="${value.value}"`;
+  if (value.type === 'JSXExpressionContainer') {
+    const expression = value.expression;
+    if (expression.type === 'JSXEmptyExpression') return undefined;
+    if (expression.type === 'JSXElement' || expression.type === 'JSXFragment') {
+      warnings.push(`JSX prop "${name}" is not passed to the Vue view`);
+      return undefined;
+    }
+    return `:${name}="${toDirectiveValue(getNodeSource(source, expression))}"`;
+  }
+  warnings.push(`Unsupported prop "${name}" skipped`);
+  return undefined;
+}
+
+/**
+ * Read a React route component: statements before the returned view element
+ * (useParams becomes useRoute) and the props passed to the view.
+ */
+function parseRouteView(source: string): ParsedRouteView {
+  const ast = parseJsx(source);
+  const warnings: string[] = [];
+  const importedFrom = parseNamedImports(source);
+  const reactOnlyBindings = [...importedFrom]
+    .filter(([, specifier]) => isReactOnlySource(specifier))
+    .map(([local]) => local);
+
+  const fn = ast.program.body
+    .map((node) => (node.type === 'ExportNamedDeclaration' || node.type === 'ExportDefaultDeclaration' ? node.declaration : node))
+    .find((node) => node?.type === 'FunctionDeclaration');
+  if (!fn || fn.type !== 'FunctionDeclaration') {
+    return { imports: [], statements: [], attributes: [], warnings: ['No route component function found'] };
+  }
+
+  const element = getReturnedJsx(fn.body.body);
+  const statements: string[] = [];
+  for (const statement of fn.body.body) {
+    if (statement.type === 'ReturnStatement') continue;
+    const code = getNodeSource(source, statement);
+
+    if (statement.type === 'VariableDeclaration' && code.includes('useParams')) {
+      const pattern = statement.declarations[0]?.id;
+      const names = pattern?.type === 'ObjectPattern'
+        ? (pattern as ObjectPattern).properties.flatMap((p) =>
+            p.type === 'ObjectProperty' && p.value.type === 'Identifier' ? [p.value.name] : []
+          )
+        : [];
+      statements.push(...names.map((name) => `const ${name} = String(route.params.${name} ?? '');`));
+      continue;
+    }
+
+    const usesReactOnly = reactOnlyBindings.some((local) => new RegExp(`\\b${local}\\b`).test(code));
+    if (statement.type !== 'VariableDeclaration' || usesReactOnly) {
+      warnings.push(`Route statement not ported: ${code.split('\n')[0]}`);
+      continue;
+    }
+    statements.push(code);
+  }
+
+  const attributes = element
+    ? element.openingElement.attributes.flatMap((attr) => convertAttribute(source, attr, warnings) ?? [])
+    : [];
+  const view = element?.openingElement.name.type === 'JSXIdentifier' ? element.openingElement.name.name : undefined;
+  if (!view) warnings.push('No returned view element found');
+
+  const usedCode = [...statements, ...attributes].join('\n');
+  const imports = ast.program.body.flatMap((node) => {
+    if (node.type !== 'ImportDeclaration' || node.importKind === 'type') return [];
+    if (isReactOnlySource(node.source.value)) return [];
+    const used = node.specifiers.some((s) => new RegExp(`\\b${s.local.name}\\b`).test(usedCode));
+    return used ? [getNodeSource(source, node)] : [];
+  });
+
+  return { view, imports, statements, attributes, warnings };
+}
+
+function buildRouteSfc(parsed: ParsedRouteView): string {
+  const usesRoute = parsed.statements.some((s) => s.includes('route.params'));
+  const importLines = [
+    ...(usesRoute ? ["import { useRoute } from 'vue-router';"] : []),
+    ...parsed.imports,
+  ];
+  const body = [...(usesRoute ? ['const route = useRoute();'] : []), ...parsed.statements];
+  const scriptParts = [importLines.join('\n'), body.join('\n')].filter(Boolean);
+  const script = scriptParts.length > 0
+    ? `<script setup lang="ts">\n${scriptParts.join('\n\n')}\n</script>\n\n`
+    : '';
+  const attrs = parsed.attributes.length > 0 ? `\n    ${parsed.attributes.join('\n    ')}\n  ` : ' ';
+  const template = parsed.view ? `  <${parsed.view}${attrs}/>` : '  <div />';
+
+  return `${script}<template>\n${template}\n</template>\n`;
+}
+
+// =============================================================================
+// Project Files
+// =============================================================================
+
+const CORE_COMPONENTS_SOURCE = `import { defineComponent, h, type App, type Component } from 'vue';
+import { cn } from '@/lib/utils';
+import { resolveUtilityClassName } from '@/lib/utility-props';
+import {
+  badgeSizeVariants,
+  badgeStyleVariants,
+  buttonSizeVariants,
+  buttonStyleVariants,
+  cardContentVariants,
+  cardDescriptionVariants,
+  cardFooterVariants,
+  cardHeaderVariants,
+  cardTitleVariants,
+  cardVariants,
+  gridVariants,
+  typographyVariants,
+} from '@/variants';
+
+type Attrs = Record<string, any>;
+
+interface CoreComponentOptions {
+  tag: string | ((attrs: Attrs) => string);
+  dataClass: string;
+  /** Attributes consumed by variants (never rendered on the DOM element) */
+  variantProps?: string[];
+  variants?: (values: Attrs) => string;
+}
+
+const typographyProps = ['fontSize', 'textColor', 'textAlign', 'fontWeight', 'lineHeight', 'letterSpacing', 'truncate'];
+
+/**
+ * Vue counterpart of a @ui8kit/core component: utility props resolve to
+ * classes through the same map as the React components.
+ */
+function defineCoreComponent(name: string, options: CoreComponentOptions): Component {
+  return defineComponent({
+    name,
+    inheritAttrs: false,
+    setup(_, { attrs, slots }) {
+      return () => {
+        const { component, class: className, ...rest } = attrs as Attrs;
+        const variantValues: Attrs = {};
+        const domAttrs: Attrs = {};
+        for (const [key, value] of Object.entries(rest)) {
+          (options.variantProps?.includes(key) ? variantValues : domAttrs)[key] = value;
+        }
+        const { utilityClassName, rest: passthrough } = resolveUtilityClassName(domAttrs);
+        const tag = component ?? (typeof options.tag === 'function' ? options.tag(attrs) : options.tag);
+        return h(
+          tag,
+          {
+            'data-class': options.dataClass,
+            ...passthrough,
+            class: cn(options.variants?.(variantValues), utilityClassName, className),
+          },
+          slots.default?.()
+        );
+      };
+    },
+  });
+}
+
+export const coreComponents: Record<string, Component> = {
+  Block: defineCoreComponent('Block', { tag: 'div', dataClass: 'block' }),
+  Container: defineCoreComponent('Container', { tag: 'div', dataClass: 'container' }),
+  Stack: defineCoreComponent('Stack', { tag: 'div', dataClass: 'stack' }),
+  Group: defineCoreComponent('Group', { tag: 'div', dataClass: 'group' }),
+  Box: defineCoreComponent('Box', { tag: 'div', dataClass: 'box' }),
+  Title: defineCoreComponent('Title', {
+    tag: (attrs) => \`h\${attrs.order ?? 1}\`,
+    dataClass: 'title',
+    variantProps: ['order', ...typographyProps],
+    variants: (values) => typographyVariants({ fontSize: 'xl', fontWeight: 'bold', lineHeight: 'normal', ...values }),
+  }),
+  Text: defineCoreComponent('Text', {
+    tag: 'p',
+    dataClass: 'text',
+    variantProps: typographyProps,
+    variants: (values) => typographyVariants({ fontSize: 'base', fontWeight: 'normal', lineHeight: 'normal', ...values }),
+  }),
+  Button: defineCoreComponent('Button', {
+    tag: (attrs) => (attrs.href ? 'a' : 'button'),
+    dataClass: 'button',
+    variantProps: ['variant', 'size'],
+    variants: ({ variant, size }) => cn(buttonStyleVariants({ variant }), buttonSizeVariants({ size })),
+  }),
+  Badge: defineCoreComponent('Badge', {
+    tag: 'span',
+    dataClass: 'badge',
+    variantProps: ['variant', 'size'],
+    variants: ({ variant, size }) => cn(badgeStyleVariants({ variant }), badgeSizeVariants({ size })),
+  }),
+  Image: defineCoreComponent('Image', { tag: 'img', dataClass: 'image' }),
+  Icon: defineCoreComponent('Icon', { tag: 'span', dataClass: 'icon', variantProps: ['lucideIcon', 'size'] }),
+  Grid: defineCoreComponent('Grid', {
+    tag: 'div',
+    dataClass: 'Grid',
+    variantProps: ['cols'],
+    variants: ({ cols }) => cn('grid', gridVariants({ cols })),
+  }),
+  Card: defineCoreComponent('Card', {
+    tag: 'div',
+    dataClass: 'card',
+    variantProps: ['variant'],
+    variants: ({ variant }) => cardVariants({ variant }),
+  }),
+  CardHeader: defineCoreComponent('CardHeader', { tag: 'div', dataClass: 'card-header', variants: () => cardHeaderVariants() }),
+  CardTitle: defineCoreComponent('CardTitle', {
+    tag: (attrs) => \`h\${attrs.order ?? 3}\`,
+    dataClass: 'card-title',
+    variantProps: ['order'],
+    variants: () => cardTitleVariants(),
+  }),
+  CardDescription: defineCoreComponent('CardDescription', { tag: 'p', dataClass: 'card-description', variants: () => cardDescriptionVariants() }),
+  CardContent: defineCoreComponent('CardContent', { tag: 'div', dataClass: 'card-content', variants: () => cardContentVariants() }),
+  CardFooter: defineCoreComponent('CardFooter', { tag: 'div', dataClass: 'card-footer', variants: () => cardFooterVariants() }),
+  Sheet: defineCoreComponent('Sheet', {
+    tag: 'div',
+    dataClass: 'sheet',
+    variantProps: ['side', 'size', 'title', 'showTrigger', 'openLabel', 'closeLabel'],
+  }),
+  Field: defineCoreComponent('Field', { tag: 'input', dataClass: 'field', variantProps: ['variant', 'size'] }),
+};
+
+export function registerCoreComponents(app: App): void {
+  for (const [name, component] of Object.entries(coreComponents)) {
+    app.component(name, component);
+  }
+}
+`;
+
+const MAIN_SOURCE = `import { createApp, type Component } from 'vue';
+import App from './App.vue';
+import { router } from './router';
+import { registerCoreComponents } from './components';
+import '@/assets/css/index.css';
+
+const app = createApp(App);
+registerCoreComponents(app);
+
+// Generated blocks, layouts and partials reference each other by component name
+const views = import.meta.glob<{ default: Component }>('./{blocks,layouts,partials}/**/*.vue', { eager: true });
+for (const [path, module] of Object.entries(views)) {
+  app.component(path.split('/').pop()!.replace(/\\.vue$/, ''), module.default);
+}
+
+app.use(router).mount('#app');
+`;
+
+const APP_SFC = `<template>
+  <RouterView :key="$route.fullPath" />
+</template>
+`;
+
+const ENV_DTS = `/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue';
+  const component: DefineComponent<object, object, any>;
+  export default component;
+}
+`;
+
+function buildRouterSource(routes: VueRouteRecord[]): string {
+  const records = routes
+    .map((route) => `    { path: '${route.path}', component: () => import('./routes/${route.component}.vue') },`)
+    .join('\n');
+  return `import { createRouter, createWebHistory } from 'vue-router';
+
+export const router = createRouter({
+  history: createWebHistory(),
+  routes: [
+${records}
+  ],
+});
+`;
+}
+
+function buildPackageJson(appPkg: AppPackageJson): object {
+  const pick = (source: Record<string, string> | undefined, names: string[]): Record<string, string> =>
+    Object.fromEntries(names.filter((name) => source?.[name]).map((name) => [name, source![name]!]));
+
+  return {
+    name: `${appPkg.name ?? 'app'}-vue`,
+    version: appPkg.version ?? '0.1.0',
+    private: true,
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'vite build',
+      typecheck: 'vue-tsc --noEmit',
+      preview: 'vite preview',
+    },
+    dependencies: {
+      ...pick(appPkg.dependencies, ['@ui8kit/sdk', 'class-variance-authority', 'clsx', 'tailwind-merge']),
+      ...VUE_DEPENDENCIES,
+    },
+    devDependencies: {
+      ...pick(appPkg.devDependencies, ['@tailwindcss/postcss', '@types/node', 'postcss', 'tailwindcss', 'typescript', 'vite']),
+      ...VUE_DEV_DEPENDENCIES,
+    },
+  };
+}
+
+const VITE_CONFIG = `import { defineConfig } from 'vite';
+import vue from '@vitejs/plugin-vue';
+import path from 'node:path';
+
+export default defineConfig({
+  plugins: [vue()],
+  server: {
+    port: 3022,
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(process.cwd(), './src'),
+    },
+  },
+});
+`;
+
+const TSCONFIG = `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "useDefineForClassFields": true,
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "jsx": "preserve",
+    "strict": false,
+    "baseUrl": ".",
+    "paths": {
+      "@/*": ["src/*"]
+    }
+  },
+  "include": ["src/**/*.ts", "src/**/*.vue"]
+}
+`;
+
+const POSTCSS_CONFIG = `export default {
+  plugins: {
+    "@tailwindcss/postcss": {},
+  },
+};
+`;
+
+function buildIndexHtml(title: string, lang: string): string {
+  return `<!doctype html>
+<html lang="${lang}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>
+`;
+}
+
+// =============================================================================
+// Entry
+// =============================================================================
+
+/**
+ * Build a standalone Vite + Vue 3 app from the DSL sources: blocks, layouts and
+ * partials become SFCs via VuePlugin, React routes in App.tsx become route SFCs,
+ * and the framework-agnostic shell (lib, variants, data, types, assets,
+ * fixtures) is copied as-is.
+ */
+export async function generateVueApp(options: GenerateVueAppOptions): Promise<GenerateVueAppResult> {
+  const cwd = resolve(options.cwd);
+  const config = loadRuntimeConfig(cwd);
+  const outputDir = resolve(cwd, options.outDir ?? join('dist', 'vue'));
+  const srcDir = resolve(cwd, 'src');
+  const outSrc = join(outputDir, 'src');
+  const files: string[] = [];
+  const warnings: string[] = [];
+
+  const write = (path: string, content: string): void => {
+    writeTextFile(path, content);
+    files.push(path);
+  };
+
+  // 1. Blocks, layouts, partials → SFCs
+  const templates = await generateTemplates({ cwd, engine: 'vue', outDir: outSrc, silent: true });
+  warnings.push(...templates.warnings);
+  files.push(...templates.files);
+
+  // 2. Framework-agnostic app shell
+  for (const dir of SHELL_DIRS) {
+    const from = join(srcDir, dir);
+    if (!existsSync(from)) continue;
+    cpSync(from, join(outSrc, dir), {
+      recursive: true,
+      filter: (path) => extname(path) !== '.tsx',
+    });
+  }
+  const cssEntry = join(outSrc, 'assets', 'css', 'index.css');
+  if (existsSync(cssEntry)) {
+    // Tailwind must scan SFCs instead of TSX
+    write(cssEntry, readFileSync(cssEntry, 'utf-8').replace(/\{ts,tsx\}/g, '{ts,vue}'));
+  }
+  const fixturesDir = resolve(cwd, config.fixtures ?? 'fixtures');
+  if (existsSync(fixturesDir)) {
+    cpSync(fixturesDir, join(outputDir, 'fixtures'), { recursive: true });
+  }
+
+  // 3. Routes from App.tsx
+  const routes: VueRouteRecord[] = [];
+  const appPath = join(srcDir, 'App.tsx');
+  if (existsSync(appPath)) {
+    const appSource = readFileSync(appPath, 'utf-8');
+    const routeImports = parseNamedImports(appSource);
+
+    for (const record of parseAppRoutes(appSource)) {
+      const routeFile = resolveRouteComponentFile(srcDir, appPath, routeImports.get(record.component));
+      if (!routeFile || !existsSync(routeFile)) {
+        warnings.push(`Route ${record.path}: component ${record.component} not found`);
+        continue;
+      }
+
+      const parsed = parseRouteView(readFileSync(routeFile, 'utf-8'));
+      for (const warning of parsed.warnings) {
+        warnings.push(`${relPath(cwd, routeFile)}: ${warning}`);
+      }
+      write(join(outSrc, 'routes', `${record.component}.vue`), buildRouteSfc(parsed));
+      routes.push({ path: record.path, component: record.component, view: parsed.view });
+    }
+  } else {
+    warnings.push(`App routes not found: ${relPath(cwd, appPath)}`);
+  }
+
+  // 4. Vue entry files
+  write(join(outSrc, 'components', 'index.ts'), CORE_COMPONENTS_SOURCE);
+  write(join(outSrc, 'router.ts'), buildRouterSource(routes));
+  write(join(outSrc, 'App.vue'), APP_SFC);
+  write(join(outSrc, 'main.ts'), MAIN_SOURCE);
+  write(join(outSrc, 'env.d.ts'), ENV_DTS);
+
+  // 5. Project config
+  const appPkg = readJsonIfExists<AppPackageJson>(join(cwd, 'package.json')) ?? {};
+  const packageJsonPath = join(outputDir, 'package.json');
+  writeJsonFile(packageJsonPath, buildPackageJson(appPkg));
+  files.push(packageJsonPath);
+  write(join(outputDir, 'vite.config.ts'), VITE_CONFIG);
+  write(join(outputDir, 'tsconfig.json'), TSCONFIG);
+  write(join(outputDir, 'postcss.config.js'), POSTCSS_CONFIG);
+  write(
+    join(outputDir, 'index.html'),
+    buildIndexHtml(config.app?.name ?? config.brand ?? basename(cwd), config.app?.lang ?? 'en')
+  );
+
+  if (!options.silent) {
+    console.log(
+      `Generated Vue app with ${templates.files.length} components and ${routes.length} routes in ${relPath(cwd, outputDir)}`
+    );
+  }
+
+  return {
+    outputDir,
+    components: templates.files,
+    routes,
+    files,
+    warnings,
+  };
+}
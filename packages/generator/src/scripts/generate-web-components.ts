@@ -0,0 +1,654 @@
+import { cpSync, existsSync, readFileSync } from 'node:fs';
+import { basename, extname, join, relative, resolve } from 'node:path';
+import { generateTemplates } from './generate-templates';
+import {
+  type Ui8kitConfigLike,
+  getUi8kitConfigPath,
+  readJson,
+  readJsonIfExists,
+  relPath,
+  toPosixPath,
+  writeJsonFile,
+  writeTextFile,
+} from './blueprint-shared';
+
+interface AppPackageJson {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+export type WebComponentsDomMode = 'shadow' | 'light';
+
+export interface GenerateWebComponentsOptions {
+  cwd: string;
+  /** Output directory for the custom elements package (default: dist/web-components) */
+  outDir?: string;
+  /** Render mode registered by the bundle entry (default: shadow) */
+  dom?: WebComponentsDomMode;
+  /** Custom element tag prefix (default: ui8) */
+  tagPrefix?: string;
+  silent?: boolean;
+}
+
+export interface WebComponentRecord {
+  tagName: string;
+  className: string;
+  /** Module path relative to src/, without extension */
+  module: string;
+}
+
+export interface GenerateWebComponentsResult {
+  outputDir: string;
+  dom: WebComponentsDomMode;
+  elements: WebComponentRecord[];
+  /** Every file written, including project config */
+  files: string[];
+  warnings: string[];
+}
+
+/** Framework-agnostic app shell directories, copied as-is (TS only). */
+const SHELL_DIRS = ['lib', 'variants', 'types', 'assets'];
+
+const WEB_COMPONENTS_DEPENDENCIES = {
+  'lit-html': '^3.2.1',
+};
+
+function loadRuntimeConfig(cwd: string): Ui8kitConfigLike {
+  const configPath = getUi8kitConfigPath(cwd);
+  return existsSync(configPath) ? readJson<Ui8kitConfigLike>(configPath) : {};
+}
+
+// =============================================================================
+// Runtime (src/runtime.ts)
+// =============================================================================
+
+const RUNTIME_SOURCE = `import { html, noChange, nothing, render } from 'lit-html';
+import {
+  Directive,
+  PartType,
+  directive,
+  type DirectiveParameters,
+  type ElementPart,
+  type PartInfo,
+} from 'lit-html/directive.js';
+import { cn } from '@/lib/utils';
+import { resolveUtilityClassName } from '@/lib/utility-props';
+import {
+  badgeSizeVariants,
+  badgeStyleVariants,
+  buttonSizeVariants,
+  buttonStyleVariants,
+  cardContentVariants,
+  cardDescriptionVariants,
+  cardFooterVariants,
+  cardHeaderVariants,
+  cardTitleVariants,
+  cardVariants,
+  gridVariants,
+  typographyVariants,
+} from '@/variants';
+
+export type AttributeType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface DefineElementsOptions {
+  /** Render into an open shadow root (default) or into the element itself (light DOM) */
+  shadow?: boolean;
+  /** Stylesheet adopted by every shadow root, or by the document in light DOM mode */
+  styles?: string | CSSStyleSheet;
+}
+
+type Values = Record<string, any>;
+
+const settings: { shadow: boolean; styles?: CSSStyleSheet } = { shadow: true };
+
+const toCamelCase = (name: string): string => name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+const toKebabCase = (name: string): string => name.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase());
+
+function parseAttribute(value: string | null, type: AttributeType | undefined): unknown {
+  if (type === 'boolean') return value !== null && value !== 'false';
+  if (value === null) return undefined;
+  if (type === 'number') return Number(value);
+  if (type === 'json') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/** Group child nodes by slot name ('' is the default slot). */
+function groupSlots(nodes: Node[], claim: boolean): Map<string, Node[]> {
+  const slots = new Map<string, Node[]>();
+  for (const node of nodes) {
+    const name = node instanceof Element ? node.getAttribute('slot') ?? '' : '';
+    // Light DOM content is rendered in place, so claimed nodes drop their slot name
+    if (claim && name) (node as Element).removeAttribute('slot');
+    slots.set(name, [...(slots.get(name) ?? []), node]);
+  }
+  return slots;
+}
+
+function isSignificant(node: Node): boolean {
+  if (node.nodeType === Node.ELEMENT_NODE) return true;
+  return node.nodeType === Node.TEXT_NODE && (node.textContent ?? '').trim() !== '';
+}
+
+/**
+ * Base class for generated elements: typed attributes and properties,
+ * lit-html rendering into a shadow root or the element itself, and slot
+ * resolution for both modes.
+ */
+export abstract class Ui8Element<P extends object = object> extends HTMLElement {
+  static tagName = '';
+  static observedAttributes: readonly string[] = [];
+  static attributeTypes: Readonly<Record<string, AttributeType>> = {};
+  /** Element receiving \`{...props}\`; its attribute table is adopted at definition */
+  static forwardsTo?: string;
+  /** Collect attributes and properties outside the attribute table into \`...rest\` */
+  static acceptsRest?: boolean;
+
+  #values: Values = {};
+  #slots?: Map<string, Node[]>;
+  #root?: ShadowRoot | HTMLElement;
+  #updateRequested = false;
+
+  /** Define property accessors for the attribute table. */
+  static finalize(): void {
+    for (const key of Object.keys(this.attributeTypes)) {
+      if (Object.prototype.hasOwnProperty.call(this.prototype, key)) continue;
+      Object.defineProperty(this.prototype, key, {
+        configurable: true,
+        get(this: Ui8Element) {
+          return this.#values[key];
+        },
+        set(this: Ui8Element, value: unknown) {
+          this.#values[key] = value;
+          this.requestUpdate();
+        },
+      });
+    }
+  }
+
+  protected abstract template(): unknown;
+
+  /** Typed values, plus attributes and properties outside the table when rest is accepted. */
+  protected get props(): P {
+    const ctor = this.constructor as typeof Ui8Element;
+    if (!ctor.acceptsRest && !ctor.forwardsTo) return this.#values as P;
+
+    const rest: Values = {};
+    for (const { name, value } of Array.from(this.attributes)) {
+      if (name !== 'slot' && name !== 'style' && !ctor.observedAttributes.includes(name)) {
+        rest[toCamelCase(name)] = value;
+      }
+    }
+    for (const key of Object.keys(this)) {
+      rest[key] = (this as unknown as Values)[key];
+    }
+    return { ...rest, ...this.#values } as P;
+  }
+
+  attributeChangedCallback(name: string, _previous: string | null, value: string | null): void {
+    const key = toCamelCase(name);
+    this.#values[key] = parseAttribute(value, (this.constructor as typeof Ui8Element).attributeTypes[key]);
+    this.requestUpdate();
+  }
+
+  connectedCallback(): void {
+    if (!this.#root) {
+      // Properties set before the element was defined shadow the accessors
+      for (const key of Object.keys((this.constructor as typeof Ui8Element).attributeTypes)) {
+        if (Object.prototype.hasOwnProperty.call(this, key)) {
+          const value = (this as unknown as Values)[key];
+          delete (this as unknown as Values)[key];
+          (this as unknown as Values)[key] = value;
+        }
+      }
+      this.#root = settings.shadow ? this.#attachShadowRoot() : this.#captureChildren();
+    }
+    this.#render();
+  }
+
+  /** Schedule a render in a microtask, batching property and attribute changes. */
+  requestUpdate(): void {
+    if (!this.#root || this.#updateRequested) return;
+    this.#updateRequested = true;
+    queueMicrotask(() => {
+      this.#updateRequested = false;
+      this.#render();
+    });
+  }
+
+  /** Slot content: a native <slot> in shadow DOM, the captured child nodes in light DOM. */
+  protected slotted(name?: string, fallback: unknown = nothing): unknown {
+    if (settings.shadow) {
+      return name ? html\`<slot name=\${name}>\${fallback}</slot>\` : html\`<slot>\${fallback}</slot>\`;
+    }
+    const nodes = this.#slots?.get(name ?? '') ?? [];
+    return nodes.some(isSignificant) ? nodes : fallback;
+  }
+
+  /** Whether slot content was provided (\`{sidebar && ...}\` in the React source). */
+  protected hasSlot(name?: string): boolean {
+    const slots = this.#slots ?? groupSlots(Array.from(this.childNodes), false);
+    return (slots.get(name ?? '') ?? []).some(isSignificant);
+  }
+
+  #attachShadowRoot(): ShadowRoot {
+    const root = this.attachShadow({ mode: 'open' });
+    if (settings.styles) root.adoptedStyleSheets = [settings.styles];
+    return root;
+  }
+
+  #captureChildren(): HTMLElement {
+    this.#slots = groupSlots(Array.from(this.childNodes), true);
+    this.replaceChildren();
+    return this;
+  }
+
+  #render(): void {
+    render(this.template(), this.#root!, { host: this });
+  }
+}
+
+// =============================================================================
+// Spread ({...props})
+// =============================================================================
+
+/** Attributes applied to native elements by spread(); other keys are utility props. */
+const DOM_ATTRIBUTES = new Set([
+  'id', 'href', 'src', 'alt', 'title', 'type', 'role', 'for', 'name', 'value',
+  'placeholder', 'target', 'rel', 'disabled', 'checked', 'tabindex',
+]);
+
+class SpreadDirective extends Directive {
+  #listeners = new Map<string, EventListener>();
+
+  constructor(partInfo: PartInfo) {
+    super(partInfo);
+    if (partInfo.type !== PartType.ELEMENT) {
+      throw new Error('spread() can only be used in element position');
+    }
+  }
+
+  render(_props: Values | undefined): unknown {
+    return noChange;
+  }
+
+  override update(part: ElementPart, [props]: DirectiveParameters<this>): unknown {
+    const element = part.element;
+    for (const [key, value] of Object.entries(props ?? {})) {
+      if (key === 'class' || key === 'className' || key === 'children') continue;
+
+      // Custom elements take every prop as a property
+      if (element.localName.includes('-')) {
+        (element as unknown as Values)[key] = value;
+        continue;
+      }
+
+      const event = key.match(/^on([A-Z]\\w*)$/);
+      if (event) {
+        const type = event[1].toLowerCase();
+        const previous = this.#listeners.get(type);
+        if (previous) element.removeEventListener(type, previous);
+        if (typeof value === 'function') {
+          element.addEventListener(type, value as EventListener);
+          this.#listeners.set(type, value as EventListener);
+        }
+        continue;
+      }
+
+      const attribute = toKebabCase(key);
+      if (!DOM_ATTRIBUTES.has(attribute) && !/^(data|aria)-/.test(attribute)) continue;
+      if (value === undefined || value === null || value === false) {
+        element.removeAttribute(attribute);
+      } else {
+        element.setAttribute(attribute, value === true ? '' : String(value));
+      }
+    }
+    return noChange;
+  }
+}
+
+/** Element-position directive forwarding a props object (\`{...props}\` in JSX). */
+export const spread = directive(SpreadDirective);
+
+// =============================================================================
+// Core components (native tags + class resolution)
+// =============================================================================
+
+interface CoreDefinition {
+  /** Props consumed by variants (never resolved as utility classes) */
+  variantProps?: string[];
+  variants?: (values: Values) => string;
+}
+
+const typographyProps = ['fontSize', 'textColor', 'textAlign', 'fontWeight', 'lineHeight', 'letterSpacing', 'truncate'];
+
+const coreDefinitions: Record<string, CoreDefinition> = {
+  Title: {
+    variantProps: typographyProps,
+    variants: (values) => typographyVariants({ fontSize: 'xl', fontWeight: 'bold', lineHeight: 'normal', ...values }),
+  },
+  Text: {
+    variantProps: typographyProps,
+    variants: (values) => typographyVariants({ fontSize: 'base', fontWeight: 'normal', lineHeight: 'normal', ...values }),
+  },
+  Button: {
+    variantProps: ['variant', 'size'],
+    variants: ({ variant, size }) => cn(buttonStyleVariants({ variant }), buttonSizeVariants({ size })),
+  },
+  Badge: {
+    variantProps: ['variant', 'size'],
+    variants: ({ variant, size }) => cn(badgeStyleVariants({ variant }), badgeSizeVariants({ size })),
+  },
+  Icon: { variantProps: ['size'] },
+  Grid: { variantProps: ['cols'], variants: ({ cols }) => cn('grid', gridVariants({ cols })) },
+  Card: { variantProps: ['variant'], variants: ({ variant }) => cardVariants({ variant }) },
+  CardHeader: { variants: () => cardHeaderVariants() },
+  CardTitle: { variants: () => cardTitleVariants() },
+  CardDescription: { variants: () => cardDescriptionVariants() },
+  CardContent: { variants: () => cardContentVariants() },
+  CardFooter: { variants: () => cardFooterVariants() },
+  Sheet: {
+    variantProps: ['side', 'size', 'title', 'showTrigger', 'openLabel', 'closeLabel', 'triggerVariant', 'triggerSize'],
+  },
+  Field: { variantProps: ['variant', 'size'] },
+};
+
+/**
+ * Class list for a @ui8kit/core component rendered as a native tag: variant
+ * classes, utility props resolved through the same map as the React
+ * components, then extra classes.
+ */
+export function core(name: string, props: Values = {}, className?: string): string {
+  const { variantProps = [], variants } = coreDefinitions[name] ?? {};
+  const variantValues: Values = {};
+  const utilityValues: Values = {};
+  const extra: unknown[] = [];
+  for (const [key, value] of Object.entries(props)) {
+    if (key === 'class' || key === 'className') {
+      extra.push(value);
+    } else {
+      (variantProps.includes(key) ? variantValues : utilityValues)[key] = value;
+    }
+  }
+  return cn(variants?.(variantValues), resolveUtilityClassName(utilityValues).utilityClassName, ...(extra as string[]), className);
+}
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+function toStyleSheet(styles: string | CSSStyleSheet): CSSStyleSheet {
+  if (typeof styles !== 'string') return styles;
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(styles);
+  return sheet;
+}
+
+/**
+ * Register element classes (skipping tags already defined on the page) and
+ * set the render mode shared by all of them.
+ */
+export function defineElements(elements: Array<typeof Ui8Element<any>>, options: DefineElementsOptions = {}): void {
+  settings.shadow = options.shadow ?? true;
+  if (options.styles) settings.styles = toStyleSheet(options.styles);
+  if (!settings.shadow && settings.styles && !document.adoptedStyleSheets.includes(settings.styles)) {
+    document.adoptedStyleSheets = [...document.adoptedStyleSheets, settings.styles];
+  }
+
+  const byTag = new Map(elements.map((element) => [element.tagName, element]));
+  for (const element of elements) {
+    const target = element.forwardsTo ? byTag.get(element.forwardsTo) : undefined;
+    if (target) {
+      // \`(props) => <View {...props} />\` wrappers accept the view's attributes
+      Object.defineProperty(element, 'observedAttributes', { value: target.observedAttributes });
+      Object.defineProperty(element, 'attributeTypes', { value: target.attributeTypes });
+    }
+    element.finalize();
+    if (!customElements.get(element.tagName)) {
+      customElements.define(element.tagName, element as unknown as CustomElementConstructor);
+    }
+  }
+}
+`;
+
+// =============================================================================
+// Project Files
+// =============================================================================
+
+function buildEntrySource(elements: WebComponentRecord[], dom: WebComponentsDomMode, hasStyles: boolean): string {
+  const imports = elements.map((element) => `import { ${element.className} } from './${element.module}';`);
+  const names = elements.map((element) => `  ${element.className},`);
+  const options = hasStyles ? `{ shadow: ${dom === 'shadow'}, styles }` : `{ shadow: ${dom === 'shadow'} }`;
+
+  return [
+    ...(hasStyles ? ["import styles from './assets/css/index.css?inline';"] : []),
+    "import { defineElements } from './runtime';",
+    ...imports,
+    '',
+    'export const elements = [',
+    ...names,
+    '];',
+    '',
+    `defineElements(elements, ${options});`,
+    '',
+    'export {',
+    ...names,
+    '};',
+    "export { defineElements, Ui8Element } from './runtime';",
+    '',
+  ].join('\n');
+}
+
+function buildPackageJson(appPkg: AppPackageJson): object {
+  const pick = (source: Record<string, string> | undefined, names: string[]): Record<string, string> =>
+    Object.fromEntries(names.filter((name) => source?.[name]).map((name) => [name, source![name]!]));
+
+  return {
+    name: `${appPkg.name ?? 'app'}-web-components`,
+    version: appPkg.version ?? '0.1.0',
+    private: true,
+    type: 'module',
+    main: './dist/elements.es.js',
+    scripts: {
+      dev: 'vite',
+      build: 'vite build',
+      typecheck: 'tsc --noEmit',
+    },
+    dependencies: {
+      ...pick(appPkg.dependencies, ['class-variance-authority', 'clsx', 'tailwind-merge']),
+      ...WEB_COMPONENTS_DEPENDENCIES,
+    },
+    devDependencies: pick(appPkg.devDependencies, [
+      '@tailwindcss/postcss', '@types/node', 'postcss', 'tailwindcss', 'typescript', 'vite',
+    ]),
+  };
+}
+
+const VITE_CONFIG = `import { defineConfig } from 'vite';
+import path from 'node:path';
+
+export default defineConfig({
+  server: {
+    port: 3023,
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(process.cwd(), './src'),
+    },
+  },
+  build: {
+    // One script tag registers every element (iife) or import as a module (es)
+    lib: {
+      entry: 'src/index.ts',
+      name: 'Ui8Elements',
+      formats: ['es', 'iife'],
+      fileName: (format) => \`elements.\${format}.js\`,
+    },
+  },
+});
+`;
+
+const TSCONFIG = `{
+  "compilerOptions": {
+    "target": "ES2022",
+    "useDefineForClassFields": true,
+    "lib": ["ES2022", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "skipLibCheck": true,
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "noEmit": true,
+    "strict": false,
+    "baseUrl": ".",
+    "paths": {
+      "@/*": ["src/*"]
+    }
+  },
+  "include": ["src/**/*.ts"]
+}
+`;
+
+const ENV_DTS = `/// <reference types="vite/client" />
+`;
+
+const POSTCSS_CONFIG = `export default {
+  plugins: {
+    "@tailwindcss/postcss": {},
+  },
+};
+`;
+
+function buildIndexHtml(title: string, lang: string, elements: WebComponentRecord[]): string {
+  const example = elements.find((element) => element.module.startsWith('blocks/')) ?? elements[0];
+  const usage = example ? `\n    <${example.tagName}></${example.tagName}>` : '';
+  return `<!doctype html>
+<html lang="${lang}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+    <script type="module" src="/src/index.ts"></script>
+  </head>
+  <body>${usage}
+  </body>
+</html>
+`;
+}
+
+/**
+ * Element class and tag declared by a generated module.
+ */
+function readElementRecord(filePath: string, srcDir: string): WebComponentRecord | undefined {
+  const source = readFileSync(filePath, 'utf-8');
+  const className = source.match(/export class (\w+) extends Ui8Element\b/)?.[1];
+  const tagName = source.match(/static readonly tagName = '([^']+)'/)?.[1];
+  if (!className || !tagName) return undefined;
+
+  const module = toPosixPath(relative(srcDir, filePath)).replace(/\.ts$/, '');
+  return { tagName, className, module };
+}
+
+// =============================================================================
+// Entry
+// =============================================================================
+
+/**
+ * Build a custom elements package from the DSL sources: blocks, layouts and
+ * partials become lit-html element classes via WebComponentPlugin, next to the
+ * Ui8Element runtime, the framework-agnostic shell (lib, variants, types,
+ * assets) and a bundle entry that registers every element.
+ */
+export async function generateWebComponents(options: GenerateWebComponentsOptions): Promise<GenerateWebComponentsResult> {
+  const cwd = resolve(options.cwd);
+  const config = loadRuntimeConfig(cwd);
+  const dom = options.dom ?? 'shadow';
+  const outputDir = resolve(cwd, options.outDir ?? join('dist', 'web-components'));
+  const srcDir = resolve(cwd, 'src');
+  const outSrc = join(outputDir, 'src');
+  const files: string[] = [];
+  const warnings: string[] = [];
+
+  const write = (path: string, content: string): void => {
+    writeTextFile(path, content);
+    files.push(path);
+  };
+
+  // 1. Blocks, layouts, partials → element modules
+  const templates = await generateTemplates({
+    cwd,
+    engine: 'web-components',
+    outDir: outSrc,
+    pluginOptions: { tagPrefix: options.tagPrefix ?? 'ui8', runtimeModule: '@/runtime' },
+    silent: true,
+  });
+  warnings.push(...templates.warnings);
+  files.push(...templates.files);
+
+  const elements: WebComponentRecord[] = [];
+  const seenTags = new Map<string, string>();
+  for (const file of templates.files) {
+    const record = readElementRecord(file, outSrc);
+    if (!record) {
+      warnings.push(`${relPath(outputDir, file)}: no element class found`);
+      continue;
+    }
+    const existing = seenTags.get(record.tagName);
+    if (existing) {
+      warnings.push(`Tag <${record.tagName}> is declared by ${existing} and ${record.module}; only the first is registered`);
+      continue;
+    }
+    seenTags.set(record.tagName, record.module);
+    elements.push(record);
+  }
+
+  // 2. Framework-agnostic app shell
+  for (const dir of SHELL_DIRS) {
+    const from = join(srcDir, dir);
+    if (!existsSync(from)) continue;
+    cpSync(from, join(outSrc, dir), {
+      recursive: true,
+      filter: (path) => extname(path) !== '.tsx',
+    });
+  }
+  const hasStyles = existsSync(join(outSrc, 'assets', 'css', 'index.css'));
+
+  // 3. Runtime and bundle entry
+  write(join(outSrc, 'runtime.ts'), RUNTIME_SOURCE);
+  write(join(outSrc, 'index.ts'), buildEntrySource(elements, dom, hasStyles));
+  write(join(outSrc, 'env.d.ts'), ENV_DTS);
+
+  // 4. Project config
+  const appPkg = readJsonIfExists<AppPackageJson>(join(cwd, 'package.json')) ?? {};
+  const packageJsonPath = join(outputDir, 'package.json');
+  writeJsonFile(packageJsonPath, buildPackageJson(appPkg));
+  files.push(packageJsonPath);
+  write(join(outputDir, 'vite.config.ts'), VITE_CONFIG);
+  write(join(outputDir, 'tsconfig.json'), TSCONFIG);
+  write(join(outputDir, 'postcss.config.js'), POSTCSS_CONFIG);
+  write(
+    join(outputDir, 'index.html'),
+    buildIndexHtml(config.app?.name ?? config.brand ?? basename(cwd), config.app?.lang ?? 'en', elements)
+  );
+
+  if (!options.silent) {
+    console.log(
+      `Generated ${elements.length} custom elements (${dom} DOM) in ${relPath(cwd, outputDir)}`
+    );
+  }
+
+  return {
+    outputDir,
+    dom,
+    elements,
+    files,
+    warnings,
+  };
+}
@@ -26,3 +26,52 @@ export {
   type ScaffoldEntityOptions,
   type ScaffoldEntityResult,
 } from './scaffold-entity';
+export {
+  generateTemplates,
+  createTemplateRegistry,
+  type GenerateTemplatesOptions,
+  type GenerateTemplatesResult,
+} from './generate-templates';
+export {
+  generateVueApp,
+  type GenerateVueAppOptions,
+  type GenerateVueAppResult,
+  type VueRouteRecord,
+} from './generate-vue-app';
+export {
+  checkRenderParity,
+  PARITY_ENGINES,
+  type CheckRenderParityOptions,
+  type CheckRenderParityResult,
+  type ParityEngine,
+  type RouteParityResult,
+  type RouteParityStatus,
+} from './render-parity';
+export {
+  checkPlatformCoverage,
+  type CheckPlatformCoverageOptions,
+  type CheckPlatformCoverageResult,
+  type PlatformDomainCoverage,
+  type PlatformFieldUsage,
+} from './platform-coverage';
+export {
+  snapshotData,
+  SNAPSHOT_SOURCES,
+  type SnapshotDataOptions,
+  type SnapshotDataResult,
+  type SnapshotFixtureResult,
+  type SnapshotFixtureStatus,
+  type SnapshotSource,
+} from './data-snapshot';
+export {
+  generateCanonicalTypes,
+  DEFAULT_CANONICAL_TYPES_FILE,
+  type GenerateCanonicalTypesOptions,
+  type GenerateCanonicalTypesResult,
+  type CanonicalTypesStatus,
+} from './generate-canonical-types';
+export {
+  locateTemplateSource,
+  type LocateTemplateSourceOptions,
+  type LocateTemplateSourceResult,
+} from './locate-template-source';
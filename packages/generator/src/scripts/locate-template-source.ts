@@ -0,0 +1,62 @@
+import { existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { TemplateSourceMap } from '../hast';
+import { originalPositionFor } from '../plugins/template/source-map';
+import { readJson, relPath } from './blueprint-shared';
+
+export interface LocateTemplateSourceOptions {
+  cwd: string;
+  /** `<template>:<line>` or `<template>:<line>:<column>`, e.g. dist/templates/liquid/blocks/hero-block.liquid:12 */
+  target: string;
+}
+
+export interface LocateTemplateSourceResult {
+  /** Template path relative to cwd */
+  template: string;
+  line: number;
+  column?: number;
+  /** Originating JSX file relative to cwd; line and column are 1-based */
+  source: { file: string; line: number; column: number };
+}
+
+/**
+ * Resolve a generated template position to its JSX source through the
+ * `<template>.map` written by `ui8kit-generate templates --source-maps`.
+ */
+export function locateTemplateSource(options: LocateTemplateSourceOptions): LocateTemplateSourceResult {
+  const cwd = resolve(options.cwd);
+  const match = /^(.+?):(\d+)(?::(\d+))?$/.exec(options.target);
+  if (!match) {
+    throw new Error(`Expected <template>:<line>[:<column>], got "${options.target}"`);
+  }
+  const [, templateArg, lineArg, columnArg] = match;
+  const templatePath = resolve(cwd, templateArg);
+  const mapPath = `${templatePath}.map`;
+  if (!existsSync(mapPath)) {
+    throw new Error(
+      `Source map not found: ${relPath(cwd, mapPath)}. Run \`ui8kit-generate templates --source-maps\` first.`
+    );
+  }
+
+  const line = Number(lineArg);
+  const column = columnArg === undefined ? undefined : Number(columnArg);
+  const position = originalPositionFor(
+    readJson<TemplateSourceMap>(mapPath),
+    line,
+    column === undefined ? undefined : Math.max(column - 1, 0)
+  );
+  if (!position) {
+    throw new Error(`No source mapping for ${relPath(cwd, templatePath)}:${line}`);
+  }
+
+  return {
+    template: relPath(cwd, templatePath),
+    line,
+    ...(column === undefined ? {} : { column }),
+    source: {
+      file: relPath(cwd, resolve(dirname(mapPath), position.source)),
+      line: position.line,
+      column: position.column + 1,
+    },
+  };
+}
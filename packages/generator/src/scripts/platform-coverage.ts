@@ -0,0 +1,165 @@
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { transformJsx } from '../transformer/transform';
+import { collectVariables } from '../hast';
+import {
+  comparePlatformFields,
+  loadPlatformMap,
+  toCanonicalFieldPath,
+} from '../plugins/template/platform-map';
+import {
+  type BlueprintEntity,
+  type Ui8kitConfigLike,
+  loadBlueprint,
+  loadUi8kitConfig,
+  readText,
+  relPath,
+} from './blueprint-shared';
+
+type RuntimeUi8kitConfig = Ui8kitConfigLike & {
+  platformMapPath?: string;
+  /** Platform domain -> blueprint entity names, e.g. { "catalog": ["menu"] } */
+  platformDomains?: Record<string, string[]>;
+};
+
+export interface CheckPlatformCoverageOptions {
+  cwd: string;
+  /** Platform map override (default: platformMapPath from ui8kit.config.json) */
+  platformMapPath?: string;
+  blueprintFile?: string;
+  /** Restrict the report to these domains (default: every domain in the map) */
+  domains?: string[];
+}
+
+export interface PlatformFieldUsage {
+  /** Canonical field path, e.g. `price.display` */
+  field: string;
+  /** Template variables resolving to the field, e.g. `item.price.display` */
+  variables: string[];
+  /** Views using the field, relative to cwd */
+  files: string[];
+}
+
+export interface PlatformDomainCoverage {
+  domain: string;
+  resource: string;
+  entities: string[];
+  views: string[];
+  used: PlatformFieldUsage[];
+  unmapped: PlatformFieldUsage[];
+  unused: string[];
+  skipped: string[];
+}
+
+export interface CheckPlatformCoverageResult {
+  /** False when any domain view uses a field path missing from the map */
+  ok: boolean;
+  platform: string;
+  platformMapPath: string;
+  domains: PlatformDomainCoverage[];
+  warnings: string[];
+}
+
+function resolveDomainEntities(
+  domain: string,
+  config: RuntimeUi8kitConfig,
+  entities: BlueprintEntity[],
+  warnings: string[]
+): BlueprintEntity[] {
+  const names = config.platformDomains?.[domain];
+  if (!names) {
+    return entities.filter((entity) => entity.name === domain);
+  }
+
+  const resolved: BlueprintEntity[] = [];
+  for (const name of names) {
+    const entity = entities.find((candidate) => candidate.name === name);
+    if (entity) resolved.push(entity);
+    else warnings.push(`platformDomains.${domain}: entity "${name}" not found in blueprint`);
+  }
+  return resolved;
+}
+
+/**
+ * Cross-check the field paths used in each domain's views against the platform map.
+ */
+export function checkPlatformCoverage(options: CheckPlatformCoverageOptions): CheckPlatformCoverageResult {
+  const cwd = resolve(options.cwd);
+  const config = loadUi8kitConfig(cwd) as RuntimeUi8kitConfig;
+  const mapPath = options.platformMapPath ?? config.platformMapPath;
+  if (!mapPath) {
+    throw new Error('No platform map: pass --platform-map or set platformMapPath in ui8kit.config.json');
+  }
+
+  const absMapPath = resolve(cwd, mapPath);
+  const platformMap = loadPlatformMap(absMapPath);
+  const { blueprint } = loadBlueprint(cwd, options.blueprintFile);
+  const warnings: string[] = [];
+  const domains: PlatformDomainCoverage[] = [];
+
+  const domainNames = options.domains ?? Object.keys(platformMap.domains);
+  for (const domain of domainNames) {
+    const mapping = platformMap.domains[domain];
+    if (!mapping) {
+      warnings.push(`Domain "${domain}" is not defined in ${relPath(cwd, absMapPath)}`);
+      continue;
+    }
+
+    const entities = resolveDomainEntities(domain, config, blueprint.entities, warnings);
+    if (entities.length === 0) {
+      warnings.push(`Domain "${domain}" has no blueprint entities (add it to platformDomains in ui8kit.config.json)`);
+      continue;
+    }
+
+    const usage = new Map<string, { variables: Set<string>; files: Set<string> }>();
+    const views = [...new Set(entities.flatMap((entity) => entity.views))].sort();
+    for (const view of views) {
+      const viewPath = resolve(cwd, view);
+      if (!existsSync(viewPath)) {
+        warnings.push(`${view}: view not found`);
+        continue;
+      }
+
+      const transformResult = transformJsx(readText(viewPath), { sourceFile: viewPath });
+      if (transformResult.errors.length > 0) {
+        warnings.push(`${view}: ${transformResult.errors.join('; ')}`);
+        continue;
+      }
+
+      for (const variable of collectVariables(transformResult.tree)) {
+        const field = toCanonicalFieldPath(variable);
+        if (!field) continue;
+        const entry = usage.get(field) ?? { variables: new Set<string>(), files: new Set<string>() };
+        entry.variables.add(variable);
+        entry.files.add(view);
+        usage.set(field, entry);
+      }
+    }
+
+    const toUsage = (field: string): PlatformFieldUsage => ({
+      field,
+      variables: [...usage.get(field)!.variables].sort(),
+      files: [...usage.get(field)!.files].sort(),
+    });
+    const coverage = comparePlatformFields(mapping, usage.keys());
+
+    domains.push({
+      domain,
+      resource: mapping.resource,
+      entities: entities.map((entity) => entity.name),
+      views,
+      used: coverage.mapped.map(toUsage),
+      unmapped: coverage.unmapped.map(toUsage),
+      unused: coverage.unused,
+      skipped: coverage.skipped,
+    });
+  }
+
+  return {
+    ok: domains.every((domain) => domain.unmapped.length === 0),
+    platform: platformMap.platform,
+    platformMapPath: absMapPath,
+    domains,
+    warnings,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Tests for the render parity helpers (route expansion, template rendering, HTML comparison)
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { afterEach, describe, it, expect } from 'vitest';
+import { compareRouteHtml, createTemplateRenderer, expandRoutes } from './render-parity';
+import { annotate, element, root } from '../hast';
+import type { GeneratedTemplate } from '../plugins/template/ITemplatePlugin';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let tempDir: string | undefined;
+
+function createTempDir(): string {
+  tempDir = mkdtempSync(join(tmpdir(), 'render-parity-'));
+  return tempDir;
+}
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = undefined;
+});
+
+function template(path: string, componentName: string, includes: string[] = []): GeneratedTemplate {
+  const children = includes.map((name) =>
+    annotate(element('div', {}, []), { include: { partial: `partials/${name.toLowerCase()}`, originalName: name }, unwrap: true })
+  );
+  return {
+    path,
+    tree: root(children, { sourceFile: `${componentName}.tsx`, componentName, exports: [componentName], dependencies: [] }),
+  };
+}
+
+function writeTemplates(outputDir: string, files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(outputDir, path)), { recursive: true });
+    writeFileSync(join(outputDir, path), content);
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('expandRoutes', () => {
+  it('keeps static patterns and expands dynamic ones from fixture items', () => {
+    const fixturesDir = createTempDir();
+    writeFileSync(join(fixturesDir, 'menu.json'), JSON.stringify({ items: [{ id: '1', slug: 'soup' }, { id: 'salad' }] }));
+    writeFileSync(join(fixturesDir, 'blog.json'), JSON.stringify({ posts: [{ slug: 'opening' }] }));
+
+    const routes = expandRoutes(['/', '/menu', '/menu/:slug', '/blog/:slug', '/recipes/:slug'], fixturesDir);
+
+    expect([...routes]).toEqual([
+      ['/', '/'],
+      ['/menu', '/menu'],
+      ['/menu/soup', '/menu/:slug'],
+      ['/menu/salad', '/menu/:slug'],
+      ['/blog/opening', '/blog/:slug'],
+    ]);
+  });
+});
+
+describe('createTemplateRenderer', () => {
+  it('renders resolved includes and leaves ambiguous ones unregistered', async () => {
+    const outputDir = createTempDir();
+    const appRoot = resolve(__dirname, '../..');
+    writeTemplates(outputDir, {
+      'blocks/home-page.liquid': "<main>{% include 'partials/hero.liquid' %}</main>",
+      'blocks/menu-page.liquid': "<main>{% include 'partials/card.liquid' %}</main>",
+      'partials/hero.liquid': '<h1>{{ title }}</h1>',
+      'blocks/menu/card.liquid': '<article>menu</article>',
+      'blocks/blog/card.liquid': '<article>blog</article>',
+    });
+    const warnings: string[] = [];
+
+    const render = await createTemplateRenderer(
+      'liquid',
+      appRoot,
+      outputDir,
+      [
+        template('blocks/home-page.liquid', 'HomePage', ['Hero']),
+        template('blocks/menu-page.liquid', 'MenuPage', ['Card']),
+        template('partials/hero.liquid', 'Hero'),
+        template('blocks/menu/card.liquid', 'Card'),
+        template('blocks/blog/card.liquid', 'Card'),
+      ],
+      warnings
+    );
+
+    expect(await render('blocks/home-page.liquid', { title: 'Resta' })).toBe('<main><h1>Resta</h1></main>');
+    await expect(render('blocks/menu-page.liquid', {})).rejects.toThrow();
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe('compareRouteHtml', () => {
+  it('matches HTML that differs only in whitespace and attribute order', () => {
+    const result = compareRouteHtml(
+      '<main class="page" id="home">\n  <h1>Resta</h1>\n</main>',
+      '<main id="home" class="page"><h1>Resta</h1></main>'
+    );
+
+    expect(result).toEqual({ status: 'match', diff: [] });
+  });
+
+  it('reports a token diff of React (-) vs template (+) output', () => {
+    const result = compareRouteHtml('<main><h1>Resta</h1></main>', '<main><h1>Menu</h1></main>');
+
+    expect(result.status).toBe('mismatch');
+    expect(result.diff).toContain('- Resta');
+    expect(result.diff).toContain('+ Menu');
+  });
+});
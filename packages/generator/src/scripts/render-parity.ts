@@ -0,0 +1,377 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Liquid } from 'liquidjs';
+import type HandlebarsRuntime from 'handlebars';
+import { EventBus } from '../core/events';
+import { Logger } from '../core/logger';
+import { ServiceRegistry } from '../core/registry';
+import type { GeneratorConfig, RouteConfig } from '../core/interfaces';
+import type { GeneratedTemplate } from '../plugins/template/ITemplatePlugin';
+import { RenderService } from '../services/render';
+import { loadFixtureRoutes } from '../utils/load-fixture-routes';
+import { diffHtml } from '../utils/normalize-html';
+import { generateTemplates, resolveIncludePartials } from './generate-templates';
+import {
+  type Ui8kitConfigLike,
+  getUi8kitConfigPath,
+  importFromApp,
+  parseAppRoutes,
+  parseNamedImports,
+  readJson,
+  relPath,
+  resolveRouteComponentFile,
+} from './blueprint-shared';
+
+type RuntimeUi8kitConfig = Ui8kitConfigLike & {
+  dist?: {
+    render?: { appEntry?: string; skipRoutes?: string[] };
+  };
+};
+
+/** Template engines with a JS runtime the parity check can render with. */
+export const PARITY_ENGINES = ['liquid', 'handlebars'] as const;
+
+export type ParityEngine = (typeof PARITY_ENGINES)[number];
+
+export interface CheckRenderParityOptions {
+  cwd: string;
+  engine: ParityEngine;
+  /** Concrete routes to check (default: every App.tsx route, dynamic ones expanded from fixtures) */
+  routes?: string[];
+  /** Working directory for generated templates and React HTML (default: dist/parity/<engine>) */
+  outDir?: string;
+  silent?: boolean;
+}
+
+export type RouteParityStatus = 'match' | 'mismatch' | 'error';
+
+export interface RouteParityResult {
+  route: string;
+  /** App.tsx route pattern the route matched, e.g. /menu/:slug */
+  pattern: string;
+  /** View component rendered by the route */
+  view?: string;
+  /** Template path relative to the output directory */
+  template?: string;
+  status: RouteParityStatus;
+  /** Token diff of normalized HTML, React (`-`) vs template (`+`) */
+  diff: string[];
+  error?: string;
+}
+
+export interface CheckRenderParityResult {
+  engine: ParityEngine;
+  outputDir: string;
+  routes: RouteParityResult[];
+  /** True when every checked route matched */
+  ok: boolean;
+  warnings: string[];
+}
+
+interface AppRoute {
+  pattern: string;
+  component: string;
+  file: string;
+}
+
+interface ParityRuntime {
+  createElement: (...args: unknown[]) => unknown;
+  isValidElement: (value: unknown) => boolean;
+  renderToStaticMarkup: (node: unknown) => string;
+  MemoryRouter: unknown;
+  Routes: unknown;
+  Route: unknown;
+}
+
+type RouteComponent = (props: Record<string, unknown>) => unknown;
+export type TemplateRenderer = (entry: string, context: Record<string, unknown>) => Promise<string>;
+
+function loadRuntimeConfig(cwd: string): RuntimeUi8kitConfig {
+  const configPath = getUi8kitConfigPath(cwd);
+  return existsSync(configPath) ? readJson<RuntimeUi8kitConfig>(configPath) : {};
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('/')
+    .map((segment) => (segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('/');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Concrete routes per App.tsx pattern: static patterns as-is, dynamic ones
+ * from fixture items (same expansion as the static pipeline).
+ */
+export function expandRoutes(patterns: string[], fixturesDir: string): Map<string, string> {
+  const fixtureRoutes = existsSync(fixturesDir) ? Object.keys(loadFixtureRoutes({ fixturesDir })) : [];
+  const routes = new Map<string, string>();
+  for (const pattern of patterns) {
+    if (!pattern.includes(':')) {
+      routes.set(pattern, pattern);
+      continue;
+    }
+    const regex = patternToRegExp(pattern);
+    for (const route of fixtureRoutes.filter((path) => regex.test(path))) {
+      routes.set(route, pattern);
+    }
+  }
+  return routes;
+}
+
+async function loadParityRuntime(appRoot: string): Promise<ParityRuntime> {
+  const reactMod = await importFromApp<Record<string, unknown>>(appRoot, 'react');
+  const reactDomServerMod = await importFromApp<Record<string, unknown>>(appRoot, 'react-dom/server');
+  const reactRouterMod = await importFromApp<Record<string, unknown>>(appRoot, 'react-router-dom');
+
+  return {
+    createElement: reactMod.createElement as ParityRuntime['createElement'],
+    isValidElement: reactMod.isValidElement as ParityRuntime['isValidElement'],
+    renderToStaticMarkup: reactDomServerMod.renderToStaticMarkup as ParityRuntime['renderToStaticMarkup'],
+    MemoryRouter: reactRouterMod.MemoryRouter,
+    Routes: reactRouterMod.Routes,
+    Route: reactRouterMod.Route,
+  };
+}
+
+/**
+ * Render the route component once and capture the view element it returns:
+ * the view's props are the template context for the same route.
+ */
+function captureViewElement(
+  runtime: ParityRuntime,
+  Page: RouteComponent,
+  route: string,
+  pattern: string
+): { type: unknown; props: Record<string, unknown> } | undefined {
+  let captured: { type: unknown; props: Record<string, unknown> } | undefined;
+  const Capture = () => {
+    const element = Page({});
+    if (runtime.isValidElement(element)) {
+      captured = element as { type: unknown; props: Record<string, unknown> };
+    }
+    return null;
+  };
+
+  runtime.renderToStaticMarkup(
+    runtime.createElement(
+      runtime.MemoryRouter as never,
+      { initialEntries: [route], initialIndex: 0 },
+      runtime.createElement(
+        runtime.Routes as never,
+        null,
+        runtime.createElement(runtime.Route as never, { path: pattern, element: runtime.createElement(Capture) })
+      )
+    )
+  );
+  return captured;
+}
+
+/**
+ * View props as template data: React nodes (slots) become rendered HTML,
+ * functions are dropped.
+ */
+function toTemplateContext(runtime: ParityRuntime, route: string, props: Record<string, unknown>): Record<string, unknown> {
+  const renderNode = (node: unknown) =>
+    runtime.renderToStaticMarkup(
+      runtime.createElement(runtime.MemoryRouter as never, { initialEntries: [route], initialIndex: 0 }, node)
+    );
+
+  const context: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(props)) {
+    if (typeof value === 'function') continue;
+    const isNode = runtime.isValidElement(value) || (Array.isArray(value) && value.some(runtime.isValidElement));
+    context[key] = isNode ? renderNode(value) : value;
+  }
+  return context;
+}
+
+function getViewName(type: unknown): string | undefined {
+  if (typeof type !== 'function') return undefined;
+  const component = type as { displayName?: string; name?: string };
+  return component.displayName ?? component.name;
+}
+
+/**
+ * Engine renderer over the generated template set. Templates are keyed by
+ * their path relative to the output directory; includes resolve through
+ * `resolveIncludePartials`.
+ */
+export async function createTemplateRenderer(
+  engine: ParityEngine,
+  appRoot: string,
+  outputDir: string,
+  templates: GeneratedTemplate[],
+  warnings: string[]
+): Promise<TemplateRenderer> {
+  const sources = new Map(templates.map(({ path }) => [path, readFileSync(join(outputDir, path), 'utf-8')]));
+  const includes = resolveIncludePartials(templates, warnings);
+
+  if (engine === 'liquid') {
+    const liquidjs = await importFromApp<{ Liquid: typeof Liquid }>(appRoot, 'liquidjs');
+    // Liquid includes name the file, extension included
+    const partials = Object.fromEntries(
+      [...includes].map(([name, path]) => [`${name}${extname(path)}`, sources.get(path) ?? ''])
+    );
+    // Shopify semantics: no implicit escaping
+    const liquid = new liquidjs.Liquid({ templates: partials });
+    return async (entry, context) => liquid.parseAndRender(sources.get(entry) ?? '', context);
+  }
+
+  const handlebarsMod = await importFromApp<{ default: typeof HandlebarsRuntime }>(appRoot, 'handlebars');
+  const hbs = handlebarsMod.default.create();
+  const helpersPath = join(outputDir, 'helpers.ts');
+  if (existsSync(helpersPath)) {
+    const { registerHelpers } = (await import(pathToFileURL(helpersPath).href)) as {
+      registerHelpers: (instance: typeof HandlebarsRuntime) => void;
+    };
+    registerHelpers(hbs);
+  }
+  for (const [name, path] of includes) {
+    hbs.registerPartial(name, sources.get(path) ?? '');
+  }
+  return async (entry, context) => hbs.compile(sources.get(entry) ?? '')(context);
+}
+
+/**
+ * Compare the React and template HTML of a route after normalization
+ */
+export function compareRouteHtml(reactHtml: string, templateHtml: string): Pick<RouteParityResult, 'status' | 'diff'> {
+  const diff = diffHtml(reactHtml, templateHtml);
+  return { status: diff.equal ? 'match' : 'mismatch', diff: diff.lines };
+}
+
+async function renderReactRoutes(
+  cwd: string,
+  appEntry: string,
+  outputDir: string,
+  routes: string[]
+): Promise<Map<string, string>> {
+  const logger = new Logger({ level: 'silent' });
+  const routeConfigs: Record<string, RouteConfig> = Object.fromEntries(routes.map((route) => [route, { title: route }]));
+  const config: GeneratorConfig = {
+    app: { name: basename(cwd) },
+    css: { routes, outputDir },
+    html: { routes: routeConfigs, outputDir },
+    render: { appEntry },
+  };
+
+  const service = new RenderService();
+  await service.initialize({ config, logger, eventBus: new EventBus(logger), registry: new ServiceRegistry(logger) });
+  const result = await service.execute({ appEntry, outputDir, routes: routeConfigs });
+  await service.dispose();
+
+  return new Map(result.pages.map((page) => [page.route, readFileSync(page.path, 'utf-8')]));
+}
+
+/**
+ * Render every App.tsx route with React (RenderService) and with the
+ * generated template of the route's view through the engine's JS runtime,
+ * using the props the route passes to the view as template context, and diff
+ * the normalized HTML.
+ */
+export async function checkRenderParity(options: CheckRenderParityOptions): Promise<CheckRenderParityResult> {
+  const cwd = resolve(options.cwd);
+  if (!PARITY_ENGINES.includes(options.engine)) {
+    throw new Error(`Parity check supports ${PARITY_ENGINES.join(', ')}; got "${options.engine}"`);
+  }
+
+  const config = loadRuntimeConfig(cwd);
+  const srcDir = resolve(cwd, 'src');
+  const appPath = resolve(cwd, config.dist?.render?.appEntry ?? 'src/App.tsx');
+  if (!existsSync(appPath)) {
+    throw new Error(`App entry not found: ${relPath(cwd, appPath)}`);
+  }
+  const outputDir = resolve(cwd, options.outDir ?? join('dist', 'parity', options.engine));
+  const warnings: string[] = [];
+
+  // 1. Templates for the whole app
+  const generated = await generateTemplates({
+    cwd,
+    engine: options.engine,
+    outDir: join(outputDir, 'templates'),
+    silent: true,
+  });
+  warnings.push(...generated.warnings);
+
+  // 2. Routes and their components
+  const appSource = readFileSync(appPath, 'utf-8');
+  const routeImports = parseNamedImports(appSource);
+  const appRoutes: AppRoute[] = [];
+  for (const record of parseAppRoutes(appSource)) {
+    const file = resolveRouteComponentFile(srcDir, appPath, routeImports.get(record.component));
+    if (!file || !existsSync(file)) {
+      warnings.push(`Route ${record.path}: component ${record.component} not found`);
+      continue;
+    }
+    appRoutes.push({ pattern: record.path, component: record.component, file });
+  }
+
+  const skipped = new Set(config.dist?.render?.skipRoutes ?? []);
+  const expanded = expandRoutes(appRoutes.map((route) => route.pattern), resolve(cwd, config.fixtures ?? 'fixtures'));
+  const routes = [...expanded].filter(([route]) =>
+    options.routes ? options.routes.includes(route) : !skipped.has(route)
+  );
+  for (const route of options.routes ?? []) {
+    if (!expanded.has(route)) warnings.push(`Route ${route} does not match any App.tsx route`);
+  }
+
+  // 3. Reference HTML from the React build
+  const reactHtml = await renderReactRoutes(
+    cwd,
+    appPath,
+    join(outputDir, 'react'),
+    routes.map(([route]) => route)
+  );
+
+  // 4. Same routes through the template engine
+  const runtime = await loadParityRuntime(cwd);
+  // Includes that do not resolve were already reported by generateTemplates
+  const render = await createTemplateRenderer(options.engine, cwd, generated.outputDir, generated.templates, []);
+  const results: RouteParityResult[] = [];
+
+  for (const [route, pattern] of routes) {
+    const appRoute = appRoutes.find((record) => record.pattern === pattern)!;
+    const result: RouteParityResult = { route, pattern, status: 'error', diff: [] };
+    results.push(result);
+
+    try {
+      const routeModule = (await import(pathToFileURL(appRoute.file).href)) as Record<string, unknown>;
+      const Page = (routeModule[appRoute.component] ?? routeModule.default) as RouteComponent | undefined;
+      if (typeof Page !== 'function') {
+        throw new Error(`${relPath(cwd, appRoute.file)} does not export ${appRoute.component}`);
+      }
+
+      const element = captureViewElement(runtime, Page, route, pattern);
+      result.view = getViewName(element?.type);
+      if (!element || !result.view) {
+        throw new Error(`${appRoute.component} does not return a view component element`);
+      }
+
+      const template = generated.templates.find((entry) => entry.tree.meta?.componentName === result.view);
+      if (!template) {
+        throw new Error(`No ${options.engine} template generated for ${result.view}`);
+      }
+      result.template = template.path;
+
+      const html = await render(template.path, toTemplateContext(runtime, route, element.props));
+      Object.assign(result, compareRouteHtml(reactHtml.get(route) ?? '', html));
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  if (!options.silent) {
+    const matched = results.filter((result) => result.status === 'match').length;
+    console.log(`Render parity (${options.engine}): ${matched}/${results.length} routes match`);
+  }
+
+  return {
+    engine: options.engine,
+    outputDir,
+    routes: results,
+    ok: results.every((result) => result.status === 'match'),
+    warnings,
+  };
+}
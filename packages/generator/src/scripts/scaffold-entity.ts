@@ -115,6 +115,16 @@ function insertBeforeMarker(source: string, marker: string, snippet: string): st
   return `${source.slice(0, markerIndex)}${snippet}${source.slice(markerIndex)}`;
 }
 
+/**
+ * Insert a line before the first line starting with `marker`, at that line's indentation.
+ */
+function insertBeforeIndentedLine(source: string, marker: string, line: string): string {
+  if (source.includes(line)) return source;
+  const markerMatch = new RegExp(`^([ \\t]*)${marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'm').exec(source);
+  if (!markerMatch) return `${source.trimEnd()}\n${line}\n`;
+  return `${source.slice(0, markerMatch.index)}${markerMatch[1]}${line}\n${source.slice(markerMatch.index)}`;
+}
+
 function appendLineIfMissing(source: string, line: string): string {
   if (source.includes(line)) return source;
   return `${source.trimEnd()}\n${line}\n`;
@@ -445,11 +455,11 @@ function updateContext(
   let output = source;
 
   output = output.replace(
-    /(const baseContext = createContext<\{)([\s\S]*?)(\}\>\(\{)/,
-    (full, start, body, end) => {
+    /(const baseContext = createContext<\{)([\s\S]*?\n)([ \t]*)(\}\>\(\{)/,
+    (full, start, body, closingIndent, end) => {
       if (body.includes(`${entityName}: CanonicalContextInput['fixtures']['${entityName}'];`)) return full;
-      const normalizedBody = body.endsWith('\n') ? body : `${body}\n`;
-      return `${start}${normalizedBody}  ${entityName}: CanonicalContextInput['fixtures']['${entityName}'];\n${end}`;
+      const entry = `${closingIndent}  ${entityName}: CanonicalContextInput['fixtures']['${entityName}'];\n`;
+      return `${start}${body}${entry}${closingIndent}${end}`;
     }
   );
 
@@ -476,16 +486,16 @@ function updateContext(
     }
   );
 
-  output = insertBeforeMarker(
+  output = insertBeforeIndentedLine(
     output,
-    '  site: baseContext.site,',
-    `  ${entityName}: baseContext.fixtures.${entityName},\n`
+    'site: baseContext.site,',
+    `${entityName}: baseContext.fixtures.${entityName},`
   );
 
-  output = insertBeforeMarker(
+  output = insertBeforeIndentedLine(
     output,
-    '  domains: Object.freeze({',
-    `  ${entityName}: baseContext.fixtures.${entityName},\n`
+    'domains: Object.freeze({',
+    `${entityName}: baseContext.fixtures.${entityName},`
   );
 
   return output;
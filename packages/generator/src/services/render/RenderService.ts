@@ -21,6 +21,7 @@ export interface RenderServiceOutput {
 
 type AppComponent = (props: Record<string, unknown>) => unknown;
 type ProviderComponent = (props: { children: unknown }) => unknown;
+type ContextLoader = () => Promise<unknown>;
 
 export class RenderService implements IService<RenderServiceInput, RenderServiceOutput> {
   readonly name = 'render';
@@ -44,6 +45,7 @@ export class RenderService implements IService<RenderServiceInput, RenderService
     }
 
     const providers = await this.loadProviders(appEntryPath);
+    await this.loadAppContext(appEntryPath);
     const skipped = new Set(input.skipRoutes ?? []);
     const pages: RenderServiceOutput['pages'] = [];
 
@@ -120,6 +122,24 @@ export class RenderService implements IService<RenderServiceInput, RenderService
     return providers;
   }
 
+  /**
+   * Await the app's data source before rendering: `renderToStaticMarkup` is
+   * synchronous, so remote adapters must resolve first. Optional; fixture-only
+   * apps without `loadContext` render as before.
+   */
+  private async loadAppContext(appEntryPath: string): Promise<void> {
+    const contextFile = join(resolve(appEntryPath, '..'), 'data', 'context.ts');
+    try {
+      await readFile(contextFile, 'utf-8');
+    } catch {
+      return;
+    }
+    const mod = await import(pathToFileURL(contextFile).href);
+    const loadContext = mod.loadContext as ContextLoader | undefined;
+    if (!loadContext) return;
+    await loadContext();
+  }
+
   private async loadReactRuntime(appRoot: string): Promise<{
     createElement: (...args: unknown[]) => unknown;
     renderToStaticMarkup: (node: unknown) => string;
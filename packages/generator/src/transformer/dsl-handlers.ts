@@ -1,13 +1,14 @@
 /**
  * Built-in DSL Component Handlers
  *
- * Default handlers for Loop, If, Var, Slot, Include, etc.
+ * Default handlers for Loop, Loop.Empty, If, Switch, Var, Slot, Include, etc.
  */
 
 import type { JSXElement } from '@babel/types';
 import { element, annotate, type GenElement, type GenChild } from '../hast';
 import type { IDslComponentHandler, DslHandlerContext } from './dsl-handler';
 import { getNodeSource } from './jsx-parser';
+import { STANDARD_FILTERS, isStandardFilter, type StandardFilter } from '../plugins/template/ITemplatePlugin';
 
 // =============================================================================
 // Utility: Get simple string attribute
@@ -53,6 +54,20 @@ function getJsxAttributeMap(attributes: any[], source: string): Record<string, s
   return map;
 }
 
+/**
+ * String or number literal attribute: value="available", value={2}
+ */
+function getLiteralAttr(attributes: JSXElement['openingElement']['attributes'], key: string): string | number | undefined {
+  for (const attr of attributes) {
+    if (attr.type !== 'JSXAttribute' || attr.name.type !== 'JSXIdentifier' || attr.name.name !== key) continue;
+    const value = attr.value?.type === 'JSXExpressionContainer' ? attr.value.expression : attr.value;
+    if (value?.type === 'StringLiteral' || value?.type === 'NumericLiteral') {
+      return value.value;
+    }
+  }
+  return undefined;
+}
+
 // =============================================================================
 // Loop Handler
 // =============================================================================
@@ -67,12 +82,19 @@ class LoopHandler implements IDslComponentHandler {
     const as = getStringAttr(attrs, 'as');
     const keyExpr = getStringAttr(attrs, 'keyExpr');
     const index = getStringAttr(attrs, 'index');
+    const first = getStringAttr(attrs, 'first');
+    const last = getStringAttr(attrs, 'last');
+    const length = getStringAttr(attrs, 'length');
     
     if (!each || !as) {
       ctx.warnings.push(`Loop requires 'each' and 'as' props`);
       return element('div', {}, children);
     }
     
+    if (children.filter((child) => child.type === 'element' && child.properties._gen?.empty).length > 1) {
+      ctx.warnings.push(`Loop over '${each}' has more than one <Loop.Empty>`);
+    }
+    
     return annotate(
       element('div', {}, children),
       {
@@ -81,6 +103,9 @@ class LoopHandler implements IDslComponentHandler {
           collection: each,
           key: keyExpr,
           index: index,
+          first,
+          last,
+          length,
         },
         unwrap: true,
       }
@@ -88,6 +113,24 @@ class LoopHandler implements IDslComponentHandler {
   }
 }
 
+// =============================================================================
+// Loop.Empty Handler
+// =============================================================================
+
+class LoopEmptyHandler implements IDslComponentHandler {
+  tagName = 'Loop.Empty';
+
+  handle(node: JSXElement, children: GenChild[], ctx: DslHandlerContext): GenElement | null {
+    return annotate(
+      element('div', {}, children),
+      {
+        empty: true,
+        unwrap: true,
+      }
+    );
+  }
+}
+
 // =============================================================================
 // If Handler
 // =============================================================================
@@ -160,10 +203,103 @@ class ElseIfHandler implements IDslComponentHandler {
   }
 }
 
+// =============================================================================
+// Switch Handler
+// =============================================================================
+
+class SwitchHandler implements IDslComponentHandler {
+  tagName = 'Switch';
+
+  handle(node: JSXElement, children: GenChild[], ctx: DslHandlerContext): GenElement | null {
+    const attrs = getJsxAttributeMap(node.openingElement.attributes, ctx.source);
+    const on = getStringAttr(attrs, 'on');
+    
+    if (!on) {
+      ctx.warnings.push(`Switch requires 'on' prop`);
+      return element('div', {}, children);
+    }
+    
+    ctx.variables.add(on.split(/[.\s]/)[0]);
+    
+    // Only Case/Default branches are rendered; whitespace between them is dropped
+    const branches = children.filter(
+      (child): child is GenElement => child.type === 'element' && child.properties._gen?.case !== undefined
+    );
+    if (children.some((child) => !branches.includes(child as GenElement) && (child.type !== 'text' || child.value.trim()))) {
+      ctx.warnings.push(`Switch on '${on}' only renders <Case> and <Default> children`);
+    }
+    if (branches.filter((branch) => branch.properties._gen?.case?.isDefault).length > 1) {
+      ctx.warnings.push(`Switch on '${on}' has more than one <Default>`);
+    }
+    
+    return annotate(
+      element('div', {}, branches),
+      {
+        switch: { on },
+        unwrap: true,
+      }
+    );
+  }
+}
+
+// =============================================================================
+// Case Handler
+// =============================================================================
+
+class CaseHandler implements IDslComponentHandler {
+  tagName = 'Case';
+
+  handle(node: JSXElement, children: GenChild[], ctx: DslHandlerContext): GenElement | null {
+    const value = getLiteralAttr(node.openingElement.attributes, 'value');
+    
+    if (value === undefined) {
+      ctx.warnings.push(`Case requires a string or number 'value' prop`);
+      return element('div', {}, children);
+    }
+    
+    return annotate(
+      element('div', {}, children),
+      {
+        case: { value },
+        unwrap: true,
+      }
+    );
+  }
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+class DefaultHandler implements IDslComponentHandler {
+  tagName = 'Default';
+
+  handle(node: JSXElement, children: GenChild[], ctx: DslHandlerContext): GenElement | null {
+    return annotate(
+      element('div', {}, children),
+      {
+        case: { isDefault: true },
+        unwrap: true,
+      }
+    );
+  }
+}
+
 // =============================================================================
 // Var Handler
 // =============================================================================
 
+/** `<Var format>` props passed as filter arguments, in order */
+const FORMAT_ARG_PROPS: Partial<Record<StandardFilter, string[]>> = {
+  date: ['pattern'],
+  currency: ['currency'],
+  number: ['decimals'],
+  truncate: ['length'],
+  join: ['separator'],
+  split: ['separator'],
+  slice: ['start', 'end'],
+};
+
 class VarHandler implements IDslComponentHandler {
   tagName = 'Var';
 
@@ -172,7 +308,9 @@ class VarHandler implements IDslComponentHandler {
     
     const name = getStringAttr(attrs, 'name');
     const defaultVal = getStringAttr(attrs, 'default');
-    const filter = getStringAttr(attrs, 'filter');
+    const format = getStringAttr(attrs, 'format');
+    let filter = getStringAttr(attrs, 'filter');
+    let filterArgs: string[] | undefined;
     const raw = attrs.raw === 'true' || attrs.raw === true;
     
     let varName = name;
@@ -189,6 +327,27 @@ class VarHandler implements IDslComponentHandler {
     }
     
     ctx.variables.add(varName.split('.')[0]);
+
+    // `format` is a standard filter (mapped per engine); `filter` passes through as-is
+    if (format !== undefined) {
+      if (!isStandardFilter(format)) {
+        ctx.warnings.push(
+          `Var '${varName}' has unknown format '${format}' (expected one of: ${STANDARD_FILTERS.join(', ')})`
+        );
+      } else {
+        if (filter) {
+          ctx.warnings.push(`Var '${varName}' has both filter and format; using format '${format}'`);
+        }
+        filter = format;
+        const args: string[] = [];
+        for (const prop of FORMAT_ARG_PROPS[format] ?? []) {
+          const value = getStringAttr(attrs, prop);
+          if (value === undefined) break;
+          args.push(value);
+        }
+        filterArgs = args.length > 0 ? args : undefined;
+      }
+    }
     
     return annotate(
       element('span', {}, []),
@@ -197,6 +356,7 @@ class VarHandler implements IDslComponentHandler {
           name: varName,
           default: defaultVal,
           filter: filter,
+          filterArgs: filterArgs,
         },
         raw: raw,
         unwrap: true,
@@ -351,9 +511,13 @@ class RawHandler implements IDslComponentHandler {
 
 export const BUILT_IN_DSL_HANDLERS: IDslComponentHandler[] = [
   new LoopHandler(),
+  new LoopEmptyHandler(),
   new IfHandler(),
   new ElseHandler(),
   new ElseIfHandler(),
+  new SwitchHandler(),
+  new CaseHandler(),
+  new DefaultHandler(),
   new VarHandler(),
   new SlotHandler(),
   new IncludeHandler(),
@@ -8,10 +8,17 @@
  * - {cond && <div>} → conditional
  * - {cond ? <a> : <b>} → ternary conditional
  * - {children} → slot
+ * - {user?.name} → member access (optional chaining dropped)
+ * - {title ?? 'Untitled'} → variable with default
+ * - {items.filter(i => i.available).map(item => ...)} → loop with filter condition
+ * - {items.length > 0 && <ul>} → conditional with a normalized condition
+ *
+ * Sub-expressions templates cannot run (calls, arithmetic, ...) are reported
+ * in `unsupported` with their own location.
  */
 
 import type * as t from '@babel/types';
-import type { AnalyzedExpression, ExpressionType } from './types';
+import type { AnalyzedExpression, UnsupportedExpression } from './types';
 import { getNodeSource } from './jsx-parser';
 
 // =============================================================================
@@ -55,8 +62,14 @@ export function analyzeExpression(
   if (isChildrenIdentifier(node)) {
     return { type: 'children', raw, loc };
   }
+
+  // 5. Check for nullish default: value ?? 'fallback'
+  const defaultResult = analyzeNullishDefault(node, source);
+  if (defaultResult) {
+    return { type: defaultResult.type!, ...defaultResult, raw, loc };
+  }
   
-  // 5. Check for simple identifier
+  // 6. Check for simple identifier
   if (node.type === 'Identifier') {
     return {
       type: 'variable',
@@ -66,37 +79,36 @@ export function analyzeExpression(
     };
   }
   
-  // 6. Check for member expression (obj.prop)
-  if (node.type === 'MemberExpression') {
-    const path = getMemberExpressionPath(node);
+  // 7. Check for member expression (obj.prop, obj?.prop)
+  if (isMemberPath(node)) {
     return {
       type: 'member',
       raw,
-      path,
+      path: getMemberExpressionPath(node),
       loc,
     };
   }
   
-  // 7. Check for template literal
+  // 8. Check for template literal (embedded expressions are analyzed on their own)
   if (node.type === 'TemplateLiteral') {
     return { type: 'template', raw, loc };
   }
   
-  // 8. Check for literal
+  // 9. Check for literal
   if (isLiteral(node)) {
     return { type: 'literal', raw, loc };
   }
   
-  // 9. Check for spread (handled at parent level, but keep for safety)
+  // 10. Check for spread (handled at parent level, but keep for safety)
   // SpreadElement is not an Expression type in Babel, skip this check
   
-  // 10. Check for function call
-  if (node.type === 'CallExpression') {
-    return { type: 'call', raw, loc };
+  // 11. Check for function call
+  if (node.type === 'CallExpression' || node.type === 'OptionalCallExpression') {
+    return { type: 'call', raw, loc, unsupported: describeUnsupported(node, source) };
   }
   
   // Unknown
-  return { type: 'unknown', raw, loc };
+  return { type: 'unknown', raw, loc, unsupported: describeUnsupported(node, source) };
 }
 
 // =============================================================================
@@ -110,25 +122,24 @@ export function analyzeExpression(
  * - items.map(item => <div>{item}</div>)
  * - items.map((item, index) => <div>{item}</div>)
  * - items.map(function(item) { return <div>{item}</div> })
+ * - items?.map(item => <div>{item}</div>)
+ * - items.filter(item => item.visible).map(item => <div>{item}</div>)
  */
 function analyzeLoopExpression(
   node: t.Expression,
   source: string
 ): Partial<AnalyzedExpression> | null {
-  if (node.type !== 'CallExpression') return null;
-  
-  const callee = node.callee;
-  if (callee.type !== 'MemberExpression') return null;
-  
-  // Check if method is .map()
-  const property = callee.property;
-  if (property.type !== 'Identifier' || property.name !== 'map') return null;
+  const mapCall = getMethodCall(node, 'map');
+  if (!mapCall) return null;
   
-  // Get collection path
-  const collection = getMemberExpressionPath(callee.object as t.MemberExpression | t.Identifier);
+  // Get collection path (`.filter(...)` before `.map()` iterates the filtered collection)
+  const filterCall = getMethodCall(mapCall.object, 'filter');
+  const collectionNode = filterCall?.object ?? mapCall.object;
+  if (!isMemberPath(collectionNode)) return null;
+  const collection = getMemberExpressionPath(collectionNode);
   
   // Get callback argument
-  const callback = node.arguments[0];
+  const callback = mapCall.call.arguments[0];
   if (!callback) return null;
   
   // Extract item name from callback
@@ -160,13 +171,57 @@ function analyzeLoopExpression(
   if (body && body.type === 'JSXElement') {
     keyExpression = extractKeyProp(body, source);
   }
-  
-  return {
+
+  const result: Partial<AnalyzedExpression> = {
     type: 'loop',
     loopItem: itemName,
     loopCollection: collection,
     loopKey: keyExpression,
   };
+  if (filterCall) {
+    const filter = analyzeFilterCallback(filterCall.call, itemName, source);
+    if ('unsupported' in filter) result.unsupported = filter.unsupported;
+    else result.loopFilter = filter.expression;
+  }
+  return result;
+}
+
+/**
+ * `<object>.<method>(...)` or `<object>?.<method>(...)`
+ */
+function getMethodCall(
+  node: t.Node,
+  method: string
+): { call: t.CallExpression | t.OptionalCallExpression; object: t.Expression } | null {
+  if (node.type !== 'CallExpression' && node.type !== 'OptionalCallExpression') return null;
+  const callee = node.callee;
+  if (callee.type !== 'MemberExpression' && callee.type !== 'OptionalMemberExpression') return null;
+  if (callee.computed || callee.property.type !== 'Identifier' || callee.property.name !== method) return null;
+  return { call: node, object: callee.object };
+}
+
+/**
+ * Condition of a `.filter(x => ...)` callback with its parameter renamed to the loop item
+ */
+function analyzeFilterCallback(
+  call: t.CallExpression | t.OptionalCallExpression,
+  itemName: string,
+  source: string
+): { expression: string } | { unsupported: UnsupportedExpression } {
+  const callback = call.arguments[0];
+  if (
+    !callback ||
+    (callback.type !== 'ArrowFunctionExpression' && callback.type !== 'FunctionExpression') ||
+    callback.params.length !== 1 ||
+    callback.params[0].type !== 'Identifier'
+  ) {
+    return { unsupported: unsupportedNode(call, source, 'filter() needs a single-parameter callback, e.g. item => item.visible') };
+  }
+  const predicate = getCallbackBody(callback);
+  if (!predicate) {
+    return { unsupported: unsupportedNode(callback, source, 'filter() callback must return an expression') };
+  }
+  return normalizeCondition(predicate, source, { [callback.params[0].name]: itemName });
 }
 
 /**
@@ -232,11 +287,9 @@ function analyzeLogicalExpression(
   
   // Right side should be JSX or another expression
   // Left side is the condition
-  const condition = getNodeSource(source, node.left);
-  
   return {
     type: 'conditional',
-    condition: condition,
+    ...conditionResult(node.left, source),
     isTernary: false,
   };
 }
@@ -254,15 +307,174 @@ function analyzeTernaryExpression(
 ): Partial<AnalyzedExpression> | null {
   if (node.type !== 'ConditionalExpression') return null;
   
-  const condition = getNodeSource(source, node.test);
-  
   return {
     type: 'conditional',
-    condition,
+    ...conditionResult(node.test, source),
     isTernary: true,
   };
 }
 
+/**
+ * Normalized condition; unsupported conditions keep their source text and report why
+ */
+function conditionResult(node: t.Expression, source: string): Partial<AnalyzedExpression> {
+  const normalized = normalizeCondition(node, source);
+  return 'unsupported' in normalized
+    ? { condition: getNodeSource(source, node), unsupported: normalized.unsupported }
+    : { condition: normalized.expression };
+}
+
+// =============================================================================
+// Default Detection
+// =============================================================================
+
+/**
+ * Detect nullish default: title ?? 'Untitled', user?.name ?? 'Guest'
+ */
+function analyzeNullishDefault(
+  node: t.Expression,
+  source: string
+): Partial<AnalyzedExpression> | null {
+  if (node.type !== 'LogicalExpression' || node.operator !== '??' || !isMemberPath(node.left)) return null;
+
+  const path = getMemberExpressionPath(node.left);
+  const type = node.left.type === 'Identifier' ? 'variable' : 'member';
+  const fallback = node.right;
+  if (fallback.type === 'StringLiteral' || fallback.type === 'NumericLiteral' || fallback.type === 'BooleanLiteral') {
+    return { type, path, defaultValue: String(fallback.value) };
+  }
+  return {
+    type,
+    path,
+    unsupported: unsupportedNode(fallback, source, 'the ?? fallback must be a string, number or boolean literal'),
+  };
+}
+
+// =============================================================================
+// Expression Normalization
+// =============================================================================
+
+const COMPARISON_OPERATORS = new Set(['===', '!==', '==', '!=', '<', '<=', '>', '>=']);
+
+class UnsupportedExpressionError extends Error {
+  constructor(readonly detail: UnsupportedExpression) {
+    super(detail.reason);
+  }
+}
+
+/**
+ * Normalize a condition for template engines: optional chaining is dropped,
+ * `!!x` becomes `x`, and `.length` truthiness becomes an explicit comparison
+ * (`items.length` → `items.length > 0`, `!items.length` → `items.length === 0`).
+ * `aliases` renames identifiers (filter callback parameter → loop item).
+ */
+function normalizeCondition(
+  node: t.Expression,
+  source: string,
+  aliases: Record<string, string> = {}
+): { expression: string } | { unsupported: UnsupportedExpression } {
+  try {
+    return { expression: toCondition(node, source, aliases) };
+  } catch (error) {
+    if (error instanceof UnsupportedExpressionError) return { unsupported: error.detail };
+    throw error;
+  }
+}
+
+function toCondition(node: t.Expression, source: string, aliases: Record<string, string>): string {
+  if (isLengthAccess(node)) {
+    return `${toTemplateValue(node, source, aliases)} > 0`;
+  }
+  if (node.type === 'UnaryExpression' && node.operator === '!') {
+    const argument = node.argument;
+    if (argument.type === 'UnaryExpression' && argument.operator === '!') {
+      return toCondition(argument.argument, source, aliases);
+    }
+    if (isLengthAccess(argument)) {
+      return `${toTemplateValue(argument, source, aliases)} === 0`;
+    }
+    const inner = toCondition(argument, source, aliases);
+    return argument.type === 'LogicalExpression' || argument.type === 'BinaryExpression' ? `!(${inner})` : `!${inner}`;
+  }
+  if (node.type === 'LogicalExpression') {
+    if (node.operator === '??') {
+      throw unsupportedError(node, source, '?? is only supported as a value default, e.g. {title ?? \'Untitled\'}');
+    }
+    const operand = (side: t.Expression) => {
+      const value = toCondition(side, source, aliases);
+      return side.type === 'LogicalExpression' && side.operator !== node.operator ? `(${value})` : value;
+    };
+    return `${operand(node.left)} ${node.operator} ${operand(node.right)}`;
+  }
+  return toTemplateValue(node, source, aliases);
+}
+
+function toTemplateValue(node: t.Node, source: string, aliases: Record<string, string>): string {
+  switch (node.type) {
+    case 'Identifier':
+      return aliases[node.name] ?? node.name;
+    case 'MemberExpression':
+    case 'OptionalMemberExpression': {
+      const property = node.property;
+      let key: string;
+      if (!node.computed && property.type === 'Identifier') key = property.name;
+      else if (property.type === 'StringLiteral' || property.type === 'NumericLiteral') key = String(property.value);
+      else throw unsupportedError(node, source, 'computed member access needs a literal key');
+      return `${toTemplateValue(node.object, source, aliases)}.${key}`;
+    }
+    case 'StringLiteral':
+      return `'${node.value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    case 'NumericLiteral':
+    case 'BooleanLiteral':
+      return String(node.value);
+    case 'NullLiteral':
+      return 'null';
+    case 'BinaryExpression':
+      if (!COMPARISON_OPERATORS.has(node.operator)) {
+        throw unsupportedError(node, source, `operator "${node.operator}" is not supported in templates; compute the value before rendering`);
+      }
+      return `${toTemplateValue(node.left, source, aliases)} ${node.operator} ${toTemplateValue(node.right, source, aliases)}`;
+    case 'UnaryExpression':
+    case 'LogicalExpression':
+      return toCondition(node, source, aliases);
+    default:
+      throw new UnsupportedExpressionError(describeUnsupported(node, source));
+  }
+}
+
+function unsupportedError(node: t.Node, source: string, reason: string): UnsupportedExpressionError {
+  return new UnsupportedExpressionError(unsupportedNode(node, source, reason));
+}
+
+function unsupportedNode(node: t.Node, source: string, reason: string): UnsupportedExpression {
+  return {
+    raw: getNodeSource(source, node),
+    reason,
+    ...(node.loc ? { loc: { line: node.loc.start.line, column: node.loc.start.column } } : {}),
+  };
+}
+
+/**
+ * Diagnostic for an expression without a template equivalent
+ */
+function describeUnsupported(node: t.Node, source: string): UnsupportedExpression {
+  switch (node.type) {
+    case 'CallExpression':
+    case 'OptionalCallExpression':
+      return unsupportedNode(node, source, 'function calls cannot run in templates; compute the value before rendering or use a DSL filter');
+    case 'ArrowFunctionExpression':
+    case 'FunctionExpression':
+      return unsupportedNode(node, source, 'functions cannot be rendered in templates');
+    case 'BinaryExpression':
+      return unsupportedNode(node, source, `operator "${node.operator}" is not supported in templates; compute the value before rendering`);
+    case 'AssignmentExpression':
+    case 'UpdateExpression':
+      return unsupportedNode(node, source, 'assignments cannot run in templates');
+    default:
+      return unsupportedNode(node, source, `${node.type} is not supported in templates`);
+  }
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -279,7 +491,7 @@ function isChildrenIdentifier(node: t.Expression): boolean {
  *
  * user.profile.name → "user.profile.name"
  */
-function getMemberExpressionPath(node: t.MemberExpression | t.Identifier): string {
+function getMemberExpressionPath(node: t.MemberExpression | t.OptionalMemberExpression | t.Identifier): string {
   if (node.type === 'Identifier') {
     return node.name;
   }
@@ -287,7 +499,7 @@ function getMemberExpressionPath(node: t.MemberExpression | t.Identifier): strin
   const parts: string[] = [];
   let current: t.Expression = node;
   
-  while (current.type === 'MemberExpression') {
+  while (current.type === 'MemberExpression' || current.type === 'OptionalMemberExpression') {
     const property = current.property;
     
     if (property.type === 'Identifier') {
@@ -308,6 +520,31 @@ function getMemberExpressionPath(node: t.MemberExpression | t.Identifier): strin
   return parts.join('.');
 }
 
+/**
+ * Identifier or (optional) member chain with static keys: user, user.profile.name, user?.profile
+ */
+function isMemberPath(node: t.Node): node is t.Identifier | t.MemberExpression | t.OptionalMemberExpression {
+  if (node.type === 'Identifier') return true;
+  if (node.type !== 'MemberExpression' && node.type !== 'OptionalMemberExpression') return false;
+  const property = node.property;
+  const staticKey = node.computed
+    ? property.type === 'StringLiteral' || property.type === 'NumericLiteral'
+    : property.type === 'Identifier';
+  return staticKey && isMemberPath(node.object);
+}
+
+/**
+ * `items.length` / `items?.length`
+ */
+function isLengthAccess(node: t.Node): boolean {
+  return (
+    (node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') &&
+    !node.computed &&
+    node.property.type === 'Identifier' &&
+    node.property.name === 'length'
+  );
+}
+
 /**
  * Check if node is a literal value
  */
@@ -337,10 +574,10 @@ export function extractVariables(node: t.Expression | t.Node): string[] {
       if (!isKnownGlobal(name)) {
         variables.add(name);
       }
-    } else if (n.type === 'MemberExpression') {
+    } else if (n.type === 'MemberExpression' || n.type === 'OptionalMemberExpression') {
       // Get root identifier
       let current: t.Expression = n;
-      while (current.type === 'MemberExpression') {
+      while (current.type === 'MemberExpression' || current.type === 'OptionalMemberExpression') {
         current = current.object;
       }
       if (current.type === 'Identifier' && !isKnownGlobal(current.name)) {
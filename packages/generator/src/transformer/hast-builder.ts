@@ -28,7 +28,7 @@ import { analyzeExpression, extractVariables } from './expression-analyzer';
 import { getNodeSource } from './jsx-parser';
 import { DslRegistry, type DslHandlerContext, type IDslComponentHandler } from './dsl-handler';
 import { BUILT_IN_DSL_HANDLERS } from './dsl-handlers';
-import type { TransformOptions, AnalyzedComponent, DEFAULT_COMPONENT_PATTERNS } from './types';
+import type { TransformOptions, AnalyzedComponent, DEFAULT_COMPONENT_PATTERNS, UnsupportedExpression } from './types';
 
 // =============================================================================
 // Main Builder
@@ -36,13 +36,16 @@ import type { TransformOptions, AnalyzedComponent, DEFAULT_COMPONENT_PATTERNS }
 
 /**
  * Build GenHAST tree from Babel AST
+ *
+ * Builder warnings (unsupported expressions, invalid DSL props) are pushed to `warnings`.
  */
 export function buildHast(
   ast: File,
   source: string,
-  options: TransformOptions = {}
+  options: TransformOptions = {},
+  warnings: string[] = []
 ): GenRoot {
-  const builder = new HastBuilder(ast, source, options);
+  const builder = new HastBuilder(ast, source, options, warnings);
   return builder.build();
 }
 
@@ -56,14 +59,15 @@ class HastBuilder {
   private options: TransformOptions;
   private variables = new Set<string>();
   private dependencies = new Set<string>();
-  private warnings: string[] = [];
+  private warnings: string[];
   private componentInfo: AnalyzedComponent | null = null;
   private dslRegistry: DslRegistry;
   
-  constructor(ast: File, source: string, options: TransformOptions) {
+  constructor(ast: File, source: string, options: TransformOptions, warnings: string[]) {
     this.ast = ast;
     this.source = source;
     this.options = options;
+    this.warnings = warnings;
     
     // Initialize DSL registry
     this.dslRegistry = new DslRegistry();
@@ -512,7 +516,9 @@ class HastBuilder {
     }
     
     if (node.type === 'JSXExpressionContainer') {
-      return this.transformJsxExpression(node);
+      const result = this.transformJsxExpression(node);
+      if (Array.isArray(result)) return result.map((child) => this.withSource(child, node));
+      return result && this.withSource(result, node);
     }
     
     return null;
@@ -522,6 +528,26 @@ class HastBuilder {
    * Transform JSX element to HAST element
    */
   private transformJsxElement(node: t.JSXElement): GenElement {
+    return this.withSource(this.buildJsxElement(node), node);
+  }
+
+  /**
+   * Record the JSX node location on an element (when `includeSourceLocations` is set).
+   * Elements that already carry a location keep it.
+   */
+  private withSource<T extends GenChild>(child: T, node: t.Node): T {
+    if (!this.options.includeSourceLocations || !node.loc || child.type !== 'element') return child;
+    if (child.properties._gen?.source) return child;
+    return annotate(child, {
+      source: {
+        file: this.options.sourceFile ?? 'unknown',
+        line: node.loc.start.line,
+        column: node.loc.start.column,
+      },
+    }) as T;
+  }
+
+  private buildJsxElement(node: t.JSXElement): GenElement {
     const tagName = this.getTagName(node);
     const properties = this.transformAttributes(node.openingElement.attributes);
     const children = this.transformChildren(node.children);
@@ -572,12 +598,13 @@ class HastBuilder {
     const handler = this.dslRegistry.get(tagName)!;
     
     // For Loop: extract render-function body as children
-    // Handles {(item) => (<JSX/>)} pattern that transformChildren can't parse
+    // Handles {(item) => (<JSX/>)} pattern that transformChildren can't parse;
+    // a <Loop.Empty> next to the render function is kept
     let effectiveChildren = children;
     if (tagName === 'Loop') {
       const loopBody = this.extractLoopBody(node);
       if (loopBody.length > 0) {
-        effectiveChildren = loopBody;
+        effectiveChildren = [...loopBody, ...children.filter((child) => child.type === 'element' && child.properties._gen?.empty)];
       }
     }
     
@@ -825,6 +852,11 @@ class HastBuilder {
     if (expr.type === 'JSXEmptyExpression') {
       return null;
     }
+
+    // Render functions are consumed by their DSL parent: <Loop>{(item) => ...}</Loop>
+    if (expr.type === 'ArrowFunctionExpression' || expr.type === 'FunctionExpression') {
+      return null;
+    }
     
     // Analyze the expression
     const analyzed = analyzeExpression(expr, this.source);
@@ -834,14 +866,18 @@ class HastBuilder {
     for (const v of vars) {
       this.variables.add(v);
     }
+
+    if (analyzed.unsupported) {
+      this.warnUnsupported(analyzed.unsupported);
+    }
     
     switch (analyzed.type) {
       case 'variable':
       case 'member':
-        return this.createVariableElement(analyzed.path || analyzed.raw);
+        return this.createVariableElement(analyzed.path || analyzed.raw, analyzed.defaultValue);
       
       case 'loop':
-        return this.createLoopElement(expr as t.CallExpression, analyzed);
+        return this.createLoopElement(expr as t.CallExpression | t.OptionalCallExpression, analyzed);
       
       case 'conditional':
         return this.createConditionalElement(expr, analyzed);
@@ -857,19 +893,33 @@ class HastBuilder {
         return this.createTemplateElement(expr as t.TemplateLiteral);
       
       default:
-        this.warnings.push(`Unknown expression type: ${analyzed.raw}`);
+        if (!analyzed.unsupported) {
+          this.warnings.push(`Unknown expression type: ${analyzed.raw}`);
+        }
         return null;
     }
   }
+
+  /**
+   * Warn about an expression templates cannot execute, pointing at its source location
+   */
+  private warnUnsupported(unsupported: UnsupportedExpression): void {
+    const where = unsupported.loc
+      ? ` (${this.options.sourceFile ?? 'unknown'}:${unsupported.loc.line}:${unsupported.loc.column + 1})`
+      : '';
+    const raw = unsupported.raw.replace(/\s+/g, ' ');
+    const shown = raw.length > 80 ? `${raw.slice(0, 79)}…` : raw;
+    this.warnings.push(`Unsupported expression \`${shown}\`${where}: ${unsupported.reason}`);
+  }
   
   /**
    * Create variable element with annotation
    */
-  private createVariableElement(path: string): GenElement {
+  private createVariableElement(path: string, defaultValue?: string): GenElement {
     return annotate(
       element('span', {}, []),
       {
-        variable: { name: path },
+        variable: defaultValue === undefined ? { name: path } : { name: path, default: defaultValue },
         unwrap: true,
       }
     );
@@ -878,7 +928,10 @@ class HastBuilder {
   /**
    * Create loop element with annotation
    */
-  private createLoopElement(expr: t.CallExpression, analyzed: ReturnType<typeof analyzeExpression>): GenElement {
+  private createLoopElement(
+    expr: t.CallExpression | t.OptionalCallExpression,
+    analyzed: ReturnType<typeof analyzeExpression>
+  ): GenElement {
     // Get the callback and transform its body
     const callback = expr.arguments[0];
     let loopContent: GenChild[] = [];
@@ -902,6 +955,16 @@ class HastBuilder {
         }
       }
     }
+
+    // items.filter(predicate).map(...) → condition around the loop body
+    if (analyzed.loopFilter) {
+      loopContent = [
+        annotate(element('div', {}, loopContent), {
+          condition: { expression: analyzed.loopFilter },
+          unwrap: true,
+        }),
+      ];
+    }
     
     return annotate(
       element('div', {}, loopContent),
@@ -1057,9 +1120,18 @@ class HastBuilder {
       
       // Add expression part
       if (i < node.expressions.length) {
-        const expr = node.expressions[i];
-        const path = getNodeSource(this.source, expr);
-        result.push(this.createVariableElement(path));
+        const expr = node.expressions[i] as t.Expression;
+        const analyzed = analyzeExpression(expr, this.source);
+        if (analyzed.unsupported) {
+          this.warnUnsupported(analyzed.unsupported);
+        }
+        if (analyzed.type === 'variable' || analyzed.type === 'member') {
+          result.push(this.createVariableElement(analyzed.path!, analyzed.defaultValue));
+        } else if (expr.type === 'StringLiteral' || expr.type === 'NumericLiteral') {
+          result.push(text(String(expr.value)));
+        } else if (!analyzed.unsupported) {
+          this.warnings.push(`Unknown expression type: ${analyzed.raw}`);
+        }
       }
     }
     
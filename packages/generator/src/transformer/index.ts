@@ -56,6 +56,7 @@ export type {
   ComponentPatterns,
   ExpressionType,
   AnalyzedExpression,
+  UnsupportedExpression,
   AnalyzedComponent,
   AnalyzedProp,
   AnalyzedImport,
@@ -55,7 +55,7 @@ export function transformJsx(
     }
     
     // Build HAST
-    const tree = buildHast(ast, source, options);
+    const tree = buildHast(ast, source, options, warnings);
     
     // Collect variables and dependencies
     const variables = collectVariables(tree);
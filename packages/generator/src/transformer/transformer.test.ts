@@ -154,6 +154,69 @@ describe('Expression Analyzer', () => {
     });
   });
   
+  describe('analyzeExpression (template-safe normalization)', () => {
+    function analyze(exprSource: string) {
+      const fullSource = `const x = ${exprSource}`;
+      const ast = parseJsx(fullSource);
+      const decl = ast.program.body[0] as any;
+      return analyzeExpression(decl.declarations[0].init, fullSource);
+    }
+
+    it('drops optional chaining from member paths', () => {
+      const result = analyze('user?.profile?.name');
+
+      expect(result.type).toBe('member');
+      expect(result.path).toBe('user.profile.name');
+      expect(result.unsupported).toBeUndefined();
+    });
+
+    it('turns ?? with a literal fallback into a default', () => {
+      expect(analyze("title ?? 'Untitled'")).toMatchObject({ type: 'variable', path: 'title', defaultValue: 'Untitled' });
+      expect(analyze('post?.views ?? 0')).toMatchObject({ type: 'member', path: 'post.views', defaultValue: '0' });
+    });
+
+    it('reports a non-literal ?? fallback', () => {
+      const result = analyze('title ?? getTitle()');
+
+      expect(result.path).toBe('title');
+      expect(result.unsupported?.raw).toBe('getTitle()');
+    });
+
+    it('detects .filter().map() as a loop with a filter condition on the item', () => {
+      const result = analyze('menu?.items.filter(i => i.available && i.price > 0).map(item => <li key={item.id}>{item.name}</li>)');
+
+      expect(result.type).toBe('loop');
+      expect(result.loopCollection).toBe('menu.items');
+      expect(result.loopItem).toBe('item');
+      expect(result.loopKey).toBe('item.id');
+      expect(result.loopFilter).toBe('item.available && item.price > 0');
+    });
+
+    it('normalizes .length checks and comparisons in conditions', () => {
+      expect(analyze('items.length && <ul />').condition).toBe('items.length > 0');
+      expect(analyze('!items?.length && <p />').condition).toBe('items.length === 0');
+      expect(analyze('!!user && <p />').condition).toBe('user');
+      expect(analyze("status === 'open' || count >= 3 ? <a /> : <b />").condition).toBe("status === 'open' || count >= 3");
+    });
+
+    it('keeps the source of an unsupported condition and points at the offending node', () => {
+      const result = analyze('items.length + 1 > 2 && <p />');
+
+      expect(result.type).toBe('conditional');
+      expect(result.condition).toBe('items.length + 1 > 2');
+      expect(result.unsupported).toMatchObject({ raw: 'items.length + 1', loc: { line: 1, column: 10 } });
+      expect(result.unsupported?.reason).toContain('"+"');
+    });
+
+    it('reports function calls as unsupported', () => {
+      const result = analyze('formatPrice(product.price)');
+
+      expect(result.type).toBe('call');
+      expect(result.unsupported?.raw).toBe('formatPrice(product.price)');
+      expect(result.unsupported?.reason).toContain('function calls');
+    });
+  });
+  
   describe('extractVariables', () => {
     it('extracts simple variable', () => {
       const source = 'title';
@@ -342,6 +405,195 @@ describe('transformJsx', () => {
     });
   });
   
+  describe('Template-safe Expressions', () => {
+    it('builds filtered loops, defaults and template literal parts', () => {
+      const source = `
+        function Menu({ items, title }) {
+          return (
+            <section className={\`menu \${title ?? 'menu'}\`}>
+              <h2>{title ?? 'Menu'}</h2>
+              <ul>
+                {items.filter(i => i.available).map(item => (
+                  <li key={item.id}>{\`\${item.name} (\${item.size?.label ?? 'regular'})\`}</li>
+                ))}
+              </ul>
+            </section>
+          );
+        }
+      `;
+
+      const result = transformJsx(source);
+      const variables = findByAnnotation(result.tree, 'variable').map((el) => getAnnotations(el)?.variable);
+
+      expect(variables).toContainEqual({ name: 'title', default: 'Menu' });
+      expect(variables).toContainEqual({ name: 'item.name' });
+      expect(variables).toContainEqual({ name: 'item.size.label', default: 'regular' });
+
+      const [loop] = findByAnnotation(result.tree, 'loop');
+      const [filter] = loop && isElement(loop) ? loop.children : [];
+      expect(filter && getAnnotations(filter)?.condition).toEqual({ expression: 'item.available' });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns with the source location of unsupported expressions', () => {
+      const source = [
+        'function Price({ price }) {',
+        '  return <span>{price.toFixed(2)}</span>;',
+        '}',
+      ].join('\n');
+
+      const result = transformJsx(source, { sourceFile: 'src/blocks/Price.tsx' });
+
+      expect(result.warnings).toEqual([
+        'Unsupported expression `price.toFixed(2)` (src/blocks/Price.tsx:2:17): function calls cannot run in templates; compute the value before rendering or use a DSL filter',
+      ]);
+    });
+  });
+  
+  describe('Switch DSL', () => {
+    it('annotates Switch with its Case/Default branches', () => {
+      const source = `
+        function PromotionDiscount({ promotion }) {
+          return (
+            <p>
+              <Switch on="promotion.discount.type" value={promotion.discount.type}>
+                <Case value="percentage"><span>Percent off</span></Case>
+                <Case value={2}><span>Two</span></Case>
+                <Default><span>Deal</span></Default>
+              </Switch>
+            </p>
+          );
+        }
+      `;
+
+      const result = transformJsx(source);
+      const [switchElement] = findByAnnotation(result.tree, 'switch');
+
+      expect(switchElement && getAnnotations(switchElement)?.switch).toEqual({ on: 'promotion.discount.type' });
+      expect(findByAnnotation(result.tree, 'case').map((el) => getAnnotations(el)?.case)).toEqual([
+        { value: 'percentage' },
+        { value: 2 },
+        { isDefault: true },
+      ]);
+      expect(result.variables).toContain('promotion');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns about stray children, duplicate defaults and missing props', () => {
+      const source = `
+        function Availability({ item }) {
+          return (
+            <div>
+              <Switch on="item.availability">
+                <p>Stray</p>
+                <Case>Missing value</Case>
+                <Default>A</Default>
+                <Default>B</Default>
+              </Switch>
+              <Switch>x</Switch>
+            </div>
+          );
+        }
+      `;
+
+      const result = transformJsx(source);
+
+      expect(result.warnings).toEqual([
+        "Case requires a string or number 'value' prop",
+        "Switch on 'item.availability' only renders <Case> and <Default> children",
+        "Switch on 'item.availability' has more than one <Default>",
+        "Switch requires 'on' prop",
+      ]);
+    });
+  });
+  
+  describe('Loop DSL', () => {
+    it('annotates loop metadata names and keeps Loop.Empty next to a render function', () => {
+      const source = `
+        function DishList({ dishes }) {
+          return (
+            <ul>
+              <Loop each="dishes" as="dish" data={dishes} first="isFirst" last="isLast" length="total">
+                {(dish) => (<li><Var name="dish.title" value={dish.title} /></li>)}
+                <Loop.Empty><li>No dishes</li></Loop.Empty>
+              </Loop>
+            </ul>
+          );
+        }
+      `;
+
+      const result = transformJsx(source);
+      const [loopElement] = findByAnnotation(result.tree, 'loop');
+
+      expect(loopElement && getAnnotations(loopElement)?.loop).toMatchObject({
+        item: 'dish',
+        collection: 'dishes',
+        first: 'isFirst',
+        last: 'isLast',
+        length: 'total',
+      });
+      const children = (loopElement?.children ?? []).filter(isElement);
+      expect(children.map((child) => child.tagName)).toEqual(['li', 'div']);
+      expect(getAnnotations(children[1])).toEqual({ empty: true, unwrap: true });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns about more than one Loop.Empty', () => {
+      const source = `
+        function DishList({ dishes }) {
+          return (
+            <Loop each="dishes" as="dish" data={dishes}>
+              <Loop.Empty>A</Loop.Empty>
+              <Loop.Empty>B</Loop.Empty>
+            </Loop>
+          );
+        }
+      `;
+
+      expect(transformJsx(source).warnings).toEqual(["Loop over 'dishes' has more than one <Loop.Empty>"]);
+    });
+  });
+
+  describe('Var format', () => {
+    it('maps format props to a standard filter with arguments', () => {
+      const source = `
+        function PostMeta({ post }) {
+          return (
+            <p>
+              <Var name="post.date" value={post.date} format="date" pattern="MMM d, yyyy" />
+              <Var name="post.excerpt" value={post.excerpt} format="truncate" length={120} />
+              <Var name="post.price" value={post.price} format="currency" />
+            </p>
+          );
+        }
+      `;
+
+      const result = transformJsx(source);
+      const variables = findByAnnotation(result.tree, 'variable').map((node) => getAnnotations(node)?.variable);
+
+      expect(variables).toEqual([
+        { name: 'post.date', filter: 'date', filterArgs: ['MMM d, yyyy'] },
+        { name: 'post.excerpt', filter: 'truncate', filterArgs: ['120'] },
+        { name: 'post.price', filter: 'currency' },
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns about formats that are not standard filters', () => {
+      const source = `
+        function PostTitle({ post }) {
+          return <h1><Var name="post.title" value={post.title} format="shout" /></h1>;
+        }
+      `;
+
+      const result = transformJsx(source);
+      const [variable] = findByAnnotation(result.tree, 'variable');
+
+      expect(getAnnotations(variable)?.variable).toEqual({ name: 'post.title' });
+      expect(result.warnings[0]).toMatch(/^Var 'post\.title' has unknown format 'shout' \(expected one of: uppercase/);
+    });
+  });
+  
   describe('Conditional Detection', () => {
     it('transforms && conditional', () => {
       const source = `
@@ -505,8 +757,26 @@ describe('transformJsx', () => {
       expect(propNames).toContain('description');
       expect(propNames).toContain('children');
     });
+
+    it('records source locations only with includeSourceLocations', () => {
+      const source = `export function Card({ title }) {
+  return (
+    <article>
+      <h2>{title}</h2>
+    </article>
+  );
+}`;
+
+      const located = transformJsx(source, { sourceFile: 'src/blocks/Card.tsx', includeSourceLocations: true });
+      const heading = findByTag(located.tree, 'h2');
+      expect(heading && getAnnotations(heading)?.source).toEqual({ file: 'src/blocks/Card.tsx', line: 4, column: 6 });
+
+      const plain = transformJsx(source, { sourceFile: 'src/blocks/Card.tsx' });
+      const plainHeading = findByTag(plain.tree, 'h2');
+      expect(plainHeading && getAnnotations(plainHeading)?.source).toBeUndefined();
+    });
   });
-  
+
   describe('Error Handling', () => {
     it('handles empty source', () => {
       const result = transformJsx('');
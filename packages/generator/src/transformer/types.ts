@@ -132,6 +132,15 @@ export interface AnalyzedExpression {
   
   /** For conditional: is ternary? */
   isTernary?: boolean;
+
+  /** For variable/member: fallback from `value ?? 'literal'` */
+  defaultValue?: string;
+
+  /** For loop: condition from a `.filter()` before `.map()`, in terms of the loop item */
+  loopFilter?: string;
+
+  /** Part of the expression templates cannot express (the rest of the result still applies) */
+  unsupported?: UnsupportedExpression;
   
   /** Source location */
   loc?: {
@@ -140,6 +149,17 @@ export interface AnalyzedExpression {
   };
 }
 
+/**
+ * Sub-expression rejected by the analyzer, with its own location
+ */
+export interface UnsupportedExpression {
+  /** Source of the offending node */
+  raw: string;
+  /** Why templates cannot express it */
+  reason: string;
+  loc?: { line: number; column: number };
+}
+
 // =============================================================================
 // Component Analysis
 // =============================================================================
@@ -3,3 +3,4 @@ export {
   type LoadFixtureRoutesOptions,
   type FixtureCollection,
 } from './load-fixture-routes';
+export { normalizeHtml, diffHtml, type HtmlDiff, type DiffHtmlOptions } from './normalize-html';
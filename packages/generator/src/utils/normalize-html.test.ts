@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { diffHtml, normalizeHtml } from './normalize-html';
+
+describe('normalizeHtml', () => {
+  it('sorts attributes and collapses whitespace', () => {
+    expect(normalizeHtml('<a  title="x"\n href=\'/\'>\n  Home </a>')).toBe('<a href="/" title="x">Home</a>');
+  });
+});
+
+describe('diffHtml', () => {
+  it('reports equal documents regardless of formatting', () => {
+    const diff = diffHtml('<ul class="a"><li>One</li></ul>', '<ul  class="a">\n  <li>One</li>\n</ul>');
+    expect(diff).toEqual({ equal: true, lines: [] });
+  });
+
+  it('lists removed and added DOM tokens with surrounding context', () => {
+    const diff = diffHtml(
+      '<main><h1>Menu</h1><aside><a href="/">Home</a></aside></main>',
+      '<main><h1>Menu</h1><aside>&lt;a href="/"&gt;Home&lt;/a&gt;</aside></main>',
+      { context: 1 }
+    );
+
+    expect(diff.equal).toBe(false);
+    expect(diff.lines).toEqual([
+      '  <aside>',
+      '- <a href="/">',
+      '- Home',
+      '- </a>',
+      '+ &lt;a href="/"&gt;Home&lt;/a&gt;',
+      '  </aside>',
+    ]);
+  });
+
+  it('elides unchanged runs between changes', () => {
+    const items = Array.from({ length: 10 }, (_, i) => `<li>${i}</li>`).join('');
+    const changed = items.replace('<li>0</li>', '<li>zero</li>').replace('<li>9</li>', '<li>nine</li>');
+    const diff = diffHtml(`<ul>${items}</ul>`, `<ul>${changed}</ul>`, { context: 1 });
+
+    expect(diff.lines).toContain('  ... (24 unchanged)');
+    expect(diff.lines.filter((line) => line.startsWith('-'))).toEqual(['- 0', '- 9']);
+    expect(diff.lines.filter((line) => line.startsWith('+'))).toEqual(['+ zero', '+ nine']);
+  });
+
+  it('falls back to the first divergence for oversized inputs', () => {
+    const diff = diffHtml('<p>a</p><p>b</p>', '<p>x</p><p>y</p>', { maxCells: 4 });
+    expect(diff.lines.some((line) => line.includes('diff truncated'))).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * HTML normalization and diffing for render-equivalence checks.
+ *
+ * Used by the template conformance suite and `generate parity` to compare
+ * React output with template-engine output independent of formatting.
+ */
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function encodeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Split normalized HTML into tags and text nodes, one token per DOM node edge.
+ */
+function tokenize(html: string): string[] {
+  return html.split(/(<[^>]+>)/).filter(Boolean);
+}
+
+/**
+ * Canonical HTML for DOM-equivalence checks: comments dropped, whitespace
+ * between tags removed, text whitespace collapsed, attributes sorted and
+ * entities re-encoded the same way for every engine.
+ */
+export function normalizeHtml(html: string): string {
+  const tokens = html.replace(/<!--[\s\S]*?-->/g, '').split(/(<[^>]+>)/);
+
+  return tokens
+    .map((token) => {
+      if (!token.startsWith('<')) {
+        const text = decodeEntities(token).replace(/\s+/g, ' ').trim();
+        return text ? encodeText(text) : '';
+      }
+
+      const closing = token.match(/^<\/\s*([\w-]+)\s*>$/);
+      if (closing) return `</${closing[1].toLowerCase()}>`;
+
+      const open = token.match(/^<([\w-]+)([\s\S]*?)\/?>$/);
+      if (!open) return token;
+
+      const attributes: string[] = [];
+      for (const attr of open[2].matchAll(/([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+        const value = decodeEntities(attr[2] ?? attr[3] ?? attr[4] ?? '').replace(/\s+/g, ' ').trim();
+        attributes.push(`${attr[1].toLowerCase()}="${encodeText(value).replace(/"/g, '&quot;')}"`);
+      }
+      attributes.sort();
+      return `<${open[1].toLowerCase()}${attributes.map((attr) => ` ${attr}`).join('')}>`;
+    })
+    .join('');
+}
+
+export interface HtmlDiff {
+  equal: boolean;
+  /** Unified-style lines: `  ` unchanged, `- ` expected only, `+ ` actual only */
+  lines: string[];
+}
+
+export interface DiffHtmlOptions {
+  /** Unchanged tokens kept around each change (default: 3) */
+  context?: number;
+  /** Largest token matrix diffed exactly; bigger inputs report the first divergence only */
+  maxCells?: number;
+}
+
+/**
+ * Token-level diff of two HTML documents after `normalizeHtml`. Each line is
+ * a tag or a text node, so the result reads as a DOM diff.
+ */
+export function diffHtml(expected: string, actual: string, options: DiffHtmlOptions = {}): HtmlDiff {
+  const context = options.context ?? 3;
+  const maxCells = options.maxCells ?? 4_000_000;
+  const a = tokenize(normalizeHtml(expected));
+  const b = tokenize(normalizeHtml(actual));
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  if (start === a.length && start === b.length) return { equal: true, lines: [] };
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const ops: string[] = [];
+
+  if ((midA.length + 1) * (midB.length + 1) > maxCells) {
+    ops.push(...midA.slice(0, context).map((token) => `- ${token}`));
+    ops.push(...midB.slice(0, context).map((token) => `+ ${token}`));
+    ops.push(`  ... (${midA.length} vs ${midB.length} differing tokens, diff truncated)`);
+  } else {
+    // Longest common subsequence table, filled from the end
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push(`  ${midA[i++]}`);
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        ops.push(`- ${midA[i++]}`);
+      } else {
+        ops.push(`+ ${midB[j++]}`);
+      }
+    }
+  }
+
+  // Keep `context` unchanged tokens around each change
+  const keep = ops.map((line) => !line.startsWith('  '));
+  const lines: string[] = [...a.slice(Math.max(0, start - context), start).map((token) => `  ${token}`)];
+  let skipped = 0;
+  ops.forEach((line, index) => {
+    const near = keep.slice(Math.max(0, index - context), index + context + 1).some(Boolean);
+    if (near || line.startsWith('  ...')) {
+      if (skipped > 0) lines.push(`  ... (${skipped} unchanged)`);
+      skipped = 0;
+      lines.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) lines.push(`  ... (${skipped} unchanged)`);
+  lines.push(...a.slice(endA, endA + context).map((token) => `  ${token}`));
+
+  return { equal: false, lines };
+}
@@ -0,0 +1,80 @@
+/**
+ * Template engine conformance - every plugin's output, rendered by its JS
+ * engine, must be DOM-equivalent to the React static render.
+ *
+ * The corpus `expected` HTML is the intended React render of each case; the
+ * react engine checks the ReactPlugin output against it, and every template
+ * engine is compared with the same HTML.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { CONFORMANCE_CORPUS } from './corpus';
+import {
+  REACT_ENGINE,
+  TEMPLATE_ENGINES,
+  compileCase,
+  type CompiledCase,
+  type ConformanceEngine,
+} from './engines';
+import { normalizeHtml } from '../../src/utils';
+import type { ITemplatePlugin } from '../../src/plugins/template/ITemplatePlugin';
+
+// =============================================================================
+// Known Gaps
+// =============================================================================
+
+/**
+ * Cases an engine does not render correctly yet, with the reason. These run
+ * as expected failures, so fixing a plugin makes the suite ask for removal.
+ */
+const KNOWN_GAPS: Record<string, Record<string, string>> = {};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+function describeEngine(engine: ConformanceEngine): void {
+  describe(engine.name, () => {
+    let plugin: ITemplatePlugin;
+
+    beforeAll(async () => {
+      plugin = engine.createPlugin();
+      await plugin.initialize({
+        logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} } as any,
+        config: { fileExtension: plugin.fileExtension, outputDir: './dist/templates', prettyPrint: false },
+        outputDir: './dist/templates',
+      });
+    });
+
+    for (const testCase of CONFORMANCE_CORPUS) {
+      const gap = KNOWN_GAPS[engine.name]?.[testCase.name];
+      const run = gap ? it.fails : it;
+
+      run(`${testCase.name}${gap ? ` (known gap: ${gap})` : ''}`, async () => {
+        const compiled: CompiledCase = await compileCase(testCase, plugin);
+
+        for (const { context, expected } of testCase.renders) {
+          const html = await engine.render(compiled, structuredClone(context), plugin);
+          expect(normalizeHtml(html), `${engine.name} output:\n${compiled.main.content}`).toBe(normalizeHtml(expected));
+        }
+      });
+    }
+  });
+}
+
+describe('template engine conformance', () => {
+  describe('normalizeHtml', () => {
+    it('ignores whitespace, comments, attribute order and entity style', () => {
+      expect(normalizeHtml('<p  id=\'a\' class="x">\n  Tom &#x27;s <!-- c --> &amp; co </p>')).toBe(
+        normalizeHtml('<p class="x" id="a">Tom \'s &amp; co</p>')
+      );
+      expect(normalizeHtml('<p>a</p>')).not.toBe(normalizeHtml('<div>a</div>'));
+    });
+  });
+
+  describeEngine(REACT_ENGINE);
+
+  for (const engine of TEMPLATE_ENGINES) {
+    describeEngine(engine);
+  }
+});
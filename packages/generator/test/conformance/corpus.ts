@@ -0,0 +1,431 @@
+/**
+ * Conformance corpus - DSL components with the HTML every engine must render
+ *
+ * Each case is compiled to GenHAST with `transformJsx`, emitted by every
+ * engine plugin, rendered by the engine's JS runtime and compared with
+ * `expected` (and with the React static render of the ReactPlugin output).
+ *
+ * Partial component names must be unique across the corpus: engines resolve
+ * includes by name from a shared in-memory registry.
+ */
+
+export interface ConformanceRender {
+  /** Template context / React props */
+  context: Record<string, unknown>;
+  /** Expected HTML (compared after normalization) */
+  expected: string;
+}
+
+export interface ConformanceCase {
+  name: string;
+  /** DSL component source (the first exported function is rendered) */
+  source: string;
+  /** Included components: source per component name */
+  partials?: Record<string, string>;
+  renders: ConformanceRender[];
+}
+
+export const CONFORMANCE_CORPUS: ConformanceCase[] = [
+  {
+    name: 'loop',
+    source: `
+import { Loop, Var } from '@ui8kit/dsl';
+
+interface DishListProps {
+  dishes: Array<{ id: string; title: string }>;
+}
+
+export function DishList({ dishes }: DishListProps) {
+  return (
+    <ul className="dishes">
+      <Loop each="dishes" as="dish" data={dishes} keyExpr="dish.id">
+        {(dish) => (
+          <li className="dish"><Var name="dish.title" value={dish.title} /></li>
+        )}
+      </Loop>
+    </ul>
+  );
+}
+`,
+    renders: [
+      {
+        context: { dishes: [{ id: '1', title: 'Soup' }, { id: '2', title: 'Salad' }] },
+        expected: '<ul class="dishes"><li class="dish">Soup</li><li class="dish">Salad</li></ul>',
+      },
+      {
+        context: { dishes: [] },
+        expected: '<ul class="dishes"></ul>',
+      },
+    ],
+  },
+  {
+    name: 'nested-loops',
+    source: `
+import { Loop, Var } from '@ui8kit/dsl';
+
+interface MenuSectionsProps {
+  sections: Array<{ id: string; title: string; items: Array<{ id: string; title: string }> }>;
+}
+
+export function MenuSections({ sections }: MenuSectionsProps) {
+  return (
+    <div className="menu">
+      <Loop each="sections" as="section" data={sections} keyExpr="section.id">
+        {(section) => (
+          <section>
+            <h2><Var name="section.title" value={section.title} /></h2>
+            <Loop each="section.items" as="item" data={section.items} keyExpr="item.id">
+              {(item) => (
+                <p><Var name="item.title" value={item.title} /></p>
+              )}
+            </Loop>
+          </section>
+        )}
+      </Loop>
+    </div>
+  );
+}
+`,
+    renders: [
+      {
+        context: {
+          sections: [
+            { id: 's1', title: 'Starters', items: [{ id: 'a', title: 'Bruschetta' }] },
+            { id: 's2', title: 'Mains', items: [{ id: 'b', title: 'Risotto' }, { id: 'c', title: 'Steak' }] },
+          ],
+        },
+        expected:
+          '<div class="menu"><section><h2>Starters</h2><p>Bruschetta</p></section>' +
+          '<section><h2>Mains</h2><p>Risotto</p><p>Steak</p></section></div>',
+      },
+    ],
+  },
+  {
+    name: 'nested-conditions',
+    source: `
+import { If, Else } from '@ui8kit/dsl';
+
+interface OpeningStatusProps {
+  isOpen: boolean;
+  hasSpecials: boolean;
+}
+
+export function OpeningStatus({ isOpen, hasSpecials }: OpeningStatusProps) {
+  return (
+    <div className="status">
+      <If test="isOpen" value={isOpen}>
+        <p>Open</p>
+        <If test="hasSpecials" value={hasSpecials}>
+          <p>Specials today</p>
+        </If>
+      </If>
+      <Else>
+        <p>Closed</p>
+      </Else>
+    </div>
+  );
+}
+`,
+    renders: [
+      {
+        context: { isOpen: true, hasSpecials: true },
+        expected: '<div class="status"><p>Open</p><p>Specials today</p></div>',
+      },
+      {
+        context: { isOpen: true, hasSpecials: false },
+        expected: '<div class="status"><p>Open</p></div>',
+      },
+      {
+        context: { isOpen: false, hasSpecials: true },
+        expected: '<div class="status"><p>Closed</p></div>',
+      },
+    ],
+  },
+  {
+    name: 'comparison-conditions',
+    source: `
+import { If, ElseIf, Else } from '@ui8kit/dsl';
+
+interface OrderStatusProps {
+  status: string;
+}
+
+export function OrderStatus({ status }: OrderStatusProps) {
+  return (
+    <p className="order">
+      <If test="status === 'ready'" value={status === 'ready'}>
+        <strong>Ready</strong>
+      </If>
+      <ElseIf test="status === 'cooking'" value={status === 'cooking'}>
+        <em>Cooking</em>
+      </ElseIf>
+      <Else>
+        <span>Queued</span>
+      </Else>
+    </p>
+  );
+}
+`,
+    renders: [
+      { context: { status: 'ready' }, expected: '<p class="order"><strong>Ready</strong></p>' },
+      { context: { status: 'cooking' }, expected: '<p class="order"><em>Cooking</em></p>' },
+      { context: { status: 'new' }, expected: '<p class="order"><span>Queued</span></p>' },
+    ],
+  },
+  {
+    name: 'length-conditions',
+    source: `
+import { Loop, Var } from '@ui8kit/dsl';
+
+interface TagCloudProps {
+  tags: string[];
+}
+
+export function TagCloud({ tags }: TagCloudProps) {
+  return (
+    <div className="tags">
+      {tags.length ? (
+        <ul>
+          <Loop each="tags" as="tag" data={tags}>
+            {(tag) => <li><Var name="tag" value={tag} /></li>}
+          </Loop>
+        </ul>
+      ) : (
+        <p>Untagged</p>
+      )}
+      {!tags.length && <em>No tags yet</em>}
+    </div>
+  );
+}
+`,
+    renders: [
+      { context: { tags: ['vegan', 'spicy'] }, expected: '<div class="tags"><ul><li>vegan</li><li>spicy</li></ul></div>' },
+      { context: { tags: [] }, expected: '<div class="tags"><p>Untagged</p><em>No tags yet</em></div>' },
+    ],
+  },
+  {
+    name: 'switch',
+    source: `
+import { Switch, Case, Default, Var } from '@ui8kit/dsl';
+
+interface DishAvailabilityProps {
+  item: { title: string; availability: string };
+}
+
+export function DishAvailability({ item }: DishAvailabilityProps) {
+  return (
+    <p className="availability">
+      <Switch on="item.availability" value={item.availability}>
+        <Case value="available">
+          <strong><Var name="item.title" value={item.title} /></strong>
+        </Case>
+        <Case value="limited">
+          <em>Limited</em>
+        </Case>
+        <Default>
+          <span>Sold out</span>
+        </Default>
+      </Switch>
+    </p>
+  );
+}
+`,
+    renders: [
+      { context: { item: { title: 'Soup', availability: 'available' } }, expected: '<p class="availability"><strong>Soup</strong></p>' },
+      { context: { item: { title: 'Soup', availability: 'limited' } }, expected: '<p class="availability"><em>Limited</em></p>' },
+      { context: { item: { title: 'Soup', availability: 'unavailable' } }, expected: '<p class="availability"><span>Sold out</span></p>' },
+    ],
+  },
+  {
+    name: 'loop-metadata',
+    source: `
+import { Loop, If, Var } from '@ui8kit/dsl';
+
+interface CourseListProps {
+  courses: Array<{ id: string; title: string }>;
+}
+
+export function CourseList({ courses }: CourseListProps) {
+  return (
+    <p className="courses">
+      <Loop each="courses" as="course" data={courses} first="isFirst" last="isLast" length="total">
+        {(course, index) => (
+          <span className="course">
+            <If test="isFirst" value={index === 0}><b>1/<Var name="total" value={courses.length} /></b></If>
+            <Var name="course.title" value={course.title} />
+            <If test="!isLast" value={index < courses.length - 1}><i>,</i></If>
+          </span>
+        )}
+        <Loop.Empty><em>No courses</em></Loop.Empty>
+      </Loop>
+    </p>
+  );
+}
+`,
+    renders: [
+      {
+        context: { courses: [{ id: '1', title: 'Soup' }, { id: '2', title: 'Salad' }, { id: '3', title: 'Tea' }] },
+        expected:
+          '<p class="courses"><span class="course"><b>1/3</b>Soup<i>,</i></span><span class="course">Salad<i>,</i></span><span class="course">Tea</span></p>',
+      },
+      {
+        context: { courses: [] },
+        expected: '<p class="courses"><em>No courses</em></p>',
+      },
+    ],
+  },
+  {
+    name: 'filters',
+    source: `
+import { Var } from '@ui8kit/dsl';
+
+interface DishTitleProps {
+  title: string;
+  chef: string;
+}
+
+export function DishTitle({ title, chef }: DishTitleProps) {
+  return (
+    <header>
+      <h1><Var name="title" value={title} filter="uppercase" /></h1>
+      <p><Var name="chef" value={chef} filter="lowercase" /></p>
+    </header>
+  );
+}
+`,
+    renders: [
+      {
+        context: { title: 'Tomato Soup', chef: 'Anna BELL' },
+        expected: '<header><h1>TOMATO SOUP</h1><p>anna bell</p></header>',
+      },
+    ],
+  },
+  {
+    name: 'escaping-and-raw',
+    source: `
+import { Var } from '@ui8kit/dsl';
+
+interface DishNotesProps {
+  note: string;
+  body: string;
+}
+
+export function DishNotes({ note, body }: DishNotesProps) {
+  return (
+    <article>
+      <p><Var name="note" value={note} /></p>
+      <div className="body"><Var name="body" value={body} raw /></div>
+    </article>
+  );
+}
+`,
+    renders: [
+      {
+        context: { note: 'Salt & <pepper>', body: '<em>Chef</em> special' },
+        expected: '<article><p>Salt &amp; &lt;pepper&gt;</p><div class="body"><em>Chef</em> special</div></article>',
+      },
+    ],
+  },
+  {
+    name: 'dynamic-attributes',
+    source: `
+import { Loop, Var } from '@ui8kit/dsl';
+
+interface DishLinksProps {
+  menu: { url: string; title: string };
+  dishes: Array<{ id: string; url: string; title: string }>;
+}
+
+export function DishLinks({ menu, dishes }: DishLinksProps) {
+  return (
+    <nav>
+      <a href={menu.url}><Var name="menu.title" value={menu.title} /></a>
+      <Loop each="dishes" as="dish" data={dishes} keyExpr="dish.id">
+        {(dish) => (
+          <a data-id={dish.id} href={dish.url}><Var name="dish.title" value={dish.title} /></a>
+        )}
+      </Loop>
+    </nav>
+  );
+}
+`,
+    renders: [
+      {
+        context: {
+          menu: { url: '/menu?lang=en&view=all', title: 'Menu' },
+          dishes: [
+            { id: '1', url: '/dishes/soup', title: 'Soup' },
+            { id: '2', url: '/dishes/"salad"', title: 'Salad' },
+          ],
+        },
+        expected:
+          '<nav><a href="/menu?lang=en&amp;view=all">Menu</a>' +
+          '<a data-id="1" href="/dishes/soup">Soup</a><a data-id="2" href="/dishes/&quot;salad&quot;">Salad</a></nav>',
+      },
+    ],
+  },
+  {
+    name: 'include',
+    source: `
+import { Var } from '@ui8kit/dsl';
+import { PriceTag } from './PriceTag';
+
+interface DishCardProps {
+  title: string;
+  price: string;
+}
+
+export function DishCard({ title, price }: DishCardProps) {
+  return (
+    <article className="card">
+      <h3><Var name="title" value={title} /></h3>
+      <PriceTag amount={price} />
+    </article>
+  );
+}
+`,
+    partials: {
+      PriceTag: `
+import { Var } from '@ui8kit/dsl';
+
+interface PriceTagProps {
+  amount: string;
+}
+
+export function PriceTag({ amount }: PriceTagProps) {
+  return <span className="price"><Var name="amount" value={amount} /></span>;
+}
+`,
+    },
+    renders: [
+      {
+        context: { title: 'Risotto', price: '$14' },
+        expected: '<article class="card"><h3>Risotto</h3><span class="price">$14</span></article>',
+      },
+    ],
+  },
+  {
+    name: 'slot-fallback',
+    source: `
+import type { ReactNode } from 'react';
+import { Slot } from '@ui8kit/dsl';
+
+interface PanelProps {
+  children?: ReactNode;
+}
+
+export function Panel({ children }: PanelProps) {
+  return (
+    <aside className="panel">
+      <Slot name="default">
+        <p>No content</p>
+      </Slot>
+    </aside>
+  );
+}
+`,
+    renders: [
+      { context: {}, expected: '<aside class="panel"><p>No content</p></aside>' },
+    ],
+  },
+];
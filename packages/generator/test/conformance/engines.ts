@@ -0,0 +1,194 @@
+/**
+ * Conformance harness - render plugin output with each engine's JS runtime
+ *
+ * Every engine receives the main template plus its partials (keyed by the
+ * name the plugin's include syntax uses) and returns rendered HTML.
+ * React is the reference: the ReactPlugin output is compiled with esbuild
+ * and rendered with `renderToStaticMarkup`.
+ */
+
+import { createRequire } from 'node:module';
+import { transformWithEsbuild } from 'vite';
+import { createElement, type ComponentType } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Liquid } from 'liquidjs';
+import Handlebars from 'handlebars';
+import Twig from 'twig';
+import nunjucks from 'nunjucks';
+import { transformJsx } from '../../src/transformer';
+import type { GenRoot } from '../../src/hast';
+import type { ITemplatePlugin } from '../../src/plugins/template/ITemplatePlugin';
+import {
+  ReactPlugin,
+  LiquidPlugin,
+  HandlebarsPlugin,
+  TwigPlugin,
+  NunjucksPlugin,
+} from '../../src/plugins/template/built-in';
+import type { ConformanceCase } from './corpus';
+
+const require = createRequire(import.meta.url);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CompiledTemplate {
+  /** Plugin output filename, e.g. "price-tag.liquid" */
+  filename: string;
+  content: string;
+  tree: GenRoot;
+}
+
+export interface CompiledCase {
+  main: CompiledTemplate;
+  partials: CompiledTemplate[];
+}
+
+export interface ConformanceEngine {
+  /** Template plugin name */
+  name: string;
+  createPlugin(): ITemplatePlugin;
+  render(compiled: CompiledCase, context: Record<string, unknown>, plugin: ITemplatePlugin): Promise<string>;
+}
+
+// =============================================================================
+// Compilation
+// =============================================================================
+
+function parseSource(source: string, sourceFile: string): GenRoot {
+  const result = transformJsx(source, { sourceFile });
+  if (result.errors.length > 0) {
+    throw new Error(`${sourceFile}: ${result.errors.join('; ')}`);
+  }
+  return result.tree;
+}
+
+/**
+ * Transform a corpus case and its partials with a plugin.
+ */
+export async function compileCase(testCase: ConformanceCase, plugin: ITemplatePlugin): Promise<CompiledCase> {
+  const compile = async (source: string, sourceFile: string): Promise<CompiledTemplate> => {
+    const tree = parseSource(source, sourceFile);
+    const output = await plugin.transform(structuredClone(tree));
+    return { filename: output.filename, content: output.content, tree };
+  };
+
+  return {
+    main: await compile(testCase.source, `${testCase.name}.tsx`),
+    partials: await Promise.all(
+      Object.entries(testCase.partials ?? {}).map(([name, source]) => compile(source, `${name}.tsx`))
+    ),
+  };
+}
+
+/**
+ * Evaluate a TS/TSX module as CommonJS. Bare specifiers resolve through
+ * `modules`, then node_modules.
+ */
+export async function loadModule(
+  source: string,
+  filename: string,
+  modules: Record<string, unknown> = {}
+): Promise<Record<string, unknown>> {
+  const { code } = await transformWithEsbuild(source, filename, {
+    loader: filename.endsWith('.tsx') ? 'tsx' : 'ts',
+    jsx: 'automatic',
+    format: 'cjs',
+    target: 'es2022',
+  });
+  const module = { exports: {} as Record<string, unknown> };
+  const resolve = (specifier: string) => (specifier in modules ? modules[specifier] : require(specifier));
+  new Function('require', 'module', 'exports', code)(resolve, module, module.exports);
+  return module.exports;
+}
+
+// =============================================================================
+// Engines
+// =============================================================================
+
+/**
+ * Partials keyed by include name: `partials/<filename>` with or without the
+ * extension, depending on how the engine resolves includes.
+ */
+function partialRegistry(compiled: CompiledCase, keepExtension: boolean): Record<string, string> {
+  return Object.fromEntries(
+    compiled.partials.map(({ filename, content }) => [
+      `partials/${keepExtension ? filename : filename.replace(/\.\w+$/, '')}`,
+      content,
+    ])
+  );
+}
+
+export const REACT_ENGINE: ConformanceEngine = {
+  name: 'react',
+  createPlugin: () => new ReactPlugin(),
+  async render(compiled, context) {
+    const components: Record<string, unknown> = {};
+    for (const partial of compiled.partials) {
+      Object.assign(components, await loadModule(partial.content, partial.filename));
+    }
+    // Every relative/alias import resolves to the corpus partials
+    const modules = new Proxy({} as Record<string, unknown>, {
+      has: (_, specifier) => typeof specifier === 'string' && /^[./@]/.test(specifier) && !specifier.startsWith('@types'),
+      get: () => components,
+    });
+    const exports = await loadModule(compiled.main.content, compiled.main.filename, modules);
+    const Component = exports[compiled.main.tree.meta?.componentName ?? ''] as ComponentType<Record<string, unknown>>;
+    return renderToStaticMarkup(createElement(Component, context));
+  },
+};
+
+export const TEMPLATE_ENGINES: ConformanceEngine[] = [
+  {
+    name: 'liquid',
+    createPlugin: () => new LiquidPlugin(),
+    async render(compiled, context) {
+      // Shopify semantics: output is not escaped unless the template says so
+      const engine = new Liquid({ templates: partialRegistry(compiled, true) });
+      return engine.parseAndRender(compiled.main.content, context);
+    },
+  },
+  {
+    name: 'handlebars',
+    createPlugin: () => new HandlebarsPlugin(),
+    async render(compiled, context, plugin) {
+      const hbs = Handlebars.create();
+      const templates = [compiled.main, ...compiled.partials].map(({ filename, tree }) => ({ path: filename, tree }));
+      const helpers = plugin.generateCompanionFiles?.(templates).find((file) => file.filename === 'helpers.ts');
+      if (helpers) {
+        const { registerHelpers } = await loadModule(helpers.content, 'helpers.ts', { handlebars: hbs });
+        (registerHelpers as (instance: typeof Handlebars) => void)(hbs);
+      }
+      for (const [name, source] of Object.entries(partialRegistry(compiled, false))) {
+        hbs.registerPartial(name, source);
+      }
+      return hbs.compile(compiled.main.content)(context);
+    },
+  },
+  {
+    name: 'twig',
+    createPlugin: () => new TwigPlugin(),
+    async render(compiled, context) {
+      // Twig (PHP) escapes HTML by default; twig.js needs it switched on
+      const options = { allowInlineIncludes: true, autoescape: true, rethrow: true };
+      Twig.cache(false);
+      for (const [id, data] of Object.entries(partialRegistry(compiled, true))) {
+        Twig.twig({ ...options, id, data });
+      }
+      return Twig.twig({ ...options, data: compiled.main.content }).render(context);
+    },
+  },
+  {
+    name: 'nunjucks',
+    createPlugin: () => new NunjucksPlugin(),
+    async render(compiled, context) {
+      const partials = partialRegistry(compiled, true);
+      const loader = {
+        getSource: (name: string) => (name in partials ? { src: partials[name], path: name, noCache: true } : null),
+      };
+      const env = new nunjucks.Environment(loader as unknown as nunjucks.ILoader, { autoescape: true });
+      return env.renderString(compiled.main.content, context);
+    },
+  },
+];
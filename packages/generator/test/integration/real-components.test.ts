@@ -213,7 +213,7 @@ describe('Real Components Integration', () => {
       const output = await plugin.transform(result.tree);
       
       // Should contain Liquid syntax
-      expect(output.content).toContain('{{ title }}');
+      expect(output.content).toContain('{{ title | escape }}');
       expect(output.content).toContain('{% if isActive %}');
       // Content slot
       expect(output.content).toMatch(/\{\{[^}]*content[^}]*\}\}/);
@@ -0,0 +1,291 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import ts from 'typescript';
+import {
+  buildCanonicalTypes,
+  type CanonicalProperty,
+  type CanonicalValueKind,
+  findCanonicalProperties,
+  loadCanonicalSchemas,
+  renderCanonicalTypes,
+} from '@ui8kit/generator/lib';
+import type { CanonicalTypeMappingConfig, CanonicalTypesCheckerConfig, CheckContext, Issue } from '../core/interfaces';
+import type { CheckerExecutionResult } from './BaseChecker';
+import { BaseChecker } from './BaseChecker';
+
+type HandProperty = {
+  name: string;
+  optional: boolean;
+  type: ts.TypeNode | undefined;
+  line: number;
+  column: number;
+};
+
+type ComparisonScope = {
+  file: string;
+  sourceFile: ts.SourceFile;
+  mapping: CanonicalTypeMappingConfig;
+  issues: Issue[];
+};
+
+export class CanonicalTypesChecker extends BaseChecker<CanonicalTypesCheckerConfig> {
+  constructor() {
+    super(
+      'canonical-types',
+      'Validate hand-written data types against the canonical JSON Schemas',
+      'canonicalTypes'
+    );
+  }
+
+  protected async execute(context: CheckContext): Promise<CheckerExecutionResult> {
+    const config = this.getConfig();
+    const issues: Issue[] = [];
+    const schemasDir = resolve(context.root, config.schemasDir);
+    const canonicalTypes = buildCanonicalTypes(loadCanonicalSchemas(schemasDir));
+
+    const generatedPath = resolve(context.root, config.generatedFile);
+    const generated = renderCanonicalTypes(canonicalTypes, { schemasDir: this.relative(context.root, schemasDir) });
+    const current = existsSync(generatedPath) ? readFileSync(generatedPath, 'utf-8') : undefined;
+    if (current !== generated) {
+      issues.push(
+        this.createIssue(
+          'error',
+          current === undefined ? 'CANONICAL_TYPES_MISSING' : 'CANONICAL_TYPES_STALE',
+          `${config.generatedFile} ${current === undefined ? 'does not exist' : 'does not match the canonical schemas'}`,
+          {
+            file: config.generatedFile,
+            hint: 'Regenerate the module from the schemas instead of editing it.',
+            suggestion: 'Run `ui8kit-generate types:canonical` in the app.',
+          }
+        )
+      );
+    }
+
+    for (const mapping of config.types) {
+      const filePath = resolve(context.root, mapping.file);
+      if (!existsSync(filePath)) {
+        issues.push(
+          this.createIssue('error', 'CANONICAL_TYPE_FILE_MISSING', `Type file not found: ${mapping.file}`, {
+            file: mapping.file,
+            hint: 'Fix the file path in checkers.canonicalTypes.types.',
+          })
+        );
+        continue;
+      }
+
+      const canonical = findCanonicalProperties(canonicalTypes, mapping.canonical);
+      if (!canonical) {
+        issues.push(
+          this.createIssue('error', 'CANONICAL_TYPE_UNKNOWN', `Canonical type not found: ${mapping.canonical}`, {
+            file: mapping.file,
+            expected: canonicalTypes.map((type) => type.name).join(', '),
+            received: mapping.canonical,
+            hint: 'Use a generated type name, optionally with a dotted path to an inline object (e.g. CatalogItem.variants).',
+          })
+        );
+        continue;
+      }
+
+      const sourceFile = ts.createSourceFile(
+        filePath,
+        readFileSync(filePath, 'utf-8'),
+        ts.ScriptTarget.Latest,
+        true,
+        ts.ScriptKind.TS
+      );
+      const members = this.findTypeMembers(sourceFile, mapping.type);
+      if (!members) {
+        issues.push(
+          this.createIssue(
+            'error',
+            'CANONICAL_TYPE_NOT_FOUND',
+            `${mapping.file}: no object type or interface named ${mapping.type}`,
+            {
+              file: mapping.file,
+              hint: 'Declare the type as `export type X = { ... }` or `export interface X { ... }`.',
+            }
+          )
+        );
+        continue;
+      }
+
+      this.compareMembers(
+        { file: mapping.file, sourceFile, mapping, issues },
+        mapping.type,
+        this.readMembers(sourceFile, members),
+        canonical
+      );
+    }
+
+    const errorCount = issues.filter((issue) => issue.level === 'error').length;
+    return {
+      success: errorCount === 0,
+      issues,
+      stats: {
+        canonicalTypes: canonicalTypes.length,
+        checkedTypes: config.types.length,
+        errorCount,
+      },
+    };
+  }
+
+  private compareMembers(
+    scope: ComparisonScope,
+    path: string,
+    hand: HandProperty[],
+    canonical: CanonicalProperty[]
+  ): void {
+    const { mapping } = scope;
+    const extras = new Set(path === mapping.type ? mapping.extraProperties ?? [] : []);
+    const handByName = new Map(hand.map((property) => [property.name, property]));
+    const canonicalNames = new Set(canonical.map((property) => property.name));
+
+    for (const property of canonical) {
+      const handProperty = handByName.get(property.name);
+      const propertyPath = `${path}.${property.name}`;
+      if (!handProperty) {
+        scope.issues.push(
+          this.createIssue(
+            'error',
+            'CANONICAL_TYPE_PROPERTY_MISSING',
+            `${propertyPath} is missing (${mapping.canonical}.${property.name}${property.optional ? '?' : ''})`,
+            {
+              file: scope.file,
+              expected: `${property.name}${property.optional ? '?' : ''}: ${property.type}`,
+              hint: 'Add the property so the type covers the canonical schema.',
+            }
+          )
+        );
+        continue;
+      }
+
+      if (handProperty.optional !== property.optional) {
+        scope.issues.push(
+          this.createIssue(
+            'error',
+            'CANONICAL_TYPE_OPTIONALITY',
+            `${propertyPath} is ${handProperty.optional ? 'optional' : 'required'} but the schema ${property.optional ? 'does not require it' : 'requires it'}`,
+            {
+              file: scope.file,
+              line: handProperty.line,
+              column: handProperty.column,
+              expected: property.optional ? 'optional' : 'required',
+              received: handProperty.optional ? 'optional' : 'required',
+              hint: 'Match the `required` list of the canonical schema.',
+            }
+          )
+        );
+      }
+
+      const kind = this.kindOf(handProperty.type);
+      if (kind !== 'unknown' && property.kind !== 'unknown' && kind !== property.kind) {
+        scope.issues.push(
+          this.createIssue('error', 'CANONICAL_TYPE_KIND_MISMATCH', `${propertyPath} is ${kind} but the schema declares ${property.kind}`, {
+            file: scope.file,
+            line: handProperty.line,
+            column: handProperty.column,
+            expected: property.type,
+            received: handProperty.type?.getText(scope.sourceFile),
+            hint: 'Align the property type with the canonical schema.',
+          })
+        );
+        continue;
+      }
+
+      const nested = this.inlineMembers(handProperty.type);
+      if (nested && property.properties) {
+        this.compareMembers(scope, propertyPath, this.readMembers(scope.sourceFile, nested), property.properties);
+      }
+    }
+
+    for (const property of hand) {
+      if (canonicalNames.has(property.name) || extras.has(property.name)) continue;
+      scope.issues.push(
+        this.createIssue('error', 'CANONICAL_TYPE_PROPERTY_EXTRA', `${path}.${property.name} is not in ${mapping.canonical}`, {
+          file: scope.file,
+          line: property.line,
+          column: property.column,
+          hint: 'Remove the property, add it to the schema, or list it in extraProperties for view-only fields.',
+        })
+      );
+    }
+  }
+
+  private findTypeMembers(sourceFile: ts.SourceFile, name: string): ts.NodeArray<ts.TypeElement> | undefined {
+    for (const statement of sourceFile.statements) {
+      if (ts.isInterfaceDeclaration(statement) && statement.name.text === name) {
+        return statement.members;
+      }
+      if (ts.isTypeAliasDeclaration(statement) && statement.name.text === name && ts.isTypeLiteralNode(statement.type)) {
+        return statement.type.members;
+      }
+    }
+    return undefined;
+  }
+
+  private readMembers(sourceFile: ts.SourceFile, members: ts.NodeArray<ts.TypeElement>): HandProperty[] {
+    return members.filter(ts.isPropertySignature).map((member) => {
+      const loc = sourceFile.getLineAndCharacterOfPosition(member.getStart(sourceFile));
+      return {
+        name: ts.isIdentifier(member.name) || ts.isStringLiteral(member.name) ? member.name.text : member.name.getText(sourceFile),
+        optional: Boolean(member.questionToken),
+        type: member.type,
+        line: loc.line + 1,
+        column: loc.character + 1,
+      };
+    });
+  }
+
+  /** Members of an inline object type, or of inline array items. */
+  private inlineMembers(type: ts.TypeNode | undefined): ts.NodeArray<ts.TypeElement> | undefined {
+    if (!type) return undefined;
+    if (ts.isTypeLiteralNode(type)) return type.members;
+    if (ts.isArrayTypeNode(type) && ts.isTypeLiteralNode(type.elementType)) return type.elementType.members;
+    return undefined;
+  }
+
+  /** Coarse kind of a type node; references to other types are `unknown` and not compared. */
+  private kindOf(type: ts.TypeNode | undefined): CanonicalValueKind {
+    if (!type) return 'unknown';
+    switch (type.kind) {
+      case ts.SyntaxKind.StringKeyword:
+      case ts.SyntaxKind.TemplateLiteralType:
+        return 'string';
+      case ts.SyntaxKind.NumberKeyword:
+        return 'number';
+      case ts.SyntaxKind.BooleanKeyword:
+        return 'boolean';
+      case ts.SyntaxKind.ArrayType:
+        return 'array';
+      case ts.SyntaxKind.TypeLiteral:
+        return 'object';
+    }
+    if (ts.isParenthesizedTypeNode(type)) return this.kindOf(type.type);
+    if (ts.isLiteralTypeNode(type)) {
+      if (ts.isStringLiteral(type.literal)) return 'string';
+      if (ts.isNumericLiteral(type.literal)) return 'number';
+      if (type.literal.kind === ts.SyntaxKind.TrueKeyword || type.literal.kind === ts.SyntaxKind.FalseKeyword) {
+        return 'boolean';
+      }
+      return 'unknown';
+    }
+    if (ts.isUnionTypeNode(type)) {
+      const kinds = new Set(
+        type.types
+          .filter((member) => !(ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword))
+          .filter((member) => member.kind !== ts.SyntaxKind.UndefinedKeyword)
+          .map((member) => this.kindOf(member))
+      );
+      return kinds.size === 1 ? [...kinds][0] : 'unknown';
+    }
+    if (ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName)) {
+      if (type.typeName.text === 'Array' || type.typeName.text === 'ReadonlyArray') return 'array';
+      if (type.typeName.text === 'Record') return 'object';
+    }
+    return 'unknown';
+  }
+
+  private relative(root: string, targetPath: string): string {
+    return relative(root, targetPath).replace(/\\/g, '/');
+  }
+}
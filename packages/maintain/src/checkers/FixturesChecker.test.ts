@@ -0,0 +1,141 @@
+/**
+ * Tests for FixturesChecker entity collections (blueprint fixtures validated
+ * item by item against the item schema of their platform domain)
+ */
+
+import { afterEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { FixturesChecker } from './FixturesChecker';
+import { Logger } from '../core';
+import type { CheckContext, FixturesCheckerConfig, IMaintainConfig } from '../core/interfaces';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let tempDir: string | undefined;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = undefined;
+});
+
+/** Write files (objects as JSON, strings as-is) into a temp project root */
+function createProject(files: Record<string, unknown>): string {
+  tempDir = mkdtempSync(join(tmpdir(), 'fixtures-checker-'));
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(tempDir, path)), { recursive: true });
+    writeFileSync(join(tempDir, path), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return tempDir;
+}
+
+async function runChecker(root: string, config: FixturesCheckerConfig) {
+  const checker = new FixturesChecker();
+  checker.configure(config);
+  const context: CheckContext = {
+    root,
+    runId: 'test',
+    reportsDir: join(root, '.cursor/reports'),
+    config: { root, checkers: { fixtures: config } } as IMaintainConfig,
+    logger: new Logger({ level: 'silent' }),
+    mode: 'validate',
+  };
+  return checker.run(context);
+}
+
+const ENTITIES_CONFIG: FixturesCheckerConfig = { targets: [], entities: { blueprint: 'blueprint.json' } };
+
+const CATALOG_ITEM_SCHEMA = {
+  $id: 'https://ui8kit.test/catalog-item.schema.json',
+  type: 'object',
+  required: ['id', 'price'],
+  properties: {
+    id: { type: 'string' },
+    price: { type: 'object', required: ['amount'], properties: { amount: { type: 'number' } } },
+  },
+};
+
+function project(files: Record<string, unknown> = {}): string {
+  return createProject({
+    'blueprint.json': {
+      entities: [
+        { name: 'menu', fixture: 'fixtures/menu.json', itemsKey: 'items' },
+        { name: 'blog', fixture: 'fixtures/blog.json', itemsKey: 'posts' },
+      ],
+    },
+    'ui8kit.config.json': { platformDomains: { catalog: ['menu'] } },
+    'schemas/canonical/catalog-item.schema.json': CATALOG_ITEM_SCHEMA,
+    'fixtures/menu.json': { items: [{ id: 'soup', price: { amount: 9 } }] },
+    'fixtures/blog.json': { posts: [] },
+    ...files,
+  });
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('FixturesChecker', () => {
+  describe('entities', () => {
+    it('validates each item against the schema of its platform domain with item pointers', async () => {
+      const root = project({
+        'fixtures/menu.json': {
+          items: [{ id: 'soup', price: { amount: 9 } }, { id: 'salad', price: { amount: '7' } }, { price: {} }],
+        },
+      });
+
+      const result = await runChecker(root, ENTITIES_CONFIG);
+
+      expect(result.success).toBe(false);
+      expect(result.issues.filter((issue) => issue.code === 'FIXTURE_SCHEMA_INVALID').map((issue) => issue.message)).toEqual([
+        'fixtures/menu.json /items/1/price/amount: must be number',
+        "fixtures/menu.json /items/2: must have required property 'id'",
+        "fixtures/menu.json /items/2/price: must have required property 'amount'",
+      ]);
+      expect(result.stats).toMatchObject({ checkedEntities: 2, checkedItems: 3 });
+    });
+
+    it('warns about entities without a resolvable item schema', async () => {
+      const result = await runChecker(project(), ENTITIES_CONFIG);
+
+      expect(result.success).toBe(true);
+      expect(result.issues.map(({ level, code, message, file }) => ({ level, code, message, file }))).toEqual([
+        { level: 'warn', code: 'ENTITY_SCHEMA_UNRESOLVED', message: 'No item schema for entity "blog"', file: 'fixtures/blog.json' },
+      ]);
+      expect(result.stats).toMatchObject({ checkedEntities: 2, checkedItems: 1 });
+    });
+
+    it('reports malformed JSON and a missing itemsKey, and keeps checking other collections', async () => {
+      const root = project({
+        'fixtures/menu.json': '{ "items": [ { "id": "soup" ',
+        'fixtures/blog.json': { articles: [] },
+      });
+
+      const result = await runChecker(root, ENTITIES_CONFIG);
+
+      expect(result.success).toBe(false);
+      expect(result.issues.map(({ code, file }) => ({ code, file }))).toEqual([
+        { code: 'FIXTURE_INVALID_JSON', file: 'fixtures/menu.json' },
+        { code: 'FIXTURE_ITEMS_MISSING', file: 'fixtures/blog.json' },
+      ]);
+      expect(result.issues[1]?.hint).toBe('Match the itemsKey declared for the entity in blueprint.json.');
+      expect(result.stats).toMatchObject({ checkedEntities: 0, checkedItems: 0 });
+    });
+
+    it('reports an item schema that does not exist', async () => {
+      const root = project();
+
+      const result = await runChecker(root, {
+        ...ENTITIES_CONFIG,
+        entities: { blueprint: 'blueprint.json', itemSchemas: { blog: 'blog-post.schema.json' } },
+      });
+
+      expect(result.issues.map(({ code, file }) => ({ code, file }))).toEqual([
+        { code: 'SCHEMA_FILE_MISSING', file: 'schemas/canonical/blog-post.schema.json' },
+      ]);
+    });
+  });
+});
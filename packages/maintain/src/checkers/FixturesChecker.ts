@@ -3,10 +3,29 @@ import { dirname, extname, join, relative, resolve } from 'node:path';
 import Ajv2020 from 'ajv/dist/2020';
 import addFormats from 'ajv-formats';
 import type { ErrorObject } from 'ajv';
-import type { CheckContext, FixturesCheckerConfig, Issue } from '../core/interfaces';
+import { CANONICAL_ITEM_SCHEMAS } from '@ui8kit/generator/lib';
+import type {
+  CheckContext,
+  FixturesCheckerConfig,
+  FixturesEntitiesConfig,
+  Issue,
+} from '../core/interfaces';
+import { FixtureIndex } from '../utils';
+import type { FixtureCollectionProblem } from '../utils';
 import type { CheckerExecutionResult } from './BaseChecker';
 import { BaseChecker } from './BaseChecker';
 
+const FIXTURE_PROBLEM_HINTS: Record<FixtureCollectionProblem['code'], string> = {
+  FIXTURE_FILE_MISSING: 'Create the fixture file referenced by blueprint.json.',
+  FIXTURE_ITEMS_MISSING: 'Match the itemsKey declared for the entity in blueprint.json.',
+  FIXTURE_INVALID_JSON: 'Fix the JSON syntax; the file is skipped until it parses.',
+};
+
+type EntityStats = {
+  checkedEntities: number;
+  checkedItems: number;
+};
+
 export class FixturesChecker extends BaseChecker<FixturesCheckerConfig> {
   constructor() {
     super('fixtures', 'Validate fixture JSON against schema targets', 'fixtures');
@@ -19,9 +38,11 @@ export class FixturesChecker extends BaseChecker<FixturesCheckerConfig> {
     const ajv = new Ajv2020({ allErrors: true, strict: false });
     addFormats(ajv);
 
-    const schemaFiles = this.collectSchemaFiles(
-      Array.from(new Set(config.targets.map((target) => dirname(resolve(context.root, target.schema)))))
-    );
+    const schemaDirectories = config.targets.map((target) => dirname(resolve(context.root, target.schema)));
+    if (config.entities) {
+      schemaDirectories.push(resolve(context.root, config.entities.schemasDir ?? 'schemas/canonical'));
+    }
+    const schemaFiles = this.collectSchemaFiles(Array.from(new Set(schemaDirectories)));
     for (const schemaFile of schemaFiles) {
       try {
         const schema = this.readJsonObject(schemaFile);
@@ -86,20 +107,113 @@ export class FixturesChecker extends BaseChecker<FixturesCheckerConfig> {
       }
     }
 
+    const entityStats = config.entities
+      ? this.checkEntities(context.root, ajv, config.entities, issues)
+      : { checkedEntities: 0, checkedItems: 0 };
+
     const errorCount = issues.filter((issue) => issue.level === 'error').length;
     return {
       success: errorCount === 0,
       issues,
       stats: {
         checkedTargets: config.targets.length,
+        ...entityStats,
         errorCount,
         warningCount: issues.filter((issue) => issue.level === 'warn').length,
       },
     };
   }
 
-  private toIssue(targetFile: string, error: ErrorObject): Issue {
-    const instancePath = error.instancePath || '/';
+  /**
+   * Validate every blueprint entity collection item against the item schema of
+   * the entity (or its platform domain). Cross-references such as
+   * `menu.promotionIds -> promotions` are checked by the referential-integrity
+   * checker (`referentialIntegrity.references`).
+   */
+  private checkEntities(
+    root: string,
+    ajv: Ajv2020,
+    config: FixturesEntitiesConfig,
+    issues: Issue[]
+  ): EntityStats {
+    const blueprintPath = resolve(root, config.blueprint);
+    if (!existsSync(blueprintPath)) {
+      issues.push(
+        this.createIssue('error', 'BLUEPRINT_FILE_MISSING', `Blueprint file not found: ${config.blueprint}`, {
+          file: config.blueprint,
+          hint: 'Run `bun run blueprint:scan` to generate blueprint.json.',
+        })
+      );
+      return { checkedEntities: 0, checkedItems: 0 };
+    }
+
+    const schemasDir = resolve(root, config.schemasDir ?? 'schemas/canonical');
+    const domains = this.readPlatformDomains(resolve(root, config.ui8kitConfig ?? 'ui8kit.config.json'));
+    const index = FixtureIndex.fromBlueprint(root, blueprintPath);
+    let checkedItems = 0;
+
+    for (const problem of index.problems) {
+      issues.push(
+        this.createIssue('error', problem.code, problem.message, {
+          file: problem.file,
+          hint: FIXTURE_PROBLEM_HINTS[problem.code],
+        })
+      );
+    }
+
+    for (const { entity, items } of index.collections.values()) {
+      const domain = domains.get(entity.name);
+      const schemaFile =
+        config.itemSchemas?.[entity.name] ??
+        (domain ? config.itemSchemas?.[domain] ?? CANONICAL_ITEM_SCHEMAS[domain] : undefined);
+      if (!schemaFile) {
+        issues.push(
+          this.createIssue('warn', 'ENTITY_SCHEMA_UNRESOLVED', `No item schema for entity "${entity.name}"`, {
+            file: entity.fixture,
+            hint: 'Map the entity to a platform domain in ui8kit.config.json or add it to fixtures.entities.itemSchemas.',
+          })
+        );
+        continue;
+      }
+
+      const schemaPath = join(schemasDir, schemaFile);
+      if (!existsSync(schemaPath)) {
+        issues.push(
+          this.createIssue('error', 'SCHEMA_FILE_MISSING', `Schema file not found: ${this.relative(root, schemaPath)}`, {
+            file: this.relative(root, schemaPath),
+            hint: 'Create the item schema or fix fixtures.entities.itemSchemas.',
+          })
+        );
+        continue;
+      }
+
+      const schema = this.readJsonObject(schemaPath);
+      const validate = (typeof schema.$id === 'string' ? ajv.getSchema(schema.$id) : undefined) ?? ajv.compile(schema);
+      items.forEach((item, itemIndex) => {
+        if (validate(item)) return;
+        for (const validationError of validate.errors ?? []) {
+          issues.push(this.toIssue(entity.fixture, validationError, `/${entity.itemsKey}/${itemIndex}`));
+        }
+      });
+      checkedItems += items.length;
+    }
+
+    return { checkedEntities: index.collections.size, checkedItems };
+  }
+
+  /** Entity name -> platform domain from `platformDomains` in the ui8kit config. */
+  private readPlatformDomains(configPath: string): Map<string, string> {
+    const domains = new Map<string, string>();
+    if (!existsSync(configPath)) return domains;
+    const platformDomains = (this.readJsonObject(configPath).platformDomains ?? {}) as Record<string, string[]>;
+    for (const [domain, entityNames] of Object.entries(platformDomains)) {
+      for (const entityName of entityNames) domains.set(entityName, domain);
+    }
+    return domains;
+  }
+
+  private toIssue(targetFile: string, error: ErrorObject, pointerPrefix = ''): Issue {
+    const instancePath = `${pointerPrefix}${error.instancePath}` || '/';
     const message = error.message ?? 'validation error';
     return this.createIssue(
       'error',
@@ -36,7 +36,7 @@ const RULE_SUGGESTIONS: Record<GenLintRuleCode, string> = {
   GEN003: "Extract local non-props types to '@/types' and import them.",
   GEN004: 'Replace rest params with explicit props fields in component signatures.',
   GEN005: 'Remove index signatures from props to keep prop contracts explicit.',
-  GEN006: 'Nest <Else> / <ElseIf> directly inside an <If> component.',
+  GEN006: 'Nest <Else> / <ElseIf> directly inside an <If> component, <Case> / <Default> inside a <Switch>, and <Loop.Empty> inside a <Loop>.',
   GEN007: "Replace '@ui8kit/sdk' imports with local DSL-compatible abstractions.",
   GEN008: "Use primitive/inline props or import shared types from '@/types'.",
 };
@@ -52,6 +52,15 @@ const RULE_HINTS: Record<GenLintRuleCode, string> = {
   GEN008: 'Unknown type references reduce portability across generator targets.',
 };
 
+/** Branch DSL components and the component they must be nested in */
+const BRANCH_PARENTS: Record<string, string> = {
+  Else: 'If',
+  ElseIf: 'If',
+  Case: 'Switch',
+  Default: 'Switch',
+  'Loop.Empty': 'Loop',
+};
+
 const ALLOWED_PRIMITIVES = new Set([
   'string',
   'number',
@@ -353,21 +362,21 @@ export class GenLintChecker extends BaseChecker<GenLintCheckerConfig> {
       }
 
       if (ts.isJsxElement(node)) {
-        const tagName = this.getJsxTagName(node.openingElement.tagName);
-        if (tagName === 'Else' || tagName === 'ElseIf') {
+        // Full tag text, so `<Loop.Empty>` is not mistaken for another `Empty`
+        const tagName = node.openingElement.tagName.getText(sourceFile);
+        const requiredParent = BRANCH_PARENTS[tagName];
+        if (requiredParent) {
           const parentJsx = ts.findAncestor(node.parent, (ancestor) =>
             ts.isJsxElement(ancestor)
           ) as ts.JsxElement | undefined;
-          const parentTagName = parentJsx
-            ? this.getJsxTagName(parentJsx.openingElement.tagName)
-            : undefined;
-          if (parentTagName !== 'If') {
+          const parentTagName = parentJsx?.openingElement.tagName.getText(sourceFile);
+          if (parentTagName !== requiredParent) {
             this.addIssue(
               issues,
               sourceFile,
               node,
               'GEN006',
-              `<${tagName}> must be nested inside <If>, not a sibling`,
+              `<${tagName}> must be nested inside <${requiredParent}>, not a sibling`,
               root
             );
           }
@@ -421,16 +430,6 @@ export class GenLintChecker extends BaseChecker<GenLintCheckerConfig> {
     visit(node);
   }
 
-  private getJsxTagName(name: ts.JsxTagNameExpression): string | undefined {
-    if (ts.isIdentifier(name)) {
-      return name.text;
-    }
-    if (ts.isPropertyAccessExpression(name)) {
-      return name.name.text;
-    }
-    return undefined;
-  }
-
   private relative(root: string, targetPath: string): string {
     return relative(root, targetPath).replace(/\\/g, '/');
   }
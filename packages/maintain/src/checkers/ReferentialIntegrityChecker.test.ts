@@ -0,0 +1,170 @@
+/**
+ * Tests for ReferentialIntegrityChecker (ids, slugs, cross-fixture references
+ * and navigation links)
+ */
+
+import { afterEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { ReferentialIntegrityChecker } from './ReferentialIntegrityChecker';
+import { Logger } from '../core';
+import type { CheckContext, IMaintainConfig, ReferentialIntegrityCheckerConfig } from '../core/interfaces';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let tempDir: string | undefined;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = undefined;
+});
+
+/** Write files (objects as JSON, strings as-is) into a temp project root */
+function createProject(files: Record<string, unknown>): string {
+  tempDir = mkdtempSync(join(tmpdir(), 'referential-integrity-'));
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(tempDir, path)), { recursive: true });
+    writeFileSync(join(tempDir, path), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return tempDir;
+}
+
+async function runChecker(root: string, config: ReferentialIntegrityCheckerConfig) {
+  const checker = new ReferentialIntegrityChecker();
+  checker.configure(config);
+  const context: CheckContext = {
+    root,
+    runId: 'test',
+    reportsDir: join(root, '.cursor/reports'),
+    config: { root, checkers: { referentialIntegrity: config } } as IMaintainConfig,
+    logger: new Logger({ level: 'silent' }),
+    mode: 'validate',
+  };
+  return checker.run(context);
+}
+
+const CONFIG: ReferentialIntegrityCheckerConfig = {
+  blueprint: 'blueprint.json',
+  appFile: 'src/App.tsx',
+  references: [
+    { entity: 'menu', field: 'promotionIds', target: 'promotions' },
+    { entity: 'recipes', field: 'linkedMenuItemId', target: 'menu' },
+  ],
+  navigation: { file: 'fixtures/shared/navigation.json' },
+};
+
+/** A consistent fixture set; `files` replaces individual files */
+function project(files: Record<string, unknown> = {}): string {
+  return createProject({
+    'blueprint.json': {
+      entities: [
+        { name: 'menu', fixture: 'fixtures/menu.json', itemsKey: 'items', slugField: 'slug', routes: ['/menu', '/menu/:slug'] },
+        { name: 'recipes', fixture: 'fixtures/recipes.json', itemsKey: 'items' },
+        { name: 'promotions', fixture: 'fixtures/promotions.json', itemsKey: 'items' },
+      ],
+    },
+    'fixtures/menu.json': {
+      items: [
+        { id: 'soup', slug: 'tomato-soup', promotionIds: ['summer'] },
+        { id: 'salad', slug: 'caesar', promotionIds: [] },
+      ],
+    },
+    'fixtures/recipes.json': { items: [{ id: 'r1', slug: 'r1', linkedMenuItemId: 'soup' }] },
+    'fixtures/promotions.json': { items: [{ id: 'summer', slug: 'summer' }] },
+    'fixtures/shared/navigation.json': { navItems: [{ url: '/' }, { url: '/menu' }, { url: '/menu/caesar' }] },
+    'src/App.tsx': `
+      <Routes>
+        <Route path="/" element={<Home />} />
+        <Route path="/menu" element={<MenuPage />} />
+        <Route path="/menu/:slug" element={<DetailPage />} />
+      </Routes>
+    `,
+    ...files,
+  });
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ReferentialIntegrityChecker', () => {
+  it('passes a clean fixture set', async () => {
+    const result = await runChecker(project(), CONFIG);
+
+    expect(result.success).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.stats).toMatchObject({ collections: 3, indexedItems: 4, references: 2, checkedLinks: 3, errorCount: 0 });
+  });
+
+  it('reports dangling ids with their JSON pointer', async () => {
+    const root = project({
+      'fixtures/menu.json': {
+        items: [
+          { id: 'soup', slug: 'tomato-soup', promotionIds: ['summer', 'winter'] },
+          { id: 'salad', slug: 'caesar' },
+        ],
+      },
+      'fixtures/recipes.json': { items: [{ id: 'r1', slug: 'r1', linkedMenuItemId: 'stew' }] },
+    });
+
+    const result = await runChecker(root, CONFIG);
+
+    expect(result.success).toBe(false);
+    expect(result.issues.map(({ code, message, received }) => ({ code, message, received }))).toEqual([
+      {
+        code: 'REF_DANGLING',
+        message: 'fixtures/menu.json /items/0/promotionIds/1: "winter" is not an id in promotions (fixtures/promotions.json)',
+        received: 'winter',
+      },
+      {
+        code: 'REF_DANGLING',
+        message: 'fixtures/recipes.json /items/0/linkedMenuItemId: "stew" is not an id in menu (fixtures/menu.json)',
+        received: 'stew',
+      },
+    ]);
+  });
+
+  it('reports references to a collection the blueprint does not define', async () => {
+    const result = await runChecker(project(), {
+      ...CONFIG,
+      references: [{ entity: 'menu', field: 'couponIds', target: 'coupons' }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.issues.map(({ code, message }) => ({ code, message }))).toEqual([
+      { code: 'REF_UNKNOWN_ENTITY', message: 'Reference menu.couponIds -> coupons: no entity collection "coupons"' },
+    ]);
+  });
+
+  it('reports duplicate ids and slugs within a collection', async () => {
+    const root = project({
+      'fixtures/promotions.json': { items: [{ id: 'summer', slug: 'summer' }, { id: 'summer', slug: 'summer' }] },
+    });
+
+    const result = await runChecker(root, CONFIG);
+
+    expect(result.issues.map(({ code, message }) => ({ code, message }))).toEqual([
+      { code: 'REF_DUPLICATE_ID', message: 'fixtures/promotions.json /items/1/id: "summer" duplicates /items/0/id' },
+      { code: 'REF_DUPLICATE_SLUG', message: 'fixtures/promotions.json /items/1/slug: "summer" duplicates /items/0/slug' },
+    ]);
+  });
+
+  it('reports navigation links that match no route or fixture slug', async () => {
+    const root = project({
+      'fixtures/shared/navigation.json': {
+        navItems: [{ url: '/menu/caesar' }, { url: '/menu/borscht' }, { url: '/about' }, { url: 'https://example.com' }],
+      },
+    });
+
+    const result = await runChecker(root, CONFIG);
+
+    expect(result.issues.map(({ code, message }) => ({ code, message }))).toEqual([
+      { code: 'REF_NAV_UNRESOLVED', message: 'fixtures/shared/navigation.json /navItems/1/url: "/menu/borscht" does not match a route' },
+      { code: 'REF_NAV_UNRESOLVED', message: 'fixtures/shared/navigation.json /navItems/2/url: "/about" does not match a route' },
+    ]);
+    expect(result.stats).toMatchObject({ checkedLinks: 3 });
+  });
+});
@@ -0,0 +1,210 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type {
+  CheckContext,
+  Issue,
+  ReferentialIntegrityCheckerConfig,
+  ReferentialIntegrityNavigationConfig,
+} from '../core/interfaces';
+import { FixtureIndex } from '../utils';
+import type { CheckerExecutionResult } from './BaseChecker';
+import { BaseChecker } from './BaseChecker';
+
+const DEFAULT_HREF_FIELDS = ['navItems.url', 'sidebarLinks.href', 'adminSidebarLinks.href'];
+
+export class ReferentialIntegrityChecker extends BaseChecker<ReferentialIntegrityCheckerConfig> {
+  constructor() {
+    super(
+      'referential-integrity',
+      'Validate ids, slugs, cross-fixture references and navigation links',
+      'referentialIntegrity'
+    );
+  }
+
+  protected async execute(context: CheckContext): Promise<CheckerExecutionResult> {
+    const config = this.getConfig();
+    const issues: Issue[] = [];
+
+    const blueprintPath = resolve(context.root, config.blueprint);
+    if (!existsSync(blueprintPath)) {
+      return {
+        success: false,
+        issues: [
+          this.createIssue('error', 'BLUEPRINT_FILE_MISSING', `Blueprint file not found: ${config.blueprint}`, {
+            file: config.blueprint,
+            hint: 'Run `bun run blueprint:scan` to generate blueprint.json.',
+          }),
+        ],
+      };
+    }
+
+    const index = FixtureIndex.fromBlueprint(context.root, blueprintPath);
+    for (const problem of index.problems) {
+      issues.push(this.createIssue('error', problem.code, problem.message, { file: problem.file }));
+    }
+
+    issues.push(...this.checkDuplicates(index));
+    issues.push(...this.checkReferences(index, config));
+
+    let checkedLinks = 0;
+    if (config.navigation) {
+      const linkIssues = this.checkNavigation(context.root, index, config.appFile, config.navigation);
+      checkedLinks = linkIssues.checked;
+      issues.push(...linkIssues.issues);
+    }
+
+    const errorCount = issues.filter((issue) => issue.level === 'error').length;
+    return {
+      success: errorCount === 0,
+      issues,
+      stats: {
+        collections: index.collections.size,
+        indexedItems: [...index.collections.values()].reduce((sum, collection) => sum + collection.items.length, 0),
+        references: config.references?.length ?? 0,
+        checkedLinks,
+        errorCount,
+      },
+    };
+  }
+
+  /** Ids and slugs must be unique within each collection. */
+  private checkDuplicates(index: FixtureIndex): Issue[] {
+    const issues: Issue[] = [];
+    for (const { entity, items } of index.collections.values()) {
+      for (const field of ['id', entity.slugField ?? 'slug']) {
+        const firstSeen = new Map<unknown, number>();
+        items.forEach((item, position) => {
+          const value = (item as Record<string, unknown> | null)?.[field];
+          if (value === undefined) return;
+          const first = firstSeen.get(value);
+          if (first === undefined) {
+            firstSeen.set(value, position);
+            return;
+          }
+          issues.push(
+            this.createIssue(
+              'error',
+              field === 'id' ? 'REF_DUPLICATE_ID' : 'REF_DUPLICATE_SLUG',
+              `${entity.fixture} /${entity.itemsKey}/${position}/${field}: "${String(value)}" duplicates /${entity.itemsKey}/${first}/${field}`,
+              {
+                file: entity.fixture,
+                received: String(value),
+                hint: `Each ${entity.name} item needs a unique ${field}; detail routes and references resolve by it.`,
+              }
+            )
+          );
+        });
+      }
+    }
+    return issues;
+  }
+
+  private checkReferences(index: FixtureIndex, config: ReferentialIntegrityCheckerConfig): Issue[] {
+    const issues: Issue[] = [];
+    for (const reference of config.references ?? []) {
+      const dangling = index.findDanglingReferences(reference);
+      if (!dangling) {
+        const missing = index.collections.has(reference.entity) ? reference.target : reference.entity;
+        issues.push(
+          this.createIssue(
+            'error',
+            'REF_UNKNOWN_ENTITY',
+            `Reference ${reference.entity}.${reference.field} -> ${reference.target}: no entity collection "${missing}"`,
+            { hint: 'Use entity names from blueprint.json in referentialIntegrity.references.' }
+          )
+        );
+        continue;
+      }
+      for (const { source, target, value, pointer } of dangling) {
+        issues.push(
+          this.createIssue(
+            'error',
+            'REF_DANGLING',
+            `${source.entity.fixture} ${pointer}: "${String(value)}" is not an id in ${reference.target} (${target.entity.fixture})`,
+            {
+              file: source.entity.fixture,
+              expected: `id of ${reference.target}`,
+              received: String(value),
+              hint: `Point ${reference.field} at an existing ${reference.target} item or remove the reference.`,
+            }
+          )
+        );
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Internal navigation hrefs must match an App route. Dynamic segments of
+   * blueprint entity routes (e.g. /menu/:slug) only match existing slugs.
+   */
+  private checkNavigation(
+    root: string,
+    index: FixtureIndex,
+    appFile: string,
+    navigation: ReferentialIntegrityNavigationConfig
+  ): { issues: Issue[]; checked: number } {
+    const navigationPath = resolve(root, navigation.file);
+    const appPath = resolve(root, appFile);
+    const missing = [navigation.file, appFile].filter((file) => !existsSync(resolve(root, file)));
+    if (missing.length > 0) {
+      return {
+        checked: 0,
+        issues: missing.map((file) =>
+          this.createIssue('error', 'REF_FILE_MISSING', `File not found: ${file}`, {
+            file,
+            hint: 'Fix referentialIntegrity.appFile or referentialIntegrity.navigation.file.',
+          })
+        ),
+      };
+    }
+
+    const routes = this.extractRoutePaths(readFileSync(appPath, 'utf-8'));
+    const slugsByRoute = new Map<string, Set<unknown>>();
+    for (const { entity } of index.collections.values()) {
+      for (const route of entity.routes ?? []) {
+        if (route.includes('/:')) slugsByRoute.set(route, index.slugs(entity.name));
+      }
+    }
+
+    const data = JSON.parse(readFileSync(navigationPath, 'utf-8')) as unknown;
+    const links = (navigation.hrefFields ?? DEFAULT_HREF_FIELDS).flatMap((field) => FixtureIndex.valuesAt(data, field));
+    const issues: Issue[] = [];
+    let checked = 0;
+
+    for (const { value, pointer } of links) {
+      if (typeof value !== 'string' || !value.startsWith('/') || value.startsWith('//')) continue;
+      checked += 1;
+      const path = this.normalizePath(value);
+      if (routes.some((route) => this.matchesRoute(route, path, slugsByRoute.get(route)))) continue;
+      issues.push(
+        this.createIssue('error', 'REF_NAV_UNRESOLVED', `${navigation.file} ${pointer}: "${value}" does not match a route`, {
+          file: navigation.file,
+          received: value,
+          expected: routes.join(', '),
+          hint: `Add the route to ${appFile}, fix the href, or add the fixture item it points at.`,
+        })
+      );
+    }
+    return { issues, checked };
+  }
+
+  private matchesRoute(route: string, path: string, slugs: Set<unknown> | undefined): boolean {
+    const routeSegments = this.normalizePath(route).split('/');
+    const pathSegments = path.split('/');
+    if (routeSegments.length !== pathSegments.length) return false;
+    return routeSegments.every((segment, position) => {
+      if (!segment.startsWith(':')) return segment === pathSegments[position];
+      return slugs ? slugs.has(decodeURIComponent(pathSegments[position])) : pathSegments[position] !== '';
+    });
+  }
+
+  private normalizePath(href: string): string {
+    const path = href.split(/[?#]/)[0];
+    return path.length > 1 ? path.replace(/\/+$/, '') : path;
+  }
+
+  private extractRoutePaths(content: string): string[] {
+    return [...content.matchAll(/path=['"]([^'"]+)['"]/g)].map((match) => match[1] ?? '');
+  }
+}
@@ -15,3 +15,5 @@ export { ViewHooksChecker } from './ViewHooksChecker';
 export { UtilityPropLiteralsChecker } from './UtilityPropLiteralsChecker';
 export { OrphanFilesChecker } from './OrphanFilesChecker';
 export { BlockNestingChecker } from './BlockNestingChecker';
+export { CanonicalTypesChecker } from './CanonicalTypesChecker';
+export { ReferentialIntegrityChecker } from './ReferentialIntegrityChecker';
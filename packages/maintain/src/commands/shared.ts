@@ -1,6 +1,7 @@
 import { resolve } from 'node:path';
 import {
   BlockNestingChecker,
+  CanonicalTypesChecker,
   CleanChecker,
   ColorTokenChecker,
   ComponentTagChecker,
@@ -12,6 +13,7 @@ import {
   LockedDirsChecker,
   OrphanFilesChecker,
   RefactorAuditChecker,
+  ReferentialIntegrityChecker,
   UtilityPropLiteralsChecker,
   ViewExportsChecker,
   ViewHooksChecker,
@@ -64,6 +66,8 @@ export async function executeMaintainRun(
     new UtilityPropLiteralsChecker(),
     new OrphanFilesChecker(),
     new BlockNestingChecker(),
+    new CanonicalTypesChecker(),
+    new ReferentialIntegrityChecker(),
   ] as const;
 
   const orchestrator = new MaintainOrchestrator({
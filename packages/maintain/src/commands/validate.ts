@@ -1,7 +1,14 @@
 import type { Command } from 'commander';
 import { executeMaintainRun } from './shared';
 
-const DEFAULT_VALIDATE_CHECKERS = ['invariants', 'fixtures', 'view-exports', 'contracts'];
+const DEFAULT_VALIDATE_CHECKERS = [
+  'invariants',
+  'fixtures',
+  'view-exports',
+  'contracts',
+  'canonical-types',
+  'referential-integrity',
+];
 
 function normalizeCheckerName(name: string): string {
   const aliases: Record<string, string> = {
@@ -11,6 +18,8 @@ function normalizeCheckerName(name: string): string {
     componentTag: 'component-tag',
     colorTokens: 'color-tokens',
     genLint: 'gen-lint',
+    canonicalTypes: 'canonical-types',
+    referentialIntegrity: 'referential-integrity',
   };
   return aliases[name] ?? name;
 }
@@ -28,7 +37,7 @@ function parseCheckerList(value?: string): string[] {
 export function registerValidateCommand(program: Command): void {
   program
     .command('validate')
-    .description('Run validation checkers (invariants, fixtures, view exports, contracts)')
+    .description('Run validation checkers (invariants, fixtures, view exports, contracts, canonical types)')
     .option('--cwd <dir>', 'Working directory', '.')
     .option('--config <path>', 'Maintain config file path', 'maintain.config.json')
     .option('--check <names>', 'Comma-separated checker names')
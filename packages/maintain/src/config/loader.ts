@@ -31,6 +31,12 @@ const invariantsSchema = z.object({
   }),
 });
 
+const fixtureReferenceSchema = z.object({
+  entity: z.string().min(1),
+  field: z.string().min(1),
+  target: z.string().min(1),
+});
+
 const fixturesSchema = z.object({
   targets: z
     .array(
@@ -40,6 +46,15 @@ const fixturesSchema = z.object({
       })
     )
     .min(1),
+  entities: z
+    .object({
+      blueprint: z.string().min(1),
+      schemasDir: z.string().min(1).optional(),
+      ui8kitConfig: z.string().min(1).optional(),
+      itemSchemas: z.record(z.string().min(1), z.string().min(1)).optional(),
+      references: z.array(fixtureReferenceSchema).optional(),
+    })
+    .optional(),
 });
 
 const viewExportsSchema = z.object({
@@ -132,6 +147,33 @@ const blockNestingSchema = z.object({
   pattern: z.string().min(1),
 });
 
+const canonicalTypesSchema = z.object({
+  schemasDir: z.string().min(1),
+  generatedFile: z.string().min(1),
+  types: z
+    .array(
+      z.object({
+        file: z.string().min(1),
+        type: z.string().min(1),
+        canonical: z.string().min(1),
+        extraProperties: z.array(z.string().min(1)).optional(),
+      })
+    )
+    .min(1),
+});
+
+const referentialIntegritySchema = z.object({
+  blueprint: z.string().min(1),
+  appFile: z.string().min(1),
+  references: z.array(fixtureReferenceSchema).optional(),
+  navigation: z
+    .object({
+      file: z.string().min(1),
+      hrefFields: z.array(z.string().min(1)).optional(),
+    })
+    .optional(),
+});
+
 const checkersSchema = z
   .object({
     refactorAudit: refactorAuditSchema.optional(),
@@ -149,6 +191,8 @@ const checkersSchema = z
     utilityPropLiterals: utilityPropLiteralsSchema.optional(),
     orphanFiles: orphanFilesSchema.optional(),
     blockNesting: blockNestingSchema.optional(),
+    canonicalTypes: canonicalTypesSchema.optional(),
+    referentialIntegrity: referentialIntegritySchema.optional(),
   })
   .strict();
 
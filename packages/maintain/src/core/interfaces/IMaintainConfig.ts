@@ -32,8 +32,30 @@ export interface FixturesTargetConfig {
   schema: string;
 }
 
+export interface FixtureReferenceConfig {
+  /** Source entity name, e.g. menu */
+  entity: string;
+  /** Item field holding an id or an array of ids; dotted for nested fields, e.g. discount.appliesTo.productIds */
+  field: string;
+  /** Entity whose item ids are valid values, e.g. promotions */
+  target: string;
+}
+
+export interface FixturesEntitiesConfig {
+  /** Blueprint listing entity fixtures (name, fixture, itemsKey) */
+  blueprint: string;
+  /** Canonical item schemas directory (default: schemas/canonical) */
+  schemasDir?: string;
+  /** ui8kit config mapping entities to platform domains (default: ui8kit.config.json) */
+  ui8kitConfig?: string;
+  /** Entity name or platform domain -> item schema file in schemasDir; overrides the domain defaults */
+  itemSchemas?: Record<string, string>;
+}
+
 export interface FixturesCheckerConfig {
   targets: FixturesTargetConfig[];
+  /** Validate blueprint entity collections item by item against canonical item schemas */
+  entities?: FixturesEntitiesConfig;
 }
 
 export type ViewExportShape = 'interface+function';
@@ -131,6 +153,42 @@ export interface BlockNestingCheckerConfig {
   pattern: string;
 }
 
+export interface CanonicalTypeMappingConfig {
+  /** File declaring the hand-written type (relative to app root) */
+  file: string;
+  /** Hand-written type or interface name */
+  type: string;
+  /** Generated canonical type, optionally with a dotted path to an inline object (e.g. CatalogItem.variants) */
+  canonical: string;
+  /** View-only properties allowed on the hand-written type */
+  extraProperties?: string[];
+}
+
+export interface CanonicalTypesCheckerConfig {
+  /** Canonical JSON Schemas directory */
+  schemasDir: string;
+  /** Module written by `ui8kit-generate types:canonical` */
+  generatedFile: string;
+  types: CanonicalTypeMappingConfig[];
+}
+
+export interface ReferentialIntegrityNavigationConfig {
+  /** Navigation fixture, e.g. fixtures/shared/navigation.json */
+  file: string;
+  /** Dotted href paths; arrays are expanded (default: navItems.url, sidebarLinks.href, adminSidebarLinks.href) */
+  hrefFields?: string[];
+}
+
+export interface ReferentialIntegrityCheckerConfig {
+  /** Blueprint listing entity fixtures, their slug field and routes */
+  blueprint: string;
+  /** App file with <Route path="..."> declarations */
+  appFile: string;
+  /** Item fields that must reference existing items of another entity */
+  references?: FixtureReferenceConfig[];
+  navigation?: ReferentialIntegrityNavigationConfig;
+}
+
 export interface KnownCheckerConfigs {
   refactorAudit?: RefactorAuditConfig;
   invariants?: InvariantsCheckerConfig;
@@ -147,6 +205,8 @@ export interface KnownCheckerConfigs {
   utilityPropLiterals?: UtilityPropLiteralsCheckerConfig;
   orphanFiles?: OrphanFilesCheckerConfig;
   blockNesting?: BlockNestingCheckerConfig;
+  canonicalTypes?: CanonicalTypesCheckerConfig;
+  referentialIntegrity?: ReferentialIntegrityCheckerConfig;
 }
 
 export type MaintainCheckerConfigMap = Record<string, unknown> & KnownCheckerConfigs;
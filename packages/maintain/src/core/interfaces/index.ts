@@ -6,6 +6,8 @@ export type {
   InvariantsCheckerConfig,
   FixturesCheckerConfig,
   FixturesTargetConfig,
+  FixturesEntitiesConfig,
+  FixtureReferenceConfig,
   ViewExportsCheckerConfig,
   ViewExportShape,
   ContractTestsCheckerConfig,
@@ -22,6 +24,10 @@ export type {
   UtilityPropLiteralsCheckerConfig,
   OrphanFilesCheckerConfig,
   BlockNestingCheckerConfig,
+  CanonicalTypeMappingConfig,
+  CanonicalTypesCheckerConfig,
+  ReferentialIntegrityCheckerConfig,
+  ReferentialIntegrityNavigationConfig,
   MaintainCheckerConfigMap,
   KnownCheckerConfigs,
 } from './IMaintainConfig';
@@ -0,0 +1,135 @@
+/**
+ * Tests for FixtureIndex (blueprint collections shared by the fixtures and
+ * referential-integrity checkers)
+ */
+
+import { afterEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { FixtureIndex } from './FixtureIndex';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let tempDir: string | undefined;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = undefined;
+});
+
+/** Write files (objects as JSON, strings as-is) into a temp project root */
+function createProject(files: Record<string, unknown>): string {
+  tempDir = mkdtempSync(join(tmpdir(), 'fixture-index-'));
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(tempDir, path)), { recursive: true });
+    writeFileSync(join(tempDir, path), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return tempDir;
+}
+
+const BLUEPRINT = {
+  entities: [
+    { name: 'menu', fixture: 'fixtures/menu.json', itemsKey: 'items', slugField: 'slug' },
+    { name: 'promotions', fixture: 'fixtures/promotions.json', itemsKey: 'items' },
+  ],
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('FixtureIndex', () => {
+  describe('fromBlueprint', () => {
+    it('indexes collections by entity name with their ids and slugs', () => {
+      const root = createProject({
+        'blueprint.json': BLUEPRINT,
+        'fixtures/menu.json': { items: [{ id: 'soup', slug: 'tomato-soup' }, { id: 'salad', slug: 'caesar' }] },
+        'fixtures/promotions.json': { items: [{ id: 'summer' }] },
+      });
+
+      const index = FixtureIndex.fromBlueprint(root, join(root, 'blueprint.json'));
+
+      expect([...index.collections.keys()]).toEqual(['menu', 'promotions']);
+      expect(index.problems).toEqual([]);
+      expect(index.ids('menu')).toEqual(new Set(['soup', 'salad']));
+      expect(index.slugs('menu')).toEqual(new Set(['tomato-soup', 'caesar']));
+    });
+
+    it('records malformed JSON and skips the collection', () => {
+      const root = createProject({
+        'blueprint.json': BLUEPRINT,
+        'fixtures/menu.json': '{ "items": [',
+        'fixtures/promotions.json': { items: [] },
+      });
+
+      const index = FixtureIndex.fromBlueprint(root, join(root, 'blueprint.json'));
+
+      expect([...index.collections.keys()]).toEqual(['promotions']);
+      expect(index.problems).toHaveLength(1);
+      expect(index.problems[0]).toMatchObject({ code: 'FIXTURE_INVALID_JSON', file: 'fixtures/menu.json' });
+      expect(index.problems[0]?.message).toStartWith('fixtures/menu.json: invalid JSON (');
+    });
+
+    it('records a malformed blueprint without throwing', () => {
+      const root = createProject({ 'blueprint.json': '{ entities: [] }' });
+
+      const index = FixtureIndex.fromBlueprint(root, join(root, 'blueprint.json'));
+
+      expect(index.collections.size).toBe(0);
+      expect(index.problems.map((problem) => [problem.code, problem.file])).toEqual([
+        ['FIXTURE_INVALID_JSON', 'blueprint.json'],
+      ]);
+    });
+
+    it('records missing files and fixtures without an array at itemsKey', () => {
+      const root = createProject({
+        'blueprint.json': BLUEPRINT,
+        'fixtures/menu.json': { dishes: [] },
+      });
+
+      const index = FixtureIndex.fromBlueprint(root, join(root, 'blueprint.json'));
+
+      expect(index.collections.size).toBe(0);
+      expect(index.problems.map(({ code, message }) => ({ code, message }))).toEqual([
+        { code: 'FIXTURE_ITEMS_MISSING', message: 'fixtures/menu.json /items: must be array' },
+        { code: 'FIXTURE_FILE_MISSING', message: 'Fixture file not found: fixtures/promotions.json' },
+      ]);
+    });
+  });
+
+  describe('valuesAt', () => {
+    it('expands arrays along the path with JSON pointers', () => {
+      const navigation = { navItems: [{ url: '/menu' }, { title: 'No link' }, { url: '/blog' }] };
+
+      expect(FixtureIndex.valuesAt(navigation, 'navItems.url')).toEqual([
+        { value: '/menu', pointer: '/navItems/0/url' },
+        { value: '/blog', pointer: '/navItems/2/url' },
+      ]);
+      expect(FixtureIndex.valuesAt({ promotionIds: ['a', 'b'] }, 'promotionIds', '/items/3')).toEqual([
+        { value: 'a', pointer: '/items/3/promotionIds/0' },
+        { value: 'b', pointer: '/items/3/promotionIds/1' },
+      ]);
+    });
+  });
+
+  describe('findDanglingReferences', () => {
+    it('returns reference values that are not target ids, or undefined for unknown entities', () => {
+      const root = createProject({
+        'blueprint.json': BLUEPRINT,
+        'fixtures/menu.json': { items: [{ id: 'soup', promotionIds: ['summer', 'winter'] }] },
+        'fixtures/promotions.json': { items: [{ id: 'summer' }] },
+      });
+      const index = FixtureIndex.fromBlueprint(root, join(root, 'blueprint.json'));
+
+      const dangling = index.findDanglingReferences({ entity: 'menu', field: 'promotionIds', target: 'promotions' });
+
+      expect(dangling?.map(({ value, pointer }) => ({ value, pointer }))).toEqual([
+        { value: 'winter', pointer: '/items/0/promotionIds/1' },
+      ]);
+      expect(index.findDanglingReferences({ entity: 'menu', field: 'promotionIds', target: 'coupons' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import type { FixtureReferenceConfig } from '../core/interfaces';
+
+export interface BlueprintCollectionEntity {
+  name: string;
+  fixture: string;
+  itemsKey: string;
+  slugField?: string;
+  routes?: string[];
+}
+
+export interface FixtureCollection {
+  entity: BlueprintCollectionEntity;
+  items: unknown[];
+}
+
+export interface FixtureCollectionProblem {
+  code: 'FIXTURE_FILE_MISSING' | 'FIXTURE_ITEMS_MISSING' | 'FIXTURE_INVALID_JSON';
+  /** Fixture (or blueprint) path as written in the blueprint/config */
+  file: string;
+  entity?: BlueprintCollectionEntity;
+  message: string;
+}
+
+/** A value found at a field path, with its JSON pointer in the fixture file. */
+export interface FixtureFieldValue {
+  value: unknown;
+  pointer: string;
+}
+
+export interface DanglingReference {
+  source: FixtureCollection;
+  target: FixtureCollection;
+  value: unknown;
+  pointer: string;
+}
+
+/**
+ * Blueprint entity collections loaded from their fixtures, indexed by entity name.
+ * Shared by the fixtures and referential-integrity checkers.
+ */
+export class FixtureIndex {
+  readonly collections = new Map<string, FixtureCollection>();
+  readonly problems: FixtureCollectionProblem[] = [];
+
+  static fromBlueprint(root: string, blueprintPath: string): FixtureIndex {
+    const index = new FixtureIndex();
+    const blueprint = index.readJson(blueprintPath, relative(root, blueprintPath).replace(/\\/g, '/')) as {
+      entities?: BlueprintCollectionEntity[];
+    } | null;
+
+    for (const entity of blueprint?.entities ?? []) {
+      const fixturePath = resolve(root, entity.fixture);
+      if (!existsSync(fixturePath)) {
+        index.problems.push({
+          code: 'FIXTURE_FILE_MISSING',
+          file: entity.fixture,
+          entity,
+          message: `Fixture file not found: ${entity.fixture}`,
+        });
+        continue;
+      }
+      const data = index.readJson(fixturePath, entity.fixture, entity) as Record<string, unknown> | null | undefined;
+      if (data === undefined) continue;
+      const items = data?.[entity.itemsKey];
+      if (!Array.isArray(items)) {
+        index.problems.push({
+          code: 'FIXTURE_ITEMS_MISSING',
+          file: entity.fixture,
+          entity,
+          message: `${entity.fixture} /${entity.itemsKey}: must be array`,
+        });
+        continue;
+      }
+      index.collections.set(entity.name, { entity, items });
+    }
+    return index;
+  }
+
+  /**
+   * Values at a dotted field path; arrays along the path (and at its end) are
+   * expanded, e.g. `promotionIds` -> `/promotionIds/0`, `navItems.url` -> `/navItems/2/url`.
+   */
+  static valuesAt(data: unknown, field: string, pointer = ''): FixtureFieldValue[] {
+    const expand = (value: unknown, valuePointer: string): FixtureFieldValue[] =>
+      Array.isArray(value)
+        ? value.map((entry, position) => ({ value: entry, pointer: `${valuePointer}/${position}` }))
+        : [{ value, pointer: valuePointer }];
+
+    let current: FixtureFieldValue[] = [{ value: data, pointer }];
+    for (const key of field.split('.')) {
+      current = current.flatMap((entry) => {
+        const next = (entry.value as Record<string, unknown> | null | undefined)?.[key];
+        return next === undefined ? [] : expand(next, `${entry.pointer}/${key}`);
+      });
+    }
+    return current;
+  }
+
+  /** Item ids of a collection. */
+  ids(entityName: string): Set<unknown> {
+    return new Set(this.itemValues(entityName, 'id'));
+  }
+
+  /** Item slugs of a collection (blueprint `slugField`, default slug). */
+  slugs(entityName: string): Set<unknown> {
+    const slugField = this.collections.get(entityName)?.entity.slugField ?? 'slug';
+    return new Set(this.itemValues(entityName, slugField));
+  }
+
+  /** Reference values that are not ids of the target collection; undefined when an entity is unknown. */
+  findDanglingReferences(reference: FixtureReferenceConfig): DanglingReference[] | undefined {
+    const source = this.collections.get(reference.entity);
+    const target = this.collections.get(reference.target);
+    if (!source || !target) return undefined;
+
+    const ids = this.ids(reference.target);
+    return source.items.flatMap((item, index) =>
+      FixtureIndex.valuesAt(item, reference.field, `/${source.entity.itemsKey}/${index}`)
+        .filter((entry) => !ids.has(entry.value))
+        .map((entry) => ({ source, target, value: entry.value, pointer: entry.pointer }))
+    );
+  }
+
+  /** Parsed JSON, or undefined after recording a FIXTURE_INVALID_JSON problem. */
+  private readJson(path: string, file: string, entity?: BlueprintCollectionEntity): unknown {
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.problems.push({ code: 'FIXTURE_INVALID_JSON', file, entity, message: `${file}: invalid JSON (${message})` });
+      return undefined;
+    }
+  }
+
+  private itemValues(entityName: string, field: string): unknown[] {
+    return (this.collections.get(entityName)?.items ?? []).map(
+      (item) => (item as Record<string, unknown> | null)?.[field]
+    );
+  }
+}
@@ -12,3 +12,12 @@ export type {
 
 export { ClassMatcher } from './ClassMatcher';
 export type { ClassConflict } from './ClassMatcher';
+
+export { FixtureIndex } from './FixtureIndex';
+export type {
+  BlueprintCollectionEntity,
+  FixtureCollection,
+  FixtureCollectionProblem,
+  FixtureFieldValue,
+  DanglingReference,
+} from './FixtureIndex';